@@ -0,0 +1,60 @@
+import React from 'react';
+import { screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import App from './App';
+import { renderWithRouter } from './test-utils/renderWithRouter';
+
+// Axe runs are slow in jsdom
+const AXE_TIMEOUT_MS = 30000;
+
+beforeEach(() => {
+  global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+});
+
+const renderOffline = async () => {
+  const view = renderWithRouter(<App />);
+  await screen.findByText(/API Offline/i, {}, { timeout: 3000 });
+  return view;
+};
+
+test('every tab passes axe', async () => {
+  const { container } = await renderOffline();
+  for (const tab of ['Analyze', 'Generate', 'Passphrase', 'Bulk Audit', 'Policy', 'History']) {
+    fireEvent.click(screen.getByRole('tab', { name: tab }));
+    expect(screen.getByRole('tabpanel', { name: tab })).toBeInTheDocument();
+    expect(await axe(container)).toHaveNoViolations();
+  }
+}, AXE_TIMEOUT_MS);
+
+test('analysis results pass axe, take focus and are announced', async () => {
+  const { container } = await renderOffline();
+  fireEvent.change(screen.getByLabelText('Enter Password to Analyze'), { target: { value: 'Dragon1987!' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Show password' }));
+  expect(screen.getByRole('button', { name: 'Hide password' })).toHaveAttribute('aria-pressed', 'true');
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByRole('heading', { name: 'Analysis Results' })).toHaveFocus();
+  expect(screen.getByTestId('live-region')).toHaveTextContent(/^Analysis complete: Weak/);
+
+  fireEvent.click(screen.getByRole('button', { name: /Improve This Password/ }));
+  await screen.findAllByRole('button', { name: /Use This/ });
+  expect(await axe(container)).toHaveNoViolations();
+}, AXE_TIMEOUT_MS);
+
+test('copying shows a status message instead of an alert', async () => {
+  const writeText = jest.fn().mockResolvedValue(undefined);
+  Object.assign(navigator, { clipboard: { writeText } });
+  window.alert = jest.fn();
+  await renderOffline();
+
+  fireEvent.click(screen.getByRole('tab', { name: 'Generate' }));
+  fireEvent.click(screen.getByRole('button', { name: /Generate Passwords/i }));
+  const [copy] = await screen.findAllByRole('button', { name: 'Copy password' });
+  fireEvent.click(copy);
+
+  const copied = 'Copied to clipboard. It will be cleared in 30 seconds.';
+  expect(await screen.findByText(copied)).toBeVisible();
+  expect(screen.getAllByRole('status').map(status => status.textContent)).toContain(copied);
+  expect(writeText).toHaveBeenCalled();
+  expect(window.alert).not.toHaveBeenCalled();
+});
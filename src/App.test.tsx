@@ -1,9 +1,210 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
 import App from './App';
+import { createMockRangeServer } from './test-utils/mockRangeServer';
+import { renderWithRouter } from './test-utils/renderWithRouter';
+import { analyzeLocally } from './lib/localAnalyzer';
 
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+beforeEach(() => {
+  global.fetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+});
+
+test('renders the analyzer header', async () => {
+  renderWithRouter(<App />);
+  expect(screen.getByText(/AI Password Analyzer/i)).toBeInTheDocument();
+  await screen.findByText(/API Offline/i, {}, { timeout: 3000 });
+});
+
+test('falls back to the local heuristic when the API is offline', async () => {
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Offline/i, {}, { timeout: 3000 })).toBeInTheDocument();
+
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'qwerty123' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByText(/Offline Estimate/i)).toBeInTheDocument();
+  expect(screen.getAllByText('Weak').length).toBeGreaterThan(0);
+});
+
+test('generates passphrases on the device when the API is offline', async () => {
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Offline/i, {}, { timeout: 3000 })).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('tab', { name: 'Passphrase' }));
+  expect(screen.getByLabelText(/Generate on this device/i)).toBeChecked();
+  fireEvent.click(screen.getByRole('button', { name: /Generate Passphrases/i }));
+
+  expect(await screen.findByText('Generated Passphrases')).toBeInTheDocument();
+  screen.getAllByRole('button', { name: 'Show' }).forEach(button => fireEvent.click(button));
+  expect(screen.getAllByText(/^[a-z]+(-[a-z]+){3,}$/)).toHaveLength(5);
+  expect(global.fetch).not.toHaveBeenCalledWith(expect.stringMatching(/generate/), expect.anything());
+});
+
+test('privacy mode never sends the plaintext password', async () => {
+  const rangeServer = createMockRangeServer({ 'Winter2024!': 42 });
+  const fetchMock = jest.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input).endsWith('/health')) {
+      return Promise.resolve({
+        ok: true,
+        json: async () => ({ status: 'ok', models_loaded: true, available_models: ['rf'], breach_database_size: 1 })
+      } as Response);
+    }
+    return rangeServer.fetch(input, init);
+  });
+  global.fetch = fetchMock;
+
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Connected/i)).toBeInTheDocument();
+
+  fireEvent.click(screen.getByLabelText(/Privacy mode/i));
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'Winter2024!' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByText(/Password Compromised/i)).toBeInTheDocument();
+  expect(screen.getByTestId('breach-check-mode')).toHaveTextContent(/k-anonymity/);
+  fetchMock.mock.calls.forEach(([input, init]) => {
+    expect(String(input)).not.toMatch(/analyze|Winter/);
+    expect(String(init?.body ?? '')).not.toMatch(/Winter/);
+  });
+});
+
+test('shows an error instead of crashing when the API response changes shape', async () => {
+  global.fetch = jest.fn((input: RequestInfo | URL) => Promise.resolve({
+    ok: true,
+    json: async () => String(input).endsWith('/health')
+      ? { status: 'ok', models_loaded: true, available_models: ['rf'], breach_database_size: 1 }
+      : { consensus: 'Strong', metrics: { entropy: 80 } }
+  } as Response));
+
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Connected/i)).toBeInTheDocument();
+
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'hunter2' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByText(/Unexpected response from \/analyze/i)).toBeInTheDocument();
+  expect(screen.getByText(/Local Estimate/i)).toBeInTheDocument();
+});
+
+test('live mode debounces typing and cancels stale requests', async () => {
+  const signals: Record<string, AbortSignal | undefined> = {};
+  global.fetch = jest.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input).endsWith('/health')) {
+      return Promise.resolve({
+        ok: true,
+        json: async () => ({ status: 'ok', models_loaded: true, available_models: ['rf'], breach_database_size: 1 })
+      } as Response);
+    }
+    const { password } = JSON.parse(String(init?.body));
+    signals[password] = init?.signal ?? undefined;
+    if (password === 'first-draft') {
+      // Never answers on its own; only an abort settles it
+      return new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+    }
+    const { source, breach_check, ...local } = analyzeLocally(password);
+    return Promise.resolve({ ok: true, json: async () => ({ ...local, predictions: { rf: 'Strong' }, consensus: 'Strong' }) } as Response);
+  });
+
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Connected/i)).toBeInTheDocument();
+  fireEvent.click(screen.getByLabelText(/Live analysis/i));
+
+  const input = screen.getByPlaceholderText(/Type your password here/i);
+  fireEvent.change(input, { target: { value: 'first-draft' } });
+  expect(screen.getByTestId('strength-meter')).toHaveTextContent(/waiting for the models/);
+  await waitFor(() => expect(signals['first-draft']).toBeDefined());
+
+  fireEvent.change(input, { target: { value: 'second-draft' } });
+  expect(await screen.findByText('Consensus Prediction')).toBeInTheDocument();
+  expect(signals['first-draft']?.aborted).toBe(true);
+  expect(screen.queryByTestId('strength-meter')).not.toBeInTheDocument();
+});
+
+test('switches to Arabic with a right-to-left layout', async () => {
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Offline/i, {}, { timeout: 3000 })).toBeInTheDocument();
+
+  fireEvent.change(screen.getByRole('combobox', { name: 'Language' }), { target: { value: 'ar' } });
+  expect(document.documentElement).toHaveAttribute('dir', 'rtl');
+  expect(document.documentElement).toHaveAttribute('lang', 'ar');
+
+  fireEvent.change(screen.getByPlaceholderText('اكتب كلمة المرور هنا...'), { target: { value: 'qwerty123' } });
+  fireEvent.click(screen.getByRole('button', { name: 'حلّل كلمة المرور' }));
+
+  expect(await screen.findByText('تقدير دون اتصال')).toBeInTheDocument();
+  expect(screen.getByText('الوقت اللازم للاختراق')).toBeInTheDocument();
+  expect(screen.getByText('لم يُتحقق من قاعدة بيانات التسريبات لهذه الكلمة.')).toBeInTheDocument();
+  expect(screen.getByText('أضف أحرفًا كبيرة.')).toBeInTheDocument();
+
+  fireEvent.change(screen.getByRole('combobox', { name: 'اللغة' }), { target: { value: 'en' } });
+  expect(document.documentElement).toHaveAttribute('dir', 'ltr');
+});
+
+test('each tab is a route that can be linked to directly', async () => {
+  renderWithRouter(<App />, '/passphrase?words=5');
+  expect(await screen.findByText(/API Offline/i, {}, { timeout: 3000 })).toBeInTheDocument();
+  expect(screen.getByRole('tab', { name: 'Passphrase' })).toHaveAttribute('aria-selected', 'true');
+  expect(screen.getByLabelText('Number of Words: 5')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('tab', { name: 'Generate' }));
+  expect(screen.getByTestId('location')).toHaveTextContent(/^\/generate\?/);
+  expect(screen.getByRole('button', { name: 'Generate Passwords' })).toBeInTheDocument();
+});
+
+test('redirects unknown routes to the analyzer', async () => {
+  renderWithRouter(<App />, '/nowhere');
+  expect(await screen.findByText(/API Offline/i, {}, { timeout: 3000 })).toBeInTheDocument();
+  expect(screen.getByTestId('location')).toHaveTextContent('/analyze');
+  expect(screen.getByRole('tab', { name: 'Analyze' })).toHaveAttribute('aria-selected', 'true');
+});
+
+test('status drawer shows what the API reports and recovers without a reload', async () => {
+  renderWithRouter(<App />);
+  const badge = await screen.findByRole('button', { name: /API Offline/i }, { timeout: 3000 });
+  fireEvent.click(badge);
+  expect(badge).toHaveAttribute('aria-expanded', 'true');
+  expect(screen.getByTestId('api-last-check')).toHaveTextContent(/no response/);
+
+  global.fetch = jest.fn().mockResolvedValue({
+    ok: true,
+    json: async () => ({ status: 'ok', models_loaded: true, available_models: ['rf', 'xgb'], breach_database_size: 684512 })
+  } as Response);
+  fireEvent.click(screen.getByRole('button', { name: 'Check now' }));
+
+  expect(await screen.findByRole('button', { name: /API Connected/i })).toBeInTheDocument();
+  expect(screen.getByTestId('api-models')).toHaveTextContent('rf, xgb');
+  expect(screen.getByTestId('api-breach-db')).toHaveTextContent('684,512 passwords');
+  expect(screen.getByTestId('api-last-check')).toHaveTextContent(/\d+ ms/);
+  expect(screen.getByText('2 ML models • 685K breached passwords')).toBeInTheDocument();
+});
+
+test('sends personal context to the API and flags passwords built from it', async () => {
+  const fetchMock = jest.fn((input: RequestInfo | URL, init?: RequestInit) => {
+    if (String(input).endsWith('/health')) {
+      return Promise.resolve({
+        ok: true,
+        json: async () => ({ status: 'ok', models_loaded: true, available_models: ['rf'], breach_database_size: 1 })
+      } as Response);
+    }
+    const { password } = JSON.parse(String(init?.body));
+    const { source, breach_check, ...local } = analyzeLocally(password);
+    return Promise.resolve({ ok: true, json: async () => ({ ...local, predictions: { rf: 'Strong' }, consensus: 'Strong' }) } as Response);
+  });
+  global.fetch = fetchMock;
+
+  renderWithRouter(<App />);
+  expect(await screen.findByText(/API Connected/i)).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /Personal context/ }));
+  fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Saoud' } });
+  fireEvent.change(screen.getByLabelText('Significant dates'), { target: { value: '1998' } });
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'Saoud1998!' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByText('Contains your own personal details, which targeted attacks try first.')).toBeInTheDocument();
+  const [, init] = fetchMock.mock.calls.find(([input]) => String(input).endsWith('/analyze'))!;
+  expect(JSON.parse(String(init?.body)).user_inputs).toEqual(['saoud', '1998']);
+  expect(screen.getAllByText('Medium').length).toBeGreaterThan(0);
 });
@@ -1,222 +1,159 @@
 // src/App.tsx
-import React, { useState, useEffect } from 'react';
-import { Shield, Lock, Key, Brain, Zap, AlertTriangle, CheckCircle, XCircle, Eye, EyeOff, Copy, RefreshCw, Info } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { Navigate, Route, Routes, useLocation, useNavigate } from 'react-router-dom';
+import { Shield, Key, Brain, Zap, AlertTriangle, FileSearch, Settings, X, ClipboardCheck, History, Vault } from 'lucide-react';
+import { AnalysisResult, GeneratedPassword } from './types';
+import { ApiError, ApiResult, createApiClient } from './api/client';
+import { getApiBaseUrl, setApiBaseUrl } from './api/config';
+import { analyzeLocally } from './lib/localAnalyzer';
+import { applyPersonalContext, contextTokens, EMPTY_CONTEXT, PersonalContext, userInputs } from './lib/personalContext';
+import { applyBreachVerdict, checkBreachRange } from './lib/breachRange';
+import BulkAudit from './components/BulkAudit';
+import VaultAudit from './components/VaultAudit';
+import PolicyEditor from './components/PolicyEditor';
+import HistoryPanel from './components/HistoryPanel';
+import OnDeviceToggle from './components/OnDeviceToggle';
+import ApiStatusDrawer from './components/ApiStatusDrawer';
+import { TabList, TabPanel } from './components/Tabs';
+import { LiveRegion, Toast } from './components/LiveRegion';
+import ClipboardCountdown from './components/ClipboardCountdown';
+import AnalyzePage from './pages/AnalyzePage';
+import GeneratePage from './pages/GeneratePage';
+import PassphrasePage from './pages/PassphrasePage';
+import { usePolicies } from './hooks/usePolicies';
+import { useHistory } from './hooks/useHistory';
+import { useAnnouncer } from './hooks/useAnnouncer';
+import { useApiHealth } from './hooks/useApiHealth';
+import { useSecureClipboard } from './hooks/useSecureClipboard';
+import { CLIPBOARD_CLEAR_SECONDS } from './lib/clipboard';
+import { useI18n } from './i18n/I18nProvider';
+import { LOCALES, Locale, MessageKey } from './i18n';
+
+const TOAST_MS = 2500;
+
+type TabType = 'analyze' | 'generate' | 'passphrase' | 'audit' | 'vault' | 'policy' | 'history';
+
+// Each tab is a route of the same name, e.g. /generate
+const TABS: { id: TabType; label: MessageKey; icon: typeof Brain }[] = [
+  { id: 'analyze', label: 'tabs.analyze', icon: Brain },
+  { id: 'generate', label: 'tabs.generate', icon: Key },
+  { id: 'passphrase', label: 'tabs.passphrase', icon: Zap },
+  { id: 'audit', label: 'tabs.audit', icon: FileSearch },
+  { id: 'vault', label: 'tabs.vault', icon: Vault },
+  { id: 'policy', label: 'tabs.policy', icon: ClipboardCheck },
+  { id: 'history', label: 'tabs.history', icon: History }
+];
 
-const API_BASE_URL = 'http://localhost:8000';
-
-// Type Definitions
-interface AnalysisResult {
-  password: string;
-  length: number;
-  predictions: Record<string, string>;
-  consensus: string;
-  agreement_percentage: number;
-  metrics: {
-    shannon_entropy: number;
-    practical_entropy: number;
-  };
-  composition: {
-    lowercase: number;
-    uppercase: number;
-    digits: number;
-    symbols: number;
-    spaces: number;
-    unique: number;
-  };
-  crack_time: {
-    online_throttled: string;
-    online_fast: string;
-    offline_gpu: string;
-    offline_super: string;
-  };
-  patterns: string[];
-  dictionary_words: string[];
-  suggestions: string[];
-  warnings: string[];
-  is_breached: boolean;
-  breach_count: number;
-}
-
-interface GeneratedPassword {
-  password: string;
-  metadata: {
-    length: number;
-    entropy: number;
-    crack_time_gpu: string;
+const App: React.FC = () => {
+  const { locale, dir, setLocale, t, formatNumber } = useI18n();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const activeTab = TABS.find(tab => location.pathname === `/${tab.id}`)?.id ?? 'analyze';
+  const [privacyMode, setPrivacyMode] = useState<boolean>(false);
+  // Deliberately not persisted: the user's own details live only as long as the page
+  const [personalContext, setPersonalContext] = useState<PersonalContext>(EMPTY_CONTEXT);
+  const personalTokens = useMemo(() => contextTokens(personalContext), [personalContext]);
+  const [localGeneration, setLocalGeneration] = useState<boolean>(false);
+  const [apiError, setApiError] = useState<ApiError | null>(null);
+  const [apiBaseUrl, setApiBaseUrlState] = useState<string>(getApiBaseUrl);
+  const [apiUrlDraft, setApiUrlDraft] = useState<string>(apiBaseUrl);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const client = useMemo(() => createApiClient({ baseUrl: apiBaseUrl }), [apiBaseUrl]);
+  const health = useApiHealth(client);
+  const { status: apiStatus, reportOffline } = health;
+  const [showStatus, setShowStatus] = useState<boolean>(false);
+  const { policies, activePolicy, savePolicy, deletePolicy, setActivePolicy } = usePolicies();
+  const history = useHistory();
+  const { announcement: resultAnnouncement, announce: announceResult } = useAnnouncer();
+  const { announcement: toastAnnouncement, announce: showToast } = useAnnouncer(TOAST_MS);
+  const clipboard = useSecureClipboard(CLIPBOARD_CLEAR_SECONDS, () => showToast(t('clipboard.cleared')));
+  const apiUrlInput = useRef<HTMLInputElement>(null);
+
+  const saveApiBaseUrl = (url: string | null): void => {
+    setApiBaseUrl(url);
+    setApiBaseUrlState(getApiBaseUrl());
+    setShowSettings(false);
   };
-}
 
-interface HealthStatus {
-  status: string;
-  models_loaded: boolean;
-  available_models: string[];
-  breach_database_size: number;
-}
+  // Privacy mode: strength is scored locally and only a hash prefix leaves the browser
+  const analyzePrivately = useCallback(async (candidate: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+    const local = analyzeLocally(candidate);
+    const verdict = await checkBreachRange(candidate, client, { signal });
+    if (verdict.ok) return applyBreachVerdict(local, verdict.data);
+
+    if (verdict.error.kind !== 'aborted') console.error('Error querying breach range:', verdict.error);
+    return local;
+  }, [client]);
+
+  // Runs one password through the active pipeline: ML models, privacy mode or local fallback
+  const runPipeline = useCallback(async (candidate: string, signal?: AbortSignal): Promise<AnalysisResult> => {
+    if (apiStatus === 'offline') return analyzeLocally(candidate);
+    if (privacyMode) return analyzePrivately(candidate, signal);
+
+    const response = await client.analyze(candidate, { signal, userInputs: userInputs(personalTokens) });
+    if (response.ok) return { ...response.data, source: 'models', breach_check: 'server' };
+    if (response.error.kind === 'aborted') return analyzeLocally(candidate);
+
+    console.error('Error analyzing password, falling back to local heuristic:', response.error);
+    if (response.error.kind === 'network' || response.error.kind === 'timeout') {
+      reportOffline();
+    } else {
+      setApiError(response.error);
+    }
+    return analyzeLocally(candidate);
+  }, [apiStatus, privacyMode, client, personalTokens, analyzePrivately, reportOffline]);
 
-type TabType = 'analyze' | 'generate' | 'passphrase';
-type ApiStatusType = 'checking' | 'healthy' | 'no-models' | 'offline';
-
-const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<TabType>('analyze');
-  const [password, setPassword] = useState<string>('');
-  const [showPassword, setShowPassword] = useState<boolean>(false);
-  const [loading, setLoading] = useState<boolean>(false);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [availableModels, setAvailableModels] = useState<string[]>([]);
-  const [selectedModel, setSelectedModel] = useState<string>('all');
-  const [apiStatus, setApiStatus] = useState<ApiStatusType>('checking');
-  
-  // Generator states
-  const [genLength, setGenLength] = useState<number>(16);
-  const [genCount, setGenCount] = useState<number>(5);
-  const [includeUpper, setIncludeUpper] = useState<boolean>(true);
-  const [includeLower, setIncludeLower] = useState<boolean>(true);
-  const [includeDigits, setIncludeDigits] = useState<boolean>(true);
-  const [includeSymbols, setIncludeSymbols] = useState<boolean>(true);
-  const [excludeAmbiguous, setExcludeAmbiguous] = useState<boolean>(false);
-  const [generatedPasswords, setGeneratedPasswords] = useState<GeneratedPassword[]>([]);
-  
-  // Passphrase states
-  const [numWords, setNumWords] = useState<number>(4);
-  const [separator, setSeparator] = useState<string>('-');
-  const [phraseCount, setPhraseCount] = useState<number>(5);
-  const [generatedPhrases, setGeneratedPhrases] = useState<GeneratedPassword[]>([]);
+  // Every path is also checked here for the user's personal context, so the local
+  // engines and backends that ignore user_inputs flag it too
+  const runAnalysis = useCallback(async (candidate: string, signal?: AbortSignal): Promise<AnalysisResult> =>
+    applyPersonalContext(await runPipeline(candidate, signal), personalTokens),
+  [runPipeline, personalTokens]);
 
   useEffect(() => {
-    checkApiHealth();
-  }, []);
+    if (showSettings) apiUrlInput.current?.focus();
+  }, [showSettings]);
 
-  const checkApiHealth = async (): Promise<void> => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/health`);
-      const data: HealthStatus = await response.json();
-      
-      if (data.models_loaded) {
-        setApiStatus('healthy');
-        setAvailableModels(data.available_models || []);
-      } else {
-        setApiStatus('no-models');
-      }
-    } catch (error) {
-      setApiStatus('offline');
-    }
-  };
+  const generatesOnDevice = localGeneration || apiStatus === 'offline';
 
-  const analyzePassword = async (): Promise<void> => {
-    if (!password) return;
-    
-    setLoading(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/analyze`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ password })
-      });
-      
-      const data: AnalysisResult = await response.json();
-      setResult(data);
-    } catch (error) {
-      console.error('Error analyzing password:', error);
-      alert('Failed to analyze password. Make sure the API is running.');
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Asks the server unless on-device generation is on; falls back to the device when the API is unreachable
+  const generateWith = async (
+    remote: () => Promise<ApiResult<GeneratedPassword[]>>,
+    local: () => GeneratedPassword[]
+  ): Promise<GeneratedPassword[] | null> => {
+    if (generatesOnDevice) return local();
 
-  const generatePasswords = async (): Promise<void> => {
-    setLoading(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          length: genLength,
-          count: genCount,
-          include_uppercase: includeUpper,
-          include_lowercase: includeLower,
-          include_digits: includeDigits,
-          include_symbols: includeSymbols,
-          exclude_ambiguous: excludeAmbiguous
-        })
-      });
-      
-      const data = await response.json();
-      setGeneratedPasswords(data.passwords.map((pwd: string, i: number) => ({
-        password: pwd,
-        metadata: data.metadata[i]
-      })));
-    } catch (error) {
-      console.error('Error generating passwords:', error);
-      alert('Failed to generate passwords.');
-    } finally {
-      setLoading(false);
-    }
-  };
+    const response = await remote();
+    if (response.ok) return response.data;
 
-  const generatePassphrases = async (): Promise<void> => {
-    setLoading(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/generate/passphrase`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          num_words: numWords,
-          separator: separator,
-          count: phraseCount
-        })
-      });
-      
-      const data = await response.json();
-      setGeneratedPhrases(data.passwords.map((pwd: string, i: number) => ({
-        password: pwd,
-        metadata: data.metadata[i]
-      })));
-    } catch (error) {
-      console.error('Error generating passphrases:', error);
-      alert('Failed to generate passphrases.');
-    } finally {
-      setLoading(false);
+    console.error('Error generating on the server:', response.error);
+    if (response.error.kind === 'network' || response.error.kind === 'timeout') {
+      reportOffline();
+      return local();
     }
+    setApiError(response.error);
+    return null;
   };
 
   const copyToClipboard = async (text: string): Promise<void> => {
-    try {
-      await navigator.clipboard.writeText(text);
-      alert('Copied to clipboard!');
-    } catch (err) {
-      console.error('Failed to copy:', err);
-    }
+    const copied = await clipboard.copy(text);
+    showToast(copied ? t('clipboard.copied', { count: CLIPBOARD_CLEAR_SECONDS }) : t('clipboard.failed'));
   };
 
-  const getStrengthColor = (strength: string): string => {
-    switch (strength?.toLowerCase()) {
-      case 'strong': return 'text-green-600 bg-green-50';
-      case 'medium': return 'text-yellow-600 bg-yellow-50';
-      case 'weak': return 'text-red-600 bg-red-50';
-      default: return 'text-gray-600 bg-gray-50';
-    }
-  };
-
-  const getStrengthIcon = (strength: string) => {
-    switch (strength.toLowerCase()) {
-      case 'strong': return <CheckCircle className="w-5 h-5" />;
-      case 'medium': return <AlertTriangle className="w-5 h-5" />;
-      case 'weak': return <XCircle className="w-5 h-5" />;
-      default: return <Info className="w-5 h-5" />;
-    }
+  // The pages drop their own lists; this takes the copied secret off the clipboard
+  const clearSecrets = async (): Promise<void> => {
+    await clipboard.clear();
+    showToast(t('secrets.cleared'));
   };
 
-  const getFilteredPredictions = (): Record<string, string> => {
-    if (!result?.predictions) return {};
-    if (selectedModel === 'all') return result.predictions;
-    return { [selectedModel]: result.predictions[selectedModel] };
-  };
+  const onDeviceToggle = (
+    <OnDeviceToggle checked={generatesOnDevice} offline={apiStatus === 'offline'} onChange={setLocalGeneration} />
+  );
 
   return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4">
+    <div dir={dir} lang={locale} className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 p-4">
       <div className="max-w-6xl mx-auto">
         {/* Header */}
-        <div className="bg-white rounded-2xl shadow-xl p-8 mb-6">
+        <header className="bg-white rounded-2xl shadow-xl p-8 mb-6">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center gap-3">
               <div className="bg-gradient-to-br from-blue-500 to-purple-600 p-3 rounded-xl">
@@ -224,450 +161,191 @@ const App: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
-                  AI Password Analyzer
+                  {t('app.title')}
                 </h1>
-                <p className="text-gray-600 text-sm">5 ML Models • 684K+ Breach Database</p>
+                <p className="text-gray-600 text-sm">
+                  {health.details
+                    ? t('app.subtitle', {
+                      count: health.details.available_models.length,
+                      breaches: formatNumber(health.details.breach_database_size, { notation: 'compact' })
+                    })
+                    : t('app.subtitleOffline')}
+                </p>
               </div>
             </div>
             
-            {/* API Status */}
-            <div className={`px-4 py-2 rounded-full text-sm font-medium ${
-              apiStatus === 'healthy' ? 'bg-green-100 text-green-700' :
-              apiStatus === 'no-models' ? 'bg-yellow-100 text-yellow-700' :
-              'bg-red-100 text-red-700'
-            }`}>
-              {apiStatus === 'healthy' ? '✅ API Connected' :
-               apiStatus === 'no-models' ? '⚠️ No Models' :
-               '❌ API Offline'}
-            </div>
-          </div>
-          
-          {/* Tabs */}
-          <div className="flex gap-2 border-b border-gray-200">
-            {[
-              { id: 'analyze' as TabType, label: 'Analyze', icon: Brain },
-              { id: 'generate' as TabType, label: 'Generate', icon: Key },
-              { id: 'passphrase' as TabType, label: 'Passphrase', icon: Zap }
-            ].map(tab => (
+            <div className="flex items-center gap-2">
+              {/* Language */}
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+                className="px-3 py-2 text-sm border-2 border-gray-200 rounded-full focus:border-blue-500 focus:outline-none"
+              >
+                {LOCALES.map(option => (
+                  <option key={option.id} value={option.id} lang={option.id}>{option.label}</option>
+                ))}
+              </select>
+
+              {/* API Status */}
+              <button
+                onClick={() => setShowStatus(!showStatus)}
+                aria-expanded={showStatus}
+                aria-controls="api-status"
+                className={`px-4 py-2 rounded-full text-sm font-medium ${
+                apiStatus === 'healthy' ? 'bg-green-100 text-green-700' :
+                apiStatus === 'no-models' ? 'bg-yellow-100 text-yellow-700' :
+                apiStatus === 'checking' ? 'bg-gray-100 text-gray-700' :
+                'bg-red-100 text-red-700'
+              }`}>
+                {apiStatus === 'healthy' ? t('api.healthy') :
+                 apiStatus === 'no-models' ? t('api.noModels') :
+                 apiStatus === 'checking' ? t('api.checking') :
+                 t('api.offline')}
+              </button>
               <button
-                key={tab.id}
-                onClick={() => setActiveTab(tab.id)}
-                className={`flex items-center gap-2 px-6 py-3 font-medium transition-all ${
-                  activeTab === tab.id
-                    ? 'border-b-2 border-blue-500 text-blue-600'
-                    : 'text-gray-600 hover:text-gray-900'
-                }`}
+                onClick={() => setShowSettings(!showSettings)}
+                className="p-2 text-gray-500 hover:text-gray-700 rounded-full"
+                title={t('api.settings')}
+                aria-expanded={showSettings}
               >
-                <tab.icon className="w-5 h-5" />
-                {tab.label}
+                <Settings className="w-5 h-5" aria-hidden="true" />
               </button>
-            ))}
+            </div>
           </div>
-        </div>
-
-        {/* Analyze Tab */}
-        {activeTab === 'analyze' && (
-          <div className="space-y-6">
-            {/* Input Section */}
-            <div className="bg-white rounded-2xl shadow-xl p-8">
-              <div className="space-y-4">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Enter Password to Analyze
-                  </label>
-                  <div className="relative">
-                    <input
-                      type={showPassword ? 'text' : 'password'}
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && analyzePassword()}
-                      placeholder="Type your password here..."
-                      className="w-full px-4 py-3 pr-12 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
-                    />
-                    <button
-                      onClick={() => setShowPassword(!showPassword)}
-                      className="absolute right-3 top-3 text-gray-400 hover:text-gray-600"
-                    >
-                      {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
-                    </button>
-                  </div>
-                </div>
 
-                {/* Model Selection */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Select Model for Prediction
-                  </label>
-                  <select
-                    value={selectedModel}
-                    onChange={(e) => setSelectedModel(e.target.value)}
-                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
-                  >
-                    <option value="all">All Models (Consensus)</option>
-                    {availableModels.map(model => (
-                      <option key={model} value={model}>{model}</option>
-                    ))}
-                  </select>
-                </div>
+          {/* API Status Drawer */}
+          {showStatus && <ApiStatusDrawer id="api-status" health={health} />}
 
+          {/* API Settings */}
+          {showSettings && (
+            <div className="mb-4 p-4 bg-gray-50 rounded-xl">
+              <label htmlFor="api-base-url" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('api.baseUrl')}
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="api-base-url"
+                  ref={apiUrlInput}
+                  type="url"
+                  value={apiUrlDraft}
+                  onChange={(e) => setApiUrlDraft(e.target.value)}
+                  className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                />
                 <button
-                  onClick={analyzePassword}
-                  disabled={!password || loading}
-                  className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={() => saveApiBaseUrl(apiUrlDraft)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700"
                 >
-                  {loading ? 'Analyzing...' : 'Analyze Password'}
+                  {t('api.save')}
+                </button>
+                <button
+                  onClick={() => {
+                    saveApiBaseUrl(null);
+                    setApiUrlDraft(getApiBaseUrl());
+                  }}
+                  className="px-4 py-2 border-2 border-gray-200 rounded-xl font-medium hover:bg-white"
+                >
+                  {t('api.reset')}
                 </button>
               </div>
+              <p className="text-xs text-gray-500 mt-2">
+                {t('api.settingsHint')}
+              </p>
             </div>
-
-            {/* Results */}
-            {result && (
-              <div className="space-y-6">
-                {/* Breach Warning */}
-                {result.is_breached && (
-                  <div className="bg-red-50 border-2 border-red-200 rounded-2xl p-6">
-                    <div className="flex items-start gap-3">
-                      <AlertTriangle className="w-6 h-6 text-red-600 flex-shrink-0 mt-1" />
-                      <div>
-                        <h3 className="font-bold text-red-900 text-lg">CRITICAL: Password Compromised!</h3>
-                        <p className="text-red-700 mt-1">
-                          This password was found in <span className="font-bold">{result.breach_count.toLocaleString()}</span> data breaches.
-                          Never use this password!
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                )}
-
-                {/* Model Predictions */}
-                <div className="bg-white rounded-2xl shadow-xl p-8">
-                  <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
-                    <Brain className="w-6 h-6 text-blue-600" />
-                    Model Predictions
-                  </h3>
-                  
-                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
-                    {Object.entries(getFilteredPredictions()).map(([model, prediction]) => (
-                      <div key={model} className={`p-4 rounded-xl border-2 ${getStrengthColor(prediction)}`}>
-                        <div className="flex items-center justify-between">
-                          <span className="font-medium">{model}</span>
-                          <div className="flex items-center gap-2">
-                            {getStrengthIcon(prediction)}
-                            <span className="font-bold">{prediction}</span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-
-                  {selectedModel === 'all' && (
-                    <div className={`p-6 rounded-xl border-2 ${getStrengthColor(result.consensus)}`}>
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <h4 className="font-bold text-lg">Consensus Prediction</h4>
-                          <p className="text-sm opacity-75">{result.agreement_percentage.toFixed(0)}% agreement</p>
-                        </div>
-                        <div className="flex items-center gap-3">
-                          {getStrengthIcon(result.consensus)}
-                          <span className="text-2xl font-bold">{result.consensus}</span>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-
-                {/* Metrics */}
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div className="bg-white rounded-2xl shadow-xl p-6">
-                    <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
-                      <Info className="w-5 h-5 text-blue-600" />
-                      Metrics
-                    </h3>
-                    <div className="space-y-3">
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Length:</span>
-                        <span className="font-bold">{result.length} characters</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Shannon Entropy:</span>
-                        <span className="font-bold">{result.metrics.shannon_entropy.toFixed(2)} bits</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Practical Entropy:</span>
-                        <span className="font-bold">{result.metrics.practical_entropy.toFixed(2)} bits</span>
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="bg-white rounded-2xl shadow-xl p-6">
-                    <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
-                      <Lock className="w-5 h-5 text-blue-600" />
-                      Composition
-                    </h3>
-                    <div className="space-y-3">
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Lowercase:</span>
-                        <span className="font-bold">{result.composition.lowercase}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Uppercase:</span>
-                        <span className="font-bold">{result.composition.uppercase}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Digits:</span>
-                        <span className="font-bold">{result.composition.digits}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Symbols:</span>
-                        <span className="font-bold">{result.composition.symbols}</span>
-                      </div>
-                      <div className="flex justify-between">
-                        <span className="text-gray-600">Unique:</span>
-                        <span className="font-bold">{result.composition.unique}/{result.length}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-
-                {/* Crack Time */}
-                <div className="bg-white rounded-2xl shadow-xl p-6">
-                  <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
-                    <Zap className="w-5 h-5 text-yellow-600" />
-                    Time to Crack
-                  </h3>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                    {Object.entries(result.crack_time).map(([method, time]) => (
-                      <div key={method} className="p-4 bg-gray-50 rounded-xl">
-                        <p className="text-xs text-gray-600 mb-1 uppercase">{method.replace('_', ' ')}</p>
-                        <p className="font-bold text-sm">{time}</p>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-
-                {/* Patterns & Dictionary Words */}
-                {(result.patterns.length > 0 || result.dictionary_words.length > 0) && (
-                  <div className="bg-white rounded-2xl shadow-xl p-6">
-                    <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
-                      <AlertTriangle className="w-5 h-5 text-yellow-600" />
-                      Security Issues
-                    </h3>
-                    <div className="space-y-2">
-                      {result.patterns.map((pattern, i) => (
-                        <div key={i} className="p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
-                          {pattern}
-                        </div>
-                      ))}
-                      {result.dictionary_words.length > 0 && (
-                        <div className="p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
-                          Dictionary words found: {result.dictionary_words.join(', ')}
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {/* Suggestions */}
-                {result.suggestions.length > 0 && (
-                  <div className="bg-white rounded-2xl shadow-xl p-6">
-                    <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
-                      <CheckCircle className="w-5 h-5 text-green-600" />
-                      Recommendations
-                    </h3>
-                    <div className="space-y-2">
-                      {result.suggestions.map((suggestion, i) => (
-                        <div key={i} className="flex items-start gap-2 p-3 bg-blue-50 rounded-lg text-blue-800 text-sm">
-                          <span>•</span>
-                          <span>{suggestion}</span>
-                        </div>
-                      ))}
-                    </div>
-                  </div>
-                )}
+          )}
+          
+          {/* Tabs */}
+          <TabList
+            label={t('tabs.label')}
+            idPrefix="main"
+            tabs={TABS.map(tab => ({ ...tab, label: t(tab.label) }))}
+            active={activeTab}
+            onChange={id => navigate(`/${id}`)}
+          />
+        </header>
+
+        <main>
+          <TabPanel idPrefix="main" id={activeTab} label={t(TABS.find(tab => tab.id === activeTab)!.label)}>
+            {/* API Error */}
+            {apiError && (
+              <div className="bg-red-50 border-2 border-red-200 rounded-2xl p-4 mb-6 flex items-start gap-3">
+                <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0 mt-0.5" />
+                <p className="flex-1 text-red-800 text-sm">{apiError.message}</p>
+                <button onClick={() => setApiError(null)} className="text-red-400 hover:text-red-600" title={t('api.dismiss')}>
+                  <X className="w-5 h-5" />
+                </button>
               </div>
             )}
-          </div>
-        )}
 
-        {/* Generate Tab */}
-        {activeTab === 'generate' && (
-          <div className="space-y-6">
-            <div className="bg-white rounded-2xl shadow-xl p-8">
-              <h3 className="text-xl font-bold mb-6">Password Generator Settings</h3>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Length: {genLength}
-                  </label>
-                  <input
-                    type="range"
-                    min="8"
-                    max="32"
-                    value={genLength}
-                    onChange={(e) => setGenLength(parseInt(e.target.value))}
-                    className="w-full"
+            <Routes>
+              <Route path="/" element={<Navigate to="/analyze" replace />} />
+              <Route
+                path="/analyze"
+                element={
+                  <AnalyzePage
+                    analyze={runAnalysis}
+                    apiStatus={apiStatus}
+                    availableModels={health.details?.available_models ?? []}
+                    privacyMode={privacyMode}
+                    setPrivacyMode={setPrivacyMode}
+                    personalContext={personalContext}
+                    setPersonalContext={setPersonalContext}
+                    activePolicy={activePolicy}
+                    history={history}
+                    announce={announceResult}
                   />
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Count: {genCount}
-                  </label>
-                  <input
-                    type="range"
-                    min="1"
-                    max="10"
-                    value={genCount}
-                    onChange={(e) => setGenCount(parseInt(e.target.value))}
-                    className="w-full"
+                }
+              />
+              <Route
+                path="/generate"
+                element={
+                  <GeneratePage
+                    client={client}
+                    generateWith={generateWith}
+                    activePolicy={activePolicy}
+                    history={history}
+                    copy={copyToClipboard}
+                    clearSecrets={clearSecrets}
+                    onDeviceToggle={onDeviceToggle}
                   />
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
-                {[
-                  { label: 'Uppercase (A-Z)', state: includeUpper, setter: setIncludeUpper },
-                  { label: 'Lowercase (a-z)', state: includeLower, setter: setIncludeLower },
-                  { label: 'Digits (0-9)', state: includeDigits, setter: setIncludeDigits },
-                  { label: 'Symbols (!@#$)', state: includeSymbols, setter: setIncludeSymbols },
-                  { label: 'Exclude Ambiguous', state: excludeAmbiguous, setter: setExcludeAmbiguous }
-                ].map((item, i) => (
-                  <label key={i} className="flex items-center gap-2 cursor-pointer">
-                    <input
-                      type="checkbox"
-                      checked={item.state}
-                      onChange={(e) => item.setter(e.target.checked)}
-                      className="w-4 h-4 text-blue-600 rounded"
-                    />
-                    <span className="text-sm">{item.label}</span>
-                  </label>
-                ))}
-              </div>
-
-              <button
-                onClick={generatePasswords}
-                disabled={loading}
-                className="w-full bg-gradient-to-r from-green-500 to-blue-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50"
-              >
-                {loading ? 'Generating...' : 'Generate Passwords'}
-              </button>
-            </div>
-
-            {generatedPasswords.length > 0 && (
-              <div className="bg-white rounded-2xl shadow-xl p-8">
-                <h3 className="text-xl font-bold mb-6">Generated Passwords</h3>
-                <div className="space-y-3">
-                  {generatedPasswords.map((item, i) => (
-                    <div key={i} className="flex items-center gap-3 p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors">
-                      <span className="flex-1 font-mono font-medium">{item.password}</span>
-                      <span className="text-sm text-gray-600">
-                        {item.metadata.entropy.toFixed(1)} bits
-                      </span>
-                      <span className="text-xs text-gray-500">
-                        {item.metadata.crack_time_gpu}
-                      </span>
-                      <button
-                        onClick={() => copyToClipboard(item.password)}
-                        className="p-2 hover:bg-white rounded-lg transition-colors"
-                      >
-                        <Copy className="w-5 h-5 text-gray-600" />
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        )}
-
-        {/* Passphrase Tab */}
-        {activeTab === 'passphrase' && (
-          <div className="space-y-6">
-            <div className="bg-white rounded-2xl shadow-xl p-8">
-              <h3 className="text-xl font-bold mb-6">Passphrase Generator Settings</h3>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Number of Words: {numWords}
-                  </label>
-                  <input
-                    type="range"
-                    min="2"
-                    max="8"
-                    value={numWords}
-                    onChange={(e) => setNumWords(parseInt(e.target.value))}
-                    className="w-full"
+                }
+              />
+              <Route
+                path="/passphrase"
+                element={
+                  <PassphrasePage
+                    client={client}
+                    generateWith={generateWith}
+                    history={history}
+                    copy={copyToClipboard}
+                    clearSecrets={clearSecrets}
+                    onDeviceToggle={onDeviceToggle}
                   />
-                </div>
-                
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Separator
-                  </label>
-                  <select
-                    value={separator}
-                    onChange={(e) => setSeparator(e.target.value)}
-                    className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
-                  >
-                    <option value="-">Dash (-)</option>
-                    <option value="_">Underscore (_)</option>
-                    <option value=" ">Space ( )</option>
-                    <option value=".">Dot (.)</option>
-                  </select>
-                </div>
-              </div>
-
-              <div className="mb-6">
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Count: {phraseCount}
-                </label>
-                <input
-                  type="range"
-                  min="1"
-                  max="10"
-                  value={phraseCount}
-                  onChange={(e) => setPhraseCount(parseInt(e.target.value))}
-                  className="w-full"
-                />
-              </div>
-
-              <button
-                onClick={generatePassphrases}
-                disabled={loading}
-                className="w-full bg-gradient-to-r from-purple-500 to-pink-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50"
-              >
-                {loading ? 'Generating...' : 'Generate Passphrases'}
-              </button>
-            </div>
-
-            {generatedPhrases.length > 0 && (
-              <div className="bg-white rounded-2xl shadow-xl p-8">
-                <h3 className="text-xl font-bold mb-6">Generated Passphrases</h3>
-                <div className="space-y-3">
-                  {generatedPhrases.map((item, i) => (
-                    <div key={i} className="flex items-center gap-3 p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors">
-                      <span className="flex-1 font-medium">{item.password}</span>
-                      <span className="text-sm text-gray-600">
-                        {item.metadata.entropy.toFixed(1)} bits
-                      </span>
-                      <span className="text-xs text-gray-500">
-                        {item.metadata.crack_time_gpu}
-                      </span>
-                      <button
-                        onClick={() => copyToClipboard(item.password)}
-                        className="p-2 hover:bg-white rounded-lg transition-colors"
-                      >
-                        <Copy className="w-5 h-5 text-gray-600" />
-                      </button>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </div>
-        )}
+                }
+              />
+              <Route path="/audit" element={<BulkAudit analyze={runAnalysis} />} />
+              <Route path="/vault" element={<VaultAudit analyze={runAnalysis} />} />
+              <Route
+                path="/policy"
+                element={
+                  <PolicyEditor
+                    policies={policies}
+                    activePolicy={activePolicy}
+                    savePolicy={savePolicy}
+                    deletePolicy={deletePolicy}
+                    setActivePolicy={setActivePolicy}
+                  />
+                }
+              />
+              <Route path="/history" element={<HistoryPanel history={history} copy={copyToClipboard} />} />
+              <Route path="*" element={<Navigate to="/analyze" replace />} />
+            </Routes>
+          </TabPanel>
+        </main>
+
+        <LiveRegion announcement={resultAnnouncement} />
+        <Toast announcement={toastAnnouncement} />
+        <ClipboardCountdown remaining={clipboard.remaining} onClear={clipboard.clear} />
       </div>
     </div>
   );
@@ -0,0 +1,109 @@
+import { createApiClient } from './client';
+import { analysisResultSchema } from './schemas';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+const BASE_URL = 'http://api.test';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  Promise.resolve({ ok: status < 400, status, json: async () => body } as Response);
+
+const serverResult = () => {
+  const { source, breach_check, ...result } = analyzeLocally('hunter2');
+  return result;
+};
+
+test('validates and returns analysis results', async () => {
+  const fetch = jest.fn(() => jsonResponse(serverResult()));
+  const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+  const response = await client.analyze('hunter2');
+  expect(response).toEqual({ ok: true, data: serverResult() });
+  expect(fetch).toHaveBeenCalledWith(`${BASE_URL}/analyze`, expect.objectContaining({ method: 'POST' }));
+});
+
+test('sends personal context as user_inputs only when there is some', async () => {
+  const fetch = jest.fn((_input: RequestInfo | URL, _init?: RequestInit) => jsonResponse(serverResult()));
+  const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+  await client.analyze('hunter2', { userInputs: ['saoud', '1998'] });
+  await client.analyze('hunter2', { userInputs: [] });
+  expect(JSON.parse(String(fetch.mock.calls[0][1]?.body))).toEqual({ password: 'hunter2', user_inputs: ['saoud', '1998'] });
+  expect(JSON.parse(String(fetch.mock.calls[1][1]?.body))).toEqual({ password: 'hunter2' });
+});
+
+test('reports renamed fields as validation errors', async () => {
+  const { metrics, ...rest } = serverResult();
+  const renamed = { ...rest, metrics: { entropy: metrics.shannon_entropy, practical_entropy: metrics.practical_entropy } };
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: jest.fn(() => jsonResponse(renamed)) });
+
+  expect(await client.analyze('hunter2')).toMatchObject({
+    ok: false,
+    error: { kind: 'validation', message: expect.stringMatching(/metrics\.shannon_entropy: expected number/) }
+  });
+});
+
+test('reports non-2xx responses as http errors', async () => {
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: jest.fn(() => jsonResponse({}, 500)) });
+  expect(await client.generate({
+    length: 16, count: 1, include_uppercase: true, include_lowercase: true,
+    include_digits: true, include_symbols: true, exclude_ambiguous: false
+  })).toMatchObject({ ok: false, error: { kind: 'http', status: 500 } });
+});
+
+test('pairs generated passwords with their metadata', async () => {
+  const metadata = { length: 12, entropy: 60.5, crack_time_gpu: '3 years' };
+  const client = createApiClient({
+    baseUrl: BASE_URL,
+    fetch: jest.fn(() => jsonResponse({ passwords: ['a-b-c'], metadata: [metadata] }))
+  });
+  expect(await client.generatePassphrase({ num_words: 3, separator: '-', count: 1 }))
+    .toEqual({ ok: true, data: [{ password: 'a-b-c', metadata }] });
+});
+
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> =>
+  new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+  });
+
+test('times out slow requests', async () => {
+  const client = createApiClient({ baseUrl: BASE_URL, timeoutMs: 10, fetch: jest.fn(hangingFetch) });
+  expect(await client.analyze('x')).toMatchObject({ ok: false, error: { kind: 'timeout' } });
+});
+
+test('supports cancellation through an AbortSignal', async () => {
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: jest.fn(hangingFetch) });
+  const controller = new AbortController();
+  const pending = client.analyze('x', { signal: controller.signal });
+  controller.abort();
+  expect(await pending).toMatchObject({ ok: false, error: { kind: 'aborted' } });
+});
+
+test('retries /health with backoff before giving up', async () => {
+  const fetch = jest.fn()
+    .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    .mockImplementationOnce(() => jsonResponse({
+      status: 'ok', models_loaded: true, available_models: ['rf'], breach_database_size: 10
+    }));
+  const client = createApiClient({ baseUrl: BASE_URL, fetch });
+
+  const response = await client.health({ retries: 2, backoffMs: 1 });
+  expect(response.ok).toBe(true);
+  expect(fetch).toHaveBeenCalledTimes(2);
+
+  fetch.mockRejectedValue(new TypeError('Failed to fetch'));
+  expect(await client.health({ retries: 1, backoffMs: 1 })).toMatchObject({ ok: false, error: { kind: 'network' } });
+  expect(fetch).toHaveBeenCalledTimes(4);
+});
+
+test('schema strips client-only annotations', () => {
+  expect(analysisResultSchema({ ...serverResult(), source: 'local' }).source).toBeUndefined();
+});
+
+test('accepts optional per-model details', () => {
+  const model_details = {
+    rf: { probabilities: { Strong: 0.9, Weak: 0.1 }, top_features: [{ feature: 'length', contribution: 0.3, value: 14 }] }
+  };
+  expect(analysisResultSchema({ ...serverResult(), model_details }).model_details).toEqual(model_details);
+  expect(() => analysisResultSchema({ ...serverResult(), model_details: { rf: { probabilities: {} } } }))
+    .toThrow(/model_details\.rf\.top_features/);
+});
@@ -0,0 +1,138 @@
+import { AnalysisResult, AnalyzeRequest, GeneratedPassword, GenerateRequest, HealthStatus, PassphraseRequest } from '../types';
+import { SchemaError, Validator } from './validate';
+import { analysisResultSchema, generatedPasswordsSchema, healthStatusSchema } from './schemas';
+
+// 'unsupported': the browser lacks something a request needs, e.g. Web Crypto outside a secure context
+export type ApiErrorKind = 'network' | 'timeout' | 'aborted' | 'http' | 'validation' | 'unsupported';
+
+export interface ApiError {
+  kind: ApiErrorKind;
+  message: string;
+  status?: number;
+}
+
+export type ApiResult<T> = { ok: true; data: T } | { ok: false; error: ApiError };
+
+export interface ApiClientOptions {
+  baseUrl: string;
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface HealthOptions extends RequestOptions {
+  retries?: number;
+  backoffMs?: number;
+}
+
+export interface AnalyzeOptions extends RequestOptions {
+  // Personal details the password should not be built from
+  userInputs?: string[];
+}
+
+export interface ApiClient {
+  baseUrl: string;
+  health: (options?: HealthOptions) => Promise<ApiResult<HealthStatus>>;
+  analyze: (password: string, options?: AnalyzeOptions) => Promise<ApiResult<AnalysisResult>>;
+  generate: (request: GenerateRequest, options?: RequestOptions) => Promise<ApiResult<GeneratedPassword[]>>;
+  generatePassphrase: (request: PassphraseRequest, options?: RequestOptions) => Promise<ApiResult<GeneratedPassword[]>>;
+  breachRange: (prefix: string, options?: RequestOptions) => Promise<ApiResult<string>>;
+}
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+
+const text: Validator<string> = value => String(value);
+
+const failure = <T>(kind: ApiErrorKind, message: string, status?: number): ApiResult<T> =>
+  ({ ok: false, error: { kind, message, status } });
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+export const createApiClient = ({ baseUrl, timeoutMs = DEFAULT_TIMEOUT_MS, fetch: fetchImpl }: ApiClientOptions): ApiClient => {
+  const request = async <T>(
+    path: string,
+    init: RequestInit,
+    validate: Validator<T>,
+    options: RequestOptions = {},
+    responseType: 'json' | 'text' = 'json'
+  ): Promise<ApiResult<T>> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs ?? timeoutMs);
+
+    if (options.signal?.aborted) controller.abort();
+    options.signal?.addEventListener('abort', abort);
+
+    try {
+      // Resolved per call so tests can swap global fetch after the client exists
+      const response = await (fetchImpl || fetch)(`${baseUrl}${path}`, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        return failure('http', `${path} responded with status ${response.status}`, response.status);
+      }
+      const body = responseType === 'text' ? await response.text() : await response.json();
+      return { ok: true, data: validate(body) };
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        return failure('validation', `Unexpected response from ${path}: ${error.message}`);
+      }
+      if (error instanceof SyntaxError) {
+        return failure('validation', `${path} did not return valid JSON`);
+      }
+      if (options.signal?.aborted) return failure('aborted', `${path} request was cancelled`);
+      if (timedOut) return failure('timeout', `${path} did not respond within ${options.timeoutMs ?? timeoutMs} ms`);
+      return failure('network', `Could not reach the API at ${baseUrl}`);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', abort);
+    }
+  };
+
+  const postJson = (body: unknown): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  return {
+    baseUrl,
+
+    // Retries network failures and timeouts with exponential backoff
+    health: async ({ retries = 2, backoffMs = 500, ...options } = {}) => {
+      for (let attempt = 0; ; attempt++) {
+        const result = await request('/health', {}, healthStatusSchema, options);
+        const retryable = !result.ok && (result.error.kind === 'network' || result.error.kind === 'timeout');
+        if (!retryable || attempt >= retries || options.signal?.aborted) return result;
+        await sleep(backoffMs * Math.pow(2, attempt), options.signal);
+      }
+    },
+
+    analyze: (password, { userInputs, ...options } = {}) => {
+      const body: AnalyzeRequest = userInputs?.length ? { password, user_inputs: userInputs } : { password };
+      return request('/analyze', postJson(body), analysisResultSchema, options);
+    },
+
+    generate: (body, options) =>
+      request('/generate', postJson(body), generatedPasswordsSchema, options),
+
+    generatePassphrase: (body, options) =>
+      request('/generate/passphrase', postJson(body), generatedPasswordsSchema, options),
+
+    breachRange: (prefix, options) =>
+      request(`/breach/range/${prefix}`, { headers: { 'Add-Padding': 'true' } }, text, options, 'text')
+  };
+};
@@ -0,0 +1,30 @@
+// API base URL resolution: a runtime override saved in localStorage wins over
+// the REACT_APP_API_BASE_URL build-time variable, which wins over the default.
+
+export const DEFAULT_API_BASE_URL = 'http://localhost:8000';
+
+const STORAGE_KEY = 'apiBaseUrl';
+
+const normalize = (url: string): string => url.trim().replace(/\/+$/, '');
+
+export const getApiBaseUrl = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return normalize(saved);
+  } catch {
+    // Storage can be unavailable (privacy settings); fall through to the env value
+  }
+  return normalize(process.env.REACT_APP_API_BASE_URL || DEFAULT_API_BASE_URL);
+};
+
+export const setApiBaseUrl = (url: string | null): void => {
+  try {
+    if (url && normalize(url)) {
+      localStorage.setItem(STORAGE_KEY, normalize(url));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Ignore: the override simply will not survive a reload
+  }
+};
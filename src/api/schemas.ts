@@ -0,0 +1,120 @@
+import {
+  AnalysisResult, AnalysisWarning, CrackTimeSeconds, FeatureAttribution, GeneratedPassword, GuidanceMessage, HealthStatus,
+  ModelDetail, PatternFinding
+} from '../types';
+import { array, boolean, literal, number, object, oneOf, optional, record, string, Validator } from './validate';
+
+const featureAttributionSchema = object<FeatureAttribution>({
+  feature: string,
+  contribution: number,
+  value: optional(oneOf(number, string))
+});
+
+const modelDetailSchema = object<ModelDetail>({
+  probabilities: record(number),
+  top_features: array(featureAttributionSchema)
+});
+
+const guidanceParamsSchema = record(oneOf(number, string));
+
+const patternFindingSchema = object<PatternFinding>({
+  kind: literal('common', 'keyboard', 'sequence', 'repeat', 'date', 'leet', 'dictionary', 'personal'),
+  start: number,
+  end: number,
+  description: string,
+  code: optional(string),
+  params: optional(guidanceParamsSchema)
+});
+
+const analysisWarningSchema = object<AnalysisWarning>({
+  message: string,
+  severity: literal('critical', 'high', 'medium', 'low'),
+  code: optional(string),
+  params: optional(guidanceParamsSchema)
+});
+
+const guidanceMessageSchema = object<GuidanceMessage>({
+  code: string,
+  params: optional(guidanceParamsSchema),
+  message: string
+});
+
+const crackTimeSecondsSchema = object<CrackTimeSeconds>({
+  online_throttled: number,
+  online_fast: number,
+  offline_gpu: number,
+  offline_super: number
+});
+
+export const analysisResultSchema: Validator<AnalysisResult> = object<AnalysisResult>({
+  password: string,
+  length: number,
+  predictions: record(string),
+  consensus: string,
+  agreement_percentage: number,
+  metrics: object({
+    shannon_entropy: number,
+    practical_entropy: number
+  }),
+  composition: object({
+    lowercase: number,
+    uppercase: number,
+    digits: number,
+    symbols: number,
+    spaces: number,
+    unique: number
+  }),
+  crack_time: object({
+    online_throttled: string,
+    online_fast: string,
+    offline_gpu: string,
+    offline_super: string
+  }),
+  patterns: array(string),
+  dictionary_words: array(string),
+  suggestions: array(string),
+  warnings: array(string),
+  is_breached: boolean,
+  breach_count: number,
+  model_details: optional(record(modelDetailSchema)),
+  pattern_matches: optional(array(patternFindingSchema)),
+  warning_details: optional(array(analysisWarningSchema)),
+  crack_time_seconds: optional(crackTimeSecondsSchema),
+  suggestion_details: optional(array(guidanceMessageSchema)),
+  // Client-side annotations, never sent by the server
+  source: () => undefined,
+  breach_check: () => undefined
+});
+
+export const generatedMetadataSchema: Validator<GeneratedPassword['metadata']> = object<GeneratedPassword['metadata']>({
+  length: number,
+  entropy: number,
+  crack_time_gpu: string,
+  crack_time_gpu_seconds: optional(number)
+});
+
+interface GenerateResponse {
+  passwords: string[];
+  metadata: GeneratedPassword['metadata'][];
+}
+
+const generateResponseSchema: Validator<GenerateResponse> = object<GenerateResponse>({
+  passwords: array(string),
+  metadata: array(generatedMetadataSchema)
+});
+
+// /generate and /generate/passphrase return parallel arrays; pair them up
+export const generatedPasswordsSchema: Validator<GeneratedPassword[]> = (value, path) => {
+  const data = generateResponseSchema(value, path);
+  return data.passwords.map((password, i) => ({
+    password,
+    metadata: generatedMetadataSchema(data.metadata[i], `metadata[${i}]`)
+  }));
+};
+
+export const healthStatusSchema: Validator<HealthStatus> = object<HealthStatus>({
+  status: string,
+  models_loaded: boolean,
+  available_models: array(string),
+  breach_database_size: number
+});
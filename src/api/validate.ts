@@ -0,0 +1,78 @@
+// Minimal runtime validators for API responses. Each validator returns the
+// typed value or throws a SchemaError naming the offending field path, so a
+// backend rename surfaces as a readable error instead of a render crash.
+
+export class SchemaError extends Error {
+  constructor(public path: string, expected: string, value: unknown) {
+    super(`${path || 'response'}: expected ${expected}, got ${value === null ? 'null' : typeof value}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export type Validator<T> = (value: unknown, path?: string) => T;
+
+type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+const join = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+export const string: Validator<string> = (value, path = '') => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+};
+
+export const number: Validator<number> = (value, path = '') => {
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new SchemaError(path, 'number', value);
+  return value;
+};
+
+export const boolean: Validator<boolean> = (value, path = '') => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+};
+
+export const array = <T>(item: Validator<T>): Validator<T[]> => (value, path = '') => {
+  if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+  return value.map((entry, i) => item(entry, join(path, i)));
+};
+
+export const record = <T>(item: Validator<T>): Validator<Record<string, T>> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+  const out: Record<string, T> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    out[key] = item(entry, join(path, key));
+  });
+  return out;
+};
+
+export const oneOf = <A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> => (value, path = '') => {
+  try {
+    return first(value, path);
+  } catch {
+    return second(value, path);
+  }
+};
+
+export const literal = <T extends string>(...values: T[]): Validator<T> => (value, path = '') => {
+  if (!values.includes(value as T)) throw new SchemaError(path, values.map(v => `'${v}'`).join(' | '), value);
+  return value as T;
+};
+
+export const optional = <T>(item: Validator<T>): Validator<T | undefined> => (value, path = '') =>
+  value === undefined || value === null ? undefined : item(value, path);
+
+// Validates the declared keys and drops anything else the server sends
+export const object = <T>(shape: Shape<T>): Validator<T> => (value, path = '') => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, 'object', value);
+  }
+  const source = value as Record<string, unknown>;
+  const out = {} as T;
+  (Object.keys(shape) as (keyof T)[]).forEach(key => {
+    const parsed = shape[key](source[key as string], join(path, key as string));
+    if (parsed !== undefined) out[key] = parsed;
+  });
+  return out;
+};
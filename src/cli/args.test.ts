@@ -0,0 +1,38 @@
+import { formatOptions, OptionSpec, parseArgs, UsageError } from './args';
+
+const SPECS: OptionSpec[] = [
+  { name: 'count', type: 'number', default: 5, min: 1, max: 10, description: 'How many' },
+  { name: 'symbols', type: 'boolean', default: true, description: 'Use symbols' },
+  { name: 'format', type: 'string', choices: ['plain', 'json'], default: 'plain', description: 'Output format' },
+  { name: 'separator', type: 'string', description: 'Between words' }
+];
+
+test('parses values, flags and negations, and keeps defaults', () => {
+  expect(parseArgs(['file.txt', '--count', '3', '--no-symbols', '--format=json'], SPECS)).toEqual({
+    options: { count: 3, symbols: false, format: 'json', separator: undefined },
+    positionals: ['file.txt']
+  });
+  expect(parseArgs(['--symbols=false', '--separator='], SPECS).options).toMatchObject({ symbols: false, separator: '' });
+  expect(parseArgs(['--separator', '-', '--', '--count'], SPECS)).toMatchObject({
+    options: { separator: '-', count: 5 },
+    positionals: ['--count']
+  });
+});
+
+test('rejects unknown options and invalid values', () => {
+  expect(() => parseArgs(['--colour'], SPECS)).toThrow(new UsageError('Unknown option --colour.'));
+  expect(() => parseArgs(['--count', '11'], SPECS)).toThrow('--count must be between 1 and 10.');
+  expect(() => parseArgs(['--count', 'many'], SPECS)).toThrow('--count takes a whole number, not "many".');
+  expect(() => parseArgs(['--format', 'xml'], SPECS)).toThrow('--format must be one of plain, json.');
+  expect(() => parseArgs(['--separator'], SPECS)).toThrow('--separator needs a value.');
+  expect(() => parseArgs(['--no-count'], SPECS)).toThrow('Unknown option --no-count.');
+});
+
+test('lists options with their defaults', () => {
+  expect(formatOptions(SPECS).split('\n')).toEqual([
+    '  --count <number>       How many (default: 5)',
+    '  --[no-]symbols         Use symbols (default: true)',
+    '  --format <plain|json>  Output format (default: "plain")',
+    '  --separator <string>   Between words'
+  ]);
+});
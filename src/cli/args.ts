@@ -0,0 +1,99 @@
+// Minimal GNU-style option parsing for the command-line tool: --name value, --name=value,
+// --flag, --no-flag, and -- to end the options. Each command declares its options once
+// and the same specs drive validation and the help text.
+
+export type OptionValue = string | number | boolean;
+
+export interface OptionSpec {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  description: string;
+  default?: OptionValue;
+  // Value shown in the help text, e.g. <file>
+  placeholder?: string;
+  choices?: readonly string[];
+  min?: number;
+  max?: number;
+}
+
+export interface ParsedArgs {
+  options: Record<string, OptionValue | undefined>;
+  positionals: string[];
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const parseValue = (spec: OptionSpec, raw: string): OptionValue => {
+  if (spec.type === 'boolean') {
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+    throw new UsageError(`--${spec.name} takes true or false, not "${raw}".`);
+  }
+  if (spec.type === 'number') {
+    if (!/^-?\d+$/.test(raw)) throw new UsageError(`--${spec.name} takes a whole number, not "${raw}".`);
+    const value = parseInt(raw, 10);
+    if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+      throw new UsageError(`--${spec.name} must be between ${spec.min ?? '-∞'} and ${spec.max ?? '∞'}.`);
+    }
+    return value;
+  }
+  if (spec.choices && !spec.choices.includes(raw)) {
+    throw new UsageError(`--${spec.name} must be one of ${spec.choices.join(', ')}.`);
+  }
+  return raw;
+};
+
+export const parseArgs = (argv: string[], specs: OptionSpec[]): ParsedArgs => {
+  const options: ParsedArgs['options'] = {};
+  specs.forEach(spec => { options[spec.name] = spec.default; });
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals < 0 ? arg.slice(2) : arg.slice(2, equals);
+    const inline = equals < 0 ? undefined : arg.slice(equals + 1);
+    const negated = flag.startsWith('no-') && specs.find(spec => spec.name === flag.slice(3) && spec.type === 'boolean');
+    const spec = negated || specs.find(spec => spec.name === flag);
+    if (!spec) throw new UsageError(`Unknown option --${flag}.`);
+
+    if (negated) {
+      if (inline !== undefined) throw new UsageError(`--${flag} does not take a value.`);
+      options[spec.name] = false;
+    } else if (inline !== undefined) {
+      options[spec.name] = parseValue(spec, inline);
+    } else if (spec.type === 'boolean') {
+      options[spec.name] = true;
+    } else {
+      if (i + 1 >= argv.length) throw new UsageError(`--${spec.name} needs a value.`);
+      options[spec.name] = parseValue(spec, argv[++i]);
+    }
+  }
+
+  return { options, positionals };
+};
+
+export const formatOptions = (specs: OptionSpec[]): string => {
+  const rows = specs.map(spec => {
+    const value = spec.type === 'boolean' ? '' : ` <${spec.placeholder || spec.choices?.join('|') || spec.type}>`;
+    const flag = spec.type === 'boolean' && spec.default === true ? `--[no-]${spec.name}` : `--${spec.name}${value}`;
+    const fallback = spec.default !== undefined && spec.default !== false ? ` (default: ${JSON.stringify(spec.default)})` : '';
+    return [flag, spec.description + fallback];
+  });
+  const width = Math.max(...rows.map(([flag]) => flag.length));
+  return rows.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`).join('\n');
+};
@@ -0,0 +1,51 @@
+import { ApiClient, ApiError, createApiClient, DEFAULT_TIMEOUT_MS } from '../api/client';
+import { DEFAULT_API_BASE_URL } from '../api/config';
+import { OptionSpec, ParsedArgs } from './args';
+
+// Everything a command touches outside its own code, so tests can run it in memory
+export interface CliIo {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  readStdin: () => Promise<string>;
+  readFile: (path: string) => Promise<string>;
+  fetch: typeof fetch;
+  env: Record<string, string | undefined>;
+}
+
+// 1 means the command ran and its check failed (weak password, unhealthy API);
+// 3 means the API could not be used at all
+export const EXIT_CODES = {
+  ok: 0,
+  failed: 1,
+  usage: 2,
+  unavailable: 3
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+export interface Command {
+  name: string;
+  summary: string;
+  // Arguments after the command name, e.g. "[file...]"
+  usage: string;
+  options: OptionSpec[];
+  run: (args: ParsedArgs, io: CliIo) => Promise<ExitCode>;
+}
+
+// Accepted by every command
+export const COMMON_OPTIONS: OptionSpec[] = [
+  { name: 'api-url', type: 'string', placeholder: 'url', description: 'API base URL; defaults to $API_BASE_URL, then ' + DEFAULT_API_BASE_URL },
+  { name: 'timeout', type: 'number', placeholder: 'ms', default: DEFAULT_TIMEOUT_MS, min: 1, description: 'Per-request timeout' },
+  { name: 'help', type: 'boolean', description: 'Show help for the command' }
+];
+
+export const clientFor = ({ options }: ParsedArgs, io: CliIo): ApiClient => createApiClient({
+  baseUrl: String(options['api-url'] || io.env.API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, ''),
+  timeoutMs: options.timeout as number,
+  fetch: io.fetch
+});
+
+export const reportApiError = (io: CliIo, error: ApiError): ExitCode => {
+  io.stderr(`error: ${error.message}\n`);
+  return EXIT_CODES.unavailable;
+};
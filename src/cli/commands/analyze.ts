@@ -0,0 +1,134 @@
+import { AnalysisResult, PasswordPolicy } from '../../types';
+import { ApiError } from '../../api/client';
+import { analyzeLocally } from '../../lib/localAnalyzer';
+import { checkPolicy, evidenceFromResult, isCompliant, parsePolicy } from '../../lib/policy';
+import { getStrengthRank, STRENGTH_LEVELS } from '../../lib/strength';
+import { mapWithConcurrency } from '../../lib/concurrency';
+import { UsageError } from '../args';
+import { clientFor, CliIo, Command, EXIT_CODES, reportApiError } from '../command';
+import { formatJson, formatTable } from '../output';
+
+const MAX_CONCURRENT = 4;
+
+// One row of the report. Passwords are never printed, only their line number.
+export interface AnalyzeReport {
+  line: number;
+  consensus: string;
+  predictions: Record<string, string>;
+  entropy: number;
+  breached: boolean | null;
+  breach_count: number;
+  // Offline GPU attack
+  crack_time: string;
+  warnings: string[];
+  suggestions: string[];
+  policy: { name: string; compliant: boolean; failed: string[] } | null;
+  passed: boolean;
+}
+
+const readInput = async (files: string[], io: CliIo): Promise<string> => {
+  if (files.length > 1) throw new UsageError('Give one file, or none to read stdin.');
+  if (files.length === 0 || files[0] === '-') return io.readStdin();
+  try {
+    return await io.readFile(files[0]);
+  } catch (error) {
+    throw new UsageError(`Could not read ${files[0]}: ${(error as Error).message}`);
+  }
+};
+
+const readPolicy = async (path: string, io: CliIo): Promise<PasswordPolicy> => {
+  try {
+    return parsePolicy(await io.readFile(path));
+  } catch (error) {
+    throw new UsageError(`Could not read the policy in ${path}: ${(error as Error).message}`);
+  }
+};
+
+const toReport = (
+  line: number,
+  password: string,
+  result: AnalysisResult,
+  minRank: number,
+  policy: PasswordPolicy | null
+): AnalyzeReport => {
+  const checks = policy ? checkPolicy(password, policy, evidenceFromResult(result)) : [];
+  const compliant = isCompliant(checks);
+  return {
+    line,
+    consensus: result.consensus,
+    predictions: result.predictions,
+    entropy: result.metrics.practical_entropy,
+    breached: result.breach_check === 'none' ? null : result.is_breached,
+    breach_count: result.breach_count,
+    crack_time: result.crack_time.offline_gpu,
+    warnings: result.warnings,
+    suggestions: result.suggestions,
+    policy: policy && {
+      name: policy.name,
+      compliant,
+      failed: checks.filter(check => check.status === 'fail').map(check => check.label)
+    },
+    passed: getStrengthRank(result.consensus) >= minRank && compliant
+  };
+};
+
+const formatReports = (reports: AnalyzeReport[]): string => formatTable(
+  ['Line', 'Strength', 'Entropy', 'Breached', 'Policy', 'Result'],
+  reports.map(report => [
+    String(report.line),
+    report.consensus,
+    `${report.entropy.toFixed(1)} bits`,
+    report.breached === null ? 'not checked' : report.breached ? `yes (${report.breach_count})` : 'no',
+    report.policy ? (report.policy.compliant ? 'compliant' : report.policy.failed.join('; ')) : '-',
+    report.passed ? 'pass' : 'FAIL'
+  ])
+);
+
+export const analyzeCommand: Command = {
+  name: 'analyze',
+  summary: 'Analyze passwords, one per line, from a file or stdin',
+  usage: '[file | -]',
+  options: [
+    { name: 'format', type: 'string', choices: ['table', 'json'], default: 'table', description: 'Output format' },
+    {
+      name: 'min-strength',
+      type: 'string',
+      choices: STRENGTH_LEVELS.map(level => level.toLowerCase()),
+      default: 'strong',
+      description: 'Exit with 1 when any consensus is below this level'
+    },
+    { name: 'policy', type: 'string', placeholder: 'file', description: 'Policy JSON exported from the Policy tab; violations exit with 1' },
+    { name: 'local', type: 'boolean', description: 'Use the built-in heuristic instead of the API' }
+  ],
+
+  run: async (args, io) => {
+    const { options, positionals } = args;
+    const policy = options.policy ? await readPolicy(String(options.policy), io) : null;
+    const passwords = (await readInput(positionals, io))
+      .split(/\r?\n/)
+      .map((password, index) => ({ password, line: index + 1 }))
+      .filter(({ password }) => password !== '');
+    if (passwords.length === 0) throw new UsageError('No passwords to analyze.');
+
+    const client = clientFor(args, io);
+    const minRank = getStrengthRank(String(options['min-strength']));
+    const failures: ApiError[] = [];
+
+    const reports = await mapWithConcurrency(passwords, MAX_CONCURRENT, async ({ password, line }) => {
+      if (options.local) return toReport(line, password, analyzeLocally(password), minRank, policy);
+      // After the first failure the remaining passwords are not sent
+      if (failures.length > 0) return null;
+      const response = await client.analyze(password);
+      if (!response.ok) {
+        failures.push(response.error);
+        return null;
+      }
+      return toReport(line, password, { ...response.data, breach_check: 'server' }, minRank, policy);
+    });
+    if (failures.length > 0) return reportApiError(io, failures[0]);
+
+    const complete = reports as AnalyzeReport[];
+    io.stdout(options.format === 'json' ? formatJson(complete) : formatReports(complete));
+    return complete.every(report => report.passed) ? EXIT_CODES.ok : EXIT_CODES.failed;
+  }
+};
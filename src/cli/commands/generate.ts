@@ -0,0 +1,54 @@
+import { GenerateRequest } from '../../types';
+import { MAX_LENGTH, validateGenerateRequest } from '../../lib/generator';
+import { UsageError } from '../args';
+import { clientFor, Command, EXIT_CODES, reportApiError } from '../command';
+import { formatGenerated, GENERATED_FORMATS } from '../output';
+
+// Options are the /generate request fields in kebab case, with the Generate tab's defaults
+export const generateCommand: Command = {
+  name: 'generate',
+  summary: 'Generate random passwords on the server',
+  usage: '',
+  options: [
+    { name: 'length', type: 'number', default: 16, min: 8, max: MAX_LENGTH, description: 'Characters per password' },
+    { name: 'count', type: 'number', default: 5, min: 1, max: 10, description: 'How many passwords' },
+    { name: 'include-uppercase', type: 'boolean', default: true, description: 'Use A-Z' },
+    { name: 'include-lowercase', type: 'boolean', default: true, description: 'Use a-z' },
+    { name: 'include-digits', type: 'boolean', default: true, description: 'Use 0-9' },
+    { name: 'include-symbols', type: 'boolean', default: true, description: 'Use symbols' },
+    { name: 'exclude-ambiguous', type: 'boolean', default: false, description: 'Leave out look-alikes such as l, 1, O and 0' },
+    { name: 'custom-symbols', type: 'string', placeholder: 'chars', description: 'Symbol set replacing the default one' },
+    { name: 'min-uppercase', type: 'number', min: 0, max: MAX_LENGTH, description: 'At least this many uppercase letters' },
+    { name: 'min-lowercase', type: 'number', min: 0, max: MAX_LENGTH, description: 'At least this many lowercase letters' },
+    { name: 'min-digits', type: 'number', min: 0, max: MAX_LENGTH, description: 'At least this many digits' },
+    { name: 'min-symbols', type: 'number', min: 0, max: MAX_LENGTH, description: 'At least this many symbols' },
+    { name: 'template', type: 'string', placeholder: 'pattern', description: 'Pattern such as Cvcc-9999-Cvcc; overrides length and classes' },
+    { name: 'format', type: 'string', choices: GENERATED_FORMATS, default: 'plain', description: 'Output format' }
+  ],
+
+  run: async (args, io) => {
+    const { options } = args;
+    const request: GenerateRequest = {
+      length: options.length as number,
+      count: options.count as number,
+      include_uppercase: options['include-uppercase'] as boolean,
+      include_lowercase: options['include-lowercase'] as boolean,
+      include_digits: options['include-digits'] as boolean,
+      include_symbols: options['include-symbols'] as boolean,
+      exclude_ambiguous: options['exclude-ambiguous'] as boolean,
+      ...(options['custom-symbols'] !== undefined && { custom_symbols: options['custom-symbols'] as string }),
+      ...(options['min-uppercase'] !== undefined && { min_uppercase: options['min-uppercase'] as number }),
+      ...(options['min-lowercase'] !== undefined && { min_lowercase: options['min-lowercase'] as number }),
+      ...(options['min-digits'] !== undefined && { min_digits: options['min-digits'] as number }),
+      ...(options['min-symbols'] !== undefined && { min_symbols: options['min-symbols'] as number }),
+      ...(options.template !== undefined && { template: options.template as string })
+    };
+    const errors = validateGenerateRequest(request);
+    if (errors.length > 0) throw new UsageError(errors.map(error => error.message).join(' '));
+
+    const response = await clientFor(args, io).generate(request);
+    if (!response.ok) return reportApiError(io, response.error);
+    io.stdout(formatGenerated(response.data, String(options.format)));
+    return EXIT_CODES.ok;
+  }
+};
@@ -0,0 +1,29 @@
+import { clientFor, Command, EXIT_CODES, reportApiError } from '../command';
+import { formatJson } from '../output';
+
+// Exits with 0 when models are loaded, 1 when the API is up without them
+export const healthCommand: Command = {
+  name: 'health',
+  summary: 'Check that the API is up and its models are loaded',
+  usage: '',
+  options: [
+    { name: 'format', type: 'string', choices: ['table', 'json'], default: 'table', description: 'Output format' },
+    { name: 'retries', type: 'number', default: 2, min: 0, max: 10, description: 'Retries, with backoff, when the API is unreachable' }
+  ],
+
+  run: async (args, io) => {
+    const { options } = args;
+    const client = clientFor(args, io);
+    const response = await client.health({ retries: options.retries as number });
+    if (!response.ok) return reportApiError(io, response.error);
+
+    const health = response.data;
+    io.stdout(options.format === 'json' ? formatJson(health) : [
+      `API:            ${client.baseUrl}`,
+      `Status:         ${health.status}`,
+      `Models:         ${health.models_loaded ? health.available_models.join(', ') : 'none loaded'}`,
+      `Breach entries: ${health.breach_database_size.toLocaleString('en')}`
+    ].join('\n') + '\n');
+    return health.models_loaded ? EXIT_CODES.ok : EXIT_CODES.failed;
+  }
+};
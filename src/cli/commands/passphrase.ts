@@ -0,0 +1,39 @@
+import { CapitalizationStyle, PassphraseRequest, WordlistId } from '../../types';
+import { CAPITALIZATION_STYLES, WORDLISTS } from '../../lib/passphrase';
+import { clientFor, Command, EXIT_CODES, reportApiError } from '../command';
+import { formatGenerated, GENERATED_FORMATS } from '../output';
+
+// Options are the /generate/passphrase request fields in kebab case, with the Passphrase tab's defaults
+export const passphraseCommand: Command = {
+  name: 'passphrase',
+  summary: 'Generate diceware passphrases on the server',
+  usage: '',
+  options: [
+    { name: 'num-words', type: 'number', default: 4, min: 2, max: 8, description: 'Words per passphrase' },
+    { name: 'separator', type: 'string', placeholder: 'text', default: '-', description: 'Text between words' },
+    { name: 'count', type: 'number', default: 5, min: 1, max: 10, description: 'How many passphrases' },
+    { name: 'wordlist', type: 'string', choices: Object.keys(WORDLISTS), default: 'eff_large', description: 'Word list' },
+    { name: 'capitalization', type: 'string', choices: Object.keys(CAPITALIZATION_STYLES), default: 'none', description: 'Which words to capitalize' },
+    { name: 'insert-digit', type: 'boolean', default: false, description: 'Add a random digit at a word boundary' },
+    { name: 'insert-symbol', type: 'boolean', default: false, description: 'Add a random symbol at a word boundary' },
+    { name: 'format', type: 'string', choices: GENERATED_FORMATS, default: 'plain', description: 'Output format' }
+  ],
+
+  run: async (args, io) => {
+    const { options } = args;
+    const request: PassphraseRequest = {
+      num_words: options['num-words'] as number,
+      separator: options.separator as string,
+      count: options.count as number,
+      wordlist: options.wordlist as WordlistId,
+      capitalization: options.capitalization as CapitalizationStyle,
+      insert_digit: options['insert-digit'] as boolean,
+      insert_symbol: options['insert-symbol'] as boolean
+    };
+
+    const response = await clientFor(args, io).generatePassphrase(request);
+    if (!response.ok) return reportApiError(io, response.error);
+    io.stdout(formatGenerated(response.data, String(options.format)));
+    return EXIT_CODES.ok;
+  }
+};
@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+// Entry point of the password-analyzer command (npm run build:cli)
+
+import { promises as fs } from 'fs';
+import { main } from './main';
+
+const readStdin = (): Promise<string> => new Promise((resolve, reject) => {
+  let text = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', chunk => { text += chunk; });
+  process.stdin.on('end', () => resolve(text));
+  process.stdin.on('error', reject);
+});
+
+if (typeof fetch !== 'function') {
+  process.stderr.write('error: Node.js 18 or later is required.\n');
+  process.exit(1);
+}
+
+main(process.argv.slice(2), {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+  readStdin,
+  readFile: path => fs.readFile(path, 'utf8'),
+  fetch,
+  env: process.env
+}).then(code => {
+  process.exitCode = code;
+}, error => {
+  process.stderr.write(`error: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,181 @@
+/**
+ * @jest-environment node
+ */
+import { main } from './main';
+import { CliIo, EXIT_CODES } from './command';
+import { AnalyzeReport } from './commands/analyze';
+import { AnalyzeRequest } from '../types';
+import { createMockApiServer, MockApiOptions, MOCK_MODEL } from '../test-utils/mockApiServer';
+
+const STRONG = 'vT9#qLm2@xR7!pWz4&Kc';
+
+interface Run {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+// Runs the CLI against the mock API, with `stdin` and `files` as its input
+const setup = (options: MockApiOptions = {}, stdin = '', files: Record<string, string> = {}) => {
+  const server = createMockApiServer(options);
+  const run = async (...argv: string[]): Promise<Run> => {
+    let stdout = '';
+    let stderr = '';
+    const io: CliIo = {
+      stdout: text => { stdout += text; },
+      stderr: text => { stderr += text; },
+      readStdin: async () => stdin,
+      readFile: async path => {
+        if (!(path in files)) throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+        return files[path];
+      },
+      fetch: server.fetch,
+      env: { API_BASE_URL: 'http://api.test' }
+    };
+    const code = await main(argv, io);
+    return { code, stdout, stderr };
+  };
+  return { server, run };
+};
+
+describe('analyze', () => {
+  test('reads stdin and exits with 1 when a consensus is below the threshold', async () => {
+    const { server, run } = setup({}, `password\n\n${STRONG}\n`);
+    const { code, stdout } = await run('analyze');
+
+    expect(code).toBe(EXIT_CODES.failed);
+    expect(server.requests.map(request => (request.body as AnalyzeRequest).password).sort()).toEqual([STRONG, 'password'].sort());
+    expect(stdout).toMatch(/^1\s+Weak.*FAIL$/m);
+    expect(stdout).toMatch(/^3\s+Strong.*pass$/m);
+    expect(stdout).not.toContain(STRONG);
+  });
+
+  test('passes with a lower threshold and prints JSON without the passwords', async () => {
+    const { run } = setup({}, '', { 'passwords.txt': `${STRONG}\r\nSummer2024!\r\n` });
+    const { code, stdout } = await run('analyze', 'passwords.txt', '--min-strength=weak', '--format', 'json');
+
+    expect(code).toBe(EXIT_CODES.ok);
+    const reports: AnalyzeReport[] = JSON.parse(stdout);
+    expect(reports.map(report => report.line)).toEqual([1, 2]);
+    expect(reports[0].predictions).toEqual({ [MOCK_MODEL]: 'Strong' });
+    expect(reports[0].breached).toBe(false);
+    expect(stdout).not.toContain(STRONG);
+  });
+
+  test('fails passwords that break the policy', async () => {
+    const policy = JSON.stringify({ name: 'CI', min_length: 24, must_not_be_breached: true });
+    const { run } = setup({ breached: { [STRONG]: 12 } }, STRONG, { 'policy.json': policy });
+    const { code, stdout } = await run('analyze', '--policy', 'policy.json', '--min-strength', 'weak', '--format', 'json');
+
+    expect(code).toBe(EXIT_CODES.failed);
+    const [report]: AnalyzeReport[] = JSON.parse(stdout);
+    expect(report.breach_count).toBe(12);
+    expect(report.policy).toEqual({
+      name: 'CI',
+      compliant: false,
+      failed: expect.arrayContaining(['At least 24 characters'])
+    });
+  });
+
+  test('analyzes without the API when asked to', async () => {
+    const { server, run } = setup({}, STRONG);
+    expect((await run('analyze', '--local')).code).toBe(EXIT_CODES.ok);
+    expect(server.fetch).not.toHaveBeenCalled();
+  });
+
+  test('exits with 3 when the API fails and 2 on bad input', async () => {
+    const { run } = setup({ failWith: 500 }, 'password');
+    const failed = await run('analyze');
+    expect(failed.code).toBe(EXIT_CODES.unavailable);
+    expect(failed.stderr).toBe('error: /analyze responded with status 500\n');
+
+    expect((await run('analyze', 'missing.txt')).stderr).toMatch(/^error: Could not read missing\.txt/);
+    expect((await run('analyze', '--min-strength', 'great')).code).toBe(EXIT_CODES.usage);
+    expect((await setup().run('analyze')).stderr).toMatch(/No passwords to analyze/);
+  });
+});
+
+describe('generate', () => {
+  test('sends the Generate tab request body and prints one password per line', async () => {
+    const { server, run } = setup();
+    const { code, stdout } = await run(
+      'generate', '--length', '20', '--count=3', '--no-include-symbols', '--exclude-ambiguous', '--min-digits', '2'
+    );
+
+    expect(code).toBe(EXIT_CODES.ok);
+    expect(server.requests).toEqual([{
+      method: 'POST',
+      path: '/generate',
+      body: {
+        length: 20,
+        count: 3,
+        include_uppercase: true,
+        include_lowercase: true,
+        include_digits: true,
+        include_symbols: false,
+        exclude_ambiguous: true,
+        min_digits: 2
+      }
+    }]);
+    expect(stdout.trimEnd().split('\n')).toHaveLength(3);
+    expect(stdout.split('\n')[0]).toHaveLength(20);
+  });
+
+  test('rejects impossible requests before calling the API', async () => {
+    const { server, run } = setup();
+    const { code, stderr } = await run(
+      'generate', '--no-include-uppercase', '--no-include-lowercase', '--no-include-digits', '--no-include-symbols'
+    );
+    expect(code).toBe(EXIT_CODES.usage);
+    expect(stderr).toContain('Enable at least one character class.');
+    expect(server.fetch).not.toHaveBeenCalled();
+  });
+});
+
+test('passphrase sends num_words, separator and count', async () => {
+  const { server, run } = setup();
+  const { code, stdout } = await run('passphrase', '--num-words', '3', '--separator', '.', '--count', '2', '--format', 'json');
+
+  expect(code).toBe(EXIT_CODES.ok);
+  expect(server.requests[0]).toMatchObject({
+    path: '/generate/passphrase',
+    body: { num_words: 3, separator: '.', count: 2 }
+  });
+  expect(JSON.parse(stdout).map((phrase: { password: string }) => phrase.password)).toEqual([
+    'correct.horse.battery', 'horse.battery.staple'
+  ]);
+});
+
+describe('health', () => {
+  test('reports the models and exits with 1 when none are loaded', async () => {
+    const healthy = await setup().run('health', '--api-url', 'http://other.test/');
+    expect(healthy.code).toBe(EXIT_CODES.ok);
+    expect(healthy.stdout).toContain('API:            http://other.test');
+    expect(healthy.stdout).toContain(`Models:         ${MOCK_MODEL}`);
+
+    const degraded = await setup({ health: { models_loaded: false, available_models: [] } }).run('health');
+    expect(degraded.code).toBe(EXIT_CODES.failed);
+    expect(degraded.stdout).toContain('none loaded');
+  });
+
+  test('exits with 3 when the API is unreachable', async () => {
+    const { server, run } = setup();
+    server.fetch.mockRejectedValue(new TypeError('fetch failed'));
+    const { code, stderr } = await run('health', '--retries', '0');
+    expect(code).toBe(EXIT_CODES.unavailable);
+    expect(stderr).toBe('error: Could not reach the API at http://api.test\n');
+  });
+});
+
+test('prints usage for unknown commands and help on request', async () => {
+  const { run } = setup();
+  const unknown = await run('crack');
+  expect(unknown.code).toBe(EXIT_CODES.usage);
+  expect(unknown.stderr).toContain('Unknown command "crack"');
+
+  const help = await run('passphrase', '--help');
+  expect(help.code).toBe(EXIT_CODES.ok);
+  expect(help.stdout).toContain('--num-words <number>');
+  expect(help.stdout).toContain('--api-url <url>');
+  expect((await run('help', 'generate')).stdout).toContain('--[no-]include-symbols');
+});
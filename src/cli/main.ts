@@ -0,0 +1,60 @@
+import { formatOptions, parseArgs, UsageError } from './args';
+import { CliIo, Command, COMMON_OPTIONS, EXIT_CODES, ExitCode } from './command';
+import { analyzeCommand } from './commands/analyze';
+import { generateCommand } from './commands/generate';
+import { passphraseCommand } from './commands/passphrase';
+import { healthCommand } from './commands/health';
+
+export const PROGRAM = 'password-analyzer';
+
+export const COMMANDS: Command[] = [analyzeCommand, generateCommand, passphraseCommand, healthCommand];
+
+const usage = (): string => {
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  return [
+    `Usage: ${PROGRAM} <command> [options]`,
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    `Run "${PROGRAM} <command> --help" for the options of a command.`,
+    `Exit codes: ${EXIT_CODES.ok} success, ${EXIT_CODES.failed} check failed, ${EXIT_CODES.usage} usage error, ${EXIT_CODES.unavailable} API unavailable.`
+  ].join('\n') + '\n';
+};
+
+const commandHelp = (command: Command): string => [
+  `Usage: ${PROGRAM} ${command.name} [options]${command.usage ? ` ${command.usage}` : ''}`,
+  '',
+  command.summary,
+  '',
+  'Options:',
+  formatOptions([...command.options, ...COMMON_OPTIONS])
+].join('\n') + '\n';
+
+export const main = async (argv: string[], io: CliIo): Promise<ExitCode> => {
+  const [name, ...rest] = argv;
+  if (!name || name === '--help' || name === 'help') {
+    const command = COMMANDS.find(candidate => candidate.name === rest[0]);
+    io.stdout(command ? commandHelp(command) : usage());
+    return name ? EXIT_CODES.ok : EXIT_CODES.usage;
+  }
+
+  const command = COMMANDS.find(candidate => candidate.name === name);
+  if (!command) {
+    io.stderr(`error: Unknown command "${name}".\n\n${usage()}`);
+    return EXIT_CODES.usage;
+  }
+
+  try {
+    const args = parseArgs(rest, [...command.options, ...COMMON_OPTIONS]);
+    if (args.options.help) {
+      io.stdout(commandHelp(command));
+      return EXIT_CODES.ok;
+    }
+    return await command.run(args, io);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.stderr(`error: ${error.message}\nRun "${PROGRAM} ${command.name} --help" for the options.\n`);
+    return EXIT_CODES.usage;
+  }
+};
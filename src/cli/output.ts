@@ -0,0 +1,27 @@
+// Plain-text tables for terminals and CI logs; --format json prints the data instead
+
+import { GeneratedPassword } from '../types';
+
+export const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => row[i].length)));
+  const line = (cells: string[]): string => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n') + '\n';
+};
+
+export const formatJson = (data: unknown): string => JSON.stringify(data, null, 2) + '\n';
+
+// Output of generate and passphrase: plain prints one secret per line, for scripts
+export const formatGenerated = (generated: GeneratedPassword[], format: string): string => {
+  if (format === 'json') return formatJson(generated);
+  if (format === 'table') {
+    return formatTable(
+      ['Password', 'Length', 'Entropy', 'GPU crack time'],
+      generated.map(({ password, metadata }) => [
+        password, String(metadata.length), `${metadata.entropy.toFixed(1)} bits`, metadata.crack_time_gpu
+      ])
+    );
+  }
+  return generated.map(({ password }) => password).join('\n') + '\n';
+};
+
+export const GENERATED_FORMATS = ['plain', 'table', 'json'] as const;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { RefreshCw } from 'lucide-react';
+import { ApiHealth } from '../hooks/useApiHealth';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ApiStatusDrawerProps {
+  id: string;
+  health: ApiHealth;
+}
+
+// What the last /health check reported, opened from the status badge in the header
+const ApiStatusDrawer: React.FC<ApiStatusDrawerProps> = ({ id, health }) => {
+  const { locale, t } = useI18n();
+  const { status, details, latencyMs, checkedAt, nextCheckAt, checkNow } = health;
+  const time = (timestamp: number): string => new Date(timestamp).toLocaleTimeString(locale);
+
+  return (
+    <section id={id} aria-label={t('api.status')} className="mb-4 p-4 bg-gray-50 rounded-xl">
+      <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <dt className="font-medium text-gray-700">{t('api.models')}</dt>
+          <dd className="text-gray-600" data-testid="api-models">
+            {details && details.available_models.length > 0
+              ? details.available_models.join(', ')
+              : t('api.noModelsLoaded')}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-700">{t('api.breachDatabase')}</dt>
+          <dd className="text-gray-600" data-testid="api-breach-db">
+            {details ? t('api.breachDatabaseSize', { count: details.breach_database_size }) : t('api.unknown')}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-700">{t('api.lastCheck')}</dt>
+          <dd className="text-gray-600" data-testid="api-last-check">
+            {checkedAt === null
+              ? t('api.notChecked')
+              : status === 'offline'
+                ? t('api.lastCheckFailed', { time: time(checkedAt) })
+                : t('api.lastCheckValue', { time: time(checkedAt), latency: latencyMs ?? 0 })}
+          </dd>
+        </div>
+        <div>
+          <dt className="font-medium text-gray-700">{t('api.nextCheck')}</dt>
+          <dd className="text-gray-600">{nextCheckAt === null ? t('api.notChecked') : time(nextCheckAt)}</dd>
+        </div>
+      </dl>
+
+      {status === 'offline' && <p className="text-sm text-red-700 mt-4">{t('api.offlineHint')}</p>}
+      {status === 'no-models' && <p className="text-sm text-yellow-700 mt-4">{t('api.noModelsHint')}</p>}
+
+      <button
+        onClick={checkNow}
+        disabled={status === 'checking'}
+        className="mt-4 flex items-center gap-2 px-4 py-2 border-2 border-gray-200 rounded-xl text-sm font-medium hover:bg-white disabled:opacity-50"
+      >
+        <RefreshCw className="w-4 h-4" aria-hidden="true" />
+        {t('api.checkNow')}
+      </button>
+    </section>
+  );
+};
+
+export default ApiStatusDrawer;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import BulkAudit from './BulkAudit';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+test('audits an uploaded list and summarizes reuse', async () => {
+  const analyze = jest.fn(async (password: string) => analyzeLocally(password));
+  render(<BulkAudit analyze={analyze} />);
+
+  const file = new File(['qwerty\nvT9#qLm2@xR7!pWz4&Kc\nqwerty\n'], 'passwords.txt', { type: 'text/plain' });
+  fireEvent.change(screen.getByTestId('audit-file-input'), { target: { files: [file] } });
+
+  expect(await screen.findByText('Audit Report')).toBeInTheDocument();
+  expect(analyze).toHaveBeenCalledTimes(2);
+  expect(screen.getByText('2 distinct passwords across 3 entries')).toBeInTheDocument();
+  expect(screen.getAllByText('reused ×2')).toHaveLength(2);
+
+  fireEvent.click(screen.getByRole('button', { name: /Consensus/ }));
+  const firstRow = screen.getAllByRole('row')[1];
+  expect(within(firstRow).getByText('Strong')).toBeInTheDocument();
+});
+
+test('does not pass the row index to analyze as its abort signal', async () => {
+  const analyze = jest.fn(async (password: string, signal?: AbortSignal) => {
+    if (signal !== undefined && !(signal instanceof AbortSignal)) throw new TypeError('signal is not an AbortSignal');
+    return analyzeLocally(password);
+  });
+  render(<BulkAudit analyze={analyze} />);
+
+  const file = new File(['qwerty\nletmein\n'], 'passwords.txt', { type: 'text/plain' });
+  fireEvent.change(screen.getByTestId('audit-file-input'), { target: { files: [file] } });
+
+  expect(await screen.findByText('Audit Report')).toBeInTheDocument();
+  expect(screen.getByTestId('audit-file-input')).toBeEnabled();
+});
+
+test('reports a failed audit and re-enables the upload', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  render(<BulkAudit analyze={jest.fn().mockRejectedValue(new Error('boom'))} />);
+
+  const file = new File(['qwerty\n'], 'passwords.txt', { type: 'text/plain' });
+  fireEvent.change(screen.getByTestId('audit-file-input'), { target: { files: [file] } });
+
+  expect(await screen.findByText(/could not be completed/)).toBeInTheDocument();
+  expect(screen.getByTestId('audit-file-input')).toBeEnabled();
+});
+
+test('reports a file that cannot be read', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const readAsText = jest.spyOn(FileReader.prototype, 'readAsText').mockImplementation(function (this: FileReader) {
+    this.onerror?.(new ProgressEvent('error') as ProgressEvent<FileReader>);
+  });
+  const analyze = jest.fn();
+  render(<BulkAudit analyze={analyze} />);
+
+  fireEvent.change(screen.getByTestId('audit-file-input'), { target: { files: [new File(['qwerty'], 'passwords.txt')] } });
+
+  expect(await screen.findByText('The file could not be read.')).toBeInTheDocument();
+  expect(analyze).not.toHaveBeenCalled();
+  readAsText.mockRestore();
+});
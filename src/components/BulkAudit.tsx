@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import { Upload, ArrowUpDown, BarChart3, AlertTriangle, Eye, EyeOff } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { parsePasswordList, ImportedEntry } from '../lib/passwordImport';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { readFileText } from '../lib/files';
+import { maskSecret } from '../lib/clipboard';
+import { getStrengthRank, STRENGTH_LEVELS, StrengthBadge } from './strength';
+import { describePatterns } from '../lib/findings';
+import { I18n, useI18n } from '../i18n/I18nProvider';
+import { fixed, MessageKey } from '../i18n';
+
+const MAX_CONCURRENT = 4;
+
+interface BulkAuditProps {
+  analyze: (password: string, signal?: AbortSignal) => Promise<AnalysisResult>;
+}
+
+interface AuditRow extends ImportedEntry {
+  result: AnalysisResult;
+  reuseCount: number;
+}
+
+type SortKey = 'label' | 'consensus' | 'breach_count' | 'entropy' | 'topIssue';
+
+export const getTopIssue = (result: AnalysisResult, { t, locale }: I18n): string => {
+  if (result.is_breached) return t('audit.issue.breached', { count: result.breach_count });
+  if (result.patterns.length > 0) return describePatterns(result, locale)[0];
+  if (result.dictionary_words.length > 0) return t('audit.issue.dictionary', { word: result.dictionary_words[0] });
+  return '—';
+};
+
+const compareRows = (a: AuditRow, b: AuditRow, key: SortKey, i18n: I18n): number => {
+  switch (key) {
+    case 'label': return a.label.localeCompare(b.label);
+    case 'consensus': return getStrengthRank(a.result.consensus) - getStrengthRank(b.result.consensus);
+    case 'breach_count': return a.result.breach_count - b.result.breach_count;
+    case 'entropy': return a.result.metrics.practical_entropy - b.result.metrics.practical_entropy;
+    case 'topIssue': return getTopIssue(a.result, i18n).localeCompare(getTopIssue(b.result, i18n));
+  }
+};
+
+const COLUMNS: { key: SortKey; label: MessageKey }[] = [
+  { key: 'label', label: 'audit.column.entry' },
+  { key: 'consensus', label: 'audit.column.consensus' },
+  { key: 'breach_count', label: 'audit.column.breaches' },
+  { key: 'entropy', label: 'audit.column.entropy' },
+  { key: 'topIssue', label: 'audit.column.topIssue' }
+];
+
+const ShareBar: React.FC<{ label: string; count: number; total: number; color: string }> = ({ label, count, total, color }) => {
+  const { t, formatNumber } = useI18n();
+  const percent = total ? (count / total) * 100 : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-gray-600">{label}</span>
+        <span className="font-bold">
+          {t('audit.share', { count, percent: formatNumber(percent / 100, { style: 'percent', maximumFractionDigits: 0 }) })}
+        </span>
+      </div>
+      <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const BulkAudit: React.FC<BulkAuditProps> = ({ analyze }) => {
+  const i18n = useI18n();
+  const { t, formatNumber, strength } = i18n;
+  const [fileName, setFileName] = useState<string>('');
+  const [rows, setRows] = useState<AuditRow[]>([]);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string>('');
+  const [sortKey, setSortKey] = useState<SortKey>('consensus');
+  const [sortAsc, setSortAsc] = useState<boolean>(true);
+  const [showPasswords, setShowPasswords] = useState<boolean>(false);
+
+  const runAudit = async (file: File): Promise<void> => {
+    setError('');
+    setRows([]);
+    setFileName(file.name);
+
+    let entries: ImportedEntry[];
+    try {
+      entries = parsePasswordList(await readFileText(file));
+    } catch (err) {
+      console.error('Error reading password list:', err);
+      setError(t('audit.readFailed'));
+      return;
+    }
+    if (entries.length === 0) {
+      setError(t('audit.noPasswords'));
+      return;
+    }
+
+    // Each distinct password is analyzed once and shared by all its entries
+    const unique = Array.from(new Set(entries.map(e => e.password)));
+    setProgress({ done: 0, total: unique.length });
+    let results: AnalysisResult[];
+    try {
+      // The worker also receives the row index, which must not reach analyze as its signal
+      results = await mapWithConcurrency(unique, MAX_CONCURRENT, password => analyze(password),
+        (done, total) => setProgress({ done, total }));
+    } catch (err) {
+      console.error('Error auditing passwords:', err);
+      setError(t('audit.failed'));
+      setProgress(null);
+      return;
+    }
+
+    const byPassword = new Map(unique.map((pwd, i) => [pwd, results[i]]));
+    const counts = new Map<string, number>();
+    entries.forEach(e => counts.set(e.password, (counts.get(e.password) || 0) + 1));
+
+    setRows(entries.map(entry => ({
+      ...entry,
+      result: byPassword.get(entry.password)!,
+      reuseCount: counts.get(entry.password)!
+    })));
+    setProgress(null);
+  };
+
+  const sortedRows = useMemo(() => {
+    const sorted = [...rows].sort((a, b) => compareRows(a, b, sortKey, i18n));
+    return sortAsc ? sorted : sorted.reverse();
+  }, [rows, sortKey, sortAsc, i18n]);
+
+  const toggleSort = (key: SortKey): void => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  const reusedCount = rows.filter(r => r.reuseCount > 1).length;
+  const breachedCount = rows.filter(r => r.result.is_breached).length;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <h3 className="text-xl font-bold mb-2">{t('audit.title')}</h3>
+        <p className="text-gray-600 text-sm mb-6">{t('audit.hint')}</p>
+
+        <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-500 transition-colors">
+          <Upload className="w-8 h-8 text-gray-400" />
+          <span className="font-medium">{fileName || t('audit.chooseFile')}</span>
+          <input
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            disabled={progress !== null}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Cleared so picking the same file again starts a new audit
+              e.target.value = '';
+              if (file) runAudit(file);
+            }}
+            className="hidden"
+            data-testid="audit-file-input"
+          />
+        </label>
+
+        {progress && (
+          <div className="mt-6">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-600">{t('analyze.analyzing')}</span>
+              <span className="font-bold">{t('audit.progress', { done: progress.done, total: progress.total })}</span>
+            </div>
+            <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 flex items-start gap-2 p-3 bg-red-50 rounded-lg text-red-800 text-sm">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          {/* Summary Charts */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="bg-white rounded-2xl shadow-xl p-6">
+              <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                <BarChart3 className="w-5 h-5 text-blue-600" />
+                {t('audit.distribution')}
+              </h3>
+              <div className="space-y-3">
+                {STRENGTH_LEVELS.map(level => (
+                  <ShareBar
+                    key={level}
+                    label={strength(level)}
+                    count={rows.filter(r => r.result.consensus.toLowerCase() === level.toLowerCase()).length}
+                    total={rows.length}
+                    color={level === 'Strong' ? 'bg-green-500' : level === 'Medium' ? 'bg-yellow-500' : 'bg-red-500'}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-xl p-6">
+              <h3 className="text-lg font-bold mb-4">{t('audit.reuse')}</h3>
+              <ShareBar label={t('audit.reused')} count={reusedCount} total={rows.length} color="bg-orange-500" />
+              <p className="text-sm text-gray-600 mt-3">
+                {t('audit.distinct', {
+                  count: new Set(rows.map(r => r.password)).size,
+                  entries: t('audit.entries', { count: rows.length })
+                })}
+              </p>
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-xl p-6">
+              <h3 className="text-lg font-bold mb-4">{t('audit.breached')}</h3>
+              <ShareBar label={t('audit.breachedEntries')} count={breachedCount} total={rows.length} color="bg-red-600" />
+            </div>
+          </div>
+
+          {/* Report Table */}
+          <div className="bg-white rounded-2xl shadow-xl p-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold">{t('audit.report')}</h3>
+              <button
+                onClick={() => setShowPasswords(!showPasswords)}
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                {showPasswords ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {showPasswords ? t('audit.hidePasswords') : t('audit.showPasswords')}
+              </button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-200 text-start">
+                    {COLUMNS.map(col => (
+                      <th key={col.key} className="py-3 pe-4">
+                        <button
+                          onClick={() => toggleSort(col.key)}
+                          className="flex items-center gap-1 font-medium text-gray-700 hover:text-gray-900"
+                        >
+                          {t(col.label)}
+                          <ArrowUpDown className={`w-4 h-4 ${sortKey === col.key ? 'text-blue-600' : 'text-gray-400'}`} />
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.map((row, i) => (
+                    <tr key={i} className="border-b border-gray-100">
+                      <td className="py-3 pe-4">
+                        <div className="font-medium">{row.label}</div>
+                        <div className="font-mono text-xs text-gray-500">
+                          {showPasswords ? row.password : maskSecret(row.password)}
+                          {row.reuseCount > 1 && (
+                            <span className="ms-2 font-sans text-orange-600">{t('audit.reusedTimes', { count: row.reuseCount })}</span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="py-3 pe-4">
+                        <StrengthBadge strength={row.result.consensus} className="px-2 py-1 rounded-lg" />
+                      </td>
+                      <td className={`py-3 pe-4 ${row.result.is_breached ? 'text-red-600 font-bold' : ''}`}>
+                        {formatNumber(row.result.breach_count)}
+                      </td>
+                      <td className="py-3 pe-4">{t('results.bits', { bits: formatNumber(row.result.metrics.practical_entropy, fixed(1)) })}</td>
+                      <td className="py-3 pe-4 text-gray-700">{getTopIssue(row.result, i18n)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BulkAudit;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { ClipboardX } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ClipboardCountdownProps {
+  remaining: number | null;
+  onClear: () => void;
+}
+
+// Time left before a copied secret is wiped. A timer role is not read out on every tick;
+// the copy toast already announced the delay.
+const ClipboardCountdown: React.FC<ClipboardCountdownProps> = ({ remaining, onClear }) => {
+  const { t } = useI18n();
+  if (remaining === null) return null;
+
+  return (
+    <div className="fixed bottom-6 start-6 z-50 flex items-center gap-3 px-4 py-3 bg-white border-2 border-gray-200 text-sm rounded-xl shadow-lg">
+      <span role="timer" className="text-gray-700">{t('clipboard.countdown', { count: remaining })}</span>
+      <button
+        onClick={onClear}
+        className="flex items-center gap-1 font-medium text-blue-700 hover:text-blue-900"
+      >
+        <ClipboardX className="w-4 h-4" aria-hidden="true" />
+        {t('clipboard.clearNow')}
+      </button>
+    </div>
+  );
+};
+
+export default ClipboardCountdown;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import CompareView, { findBest } from './CompareView';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+test('findBest returns the leaders and nothing on a full tie', () => {
+  expect(findBest([1, 3, 3, 2])).toEqual([1, 2]);
+  expect(findBest([2, 2])).toEqual([]);
+  expect(findBest([NaN, 5, 1])).toEqual([1]);
+});
+
+test('analyzes candidates together and highlights the strongest', async () => {
+  const analyze = jest.fn(async (password: string) => analyzeLocally(password));
+  render(<CompareView analyze={analyze} />);
+
+  fireEvent.click(screen.getByRole('button', { name: /Add Candidate/i }));
+  fireEvent.change(screen.getByPlaceholderText('Candidate 1'), { target: { value: 'qwerty' } });
+  fireEvent.change(screen.getByPlaceholderText('Candidate 2'), { target: { value: 'vT9#qLm2@xR7!pWz4&Kc' } });
+  fireEvent.change(screen.getByPlaceholderText('Candidate 3'), { target: { value: 'Summer2024' } });
+  fireEvent.click(screen.getByRole('button', { name: /^Compare$/ }));
+
+  expect(await screen.findByText('Candidate #3')).toBeInTheDocument();
+  expect(analyze).toHaveBeenCalledTimes(3);
+
+  const consensusRow = screen.getByRole('row', { name: /^Consensus/ });
+  const cells = within(consensusRow).getAllByRole('cell');
+  expect(cells[2]).toHaveAttribute('data-best', 'true');
+  expect(cells[1]).not.toHaveAttribute('data-best');
+});
+
+test('calls analyze with only the candidate and shows failures', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const analyze = jest.fn(async (password: string, signal?: AbortSignal) => {
+    if (signal !== undefined && !(signal instanceof AbortSignal)) throw new TypeError('signal is not an AbortSignal');
+    return analyzeLocally(password);
+  });
+  const { rerender } = render(<CompareView analyze={analyze} />);
+
+  fireEvent.change(screen.getByPlaceholderText('Candidate 1'), { target: { value: 'qwerty' } });
+  fireEvent.change(screen.getByPlaceholderText('Candidate 2'), { target: { value: 'Summer2024' } });
+  fireEvent.click(screen.getByRole('button', { name: /^Compare$/ }));
+  expect(await screen.findByText('Candidate #2')).toBeInTheDocument();
+
+  rerender(<CompareView analyze={jest.fn().mockRejectedValue(new Error('boom'))} />);
+  fireEvent.click(screen.getByRole('button', { name: /^Compare$/ }));
+  expect(await screen.findByRole('alert')).toHaveTextContent('The comparison could not be completed');
+  expect(screen.queryByText('Candidate #2')).not.toBeInTheDocument();
+});
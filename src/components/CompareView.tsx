@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { Plus, Trash2, Eye, EyeOff, Trophy, AlertTriangle } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { parseDuration } from '../lib/crackTime';
+import { maskSecret } from '../lib/clipboard';
+import { describePatterns } from '../lib/findings';
+import { getStrengthRank, StrengthBadge } from './strength';
+import { I18n, useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 4;
+
+interface CompareViewProps {
+  analyze: (password: string, signal?: AbortSignal) => Promise<AnalysisResult>;
+  // Set while the analyzer cannot answer; the reason is shown by the parent
+  disabled?: boolean;
+}
+
+interface Dimension {
+  label: string;
+  render: (result: AnalysisResult) => React.ReactNode;
+  // Higher is stronger; omit for rows that are shown but not ranked
+  score?: (result: AnalysisResult) => number;
+}
+
+interface Section {
+  title: string;
+  dimensions: Dimension[];
+}
+
+// Indexes holding the top score; empty when every candidate ties
+export const findBest = (scores: number[]): number[] => {
+  const valid = scores.filter(score => !Number.isNaN(score));
+  if (valid.length < 2) return [];
+  const best = Math.max(...valid);
+  if (valid.every(score => score === best)) return [];
+  return scores.flatMap((score, i) => (score === best ? [i] : []));
+};
+
+const CRACK_TIME_KEYS: (keyof AnalysisResult['crack_time'])[] = ['online_throttled', 'online_fast', 'offline_gpu', 'offline_super'];
+
+// Seconds when the analyzer sent them; older servers only send text
+const crackSeconds = (r: AnalysisResult, key: keyof AnalysisResult['crack_time']): number =>
+  r.crack_time_seconds?.[key] ?? parseDuration(r.crack_time[key]);
+
+const buildSections = (results: AnalysisResult[], { locale, t, formatNumber, formatCrackTime }: I18n): Section[] => {
+  const models = Array.from(new Set(results.flatMap(r => Object.keys(r.predictions))));
+  const badge = (label: string | undefined) => label
+    ? <StrengthBadge strength={label} />
+    : <span className="text-gray-400">—</span>;
+  const bits = (value: number) => t('results.bits', { bits: formatNumber(value, fixed(2)) });
+
+  return [
+    {
+      title: t('compare.verdict'),
+      dimensions: [
+        { label: t('compare.consensus'), render: r => badge(r.consensus), score: r => getStrengthRank(r.consensus) },
+        {
+          label: t('compare.agreement'),
+          render: r => formatNumber(r.agreement_percentage / 100, { style: 'percent', maximumFractionDigits: 0 })
+        },
+        ...models.map(model => ({
+          label: model,
+          render: (r: AnalysisResult) => badge(r.predictions[model]),
+          score: (r: AnalysisResult) => getStrengthRank(r.predictions[model])
+        }))
+      ]
+    },
+    {
+      title: t('results.metrics'),
+      dimensions: [
+        { label: t('compare.length'), render: r => formatNumber(r.length), score: r => r.length },
+        { label: t('compare.shannon'), render: r => bits(r.metrics.shannon_entropy), score: r => r.metrics.shannon_entropy },
+        { label: t('compare.practical'), render: r => bits(r.metrics.practical_entropy), score: r => r.metrics.practical_entropy }
+      ]
+    },
+    {
+      title: t('results.crackTime'),
+      dimensions: CRACK_TIME_KEYS.map(key => ({
+        label: t(`crack.${key}`),
+        render: r => formatCrackTime(r.crack_time_seconds?.[key], r.crack_time[key]),
+        score: r => crackSeconds(r, key)
+      }))
+    },
+    {
+      title: t('compare.issues'),
+      dimensions: [
+        { label: t('compare.breaches'), render: r => formatNumber(r.breach_count), score: r => -r.breach_count },
+        {
+          label: t('compare.patterns'),
+          render: r => r.patterns.length === 0
+            ? <span className="text-gray-400">{t('compare.noPatterns')}</span>
+            : <ul className="space-y-1">{describePatterns(r, locale).map((p, i) => <li key={i}>{p}</li>)}</ul>,
+          score: r => -r.patterns.length
+        }
+      ]
+    }
+  ];
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ analyze, disabled = false }) => {
+  const i18n = useI18n();
+  const { t } = i18n;
+  const [candidates, setCandidates] = useState<string[]>(['', '']);
+  const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [showPasswords, setShowPasswords] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const updateCandidate = (index: number, value: string): void => {
+    setCandidates(candidates.map((c, i) => (i === index ? value : c)));
+  };
+
+  const compare = async (): Promise<void> => {
+    setLoading(true);
+    setError('');
+    try {
+      setResults(await Promise.all(candidates.map(candidate => analyze(candidate))));
+    } catch (err) {
+      console.error('Error comparing passwords:', err);
+      setResults([]);
+      setError(t('compare.failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ready = candidates.every(c => c !== '');
+  const sections = buildSections(results, i18n);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">{t('compare.title')}</h3>
+          <button
+            onClick={() => setShowPasswords(!showPasswords)}
+            className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+          >
+            {showPasswords ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+            {showPasswords ? t('secrets.hide') : t('secrets.show')}
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          {candidates.map((candidate, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <span className="w-6 text-sm font-bold text-gray-500">#{i + 1}</span>
+              <input
+                type={showPasswords ? 'text' : 'password'}
+                value={candidate}
+                onChange={(e) => updateCandidate(i, e.target.value)}
+                placeholder={t('compare.candidate', { number: i + 1 })}
+                className="flex-1 px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+              />
+              <button
+                onClick={() => setCandidates(candidates.filter((_, j) => j !== i))}
+                disabled={candidates.length <= MIN_CANDIDATES}
+                className="p-2 text-gray-400 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-400"
+                title={t('compare.remove')}
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={() => setCandidates([...candidates, ''])}
+            disabled={candidates.length >= MAX_CANDIDATES}
+            className="flex items-center gap-2 px-4 py-3 border-2 border-gray-200 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="w-5 h-5" />
+            {t('compare.add')}
+          </button>
+          <button
+            onClick={compare}
+            disabled={!ready || loading || disabled}
+            className="flex-1 bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {loading ? t('analyze.analyzing') : t('compare.submit')}
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 rounded-lg text-red-800 text-sm" role="alert">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-xl p-8 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 text-start">
+                <th className="py-3 pe-4" />
+                {results.map((r, i) => (
+                  <th key={i} className="py-3 pe-4">
+                    <div className="font-bold">{t('compare.candidateNumber', { number: i + 1 })}</div>
+                    <div className="font-mono text-xs text-gray-500 font-normal">
+                      {showPasswords ? r.password : maskSecret(r.password)}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {sections.map(section => (
+              <tbody key={section.title}>
+                <tr>
+                  <th colSpan={results.length + 1} className="pt-6 pb-2 text-start text-xs uppercase text-gray-500">
+                    {section.title}
+                  </th>
+                </tr>
+                {section.dimensions.map(dim => {
+                  const best = dim.score ? findBest(results.map(dim.score)) : [];
+                  return (
+                    <tr key={dim.label} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pe-4 text-gray-600">{dim.label}</td>
+                      {results.map((r, i) => (
+                        <td
+                          key={i}
+                          className={`py-2 pe-4 ${best.includes(i) ? 'bg-green-50 font-bold' : ''}`}
+                          data-best={best.includes(i) || undefined}
+                        >
+                          <div className="flex items-start gap-1">
+                            {best.includes(i) && <Trophy className="w-4 h-4 text-green-600 flex-shrink-0" />}
+                            <div>{dim.render(r)}</div>
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            ))}
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
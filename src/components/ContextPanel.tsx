@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, UserRound } from 'lucide-react';
+import { ContextField, EMPTY_CONTEXT, PersonalContext } from '../lib/personalContext';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n';
+
+interface ContextPanelProps {
+  context: PersonalContext;
+  onChange: (context: PersonalContext) => void;
+}
+
+const FIELDS: { field: ContextField; label: MessageKey; type: string; placeholder?: MessageKey }[] = [
+  { field: 'name', label: 'context.name', type: 'text' },
+  { field: 'username', label: 'context.username', type: 'text' },
+  { field: 'email', label: 'context.email', type: 'email' },
+  { field: 'company', label: 'context.company', type: 'text' },
+  { field: 'dates', label: 'context.dates', type: 'text', placeholder: 'context.datesPlaceholder' }
+];
+
+// Collapsible form for the user's own details; analyses flag passwords built from them
+const ContextPanel: React.FC<ContextPanelProps> = ({ context, onChange }) => {
+  const { t } = useI18n();
+  const filled = FIELDS.filter(({ field }) => context[field].trim() !== '').length;
+  const [open, setOpen] = useState<boolean>(filled > 0);
+
+  return (
+    <div className="border-2 border-gray-100 rounded-xl">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-controls="context-panel"
+        className="w-full flex items-center gap-2 px-4 py-3 text-sm font-medium text-gray-700"
+      >
+        <UserRound className="w-4 h-4" aria-hidden="true" />
+        <span className="flex-1 text-start">{t('context.title')}</span>
+        {filled > 0 && <span className="text-xs text-blue-600">{t('context.active', { count: filled })}</span>}
+        {open ? <ChevronUp className="w-4 h-4" aria-hidden="true" /> : <ChevronDown className="w-4 h-4" aria-hidden="true" />}
+      </button>
+
+      {open && (
+        <div id="context-panel" className="px-4 pb-4">
+          <p className="text-xs text-gray-500 mb-4">{t('context.hint')}</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {FIELDS.map(({ field, label, type, placeholder }) => (
+              <div key={field}>
+                <label htmlFor={`context-${field}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {t(label)}
+                </label>
+                <input
+                  id={`context-${field}`}
+                  type={type}
+                  value={context[field]}
+                  onChange={(e) => onChange({ ...context, [field]: e.target.value })}
+                  placeholder={placeholder && t(placeholder)}
+                  autoComplete="off"
+                  className="w-full px-3 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                />
+              </div>
+            ))}
+          </div>
+          {filled > 0 && (
+            <button
+              onClick={() => onChange(EMPTY_CONTEXT)}
+              className="mt-4 text-sm text-gray-600 hover:text-gray-900 underline"
+            >
+              {t('context.clear')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import CrackTimeCalculator from './CrackTimeCalculator';
+
+test('recomputes the crack time when the work factor changes', () => {
+  render(<CrackTimeCalculator entropy={40} />);
+  const before = screen.getByTestId('crack-rate').textContent;
+  fireEvent.change(screen.getByLabelText(/^Cost:/), { target: { value: '14' } });
+  expect(screen.getByLabelText('Cost: 14')).toBeInTheDocument();
+  expect(screen.getByTestId('crack-rate').textContent).not.toBe(before);
+});
+
+test('shows the settings for the chosen algorithm and a custom budget', () => {
+  render(<CrackTimeCalculator entropy={40} />);
+  fireEvent.change(screen.getByLabelText('Hash Algorithm'), { target: { value: 'md5' } });
+  expect(screen.queryByLabelText(/^Cost:/)).not.toBeInTheDocument();
+  expect(screen.getByTestId('crack-rate')).toHaveTextContent('164.0 GH/s');
+
+  fireEvent.change(screen.getByLabelText('Attacker'), { target: { value: 'custom' } });
+  fireEvent.change(screen.getByLabelText('Hardware Budget (USD)'), { target: { value: '20000' } });
+  expect(screen.getByTestId('crack-rate')).toHaveTextContent('1.6 TH/s');
+  expect(screen.getAllByRole('listitem')).toHaveLength(6);
+});
@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { Calculator } from 'lucide-react';
+import {
+  ATTACKER_PROFILES, BCRYPT_COST_RANGE, compareAlgorithms, DEFAULT_HASH_SETTINGS, formatRate, gpuCount, GPU_COST_USD, HASH_ALGORITHMS,
+  HashAlgorithm, HashSettings, SCRYPT_LOG_N_RANGE, algorithmLabel
+} from '../lib/crackModel';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed, MessageKey } from '../i18n';
+
+const YEAR_SECONDS = 365 * 24 * 3600;
+
+// Log-scale axis, in powers of ten seconds
+const AXIS_MAX = 22;
+const AXIS_TICKS: { label: MessageKey; seconds: number; years?: number }[] = [
+  { label: 'calculator.axis.second', seconds: 1 },
+  { label: 'calculator.axis.hour', seconds: 3600 },
+  { label: 'calculator.axis.year', seconds: YEAR_SECONDS },
+  { label: 'calculator.axis.years', seconds: 1e3 * YEAR_SECONDS, years: 1e3 },
+  { label: 'calculator.axis.years', seconds: 1e6 * YEAR_SECONDS, years: 1e6 },
+  { label: 'calculator.axis.years', seconds: 1e9 * YEAR_SECONDS, years: 1e9 },
+  { label: 'calculator.axis.years', seconds: 1e12 * YEAR_SECONDS, years: 1e12 }
+];
+
+const axisPosition = (seconds: number): number =>
+  Math.min(Math.max(Math.log10(Math.max(seconds, 1)) / AXIS_MAX, 0), 1) * 100;
+
+const CUSTOM_PROFILE = 'custom';
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none';
+
+// What-if calculator for offline attacks on a stored hash of this password:
+// pick the hash and its work factor, and the attacker's hardware budget
+const CrackTimeCalculator: React.FC<{ entropy: number }> = ({ entropy }) => {
+  const { t, formatNumber, formatSeconds } = useI18n();
+  const [settings, setSettings] = useState<HashSettings>(DEFAULT_HASH_SETTINGS);
+  const [profile, setProfile] = useState<string>(ATTACKER_PROFILES[0].id);
+  const [budget, setBudget] = useState<number>(ATTACKER_PROFILES[0].budget_usd);
+
+  const update = (changes: Partial<HashSettings>): void => setSettings(current => ({ ...current, ...changes }));
+  const numberInput = (value: string, fallback: number): number => {
+    const parsed = parseInt(value);
+    return isNaN(parsed) || parsed < 1 ? fallback : parsed;
+  };
+
+  const selectProfile = (id: string): void => {
+    setProfile(id);
+    const preset = ATTACKER_PROFILES.find(p => p.id === id);
+    if (preset) setBudget(preset.budget_usd);
+  };
+
+  const estimates = compareAlgorithms(entropy, settings, budget);
+  const selected = estimates.find(e => e.algorithm === settings.algorithm)!;
+  const gpus = gpuCount(budget);
+
+  const hashLabel = (algorithm: HashAlgorithm): string => {
+    const name = algorithmLabel(algorithm);
+    switch (algorithm) {
+      case 'bcrypt': return t('calculator.hash.bcrypt', { name, cost: settings.bcrypt_cost });
+      case 'pbkdf2_sha256': return t('calculator.hash.pbkdf2', { name, iterations: settings.pbkdf2_iterations });
+      case 'scrypt': return t('calculator.hash.scrypt', { name, n: settings.scrypt_log_n, r: settings.scrypt_r, p: settings.scrypt_p });
+      default: return name;
+    }
+  };
+
+  // Keeps counting past centuries so strong settings stay comparable
+  const crackTime = (seconds: number): string => {
+    const years = seconds / YEAR_SECONDS;
+    if (!isFinite(seconds)) return t('calculator.forever');
+    if (years < 100) return formatSeconds(seconds);
+    if (years < 1e6) return t('calculator.years', { count: Math.round(years) });
+    return t('calculator.yearsApprox', { years: formatNumber(years, { notation: 'scientific', maximumFractionDigits: 1 }) });
+  };
+  const rate = (guessesPerSecond: number): string =>
+    formatRate(guessesPerSecond, (value, digits) => formatNumber(value, fixed(digits)));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6" data-testid="crack-time-calculator">
+      <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+        <Calculator className="w-5 h-5 text-blue-600" />
+        {t('calculator.title')}
+      </h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <label htmlFor="crack-algorithm" className="block text-sm font-medium mb-1">{t('calculator.algorithm')}</label>
+          <select
+            id="crack-algorithm"
+            value={settings.algorithm}
+            onChange={(e) => update({ algorithm: e.target.value as HashAlgorithm })}
+            className={inputClass}
+          >
+            {HASH_ALGORITHMS.map(algorithm => <option key={algorithm} value={algorithm}>{algorithmLabel(algorithm)}</option>)}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="crack-attacker" className="block text-sm font-medium mb-1">{t('calculator.attacker')}</label>
+          <select id="crack-attacker" value={profile} onChange={(e) => selectProfile(e.target.value)} className={inputClass}>
+            {ATTACKER_PROFILES.map(p => <option key={p.id} value={p.id}>{t(`calculator.attacker.${p.id}` as MessageKey)}</option>)}
+            <option value={CUSTOM_PROFILE}>{t('calculator.customBudget')}</option>
+          </select>
+        </div>
+
+        {/* Work Factor */}
+        {settings.algorithm === 'bcrypt' && (
+          <div>
+            <label htmlFor="crack-bcrypt-cost" className="block text-sm font-medium mb-1">{t('calculator.cost', { cost: settings.bcrypt_cost })}</label>
+            <input
+              id="crack-bcrypt-cost"
+              type="range"
+              min={BCRYPT_COST_RANGE.min}
+              max={BCRYPT_COST_RANGE.max}
+              value={settings.bcrypt_cost}
+              onChange={(e) => update({ bcrypt_cost: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        )}
+        {settings.algorithm === 'pbkdf2_sha256' && (
+          <div>
+            <label htmlFor="crack-pbkdf2-iterations" className="block text-sm font-medium mb-1">{t('calculator.iterations')}</label>
+            <input
+              id="crack-pbkdf2-iterations"
+              type="number"
+              min={1}
+              value={settings.pbkdf2_iterations}
+              onChange={(e) => update({ pbkdf2_iterations: numberInput(e.target.value, 1) })}
+              className={inputClass}
+            />
+          </div>
+        )}
+        {settings.algorithm === 'scrypt' && (
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label htmlFor="crack-scrypt-n" className="block text-sm font-medium mb-1">N: 2^{settings.scrypt_log_n}</label>
+              <input
+                id="crack-scrypt-n"
+                type="range"
+                min={SCRYPT_LOG_N_RANGE.min}
+                max={SCRYPT_LOG_N_RANGE.max}
+                value={settings.scrypt_log_n}
+                onChange={(e) => update({ scrypt_log_n: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+            <div>
+              <label htmlFor="crack-scrypt-r" className="block text-sm font-medium mb-1">r</label>
+              <input
+                id="crack-scrypt-r"
+                type="number"
+                min={1}
+                value={settings.scrypt_r}
+                onChange={(e) => update({ scrypt_r: numberInput(e.target.value, 1) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="crack-scrypt-p" className="block text-sm font-medium mb-1">p</label>
+              <input
+                id="crack-scrypt-p"
+                type="number"
+                min={1}
+                value={settings.scrypt_p}
+                onChange={(e) => update({ scrypt_p: numberInput(e.target.value, 1) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        )}
+        {profile === CUSTOM_PROFILE && (
+          <div className="md:col-start-2">
+            <label htmlFor="crack-budget" className="block text-sm font-medium mb-1">{t('calculator.budget')}</label>
+            <input
+              id="crack-budget"
+              type="number"
+              min={0}
+              step={1000}
+              value={budget}
+              onChange={(e) => setBudget(Math.max(parseFloat(e.target.value) || 0, 0))}
+              className={inputClass}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Selected Estimate */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="p-4 bg-gray-50 rounded-xl">
+          <p className="text-xs text-gray-600 mb-1 uppercase">{t('calculator.hardware')}</p>
+          <p className="font-bold text-sm">{t('calculator.gpus', { count: gpus < 1 ? Math.round(gpus * 100) / 100 : Math.round(gpus) })}</p>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-xl">
+          <p className="text-xs text-gray-600 mb-1 uppercase">{t('calculator.rate')}</p>
+          <p className="font-bold text-sm" data-testid="crack-rate">{rate(selected.guesses_per_second)}</p>
+        </div>
+        <div className="p-4 bg-blue-50 rounded-xl">
+          <p className="text-xs text-gray-600 mb-1 uppercase">{t('calculator.averageTime')}</p>
+          <p className="font-bold text-sm" data-testid="crack-time">{crackTime(selected.seconds)}</p>
+        </div>
+      </div>
+
+      {/* Log-Scale Chart (the axis runs left to right in every locale) */}
+      <div className="space-y-2" role="list" aria-label={t('calculator.chart')} dir="ltr">
+        {estimates.map(estimate => (
+          <div key={estimate.algorithm} role="listitem" className="flex items-center gap-3 text-xs">
+            <span className={`w-48 truncate ${estimate.algorithm === settings.algorithm ? 'font-bold' : 'text-gray-600'}`} title={hashLabel(estimate.algorithm)}>
+              {hashLabel(estimate.algorithm)}
+            </span>
+            <div className="relative flex-1 h-4 bg-gray-100 rounded">
+              <div
+                className={`h-full rounded ${estimate.algorithm === settings.algorithm ? 'bg-blue-600' : 'bg-gray-400'}`}
+                style={{ width: `${axisPosition(estimate.seconds)}%` }}
+              />
+            </div>
+            <span className="w-28 text-right font-mono">{crackTime(estimate.seconds)}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-3 text-xs text-gray-500" aria-hidden="true">
+          <span className="w-48" />
+          <div className="relative flex-1 h-4">
+            {AXIS_TICKS.map(tick => (
+              <span
+                key={tick.seconds}
+                className="absolute -translate-x-1/2 whitespace-nowrap border-l border-gray-300 pl-1"
+                style={{ left: `${axisPosition(tick.seconds)}%` }}
+              >
+                {t(tick.label, tick.years ? { amount: formatNumber(tick.years, { notation: 'compact' }) } : undefined)}
+              </span>
+            ))}
+          </div>
+          <span className="w-28" />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-4">
+        {t('calculator.footnote', {
+          bits: formatNumber(entropy, fixed(1)),
+          cost: formatNumber(GPU_COST_USD, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 })
+        })}
+      </p>
+    </div>
+  );
+};
+
+export default CrackTimeCalculator;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { PatternHighlighter, WarningList } from './Findings';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { contextTokens, EMPTY_CONTEXT, findContextMatches } from '../lib/personalContext';
+import { FixedLocaleProvider } from '../i18n/I18nProvider';
+
+test('highlights findings in the masked password with explanations', () => {
+  const result = analyzeLocally('Tiger2013x!');
+  render(<PatternHighlighter password={result.password} findings={result.pattern_matches!} />);
+
+  const highlighter = screen.getByTestId('pattern-highlighter');
+  expect(highlighter).not.toHaveTextContent(/Tiger|2013/);
+  expect(screen.getByLabelText('Characters 6 to 9: Date')).toBeInTheDocument();
+  expect(screen.getAllByRole('tooltip', { hidden: true }).map(t => t.textContent)).toContain('Date');
+  within(highlighter).getAllByLabelText(/.*/).forEach(highlight => {
+    expect(highlight.getAttribute('aria-label')).not.toMatch(/tiger|2013/i);
+  });
+
+  fireEvent.click(screen.getByTitle('Reveal password'));
+  expect(within(highlighter).getByLabelText(/^2013: Date or year/)).toHaveTextContent('2013');
+});
+
+test('words revealed findings in the reader\'s language', () => {
+  const findings = findContextMatches('saoud!x', contextTokens({ ...EMPTY_CONTEXT, name: 'Saoud' }));
+  render(<FixedLocaleProvider locale="fr"><PatternHighlighter password="saoud!x" findings={findings} /></FixedLocaleProvider>);
+
+  fireEvent.click(screen.getByTitle('Afficher le mot de passe'));
+  expect(screen.getByLabelText('saoud: Contient votre nom')).toBeInTheDocument();
+});
+
+test('lists warnings with their severity', () => {
+  render(<WarningList warnings={[{ message: 'Found in 3 known data breaches.', severity: 'critical' }]} />);
+  expect(screen.getByTestId('warning-list')).toHaveTextContent(/Found in 3 known data breaches\.critical/);
+});
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AlertOctagon, AlertTriangle, Info, Eye, EyeOff } from 'lucide-react';
+import { AnalysisWarning, PatternFinding, PatternKind, WarningSeverity } from '../types';
+import { buildSegments } from '../lib/findings';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey, Translate } from '../i18n';
+
+const PATTERN_STYLES: Record<PatternKind, { label: MessageKey; className: string }> = {
+  common: { label: 'pattern.common', className: 'bg-red-200 text-red-900' },
+  dictionary: { label: 'pattern.dictionary', className: 'bg-yellow-200 text-yellow-900' },
+  leet: { label: 'pattern.leet', className: 'bg-orange-200 text-orange-900' },
+  keyboard: { label: 'pattern.keyboard', className: 'bg-purple-200 text-purple-900' },
+  sequence: { label: 'pattern.sequence', className: 'bg-blue-200 text-blue-900' },
+  repeat: { label: 'pattern.repeat', className: 'bg-pink-200 text-pink-900' },
+  date: { label: 'pattern.date', className: 'bg-teal-200 text-teal-900' },
+  personal: { label: 'pattern.personal', className: 'bg-rose-300 text-rose-950' }
+};
+
+const SEVERITY_STYLES: Record<WarningSeverity, { className: string; icon: React.ReactNode }> = {
+  critical: { className: 'bg-red-50 text-red-800 border-red-300', icon: <AlertOctagon className="w-5 h-5 flex-shrink-0" /> },
+  high: { className: 'bg-orange-50 text-orange-800 border-orange-300', icon: <AlertTriangle className="w-5 h-5 flex-shrink-0" /> },
+  medium: { className: 'bg-yellow-50 text-yellow-800 border-yellow-300', icon: <AlertTriangle className="w-5 h-5 flex-shrink-0" /> },
+  low: { className: 'bg-gray-50 text-gray-700 border-gray-300', icon: <Info className="w-5 h-5 flex-shrink-0" /> }
+};
+
+const positionLabel = (t: Translate, start: number, end: number): string =>
+  end - start === 1 ? t('pattern.position', { position: end }) : t('pattern.range', { start: start + 1, end });
+
+// The password with each pattern finding highlighted in place. Hovering or
+// focusing a highlight explains it; masked mode keeps the positions visible but
+// names only the kind of each finding, since descriptions quote the password.
+export const PatternHighlighter: React.FC<{ password: string; findings: PatternFinding[] }> = ({ password, findings }) => {
+  const { t, finding } = useI18n();
+  const [revealed, setRevealed] = useState<boolean>(false);
+  const segments = buildSegments(password.length, findings);
+  const kinds = Array.from(new Set(findings.map(f => f.kind)));
+
+  return (
+    <div className="mb-4" data-testid="pattern-highlighter">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 p-4 bg-gray-50 rounded-xl font-mono text-lg break-all leading-loose">
+          {segments.map(segment => {
+            const text = revealed ? password.slice(segment.start, segment.end) : '•'.repeat(segment.end - segment.start);
+            if (segment.findings.length === 0) return <span key={segment.start}>{text}</span>;
+            const explanations = revealed
+              ? segment.findings.map(finding)
+              : Array.from(new Set(segment.findings.map(f => t(PATTERN_STYLES[f.kind].label))));
+            return (
+              <span
+                key={segment.start}
+                tabIndex={0}
+                aria-label={`${revealed ? text : positionLabel(t, segment.start, segment.end)}: ${explanations.join('; ')}`}
+                className={`relative group rounded px-0.5 cursor-help focus:outline-none focus:ring-2 focus:ring-blue-500 ${PATTERN_STYLES[segment.findings[0].kind].className}`}
+              >
+                {text}
+                <span
+                  role="tooltip"
+                  className="hidden group-hover:block group-focus:block absolute z-10 start-0 top-full mt-1 w-64 p-2 rounded-lg bg-gray-900 text-white font-sans text-xs leading-snug shadow-lg"
+                >
+                  {explanations.map(explanation => <span key={explanation} className="block">{explanation}</span>)}
+                </span>
+              </span>
+            );
+          })}
+        </div>
+        <button
+          onClick={() => setRevealed(!revealed)}
+          className="p-2 text-gray-400 hover:text-gray-600"
+          title={revealed ? t('pattern.mask') : t('pattern.reveal')}
+        >
+          {revealed ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+        </button>
+      </div>
+      {kinds.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2 text-xs">
+          {kinds.map(kind => (
+            <span key={kind} className={`px-2 py-0.5 rounded ${PATTERN_STYLES[kind].className}`}>{t(PATTERN_STYLES[kind].label)}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const WarningList: React.FC<{ warnings: AnalysisWarning[] }> = ({ warnings }) => {
+  const { t, guidance } = useI18n();
+  return (
+    <ul className="space-y-2" data-testid="warning-list">
+      {warnings.map(warning => (
+        <li
+          key={warning.message}
+          className={`flex items-start gap-2 p-3 rounded-lg border text-sm ${SEVERITY_STYLES[warning.severity].className}`}
+        >
+          {SEVERITY_STYLES[warning.severity].icon}
+          <span className="flex-1">{guidance(warning)}</span>
+          <span className="text-xs font-bold uppercase">{t(`severity.${warning.severity}`)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import HistoryPanel from './HistoryPanel';
+import { useHistory } from '../hooks/useHistory';
+import { createMemoryHistoryBackend } from '../test-utils/memoryHistoryBackend';
+
+const backend = createMemoryHistoryBackend();
+
+const Harness: React.FC = () => {
+  const history = useHistory(backend);
+  return (
+    <>
+      <button onClick={() => history.record([{ kind: 'password', label: 'Router admin', password: 'Xk9#mQ2$vL' }])}>
+        Record
+      </button>
+      <HistoryPanel history={history} copy={jest.fn()} />
+    </>
+  );
+};
+
+beforeEach(() => {
+  localStorage.setItem('historySettings', JSON.stringify({ enabled: true, expire_days: 30, store_analyzed_passwords: false }));
+});
+
+test('creates, fills, searches and re-locks an encrypted history', async () => {
+  const { container } = render(<Harness />);
+  fireEvent.change(await screen.findByLabelText('Master passphrase'), { target: { value: 'correct horse battery' } });
+  fireEvent.change(screen.getByLabelText('Confirm master passphrase'), { target: { value: 'correct horse battery' } });
+  fireEvent.click(screen.getByRole('button', { name: /Create History/i }));
+
+  expect(await screen.findByText(/Nothing saved yet/i, {}, { timeout: 5000 })).toBeInTheDocument();
+  fireEvent.click(screen.getByRole('button', { name: 'Record' }));
+  expect(await screen.findByText('Router admin')).toBeInTheDocument();
+  expect(screen.queryByText('Xk9#mQ2$vL')).not.toBeInTheDocument();
+  expect(await axe(container)).toHaveNoViolations();
+
+  fireEvent.change(screen.getByLabelText('Search history'), { target: { value: 'vpn' } });
+  expect(screen.getByText('No entries match.')).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: /Lock/ }));
+  fireEvent.change(screen.getByLabelText('Master passphrase'), { target: { value: 'wrong guess' } });
+  fireEvent.click(screen.getByRole('button', { name: /Unlock/ }));
+  expect(await screen.findByText(/does not unlock this history/i, {}, { timeout: 5000 })).toBeInTheDocument();
+});
@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { History, Lock, Unlock, Search, Trash2, Copy, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { HistoryEntry, HistoryEntryKind } from '../types';
+import { HistoryState } from '../hooks/useHistory';
+import { searchHistory, WrongPassphraseError } from '../lib/history';
+import { sha256Hex } from '../lib/historyCrypto';
+import { maskSecret } from '../lib/clipboard';
+import { StrengthBadge } from './strength';
+import { I18n, useI18n } from '../i18n/I18nProvider';
+import { fixed, MessageKey } from '../i18n';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// 0 keeps entries until they are deleted
+const EXPIRY_DAYS = [1, 7, 30, 90, 0];
+
+const KIND_LABELS: Record<HistoryEntryKind, MessageKey> = {
+  analysis: 'history.kind.analysis',
+  password: 'history.kind.password',
+  passphrase: 'history.kind.passphrase'
+};
+
+// Entries saved without a label are named in the reader's language
+const entryLabel = (entry: HistoryEntry, { t, strength }: I18n): string => {
+  if (entry.label) return entry.label;
+  if (entry.kind !== 'analysis') return t(`history.defaultLabel.${entry.kind}`);
+  return t('history.defaultLabel.analysis', { strength: strength(entry.consensus ?? ''), count: entry.length ?? 0 });
+};
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  copy: (text: string) => void;
+}
+
+const UnlockForm: React.FC<{ history: HistoryState }> = ({ history }) => {
+  const { t } = useI18n();
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmation, setConfirmation] = useState<string>('');
+  const [error, setError] = useState<string>('');
+  const [busy, setBusy] = useState<boolean>(false);
+  const creating = !history.initialized;
+
+  const submit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (creating && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('history.passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (creating && passphrase !== confirmation) {
+      setError(t('history.passphraseMismatch'));
+      return;
+    }
+    setBusy(true);
+    try {
+      await history.unlock(passphrase);
+    } catch (err) {
+      setError(err instanceof WrongPassphraseError ? t('history.wrongPassphrase') : (err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="space-y-4 max-w-md">
+      <p className="text-sm text-gray-600">
+        {creating ? t('history.createHint') : t('history.unlockHint')}
+      </p>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        aria-label={t('history.passphrase')}
+        placeholder={t('history.passphrase')}
+        className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+      />
+      {creating && (
+        <input
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          aria-label={t('history.confirmPassphrase')}
+          placeholder={t('history.confirmPlaceholder')}
+          className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+        />
+      )}
+      {error && (
+        <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg text-red-800 text-sm">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+      <button
+        type="submit"
+        disabled={!passphrase || busy}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 disabled:opacity-50"
+      >
+        <Unlock className="w-4 h-4" />
+        {busy ? t('history.unlocking') : creating ? t('history.create') : t('history.unlock')}
+      </button>
+    </form>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, copy }) => {
+  const i18n = useI18n();
+  const { locale, t, formatNumber, formatCrackTime } = i18n;
+  const { status, settings, entries, updateSettings } = history;
+  const [query, setQuery] = useState<string>('');
+  const [queryHash, setQueryHash] = useState<string | undefined>(undefined);
+  const [kindFilter, setKindFilter] = useState<HistoryEntryKind | 'all'>('all');
+  const [revealed, setRevealed] = useState<Set<string>>(new Set());
+
+  // Typing a password finds earlier analyses of it, even though only its hash was stored
+  useEffect(() => {
+    let current = true;
+    if (query) sha256Hex(query).then(hash => current && setQueryHash(hash));
+    else setQueryHash(undefined);
+    return () => { current = false; };
+  }, [query]);
+
+  const visible = searchHistory(entries, query, queryHash, entry => entryLabel(entry, i18n))
+    .filter(entry => kindFilter === 'all' || entry.kind === kindFilter);
+
+  const toggleReveal = (id: string): void => {
+    const next = new Set(revealed);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setRevealed(next);
+  };
+
+  const wipe = (): void => {
+    if (window.confirm(t('history.wipeConfirm'))) history.wipe();
+  };
+
+  if (status === 'unavailable') {
+    return (
+      <div className="bg-white rounded-2xl shadow-xl p-8 text-gray-600">
+        {t('history.unavailable')}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <History className="w-6 h-6 text-blue-600" />
+            {t('history.title')}
+          </h3>
+          {status === 'unlocked' && (
+            <button
+              onClick={history.lock}
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <Lock className="w-4 h-4" />
+              {t('history.lock')}
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-3 mb-6">
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+              className="w-4 h-4 mt-1 text-blue-600 rounded"
+            />
+            <span className="text-sm">
+              <span className="font-medium">{t('history.enable')}</span>
+              <span className="block text-gray-500">{t('history.enableHint')}</span>
+            </span>
+          </label>
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.store_analyzed_passwords}
+              onChange={(e) => updateSettings({ store_analyzed_passwords: e.target.checked })}
+              className="w-4 h-4 mt-1 text-blue-600 rounded"
+            />
+            <span className="text-sm">
+              <span className="font-medium">{t('history.storePasswords')}</span>
+              <span className="block text-gray-500">{t('history.storePasswordsHint')}</span>
+            </span>
+          </label>
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="history-expiry" className="font-medium">{t('history.expiry')}</label>
+            <select
+              id="history-expiry"
+              value={settings.expire_days}
+              onChange={(e) => updateSettings({ expire_days: parseInt(e.target.value) })}
+              className="px-3 py-1 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            >
+              {EXPIRY_DAYS.map(days => (
+                <option key={days} value={days}>{days === 0 ? t('history.expiryNever') : t('history.expiryAfter', { count: days })}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {status === 'locked' && <UnlockForm history={history} />}
+
+        {(status === 'unlocked' || history.initialized) && (
+          <button
+            onClick={wipe}
+            className="mt-6 flex items-center gap-2 px-4 py-2 text-red-600 rounded-xl font-medium hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t('history.wipe')}
+          </button>
+        )}
+      </div>
+
+      {status === 'unlocked' && (
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex flex-col md:flex-row gap-3 mb-6">
+            <div className="relative flex-1">
+              <Search className="w-5 h-5 text-gray-400 absolute start-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                aria-label={t('history.search')}
+                placeholder={t('history.searchPlaceholder')}
+                className="w-full ps-10 pe-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            <select
+              value={kindFilter}
+              onChange={(e) => setKindFilter(e.target.value as HistoryEntryKind | 'all')}
+              aria-label={t('history.kindFilter')}
+              className="px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+            >
+              <option value="all">{t('history.kind.all')}</option>
+              {(Object.keys(KIND_LABELS) as HistoryEntryKind[]).map(kind => (
+                <option key={kind} value={kind}>{t(KIND_LABELS[kind])}</option>
+              ))}
+            </select>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-gray-500 text-sm">
+              {entries.length === 0 ? t('history.empty') : t('history.noMatches')}
+            </p>
+          ) : (
+            <ul className="space-y-3" data-testid="history-entries">
+              {visible.map(entry => (
+                <li key={entry.id} className="flex items-center gap-3 p-4 bg-gray-50 rounded-xl">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs px-2 py-0.5 rounded bg-gray-200 text-gray-700">{t(KIND_LABELS[entry.kind])}</span>
+                      <span className="font-medium truncate">{entryLabel(entry, i18n)}</span>
+                      {entry.consensus && (
+                        <StrengthBadge strength={entry.consensus} className="text-xs px-2 py-0.5 rounded" />
+                      )}
+                    </div>
+                    {entry.password && (
+                      <div className="font-mono text-sm text-gray-700 truncate">
+                        {revealed.has(entry.id) ? entry.password : maskSecret(entry.password)}
+                      </div>
+                    )}
+                    <div className="text-xs text-gray-500">
+                      {new Date(entry.created_at).toLocaleString(locale)}
+                      {entry.entropy !== undefined && ` · ${t('results.bits', { bits: formatNumber(entry.entropy, fixed(1)) })}`}
+                      {entry.crack_time_gpu && ` · ${t('history.crackTimeGpu', {
+                        time: formatCrackTime(entry.crack_time_gpu_seconds, entry.crack_time_gpu)
+                      })}`}
+                    </div>
+                  </div>
+                  {entry.password && (
+                    <>
+                      <button
+                        onClick={() => toggleReveal(entry.id)}
+                        className="p-2 hover:bg-white rounded-lg transition-colors"
+                        title={revealed.has(entry.id) ? t('secrets.hide') : t('secrets.show')}
+                      >
+                        {revealed.has(entry.id) ? <EyeOff className="w-5 h-5 text-gray-600" /> : <Eye className="w-5 h-5 text-gray-600" />}
+                      </button>
+                      <button
+                        onClick={() => copy(entry.password!)}
+                        className="p-2 hover:bg-white rounded-lg transition-colors"
+                        title={t('history.copy')}
+                      >
+                        <Copy className="w-5 h-5 text-gray-600" />
+                      </button>
+                    </>
+                  )}
+                  <button
+                    onClick={() => history.remove(entry.id)}
+                    className="p-2 hover:bg-white rounded-lg transition-colors"
+                    title={t('history.delete')}
+                  >
+                    <Trash2 className="w-5 h-5 text-gray-400 hover:text-red-600" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
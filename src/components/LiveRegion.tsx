@@ -0,0 +1,20 @@
+import React from 'react';
+import { Announcement } from '../hooks/useAnnouncer';
+
+// Screen-reader-only status; the keyed span is replaced on every announcement
+export const LiveRegion: React.FC<{ announcement: Announcement | null }> = ({ announcement }) => (
+  <div role="status" aria-live="polite" className="sr-only" data-testid="live-region">
+    {announcement && <span key={announcement.id}>{announcement.message}</span>}
+  </div>
+);
+
+// Visible, non-blocking confirmation that is also read out
+export const Toast: React.FC<{ announcement: Announcement | null }> = ({ announcement }) => (
+  <div role="status" aria-live="polite" className="fixed bottom-6 end-6 z-50">
+    {announcement && (
+      <div key={announcement.id} className="px-4 py-3 bg-gray-900 text-white text-sm rounded-xl shadow-lg">
+        {announcement.message}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,32 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { DisagreementView, groupByLabel } from './ModelExplorer';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { AnalysisResult } from '../types';
+
+const splitResult = (): AnalysisResult => ({
+  ...analyzeLocally('Summer2024!'),
+  predictions: { rf: 'Strong', xgb: 'Strong', svm: 'Weak' },
+  model_details: {
+    rf: { probabilities: { Weak: 0.1, Medium: 0.2, Strong: 0.7 }, top_features: [{ feature: 'length', contribution: 0.4 }] },
+    xgb: { probabilities: { Weak: 0.2, Medium: 0.2, Strong: 0.6 }, top_features: [{ feature: 'has_date', contribution: 0.1 }] },
+    svm: { probabilities: { Weak: 0.8, Medium: 0.1, Strong: 0.1 }, top_features: [{ feature: 'has_date', contribution: -0.5 }] }
+  }
+});
+
+test('groups models by label, strongest first', () => {
+  expect(groupByLabel({ a: 'Weak', b: 'Strong', c: 'Weak' })).toEqual([['Strong', ['b']], ['Weak', ['a', 'c']]]);
+});
+
+test('stays hidden when the models agree', () => {
+  render(<DisagreementView result={{ ...splitResult(), predictions: { rf: 'Strong', svm: 'Strong' } }} />);
+  expect(screen.queryByTestId('disagreement-view')).not.toBeInTheDocument();
+});
+
+test('explains a split verdict', () => {
+  render(<DisagreementView result={splitResult()} />);
+  expect(screen.getByText('2 Strong / 1 Weak')).toBeInTheDocument();
+  expect(screen.getByText('80% sure')).toBeInTheDocument();
+  expect(screen.getByRole('row', { name: /Has date/ })).toHaveTextContent('contested');
+  expect(screen.getByRole('row', { name: /Length/ })).not.toHaveTextContent('contested');
+});
@@ -0,0 +1,177 @@
+import React from 'react';
+import { GitCompare, ArrowUp, ArrowDown } from 'lucide-react';
+import { AnalysisResult, ModelDetail } from '../types';
+import { getStrengthColor, getStrengthRank, STRENGTH_LEVELS } from './strength';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+
+const TOP_FEATURES = 3;
+
+const PROBABILITY_COLORS: Record<string, string> = {
+  strong: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  weak: 'bg-red-500'
+};
+
+export const humanizeFeature = (feature: string): string =>
+  feature.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+
+// Groups model names by predicted label, strongest label first
+export const groupByLabel = (predictions: Record<string, string>): [string, string[]][] => {
+  const groups = new Map<string, string[]>();
+  Object.entries(predictions).forEach(([model, label]) => {
+    groups.set(label, [...(groups.get(label) || []), model]);
+  });
+  return Array.from(groups.entries()).sort(([a], [b]) => getStrengthRank(b) - getStrengthRank(a));
+};
+
+const orderedClasses = (probabilities: Record<string, number>): string[] =>
+  Object.keys(probabilities).sort((a, b) => getStrengthRank(b) - getStrengthRank(a));
+
+const Contribution: React.FC<{ value: number }> = ({ value }) => {
+  const { formatNumber } = useI18n();
+  return (
+    <span className={`inline-flex items-center gap-0.5 font-mono ${value >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+      {value >= 0 ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />}
+      {formatNumber(Math.abs(value), fixed(2))}
+    </span>
+  );
+};
+
+const PERCENT: Intl.NumberFormatOptions = { style: 'percent', maximumFractionDigits: 0 };
+
+// Class probabilities and the strongest attributions for one model card
+export const ModelProbabilities: React.FC<{ detail?: ModelDetail }> = ({ detail }) => {
+  const { formatNumber, strength } = useI18n();
+  if (!detail) return null;
+  const features = [...detail.top_features]
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+    .slice(0, TOP_FEATURES);
+
+  return (
+    <div className="mt-3 space-y-3 text-gray-800">
+      <div className="space-y-1">
+        {orderedClasses(detail.probabilities).map(label => (
+          <div key={label} className="flex items-center gap-2 text-xs">
+            <span className="w-14">{strength(label)}</span>
+            <div className="flex-1 h-2 bg-white rounded-full overflow-hidden">
+              <div
+                className={`h-full ${PROBABILITY_COLORS[label.toLowerCase()] || 'bg-gray-400'}`}
+                style={{ width: `${detail.probabilities[label] * 100}%` }}
+              />
+            </div>
+            <span className="w-10 text-end">{formatNumber(detail.probabilities[label], PERCENT)}</span>
+          </div>
+        ))}
+      </div>
+      {features.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {features.map(f => (
+            <li key={f.feature} className="flex justify-between gap-2">
+              <span>
+                {humanizeFeature(f.feature)}
+                {f.value !== undefined && <span className="opacity-60"> ({f.value})</span>}
+              </span>
+              <Contribution value={f.contribution} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Shown when the models split: who voted what, how sure each was, and which
+// features they weighed differently
+export const DisagreementView: React.FC<{ result: AnalysisResult }> = ({ result }) => {
+  const { t, formatNumber, strength } = useI18n();
+  const groups = groupByLabel(result.predictions);
+  if (groups.length < 2) return null;
+
+  const details = result.model_details || {};
+  const models = Object.keys(result.predictions);
+  const features = Array.from(new Set(
+    models.flatMap(model => (details[model]?.top_features || []).map(f => f.feature))
+  ));
+  const contribution = (model: string, feature: string): number | undefined =>
+    details[model]?.top_features.find(f => f.feature === feature)?.contribution;
+  // A feature is contested when some models count it for the password and others against
+  const isContested = (feature: string): boolean => {
+    const signs = models.map(m => contribution(m, feature)).filter((c): c is number => c !== undefined).map(Math.sign);
+    return signs.includes(1) && signs.includes(-1);
+  };
+
+  return (
+    <div className="mt-6 p-6 rounded-xl border-2 border-purple-200 bg-purple-50" data-testid="disagreement-view">
+      <h4 className="font-bold text-lg flex items-center gap-2 mb-1">
+        <GitCompare className="w-5 h-5 text-purple-600" />
+        {t('models.disagree')}
+      </h4>
+      <p className="text-sm text-gray-700 mb-4">
+        {groups.map(([label, voters]) => t('models.votes', { count: voters.length, label: strength(label) })).join(' / ')}
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        {groups.map(([label, voters]) => (
+          <div key={label} className={`p-3 rounded-lg ${getStrengthColor(label)}`}>
+            <div className="font-bold mb-1">{strength(label)}</div>
+            <ul className="text-sm space-y-0.5">
+              {voters.map(model => {
+                const confidence = details[model]?.probabilities[label];
+                return (
+                  <li key={model} className="flex justify-between">
+                    <span>{model}</span>
+                    {confidence !== undefined && <span>{t('models.confidence', { percent: formatNumber(confidence, PERCENT) })}</span>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ))}
+      </div>
+
+      {features.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm bg-white rounded-lg">
+            <thead>
+              <tr className="text-start border-b border-gray-200">
+                <th className="p-2">{t('models.feature')}</th>
+                {models.map(model => (
+                  <th key={model} className="p-2">
+                    {model}
+                    <span className={`ms-1 text-xs px-1 rounded ${getStrengthColor(result.predictions[model])}`}>
+                      {strength(result.predictions[model])}
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {features.map(feature => (
+                <tr key={feature} className={`border-b border-gray-100 ${isContested(feature) ? 'bg-purple-50' : ''}`}>
+                  <td className="p-2">
+                    {humanizeFeature(feature)}
+                    {isContested(feature) && <span className="ms-2 text-xs text-purple-700 font-medium">{t('models.contested')}</span>}
+                  </td>
+                  {models.map(model => {
+                    const value = contribution(model, feature);
+                    return (
+                      <td key={model} className="p-2">
+                        {value === undefined ? <span className="text-gray-400">—</span> : <Contribution value={value} />}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            {t('models.arrows', { strongest: strength(STRENGTH_LEVELS[STRENGTH_LEVELS.length - 1]), weakest: strength(STRENGTH_LEVELS[0]) })}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600">{t('models.noAttributions')}</p>
+      )}
+    </div>
+  );
+};
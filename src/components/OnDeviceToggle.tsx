@@ -0,0 +1,32 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface OnDeviceToggleProps {
+  checked: boolean;
+  // The API is unreachable, so generation is forced onto the device
+  offline: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const OnDeviceToggle: React.FC<OnDeviceToggleProps> = ({ checked, offline, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <label className="flex items-start gap-2 mb-6 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={checked}
+        disabled={offline}
+        onChange={(e) => onChange(e.target.checked)}
+        className="w-4 h-4 mt-1 text-blue-600 rounded"
+      />
+      <span className="text-sm">
+        <span className="font-medium">{t('generate.onDevice')}</span>
+        <span className="block text-gray-500">
+          {offline ? t('generate.onDeviceOffline') : t('generate.onDeviceHint')}
+        </span>
+      </span>
+    </label>
+  );
+};
+
+export default OnDeviceToggle;
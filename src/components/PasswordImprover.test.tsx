@@ -0,0 +1,32 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import PasswordImprover from './PasswordImprover';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+test('scores variants through the given pipeline and accepts one', async () => {
+  const analyze = jest.fn(async (password: string) => analyzeLocally(password));
+  const onAccept = jest.fn();
+  render(<PasswordImprover result={analyzeLocally('sunshine2024')} analyze={analyze} onAccept={onAccept} />);
+
+  fireEvent.click(screen.getByRole('button', { name: /Improve This Password/ }));
+  const accept = await screen.findAllByRole('button', { name: /Use This/ });
+  expect(analyze).toHaveBeenCalledTimes(accept.length);
+  expect(screen.getAllByTestId('variant-password')[0]).toHaveTextContent(/^•+$/);
+  expect(screen.getAllByText(/^Entropy$/)).toHaveLength(accept.length);
+
+  fireEvent.click(accept[0]);
+  const [password, result] = onAccept.mock.calls[0];
+  expect(result).toEqual(await analyze.mock.results[0].value);
+  expect(password).toBe(result.password);
+});
+
+test('shows an error and re-enables the button when scoring fails', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const analyze = jest.fn().mockRejectedValue(new Error('offline'));
+  render(<PasswordImprover result={analyzeLocally('sunshine2024')} analyze={analyze} onAccept={jest.fn()} />);
+
+  fireEvent.click(screen.getByRole('button', { name: /Improve This Password/ }));
+  expect(await screen.findByRole('alert')).toHaveTextContent('The variants could not be scored.');
+  expect(screen.getByRole('button', { name: /Improve This Password/ })).toBeEnabled();
+  expect(console.error).toHaveBeenCalledWith('Error scoring variants:', expect.any(Error));
+});
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Wand2, Eye, EyeOff, ArrowRight, Check, AlertTriangle } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { parseDuration } from '../lib/crackTime';
+import { proposeVariants, scoreVariants, ScoredVariant } from '../lib/improver';
+import { getStrengthRank, StrengthBadge } from './strength';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed, MessageKey } from '../i18n';
+
+interface PasswordImproverProps {
+  result: AnalysisResult;
+  analyze: (password: string) => Promise<AnalysisResult>;
+  onAccept: (password: string, result: AnalysisResult) => void;
+}
+
+const deltaClass = (delta: number): string =>
+  delta > 0 ? 'text-green-700' : delta < 0 ? 'text-red-700' : 'text-gray-600';
+
+const Delta: React.FC<{ label: string; before: React.ReactNode; after: React.ReactNode; delta: number }> = ({
+  label, before, after, delta
+}) => {
+  const { t } = useI18n();
+  return (
+    <div className="text-xs">
+      <span className="block text-gray-600 uppercase mb-0.5">{label}</span>
+      <span className={`inline-flex items-center gap-1 font-medium ${deltaClass(delta)}`}>
+        {before}
+        <ArrowRight className="w-3 h-3" aria-hidden="true" />
+        <span className="sr-only">{t('improver.to')}</span>
+        {after}
+      </span>
+    </div>
+  );
+};
+
+// Rewritten variants of the analyzed password, each scored through the same
+// analysis pipeline and shown against the original
+const PasswordImprover: React.FC<PasswordImproverProps> = ({ result, analyze, onAccept }) => {
+  const { t, formatNumber, formatCrackTime } = useI18n();
+  const [variants, setVariants] = useState<ScoredVariant[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [revealed, setRevealed] = useState<boolean>(false);
+  const [failed, setFailed] = useState<boolean>(false);
+
+  const improve = async (): Promise<void> => {
+    setLoading(true);
+    setFailed(false);
+    try {
+      const findings = result.pattern_matches || analyzeLocally(result.password).pattern_matches || [];
+      setVariants(await scoreVariants(proposeVariants(result.password, findings), analyze));
+    } catch (err) {
+      console.error('Error scoring variants:', err);
+      setVariants(null);
+      setFailed(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const gpuSeconds = (r: AnalysisResult): number => r.crack_time_seconds?.offline_gpu ?? parseDuration(r.crack_time.offline_gpu);
+  const gpuTime = (r: AnalysisResult): string => formatCrackTime(r.crack_time_seconds?.offline_gpu, r.crack_time.offline_gpu);
+  const bits = (value: number): string => t('results.bits', { bits: formatNumber(value, fixed(1)) });
+  const beforeSeconds = gpuSeconds(result);
+
+  return (
+    <div className="mt-4" data-testid="password-improver">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={improve}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Wand2 className="w-4 h-4" />
+          {loading ? t('improver.scoring') : variants ? t('improver.again') : t('improver.submit')}
+        </button>
+        {variants && (
+          <button
+            onClick={() => setRevealed(!revealed)}
+            className="p-2 text-gray-400 hover:text-gray-600"
+            title={revealed ? t('improver.mask') : t('improver.reveal')}
+          >
+            {revealed ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+          </button>
+        )}
+      </div>
+
+      {failed && (
+        <div className="mt-4 flex items-start gap-2 p-3 bg-red-50 rounded-lg text-red-800 text-sm" role="alert">
+          <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+          {t('improver.failed')}
+        </div>
+      )}
+
+      {variants && (
+        <ul className="mt-4 space-y-3">
+          {variants.map(variant => {
+            const entropyDelta = variant.result.metrics.practical_entropy - result.metrics.practical_entropy;
+            const afterSeconds = gpuSeconds(variant.result);
+            return (
+              <li key={variant.kind} className="p-4 bg-gray-50 rounded-xl">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{t(`improver.variant.${variant.kind}` as MessageKey, variant.params)}</p>
+                    <p className="font-mono text-sm text-gray-700 break-all" data-testid="variant-password">
+                      {revealed ? variant.password : '•'.repeat(variant.password.length)}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onAccept(variant.password, variant.result)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 flex-shrink-0"
+                  >
+                    <Check className="w-4 h-4" />
+                    {t('improver.accept')}
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-3">
+                  <Delta
+                    label={t('improver.entropy')}
+                    before={bits(result.metrics.practical_entropy)}
+                    after={t('improver.entropyChange', {
+                      bits: bits(variant.result.metrics.practical_entropy),
+                      delta: formatNumber(entropyDelta, { ...fixed(1), signDisplay: 'exceptZero' })
+                    })}
+                    delta={entropyDelta}
+                  />
+                  <Delta
+                    label={t('crack.offline_gpu')}
+                    before={gpuTime(result)}
+                    after={gpuTime(variant.result)}
+                    delta={afterSeconds === beforeSeconds ? 0 : afterSeconds > beforeSeconds ? 1 : -1}
+                  />
+                  <Delta
+                    label={t('compare.consensus')}
+                    before={<StrengthBadge strength={result.consensus} className="px-1.5 rounded" />}
+                    after={<StrengthBadge strength={variant.result.consensus} className="px-1.5 rounded" />}
+                    delta={getStrengthRank(variant.result.consensus) - getStrengthRank(result.consensus)}
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordImprover;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { ClipboardCheck, CheckCircle, XCircle, HelpCircle } from 'lucide-react';
+import { PasswordPolicy } from '../types';
+import { PolicyCheck, isCompliant } from '../lib/policy';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n';
+
+interface PolicyChecklistProps {
+  policy: PasswordPolicy;
+  checks: PolicyCheck[];
+}
+
+const STATUS_STYLES: Record<PolicyCheck['status'], { icon: typeof CheckCircle; className: string; label: MessageKey }> = {
+  pass: { icon: CheckCircle, className: 'text-green-700', label: 'policy.status.pass' },
+  fail: { icon: XCircle, className: 'text-red-700', label: 'policy.status.fail' },
+  unknown: { icon: HelpCircle, className: 'text-gray-500', label: 'policy.status.unknown' }
+};
+
+const PolicyChecklist: React.FC<PolicyChecklistProps> = ({ policy, checks }) => {
+  const { t, policyCheck } = useI18n();
+  const compliant = isCompliant(checks);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6" data-testid="policy-checklist">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-blue-600" />
+          {t('policy.heading', { name: policy.name })}
+        </h3>
+        <span className={`px-3 py-1 rounded-full text-sm font-bold ${compliant ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {compliant ? t('policy.compliant') : t('policy.notCompliant')}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {checks.map(check => {
+          const style = STATUS_STYLES[check.status];
+          const { label, detail } = policyCheck(check);
+          return (
+            <li key={check.rule} className="flex items-start gap-2 text-sm">
+              <style.icon className={`w-5 h-5 flex-shrink-0 ${style.className}`} aria-label={t(style.label)} />
+              <span className="flex-1">{label}</span>
+              {detail && <span className="text-gray-500">{detail}</span>}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default PolicyChecklist;
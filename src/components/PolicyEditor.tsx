@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { Save, Trash2, Download, Upload, CheckCircle, AlertTriangle } from 'lucide-react';
+import { PasswordPolicy } from '../types';
+import { DEFAULT_POLICY, parsePolicy, serializePolicy } from '../lib/policy';
+import { downloadFile, readFileText } from '../lib/files';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n';
+
+interface PolicyEditorProps {
+  policies: PasswordPolicy[];
+  activePolicy: PasswordPolicy | null;
+  savePolicy: (policy: PasswordPolicy) => void;
+  deletePolicy: (name: string) => void;
+  setActivePolicy: (name: string | null) => void;
+}
+
+const REQUIREMENTS: { key: 'require_uppercase' | 'require_lowercase' | 'require_digits' | 'require_symbols' | 'must_not_be_breached'; label: MessageKey }[] = [
+  { key: 'require_uppercase', label: 'policy.requireUppercase' },
+  { key: 'require_lowercase', label: 'policy.requireLowercase' },
+  { key: 'require_digits', label: 'policy.requireDigits' },
+  { key: 'require_symbols', label: 'policy.requireSymbols' },
+  { key: 'must_not_be_breached', label: 'policy.mustNotBeBreached' }
+];
+
+const PolicyEditor: React.FC<PolicyEditorProps> = ({ policies, activePolicy, savePolicy, deletePolicy, setActivePolicy }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<PasswordPolicy>(activePolicy || policies[0] || DEFAULT_POLICY);
+  const [bannedText, setBannedText] = useState<string>(draft.banned_substrings.join('\n'));
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+
+  const load = (policy: PasswordPolicy): void => {
+    setDraft(policy);
+    setBannedText(policy.banned_substrings.join('\n'));
+    setMessage(null);
+  };
+
+  const update = <K extends keyof PasswordPolicy>(key: K, value: PasswordPolicy[K]): void => {
+    setDraft({ ...draft, [key]: value });
+  };
+
+  const currentPolicy = (): PasswordPolicy => ({
+    ...draft,
+    name: draft.name.trim() || t('policy.untitled'),
+    banned_substrings: bannedText.split(/[\n,]/).map(term => term.trim()).filter(Boolean)
+  });
+
+  const save = (): void => {
+    const policy = currentPolicy();
+    savePolicy(policy);
+    load(policy);
+    setMessage({ ok: true, text: t('policy.saved', { name: policy.name }) });
+  };
+
+  const importPolicy = async (file: File): Promise<void> => {
+    try {
+      load(parsePolicy(await readFileText(file)));
+      setMessage({ ok: true, text: t('policy.imported', { file: file.name }) });
+    } catch (error) {
+      setMessage({ ok: false, text: t('policy.importFailed', { file: file.name, error: (error as Error).message }) });
+    }
+  };
+
+  const exportPolicy = (): void => {
+    const policy = currentPolicy();
+    downloadFile(`${policy.name.replace(/\W+/g, '-').toLowerCase()}-policy.json`, serializePolicy(policy), 'application/json');
+  };
+
+  const isSaved = policies.some(p => p.name === draft.name);
+  const isActive = activePolicy?.name === draft.name;
+
+  const numberField = (key: 'min_length' | 'max_repeated_chars' | 'min_entropy', label: MessageKey, hint: MessageKey) => (
+    <div>
+      <label htmlFor={`policy-${key}`} className="block text-sm font-medium text-gray-700 mb-2">{t(label)}</label>
+      <input
+        id={`policy-${key}`}
+        type="number"
+        min="0"
+        value={draft[key]}
+        onChange={(e) => update(key, Math.max(0, parseInt(e.target.value) || 0))}
+        className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+      />
+      <p className="text-xs text-gray-500 mt-1">{t(hint)}</p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold">{t('policy.title')}</h3>
+          <span className={`px-3 py-1 rounded-full text-sm font-medium ${activePolicy ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'}`}>
+            {activePolicy ? t('policy.active', { name: activePolicy.name }) : t('policy.noneActive')}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          {policies.map(policy => (
+            <button
+              key={policy.name}
+              onClick={() => load(policy)}
+              className={`px-3 py-1 rounded-lg text-sm border-2 ${
+                policy.name === draft.name ? 'border-blue-500 text-blue-600' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {policy.name}
+              {activePolicy?.name === policy.name && ' ✓'}
+            </button>
+          ))}
+          <button
+            onClick={() => load({ ...DEFAULT_POLICY, name: t('policy.newName') })}
+            className="px-3 py-1 rounded-lg text-sm border-2 border-dashed border-gray-300 text-gray-600 hover:border-gray-400"
+          >
+            {t('policy.new')}
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label htmlFor="policy-name" className="block text-sm font-medium text-gray-700 mb-2">{t('policy.name')}</label>
+            <input
+              id="policy-name"
+              type="text"
+              value={draft.name}
+              onChange={(e) => update('name', e.target.value)}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+          {numberField('min_length', 'policy.minLength', 'policy.minLengthHint')}
+          {numberField('max_repeated_chars', 'policy.maxRepeated', 'policy.maxRepeatedHint')}
+          {numberField('min_entropy', 'policy.minEntropy', 'policy.minEntropyHint')}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+          {REQUIREMENTS.map(item => (
+            <label key={item.key} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={draft[item.key]}
+                onChange={(e) => update(item.key, e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              <span className="text-sm">{t(item.label)}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="mb-6">
+          <label htmlFor="policy-banned" className="block text-sm font-medium text-gray-700 mb-2">{t('policy.banned')}</label>
+          <textarea
+            id="policy-banned"
+            value={bannedText}
+            onChange={(e) => setBannedText(e.target.value)}
+            rows={3}
+            placeholder={t('policy.bannedPlaceholder')}
+            className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">{t('policy.bannedHint')}</p>
+        </div>
+
+        {message && (
+          <div className={`mb-6 flex items-start gap-2 p-3 rounded-lg text-sm ${message.ok ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+            {message.ok ? <CheckCircle className="w-5 h-5 flex-shrink-0" /> : <AlertTriangle className="w-5 h-5 flex-shrink-0" />}
+            {message.text}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={save}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700"
+          >
+            <Save className="w-4 h-4" />
+            {t('policy.save')}
+          </button>
+          <button
+            onClick={() => setActivePolicy(isActive ? null : draft.name)}
+            disabled={!isSaved}
+            className="px-4 py-2 border-2 border-gray-200 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50"
+          >
+            {isActive ? t('policy.deactivate') : t('policy.setActive')}
+          </button>
+          <button
+            onClick={exportPolicy}
+            className="flex items-center gap-2 px-4 py-2 border-2 border-gray-200 rounded-xl font-medium hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            {t('policy.export')}
+          </button>
+          <label className="flex items-center gap-2 px-4 py-2 border-2 border-gray-200 rounded-xl font-medium hover:bg-gray-50 cursor-pointer">
+            <Upload className="w-4 h-4" />
+            {t('policy.import')}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={(e) => e.target.files?.[0] && importPolicy(e.target.files[0])}
+              className="hidden"
+              data-testid="policy-file-input"
+            />
+          </label>
+          <button
+            onClick={() => {
+              deletePolicy(draft.name);
+              load(policies.find(p => p.name !== draft.name) || DEFAULT_POLICY);
+            }}
+            disabled={!isSaved}
+            className="flex items-center gap-2 px-4 py-2 text-red-600 rounded-xl font-medium hover:bg-red-50 disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t('policy.delete')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PolicyEditor;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import ReportExport from './ReportExport';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+test('says so when the report cannot be copied', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  Object.defineProperty(navigator, 'clipboard', {
+    value: { writeText: jest.fn().mockRejectedValue(new DOMException('Denied', 'NotAllowedError')) },
+    configurable: true
+  });
+  render(<ReportExport result={analyzeLocally('Summer2024!')} />);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Copy Markdown' }));
+  expect(await screen.findByRole('button', { name: 'Could not copy to the clipboard.' })).toBeInTheDocument();
+  expect(console.error).toHaveBeenCalledWith('Error copying report:', expect.any(DOMException));
+});
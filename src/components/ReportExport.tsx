@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { Download, FileText, Check, AlertTriangle } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { buildReport, REPORT_FORMATS, ReportFormat, reportLocale, reportToMarkdown } from '../lib/report';
+import { downloadFile } from '../lib/files';
+import { useI18n } from '../i18n/I18nProvider';
+
+const ReportExport: React.FC<{ result: AnalysisResult }> = ({ result }) => {
+  const { locale, t } = useI18n();
+  const [copyStatus, setCopyStatus] = useState<'copied' | 'failed' | null>(null);
+
+  const download = (format: ReportFormat): void => {
+    const report = buildReport(result, new Date(), reportLocale(format, locale));
+    const { extension, type, render } = REPORT_FORMATS[format];
+    downloadFile(`password-report-${report.generated_at.slice(0, 10)}.${extension}`, render(report), type);
+  };
+
+  // Denied permission and insecure contexts (no navigator.clipboard) both end up as 'failed'
+  const copyMarkdown = async (): Promise<void> => {
+    try {
+      await navigator.clipboard.writeText(reportToMarkdown(buildReport(result, new Date(), locale)));
+      setCopyStatus('copied');
+    } catch (error) {
+      console.error('Error copying report:', error);
+      setCopyStatus('failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-4 flex flex-wrap items-center gap-3">
+      <span className="flex items-center gap-2 text-sm font-medium text-gray-700 mr-auto">
+        <FileText className="w-5 h-5 text-blue-600" />
+        {t('report.export')}
+      </span>
+      {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(format => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          className="flex items-center gap-1 px-3 py-1.5 border-2 border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-50"
+        >
+          <Download className="w-4 h-4" />
+          {REPORT_FORMATS[format].label}
+        </button>
+      ))}
+      <button
+        onClick={copyMarkdown}
+        className="flex items-center gap-1 px-3 py-1.5 border-2 border-gray-200 rounded-lg text-sm font-medium hover:bg-gray-50"
+      >
+        {copyStatus === 'copied' && <Check className="w-4 h-4 text-green-600" />}
+        {copyStatus === 'failed' && <AlertTriangle className="w-4 h-4 text-red-600" />}
+        {copyStatus === 'copied' ? t('report.copied') : copyStatus === 'failed' ? t('clipboard.failed') : t('report.copyMarkdown')}
+      </button>
+    </div>
+  );
+};
+
+export default ReportExport;
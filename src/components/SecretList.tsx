@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Copy, Eye, EyeOff, Trash2 } from 'lucide-react';
+import { GeneratedPassword } from '../types';
+import { maskSecret } from '../lib/clipboard';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+
+interface SecretListProps {
+  items: GeneratedPassword[];
+  copy: (text: string) => void;
+  copyLabel: string;
+  monospace?: boolean;
+}
+
+// Generated passwords or passphrases, masked until revealed one by one so they do not
+// leak through screen sharing
+const SecretList: React.FC<SecretListProps> = ({ items, copy, copyLabel, monospace = false }) => {
+  const { t, formatNumber, formatCrackTime } = useI18n();
+  const [revealed, setRevealed] = useState<Set<number>>(new Set());
+
+  // A new batch starts masked again
+  useEffect(() => setRevealed(new Set()), [items]);
+
+  const toggleReveal = (index: number): void => {
+    setRevealed(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      {items.map((item, i) => (
+        <div key={i} className="flex items-center gap-3 p-4 bg-gray-50 rounded-xl hover:bg-gray-100 transition-colors">
+          <span className={`flex-1 font-medium break-all ${monospace ? 'font-mono' : ''}`} data-testid="generated-secret">
+            {revealed.has(i) ? item.password : (
+              <>
+                <span aria-hidden="true">{maskSecret(item.password)}</span>
+                <span className="sr-only">{t('secrets.hidden')}</span>
+              </>
+            )}
+          </span>
+          <span className="text-sm text-gray-600">
+            {t('results.bits', { bits: formatNumber(item.metadata.entropy, fixed(1)) })}
+          </span>
+          <span className="text-xs text-gray-500">
+            {formatCrackTime(item.metadata.crack_time_gpu_seconds, item.metadata.crack_time_gpu)}
+          </span>
+          <button
+            onClick={() => toggleReveal(i)}
+            aria-pressed={revealed.has(i)}
+            className="p-2 hover:bg-white rounded-lg transition-colors"
+            title={revealed.has(i) ? t('secrets.hide') : t('secrets.show')}
+            aria-label={revealed.has(i) ? t('secrets.hide') : t('secrets.show')}
+          >
+            {revealed.has(i)
+              ? <EyeOff className="w-5 h-5 text-gray-600" aria-hidden="true" />
+              : <Eye className="w-5 h-5 text-gray-600" aria-hidden="true" />}
+          </button>
+          <button
+            onClick={() => copy(item.password)}
+            className="p-2 hover:bg-white rounded-lg transition-colors"
+            title={copyLabel}
+          >
+            <Copy className="w-5 h-5 text-gray-600" aria-hidden="true" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// Drops a page's generated secrets and wipes the clipboard if it still holds one
+export const ClearSecretsButton: React.FC<{ onClick: () => void }> = ({ onClick }) => {
+  const { t } = useI18n();
+  return (
+    <button
+      onClick={onClick}
+      className="flex items-center gap-2 px-3 py-2 text-sm text-gray-600 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors"
+    >
+      <Trash2 className="w-4 h-4" aria-hidden="true" />
+      {t('secrets.clearAll')}
+    </button>
+  );
+};
+
+export default SecretList;
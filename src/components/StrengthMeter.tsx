@@ -0,0 +1,44 @@
+import React from 'react';
+import { AnalysisResult } from '../types';
+import { StrengthBadge } from './strength';
+import { useI18n } from '../i18n/I18nProvider';
+
+// Entropy at which the bar is drawn full
+const FULL_BAR_BITS = 100;
+
+interface StrengthMeterProps {
+  result: AnalysisResult;
+  caption?: string;
+}
+
+const BAR_COLORS: Record<string, string> = {
+  strong: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  weak: 'bg-red-500'
+};
+
+const StrengthMeter: React.FC<StrengthMeterProps> = ({ result, caption }) => {
+  const { t, formatNumber } = useI18n();
+  const bits = result.metrics.practical_entropy;
+  const percent = Math.min(bits / FULL_BAR_BITS, 1) * 100;
+
+  return (
+    <div data-testid="strength-meter">
+      <div className="flex items-center justify-between text-sm mb-1">
+        <StrengthBadge strength={result.consensus} />
+        <span className="text-gray-600 dark:text-gray-300">
+          {t('results.bits', { bits: formatNumber(bits, { minimumFractionDigits: 1, maximumFractionDigits: 1 }) })}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${BAR_COLORS[result.consensus.toLowerCase()] || 'bg-gray-400'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {caption && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{caption}</p>}
+    </div>
+  );
+};
+
+export default StrengthMeter;
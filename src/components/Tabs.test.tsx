@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Brain, Key, Zap } from 'lucide-react';
+import { TabList, TabPanel } from './Tabs';
+
+const TABS = [
+  { id: 'one', label: 'One', icon: Brain },
+  { id: 'two', label: 'Two', icon: Key },
+  { id: 'three', label: 'Three', icon: Zap }
+];
+
+const Harness: React.FC = () => {
+  const [active, setActive] = useState<string>('one');
+  return (
+    <>
+      <TabList label="Sections" idPrefix="test" tabs={TABS} active={active} onChange={setActive} />
+      <TabPanel idPrefix="test" id={active} label={active}>Content of {active}</TabPanel>
+    </>
+  );
+};
+
+test('links the selected tab to its panel', () => {
+  render(<Harness />);
+  const tab = screen.getByRole('tab', { name: 'One' });
+  expect(tab).toHaveAttribute('aria-selected', 'true');
+  expect(tab).toHaveAttribute('tabindex', '0');
+  expect(screen.getByRole('tab', { name: 'Two' })).toHaveAttribute('tabindex', '-1');
+  expect(screen.getByRole('tabpanel', { name: 'One' })).toHaveTextContent('Content of one');
+});
+
+test('arrow keys, Home and End move focus and selection', () => {
+  render(<Harness />);
+  fireEvent.keyDown(screen.getByRole('tab', { name: 'One' }), { key: 'ArrowRight' });
+  expect(screen.getByRole('tab', { name: 'Two' })).toHaveFocus();
+  expect(screen.getByRole('tabpanel')).toHaveTextContent('Content of two');
+
+  fireEvent.keyDown(screen.getByRole('tab', { name: 'Two' }), { key: 'End' });
+  expect(screen.getByRole('tab', { name: 'Three' })).toHaveAttribute('aria-selected', 'true');
+  fireEvent.keyDown(screen.getByRole('tab', { name: 'Three' }), { key: 'ArrowRight' });
+  expect(screen.getByRole('tab', { name: 'One' })).toHaveFocus();
+  fireEvent.keyDown(screen.getByRole('tab', { name: 'One' }), { key: 'ArrowLeft' });
+  expect(screen.getByRole('tab', { name: 'Three' })).toHaveFocus();
+  fireEvent.keyDown(screen.getByRole('tab', { name: 'Three' }), { key: 'Home' });
+  expect(screen.getByRole('tabpanel')).toHaveTextContent('Content of one');
+});
@@ -0,0 +1,82 @@
+import React, { useRef } from 'react';
+
+export interface TabItem<T extends string> {
+  id: T;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+}
+
+interface TabListProps<T extends string> {
+  label: string;
+  idPrefix: string;
+  tabs: TabItem<T>[];
+  active: T;
+  onChange: (id: T) => void;
+}
+
+export const tabId = (idPrefix: string, id: string): string => `${idPrefix}-tab-${id}`;
+export const tabPanelId = (idPrefix: string, id: string): string => `${idPrefix}-panel-${id}`;
+
+// WAI-ARIA tabs with automatic activation: arrow keys, Home and End move focus
+// and select; only the selected tab is in the Tab order.
+export const TabList = <T extends string>({ label, idPrefix, tabs, active, onChange }: TabListProps<T>) => {
+  const refs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  const select = (index: number): void => {
+    const tab = tabs[(index + tabs.length) % tabs.length];
+    onChange(tab.id);
+    refs.current[tab.id]?.focus();
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent, index: number): void => {
+    const moves: Record<string, number> = { ArrowRight: index + 1, ArrowLeft: index - 1, Home: 0, End: tabs.length - 1 };
+    if (!(e.key in moves)) return;
+    e.preventDefault();
+    select(moves[e.key]);
+  };
+
+  return (
+    <div role="tablist" aria-label={label} className="flex flex-wrap gap-2 border-b border-gray-200">
+      {tabs.map((tab, index) => {
+        const selected = tab.id === active;
+        return (
+          <button
+            key={tab.id}
+            ref={el => { refs.current[tab.id] = el; }}
+            id={tabId(idPrefix, tab.id)}
+            role="tab"
+            aria-selected={selected}
+            // Unselected panels are not rendered, so only the selected tab points at one
+            aria-controls={selected ? tabPanelId(idPrefix, tab.id) : undefined}
+            tabIndex={selected ? 0 : -1}
+            onClick={() => onChange(tab.id)}
+            onKeyDown={(e) => onKeyDown(e, index)}
+            className={`flex items-center gap-2 px-6 py-3 font-medium transition-all focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded-t-lg ${
+              selected
+                ? 'border-b-2 border-blue-500 text-blue-600'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <tab.icon className="w-5 h-5" aria-hidden="true" />
+            {tab.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+interface TabPanelProps {
+  idPrefix: string;
+  id: string;
+  label: string;
+  children: React.ReactNode;
+}
+
+// The hidden heading keeps the outline continuous for screen-reader users
+export const TabPanel: React.FC<TabPanelProps> = ({ idPrefix, id, label, children }) => (
+  <div role="tabpanel" id={tabPanelId(idPrefix, id)} aria-labelledby={tabId(idPrefix, id)}>
+    <h2 className="sr-only">{label}</h2>
+    {children}
+  </div>
+);
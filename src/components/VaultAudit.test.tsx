@@ -0,0 +1,79 @@
+import React from 'react';
+import { render, screen, fireEvent, within, waitFor } from '@testing-library/react';
+import VaultAudit from './VaultAudit';
+import { FixedLocaleProvider } from '../i18n/I18nProvider';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+const upload = (content: string, name: string) => {
+  const file = new File([content], name, { type: 'application/json' });
+  fireEvent.change(screen.getByTestId('vault-file-input'), { target: { files: [file] } });
+};
+
+test('finds reuse in an imported vault and analyzes each group once', async () => {
+  const analyze = jest.fn(async (password: string) => analyzeLocally(password));
+  render(<VaultAudit analyze={analyze} />);
+
+  const login = (name: string, password: string) => ({ type: 1, name, login: { username: 'me', password, uris: [] } });
+  upload(JSON.stringify({
+    encrypted: false,
+    items: [login('Mail', 'Summer2023!'), login('Bank', 'summer24'), login('Shop', 'Summer2023!'), login('Work', 'vT9#qLm2@xR7!pWz')]
+  }), 'bitwarden.json');
+
+  expect(await screen.findByText('Reuse Report')).toBeInTheDocument();
+  expect(screen.getByText(/4 entries from a Bitwarden JSON export\. 1 reuse group covers 3 entries\./)).toBeInTheDocument();
+
+  const cluster = screen.getByTestId('reuse-cluster');
+  expect(await within(cluster).findByText('Weak')).toBeInTheDocument();
+  expect(analyze).toHaveBeenCalledTimes(1);
+  expect(analyze).toHaveBeenCalledWith('Summer2023!');
+  expect(within(cluster).getByText('Similar ×3')).toBeInTheDocument();
+  expect(within(cluster).getByText('Same base word: "summer"')).toBeInTheDocument();
+  expect(within(cluster).queryByText('Summer2023!')).not.toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Show passwords' }));
+  expect(within(cluster).getByText('Summer2023!')).toBeInTheDocument();
+  expect(within(cluster).getByText('Bank')).toBeInTheDocument();
+});
+
+test('shows why an export could not be read', async () => {
+  const analyze = jest.fn();
+  render(<VaultAudit analyze={analyze} />);
+  upload('{"encrypted":true,"data":"2.abc"}', 'bitwarden.json');
+
+  expect(await screen.findByText(/This Bitwarden export is encrypted/)).toBeInTheDocument();
+  expect(analyze).not.toHaveBeenCalled();
+});
+
+test('words the import error in the reader\'s language', async () => {
+  render(<FixedLocaleProvider locale="fr"><VaultAudit analyze={jest.fn()} /></FixedLocaleProvider>);
+  upload('{"encrypted":true,"data":"2.abc"}', 'bitwarden.json');
+
+  expect(await screen.findByText(/Cet export Bitwarden est chiffré/)).toBeInTheDocument();
+});
+
+test('marks a reuse group whose analysis fails and finishes the others', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const analyze = jest.fn(async (password: string) => {
+    if (password === 'Orchid!Lantern88') throw new Error('offline');
+    return analyzeLocally(password);
+  });
+  render(<VaultAudit analyze={analyze} />);
+
+  const login = (name: string, password: string) => ({ type: 1, name, login: { username: 'me', password, uris: [] } });
+  upload(JSON.stringify({
+    encrypted: false,
+    items: [
+      login('Mail', 'Summer2023!'), login('Shop', 'Summer2023!'),
+      login('Bank', 'Orchid!Lantern88'), login('Work', 'Orchid!Lantern88')
+    ]
+  }), 'bitwarden.json');
+
+  expect(await screen.findByText('Analysis failed')).toBeInTheDocument();
+  const [first, second] = screen.getAllByTestId('reuse-cluster');
+  const failedCluster = within(first).queryByText('Analysis failed') ? first : second;
+  const analyzedCluster = failedCluster === first ? second : first;
+  expect(await within(analyzedCluster).findByText('Weak')).toBeInTheDocument();
+  await waitFor(() => expect(screen.queryByText('Analyzing reuse groups...')).not.toBeInTheDocument());
+  expect(screen.getByTestId('vault-file-input')).not.toBeDisabled();
+  expect(console.error).toHaveBeenCalledWith('Error analyzing reuse group:', expect.any(Error));
+});
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { Upload, AlertTriangle, Eye, EyeOff, Users, Lock } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { ReuseCluster, ReuseReason } from '../lib/reuse';
+import { VaultScan } from '../lib/vaultScan';
+import { VAULT_FORMAT_LABELS, VaultImportError, VaultImportErrorCode } from '../lib/vaultImport';
+import { mapWithConcurrency } from '../lib/concurrency';
+import { readFileText } from '../lib/files';
+import { maskSecret } from '../lib/clipboard';
+import { scanVault } from '../workers/scanVault';
+import { StrengthBadge } from './strength';
+import { useI18n } from '../i18n/I18nProvider';
+import { MessageKey } from '../i18n';
+
+const MAX_CONCURRENT = 4;
+
+interface VaultAuditProps {
+  analyze: (password: string) => Promise<AnalysisResult>;
+}
+
+const REASON_LABELS: Record<ReuseReason, MessageKey> = {
+  exact: 'vault.reason.exact',
+  leetspeak: 'vault.reason.leetspeak',
+  base_word: 'vault.reason.base_word',
+  edit_distance: 'vault.reason.edit_distance'
+};
+
+const ClusterCard: React.FC<{
+  cluster: ReuseCluster;
+  result?: AnalysisResult;
+  failed: boolean;
+  showPasswords: boolean;
+}> = ({ cluster, result, failed, showPasswords }) => {
+  const { t } = useI18n();
+  return (
+    <div className="p-4 border-2 border-gray-100 rounded-xl" data-testid="reuse-cluster">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <span className={`px-2 py-1 rounded-lg text-sm font-medium ${
+          cluster.kind === 'exact' ? 'bg-red-100 text-red-700' : 'bg-orange-100 text-orange-700'
+        }`}>
+          {t(cluster.kind === 'exact' ? 'vault.reused' : 'vault.similar', { count: cluster.entries.length })}
+        </span>
+        {result ? (
+          <StrengthBadge strength={result.consensus} className="px-2 py-1 rounded-lg" />
+        ) : failed ? (
+          <span className="flex items-center gap-1 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4" />
+            {t('vault.analysisFailed')}
+          </span>
+        ) : (
+          <span className="text-sm text-gray-500">{t('analyze.analyzing')}</span>
+        )}
+        {result?.is_breached && (
+          <span className="text-sm font-bold text-red-600">{t('vault.breached', { count: result.breach_count })}</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {cluster.reasons.map(reason => (
+          <span key={reason} className="px-2 py-1 bg-gray-100 rounded-lg text-xs text-gray-700">
+            {reason === 'base_word' && cluster.baseWord
+              ? t('vault.reasonWord', { reason: t(REASON_LABELS[reason]), word: cluster.baseWord })
+              : t(REASON_LABELS[reason])}
+          </span>
+        ))}
+      </div>
+
+      <div className="font-mono text-sm text-gray-700 mb-3">
+        {cluster.passwords.map(password => (
+          <span key={password} className="inline-block me-3">{showPasswords ? password : maskSecret(password)}</span>
+        ))}
+      </div>
+
+      <ul className="text-sm text-gray-600 space-y-1">
+        {cluster.entries.map(entry => (
+          <li key={entry.index}>
+            <span className="font-medium text-gray-800">{entry.name}</span>
+            {entry.username && <span> · {entry.username}</span>}
+            {entry.url && entry.url !== entry.name && <span className="text-gray-400"> · {entry.url}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const VaultAudit: React.FC<VaultAuditProps> = ({ analyze }) => {
+  const { t } = useI18n();
+  const [fileName, setFileName] = useState<string>('');
+  const [scan, setScan] = useState<VaultScan | null>(null);
+  const [results, setResults] = useState<Record<number, AnalysisResult>>({});
+  const [failed, setFailed] = useState<Record<number, boolean>>({});
+  const [scanning, setScanning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<VaultImportErrorCode | null>(null);
+  const [showPasswords, setShowPasswords] = useState<boolean>(false);
+
+  const runImport = async (file: File): Promise<void> => {
+    setError(null);
+    setScan(null);
+    setResults({});
+    setFailed({});
+    setFileName(file.name);
+
+    setScanning(true);
+    let scanned: VaultScan;
+    try {
+      scanned = await scanVault(await readFileText(file));
+    } catch (err) {
+      if (!(err instanceof VaultImportError)) console.error('Error reading vault export:', err);
+      setError(err instanceof VaultImportError ? err.code : 'unreadable');
+      return;
+    } finally {
+      setScanning(false);
+    }
+    setScan(scanned);
+    if (scanned.clusters.length === 0) return;
+
+    // One analysis per cluster: its most used password stands for the rest.
+    // A failed analysis is kept on its cluster so the others still finish.
+    setProgress({ done: 0, total: scanned.clusters.length });
+    await mapWithConcurrency(scanned.clusters, MAX_CONCURRENT, async cluster => {
+      try {
+        const result = await analyze(cluster.passwords[0]);
+        setResults(current => ({ ...current, [cluster.id]: result }));
+      } catch (err) {
+        console.error('Error analyzing reuse group:', err);
+        setFailed(current => ({ ...current, [cluster.id]: true }));
+      }
+    }, (done, total) => setProgress({ done, total }));
+    setProgress(null);
+  };
+
+  const affected = scan ? scan.clusters.reduce((sum, cluster) => sum + cluster.entries.length, 0) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <h3 className="text-xl font-bold mb-2">{t('vault.title')}</h3>
+        <p className="text-gray-600 text-sm mb-6">{t('vault.hint')}</p>
+
+        <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-gray-300 rounded-xl cursor-pointer hover:border-blue-500 transition-colors">
+          <Upload className="w-8 h-8 text-gray-400" />
+          <span className="font-medium">{fileName || t('vault.chooseFile')}</span>
+          <input
+            type="file"
+            accept=".json,.csv,.1pif,application/json,text/csv"
+            disabled={scanning || progress !== null}
+            onChange={(e) => e.target.files?.[0] && runImport(e.target.files[0])}
+            className="hidden"
+            data-testid="vault-file-input"
+          />
+        </label>
+
+        <p className="mt-4 flex items-start gap-2 text-sm text-gray-500">
+          <Lock className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          {t('vault.privacy')}
+        </p>
+
+        {scanning && <p className="mt-6 text-sm text-gray-600">{t('vault.scanning')}</p>}
+
+        {progress && (
+          <div className="mt-6">
+            <div className="flex justify-between text-sm mb-1">
+              <span className="text-gray-600">{t('vault.analyzing')}</span>
+              <span className="font-bold">{t('audit.progress', { done: progress.done, total: progress.total })}</span>
+            </div>
+            <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-blue-500 to-purple-600 transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-6 flex items-start gap-2 p-3 bg-red-50 rounded-lg text-red-800 text-sm">
+            <AlertTriangle className="w-5 h-5 flex-shrink-0" />
+            {t(`vault.error.${error}`)}
+          </div>
+        )}
+      </div>
+
+      {scan && (
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold flex items-center gap-2">
+              <Users className="w-5 h-5 text-orange-600" />
+              {t('vault.report')}
+            </h3>
+            {scan.clusters.length > 0 && (
+              <button
+                onClick={() => setShowPasswords(!showPasswords)}
+                className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900"
+              >
+                {showPasswords ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                {t(showPasswords ? 'audit.hidePasswords' : 'audit.showPasswords')}
+              </button>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mb-6">
+            {t('vault.summary', { count: scan.entryCount, format: VAULT_FORMAT_LABELS[scan.format] })}{' '}
+            {scan.clusters.length === 0
+              ? t('vault.noReuse')
+              : t('vault.groups', { count: scan.clusters.length, entries: t('audit.entries', { count: affected }) })}
+          </p>
+          <div className="space-y-4">
+            {scan.clusters.map(cluster => (
+              <ClusterCard
+                key={cluster.id}
+                cluster={cluster}
+                result={results[cluster.id]}
+                failed={failed[cluster.id] ?? false}
+                showPasswords={showPasswords}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VaultAudit;
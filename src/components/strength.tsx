@@ -0,0 +1,36 @@
+import React from 'react';
+import { CheckCircle, AlertTriangle, XCircle, Info } from 'lucide-react';
+import { useI18n } from '../i18n/I18nProvider';
+
+export { STRENGTH_LEVELS, getStrengthRank } from '../lib/strength';
+
+// Text shades meet the WCAG AA 4.5:1 contrast ratio against their backgrounds
+export const getStrengthColor = (strength: string): string => {
+  switch (strength?.toLowerCase()) {
+    case 'strong': return 'text-green-700 bg-green-50';
+    case 'medium': return 'text-yellow-800 bg-yellow-50';
+    case 'weak': return 'text-red-700 bg-red-50';
+    default: return 'text-gray-700 bg-gray-50';
+  }
+};
+
+// Each level has its own shape, so strength never depends on color alone
+export const getStrengthIcon = (strength: string, className: string = 'w-5 h-5') => {
+  switch (strength.toLowerCase()) {
+    case 'strong': return <CheckCircle className={className} aria-hidden="true" />;
+    case 'medium': return <AlertTriangle className={className} aria-hidden="true" />;
+    case 'weak': return <XCircle className={className} aria-hidden="true" />;
+    default: return <Info className={className} aria-hidden="true" />;
+  }
+};
+
+// Compact label: icon, text and color together
+export const StrengthBadge: React.FC<{ strength: string; className?: string }> = ({ strength, className = 'px-2 py-0.5 rounded-lg' }) => {
+  const { strength: label } = useI18n();
+  return (
+    <span className={`inline-flex items-center gap-1 font-bold ${getStrengthColor(strength)} ${className}`}>
+      {getStrengthIcon(strength, 'w-4 h-4')}
+      {label(strength)}
+    </span>
+  );
+};
@@ -0,0 +1,24 @@
+import { useCallback, useEffect, useState } from 'react';
+
+export interface Announcement {
+  id: number;
+  message: string;
+}
+
+// Message for a live region. Each announce() gets a new id so repeating the same
+// text is still read out; with clearAfterMs the message disappears again.
+export const useAnnouncer = (clearAfterMs?: number) => {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null);
+
+  const announce = useCallback((message: string): void => {
+    setAnnouncement(current => ({ id: (current?.id || 0) + 1, message }));
+  }, []);
+
+  useEffect(() => {
+    if (!announcement || !clearAfterMs) return;
+    const timer = setTimeout(() => setAnnouncement(null), clearAfterMs);
+    return () => clearTimeout(timer);
+  }, [announcement, clearAfterMs]);
+
+  return { announcement, announce };
+};
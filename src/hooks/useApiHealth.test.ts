@@ -0,0 +1,70 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { createApiClient } from '../api/client';
+import { HealthStatus } from '../types';
+import { HEALTH_MAX_RETRY_MS, HEALTH_POLL_MS, HEALTH_RETRY_MS, nextHealthCheckDelay, useApiHealth } from './useApiHealth';
+
+const HEALTHY: HealthStatus = { status: 'ok', models_loaded: true, available_models: ['rf', 'xgb'], breach_database_size: 684000 };
+
+const healthResponse = (body: HealthStatus) => Promise.resolve({ ok: true, json: async () => body } as Response);
+
+afterEach(() => jest.useRealTimers());
+
+test('backs off exponentially while the API is down', () => {
+  expect(nextHealthCheckDelay(0)).toBe(HEALTH_POLL_MS);
+  expect(nextHealthCheckDelay(1)).toBe(HEALTH_RETRY_MS);
+  expect(nextHealthCheckDelay(2)).toBe(HEALTH_RETRY_MS * 2);
+  expect(nextHealthCheckDelay(3)).toBe(HEALTH_RETRY_MS * 4);
+  expect(nextHealthCheckDelay(20)).toBe(HEALTH_MAX_RETRY_MS);
+});
+
+test('recovers from offline without a reload', async () => {
+  jest.useFakeTimers();
+  const fetchMock = jest.fn()
+    .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    .mockImplementation(() => healthResponse(HEALTHY));
+  const client = createApiClient({ baseUrl: 'http://api', fetch: fetchMock });
+
+  const { result } = renderHook(() => useApiHealth(client));
+  expect(result.current.status).toBe('checking');
+  await waitFor(() => expect(result.current.status).toBe('offline'));
+  expect(result.current.details).toBeNull();
+
+  await act(async () => { jest.advanceTimersByTime(HEALTH_RETRY_MS); });
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+  expect(result.current.status).toBe('offline');
+
+  await act(async () => { jest.advanceTimersByTime(HEALTH_RETRY_MS * 2); });
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+  expect(result.current.status).toBe('healthy');
+  expect(result.current.details).toEqual(HEALTHY);
+  expect(result.current.latencyMs).not.toBeNull();
+  expect(result.current.nextCheckAt).toBe((result.current.checkedAt ?? 0) + HEALTH_POLL_MS);
+});
+
+test('reports a model-less API and re-checks on demand', async () => {
+  const fetchMock = jest.fn()
+    .mockImplementationOnce(() => healthResponse({ ...HEALTHY, models_loaded: false, available_models: [] }))
+    .mockImplementation(() => healthResponse(HEALTHY));
+  const client = createApiClient({ baseUrl: 'http://api', fetch: fetchMock });
+
+  const { result } = renderHook(() => useApiHealth(client));
+  await waitFor(() => expect(result.current.status).toBe('no-models'));
+
+  act(() => result.current.checkNow());
+  await waitFor(() => expect(result.current.status).toBe('healthy'));
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('reportOffline marks the API offline and confirms with a new check', async () => {
+  const fetchMock = jest.fn(() => healthResponse(HEALTHY));
+  const client = createApiClient({ baseUrl: 'http://api', fetch: fetchMock });
+
+  const { result } = renderHook(() => useApiHealth(client));
+  await waitFor(() => expect(result.current.status).toBe('healthy'));
+
+  act(() => result.current.reportOffline());
+  expect(result.current.status).toBe('offline');
+  await waitFor(() => expect(result.current.status).toBe('healthy'));
+  expect(fetchMock).toHaveBeenCalledTimes(2);
+});
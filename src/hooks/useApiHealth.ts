@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ApiClient } from '../api/client';
+import { ApiStatus, HealthStatus } from '../types';
+
+// A healthy API is re-checked at a steady pace; an offline or model-less one is
+// retried sooner, backing off exponentially so a long outage is not hammered
+export const HEALTH_POLL_MS = 30000;
+export const HEALTH_RETRY_MS = 2000;
+export const HEALTH_MAX_RETRY_MS = 60000;
+
+export const nextHealthCheckDelay = (failures: number): number =>
+  failures === 0 ? HEALTH_POLL_MS : Math.min(HEALTH_RETRY_MS * Math.pow(2, failures - 1), HEALTH_MAX_RETRY_MS);
+
+export interface HealthSnapshot {
+  status: ApiStatus;
+  // Last /health response; null while unknown or unreachable
+  details: HealthStatus | null;
+  latencyMs: number | null;
+  checkedAt: number | null;
+  nextCheckAt: number | null;
+}
+
+const INITIAL_SNAPSHOT: HealthSnapshot = { status: 'checking', details: null, latencyMs: null, checkedAt: null, nextCheckAt: null };
+
+// Polls /health for as long as the component is mounted, so the app notices the API
+// going away and coming back without a reload. Changing the client starts over.
+export const useApiHealth = (client: ApiClient) => {
+  const [snapshot, setSnapshot] = useState<HealthSnapshot>(INITIAL_SNAPSHOT);
+  // Bumped to restart the polling loop with an immediate check
+  const [round, setRound] = useState<number>(0);
+
+  useEffect(() => setSnapshot(INITIAL_SNAPSHOT), [client]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const check = async (): Promise<void> => {
+      const started = Date.now();
+      // The loop does its own backoff, so each poll is a single attempt
+      const response = await client.health({ signal: controller.signal, retries: 0 });
+      if (controller.signal.aborted) return;
+
+      const checkedAt = Date.now();
+      const details = response.ok ? response.data : null;
+      const status: ApiStatus = !details ? 'offline' : details.models_loaded ? 'healthy' : 'no-models';
+      failures = status === 'healthy' ? 0 : failures + 1;
+      const delay = nextHealthCheckDelay(failures);
+
+      setSnapshot({ status, details, latencyMs: checkedAt - started, checkedAt, nextCheckAt: checkedAt + delay });
+      timer = setTimeout(check, delay);
+    };
+
+    check();
+    return () => {
+      controller.abort();
+      clearTimeout(timer);
+    };
+  }, [client, round]);
+
+  const checkNow = useCallback((): void => setRound(current => current + 1), []);
+
+  // For requests that failed at the network level: show the API as offline right
+  // away and confirm with a fresh check instead of waiting for the next poll
+  const reportOffline = useCallback((): void => {
+    setSnapshot(current => ({ ...current, status: 'offline' }));
+    setRound(current => current + 1);
+  }, []);
+
+  return { ...snapshot, checkNow, reportOffline };
+};
+
+export type ApiHealth = ReturnType<typeof useApiHealth>;
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { HistoryEntry, HistorySettings } from '../types';
+import {
+  createIndexedDbBackend, DEFAULT_HISTORY_SETTINGS, HistoryBackend, HistoryVault, isIndexedDbAvailable, NewHistoryEntry,
+  openHistory, pruneExpired
+} from '../lib/history';
+import { loadJson, storeJson } from '../lib/localStore';
+
+const SETTINGS_KEY = 'historySettings';
+
+export type HistoryStatus = 'unavailable' | 'disabled' | 'locked' | 'unlocked';
+
+// Encrypted history state. Entries are only readable between unlock() and lock();
+// record() is a no-op while the history is disabled or locked.
+export const useHistory = (backend?: HistoryBackend) => {
+  const available = backend !== undefined || isIndexedDbAvailable();
+  const store = useMemo(() => backend || (available ? createIndexedDbBackend() : null), [backend, available]);
+  const [settings, setSettings] = useState<HistorySettings>(() => loadJson(SETTINGS_KEY, DEFAULT_HISTORY_SETTINGS));
+  const [vault, setVault] = useState<HistoryVault | null>(null);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  // Whether a master passphrase has been set, so the UI can say "create" or "unlock"
+  const [initialized, setInitialized] = useState<boolean>(false);
+
+  useEffect(() => storeJson(SETTINGS_KEY, settings), [settings]);
+
+  useEffect(() => {
+    if (!store) return;
+    pruneExpired(store, settings.expire_days)
+      .then(() => store.getMeta())
+      .then(meta => setInitialized(meta !== null))
+      .catch(error => console.error('Error opening history:', error));
+  }, [store, settings.expire_days]);
+
+  const unlock = useCallback(async (passphrase: string): Promise<void> => {
+    if (!store) return;
+    const opened = await openHistory(store, passphrase);
+    setEntries(await opened.entries());
+    setVault(opened);
+    setInitialized(true);
+  }, [store]);
+
+  const lock = useCallback((): void => {
+    setVault(null);
+    setEntries([]);
+  }, []);
+
+  useEffect(() => {
+    if (!settings.enabled) lock();
+  }, [settings.enabled, lock]);
+
+  const record = useCallback(async (newEntries: NewHistoryEntry[]): Promise<void> => {
+    if (!vault || !settings.enabled || newEntries.length === 0) return;
+    const added = await vault.add(newEntries);
+    setEntries(current => [...added, ...current]);
+  }, [vault, settings.enabled]);
+
+  const remove = useCallback(async (id: string): Promise<void> => {
+    if (!vault) return;
+    await vault.remove([id]);
+    setEntries(current => current.filter(entry => entry.id !== id));
+  }, [vault]);
+
+  // Deletes every entry and the passphrase check; the next unlock starts a new history
+  const wipe = useCallback(async (): Promise<void> => {
+    if (!store) return;
+    await store.clear();
+    lock();
+    setInitialized(false);
+  }, [store, lock]);
+
+  const updateSettings = useCallback((changes: Partial<HistorySettings>): void => {
+    setSettings(current => ({ ...current, ...changes }));
+  }, []);
+
+  const status: HistoryStatus = !available ? 'unavailable' : !settings.enabled ? 'disabled' : vault ? 'unlocked' : 'locked';
+
+  return { status, settings, entries, initialized, unlock, lock, record, remove, wipe, updateSettings };
+};
+
+export type HistoryState = ReturnType<typeof useHistory>;
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+import { PasswordPolicy } from '../types';
+import { DEFAULT_POLICY } from '../lib/policy';
+import { loadJson, storeJson } from '../lib/localStore';
+
+const POLICIES_KEY = 'passwordPolicies';
+const ACTIVE_KEY = 'activePolicy';
+
+// Saved policies keyed by name, plus the name of the one in force (null for none)
+export const usePolicies = () => {
+  const [policies, setPolicies] = useState<PasswordPolicy[]>(() => loadJson(POLICIES_KEY, [DEFAULT_POLICY]));
+  const [activeName, setActiveName] = useState<string | null>(() => loadJson<string | null>(ACTIVE_KEY, null));
+
+  useEffect(() => storeJson(POLICIES_KEY, policies), [policies]);
+  useEffect(() => storeJson(ACTIVE_KEY, activeName), [activeName]);
+
+  const savePolicy = useCallback((policy: PasswordPolicy): void => {
+    setPolicies(current => [...current.filter(p => p.name !== policy.name), policy]);
+  }, []);
+
+  const deletePolicy = useCallback((name: string): void => {
+    setPolicies(current => current.filter(p => p.name !== name));
+    setActiveName(current => (current === name ? null : current));
+  }, []);
+
+  const activePolicy = policies.find(p => p.name === activeName) || null;
+
+  return { policies, activePolicy, savePolicy, deletePolicy, setActivePolicy: setActiveName };
+};
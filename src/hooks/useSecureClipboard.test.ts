@@ -0,0 +1,66 @@
+import { act, renderHook } from '@testing-library/react';
+import { useSecureClipboard } from './useSecureClipboard';
+
+let contents = '';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  contents = '';
+  Object.assign(navigator, {
+    clipboard: {
+      readText: jest.fn(async () => contents),
+      writeText: jest.fn(async (text: string) => { contents = text; })
+    }
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const tick = async (seconds: number): Promise<void> => {
+  for (let i = 0; i < seconds; i++) {
+    await act(async () => { jest.advanceTimersByTime(1000); });
+  }
+};
+
+test('counts down after a copy and clears the clipboard if it still holds the secret', async () => {
+  const onCleared = jest.fn();
+  const { result } = renderHook(() => useSecureClipboard(3, onCleared));
+
+  await act(async () => { expect(await result.current.copy('s3cret!')).toBe(true); });
+  expect(contents).toBe('s3cret!');
+  expect(result.current.remaining).toBe(3);
+
+  await tick(2);
+  expect(result.current.remaining).toBe(1);
+  await tick(1);
+  expect(result.current.remaining).toBeNull();
+  expect(contents).toBe('');
+  expect(onCleared).toHaveBeenCalledTimes(1);
+});
+
+test('leaves the clipboard alone when something else was copied since', async () => {
+  const onCleared = jest.fn();
+  const { result } = renderHook(() => useSecureClipboard(2, onCleared));
+
+  await act(async () => { await result.current.copy('s3cret!'); });
+  contents = 'meeting notes';
+  await tick(2);
+
+  expect(contents).toBe('meeting notes');
+  expect(onCleared).not.toHaveBeenCalled();
+});
+
+test('a new copy restarts the countdown and clear() wipes it at once', async () => {
+  const { result } = renderHook(() => useSecureClipboard(5));
+
+  await act(async () => { await result.current.copy('first'); });
+  await tick(3);
+  await act(async () => { await result.current.copy('second'); });
+  expect(result.current.remaining).toBe(5);
+
+  await act(async () => { await result.current.clear(); });
+  expect(result.current.remaining).toBeNull();
+  expect(contents).toBe('');
+});
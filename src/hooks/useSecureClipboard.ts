@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { clearClipboardIfHolds, CLIPBOARD_CLEAR_SECONDS } from '../lib/clipboard';
+
+export interface SecureClipboard {
+  copy: (secret: string) => Promise<boolean>;
+  // Wipes the last copied secret now, if the clipboard still holds it
+  clear: () => Promise<void>;
+  // Seconds until the clipboard is cleared; null when nothing is pending
+  remaining: number | null;
+}
+
+// Clipboard writes that clean up after themselves: each copy restarts a countdown, and
+// when it runs out the clipboard is cleared if it still holds the copied secret
+export const useSecureClipboard = (
+  seconds: number = CLIPBOARD_CLEAR_SECONDS,
+  onCleared?: () => void
+): SecureClipboard => {
+  const [remaining, setRemaining] = useState<number | null>(null);
+  const secret = useRef<string | null>(null);
+  const onClearedRef = useRef(onCleared);
+  onClearedRef.current = onCleared;
+
+  const clear = useCallback(async (): Promise<void> => {
+    const copied = secret.current;
+    secret.current = null;
+    setRemaining(null);
+    if (copied === null) return;
+    try {
+      if (await clearClipboardIfHolds(copied)) onClearedRef.current?.();
+    } catch (err) {
+      console.error('Failed to clear the clipboard:', err);
+    }
+  }, []);
+
+  const copy = useCallback(async (text: string): Promise<boolean> => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch (err) {
+      console.error('Failed to copy:', err);
+      return false;
+    }
+    secret.current = text;
+    setRemaining(seconds);
+    return true;
+  }, [seconds]);
+
+  useEffect(() => {
+    if (remaining === null) return;
+    if (remaining <= 0) {
+      clear();
+      return;
+    }
+    const timer = setTimeout(() => setRemaining(current => (current === null ? null : current - 1)), 1000);
+    return () => clearTimeout(timer);
+  }, [remaining, clear]);
+
+  return { copy, clear, remaining };
+};
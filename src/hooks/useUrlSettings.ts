@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { loadJson, storeJson } from '../lib/localStore';
+import { decodeSettings, encodeSettings, EncodedSettings, SettingsSchema, SettingValue } from '../lib/urlSettings';
+
+const withSettings = (params: URLSearchParams, encoded: EncodedSettings): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  Object.entries(encoded).forEach(([param, value]) => next.set(param, value));
+  return next;
+};
+
+// Settings held in the query string of the current route and mirrored to localStorage.
+// The URL wins over the stored copy, so opening a bookmark applies its preset; without
+// one the last used settings are restored and written back to the address bar.
+// `schema` must be a stable (module-level) object.
+export const useUrlSettings = <T extends Record<string, SettingValue>>(storageKey: string, schema: SettingsSchema<T>) => {
+  const [params, setParams] = useSearchParams();
+
+  const settings = useMemo(
+    () => decodeSettings(schema, params, loadJson<EncodedSettings>(storageKey, {})),
+    [schema, params, storageKey]
+  );
+  const query = new URLSearchParams(encodeSettings(schema, settings)).toString();
+
+  useEffect(() => {
+    const encoded = Object.fromEntries(new URLSearchParams(query));
+    storeJson(storageKey, encoded);
+    if (Object.entries(encoded).some(([param, value]) => params.get(param) !== value)) {
+      setParams(withSettings(params, encoded), { replace: true });
+    }
+  }, [storageKey, query, params, setParams]);
+
+  // Replaces the history entry: dragging a slider should not fill the back button
+  const update = useCallback((patch: Partial<T>): void => {
+    setParams(withSettings(params, encodeSettings(schema, { ...settings, ...patch })), { replace: true });
+  }, [schema, settings, params, setParams]);
+
+  return [settings, update] as const;
+};
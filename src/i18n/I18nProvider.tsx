@@ -0,0 +1,83 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { GuidanceMessage, PatternFinding } from '../types';
+import type { PolicyCheck, PolicyConflict } from '../lib/policy';
+import type { GeneratorError } from '../lib/generator';
+import type { WordlistError } from '../lib/passphrase';
+import { loadJson, storeJson } from '../lib/localStore';
+import {
+  DEFAULT_LOCALE, detectLocale, formatNumber, formatSeconds, isLocale, Locale, localeDir, translate,
+  translateFinding, translateGeneratorError, translateGuidance, translatePolicyCheck, translatePolicyConflict,
+  translateStrength, translateWordlistError, Translate
+} from '.';
+
+const STORAGE_KEY = 'locale';
+
+export interface I18n {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  setLocale: (locale: Locale) => void;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatSeconds: (seconds: number) => string;
+  formatCrackTime: (seconds: number | undefined, text: string) => string;
+  guidance: (message: Partial<GuidanceMessage> & { message: string }) => string;
+  strength: (strength: string) => string;
+  policyCheck: (check: PolicyCheck) => { label: string; detail?: string };
+  policyConflict: (conflict: PolicyConflict) => string;
+  finding: (finding: Pick<PatternFinding, 'code' | 'params' | 'description'>) => string;
+  generatorError: (error: GeneratorError) => string;
+  wordlistError: (error: WordlistError) => string;
+}
+
+const forLocale = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  dir: localeDir(locale),
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+  formatSeconds: seconds => formatSeconds(locale, seconds),
+  // Seconds are formatted for the locale; older servers only send English text
+  formatCrackTime: (seconds, text) => (seconds === undefined ? text : formatSeconds(locale, seconds)),
+  guidance: message => translateGuidance(locale, message),
+  strength: strength => translateStrength(locale, strength),
+  policyCheck: check => translatePolicyCheck(locale, check),
+  policyConflict: conflict => translatePolicyConflict(locale, conflict),
+  finding: finding => translateFinding(locale, finding),
+  generatorError: error => translateGeneratorError(locale, error),
+  wordlistError: error => translateWordlistError(locale, error)
+});
+
+// Components rendered outside the provider (e.g. in isolated tests) get English
+const I18nContext = createContext<I18n>(forLocale(DEFAULT_LOCALE, () => {}));
+
+const initialLocale = (): Locale => {
+  const saved = loadJson<unknown>(STORAGE_KEY, null);
+  return isLocale(saved) ? saved : detectLocale();
+};
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  const setLocale = useCallback((next: Locale): void => {
+    setLocaleState(next);
+    storeJson(STORAGE_KEY, next);
+  }, []);
+
+  // The document language drives screen-reader pronunciation and the page direction
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = localeDir(locale);
+  }, [locale]);
+
+  const value = useMemo(() => forLocale(locale, setLocale), [locale, setLocale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+// For components embedded in other pages: the locale is the caller's to choose, nothing is
+// persisted, and the host document's language and direction are left alone
+export const FixedLocaleProvider: React.FC<{ locale: Locale; children: React.ReactNode }> = ({ locale, children }) => {
+  const value = useMemo(() => forLocale(locale, () => {}), [locale]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18n => useContext(I18nContext);
@@ -0,0 +1,633 @@
+import type { Catalog } from '.';
+
+export const ar: Catalog = {
+  'app.title': 'محلل كلمات المرور بالذكاء الاصطناعي',
+  'app.subtitle.zero': 'لا نماذج تعلم آلي • {breaches} كلمة مرور مسربة',
+  'app.subtitle.one': 'نموذج تعلم آلي واحد • {breaches} كلمة مرور مسربة',
+  'app.subtitle.two': 'نموذجا تعلم آلي • {breaches} كلمة مرور مسربة',
+  'app.subtitle.few': '{count} نماذج تعلم آلي • {breaches} كلمة مرور مسربة',
+  'app.subtitle.many': '{count} نموذجًا للتعلم الآلي • {breaches} كلمة مرور مسربة',
+  'app.subtitle.other': '{count} نموذج تعلم آلي • {breaches} كلمة مرور مسربة',
+  'app.subtitleOffline': 'تحليل قوة كلمات المرور وتوليدها',
+  'app.language': 'اللغة',
+
+  'api.healthy': '✅ الواجهة البرمجية متصلة',
+  'api.noModels': '⚠️ لا توجد نماذج',
+  'api.checking': '⏳ جارٍ التحقق من الواجهة البرمجية',
+  'api.offline': '❌ الواجهة البرمجية غير متصلة (الوضع المحلي)',
+  'api.settings': 'إعدادات الواجهة البرمجية',
+  'api.baseUrl': 'العنوان الأساسي للواجهة البرمجية',
+  'api.save': 'حفظ',
+  'api.reset': 'إعادة تعيين',
+  'api.settingsHint': 'يُحفظ في هذا المتصفح. القيمة الافتراضية هي REACT_APP_API_BASE_URL أو http://localhost:8000.',
+  'api.dismiss': 'إغلاق',
+  'api.status': 'حالة الواجهة البرمجية',
+  'api.models': 'النماذج المحمّلة',
+  'api.noModelsLoaded': 'لا يوجد',
+  'api.breachDatabase': 'قاعدة بيانات التسريبات',
+  'api.breachDatabaseSize.zero': 'لا كلمات مرور',
+  'api.breachDatabaseSize.one': 'كلمة مرور واحدة',
+  'api.breachDatabaseSize.two': 'كلمتا مرور',
+  'api.breachDatabaseSize.few': '{count} كلمات مرور',
+  'api.breachDatabaseSize.many': '{count} كلمة مرور',
+  'api.breachDatabaseSize.other': '{count} كلمة مرور',
+  'api.unknown': 'غير معروف',
+  'api.lastCheck': 'آخر تحقق',
+  'api.lastCheckValue': '{time} ({latency} مللي ثانية)',
+  'api.lastCheckFailed': '{time} (لا استجابة)',
+  'api.notChecked': 'ليس بعد',
+  'api.nextCheck': 'التحقق التالي',
+  'api.offlineHint': 'تعذّر الوصول إلى الواجهة البرمجية. يجري التحليل والتوليد على هذا الجهاز حتى تعود.',
+  'api.noModelsHint': 'الواجهة البرمجية تعمل لكنها لم تحمّل أي نموذج بعد. التحليل بالنماذج غير متاح حتى يحدث ذلك.',
+  'api.checkNow': 'تحقق الآن',
+
+  'tabs.label': 'الأدوات',
+  'tabs.analyze': 'تحليل',
+  'tabs.generate': 'توليد',
+  'tabs.passphrase': 'عبارة مرور',
+  'tabs.audit': 'تدقيق جماعي',
+  'tabs.vault': 'الخزنة',
+  'tabs.policy': 'السياسة',
+  'tabs.history': 'السجل',
+
+  'analyze.single': 'كلمة مرور واحدة',
+  'analyze.compare': 'مقارنة',
+  'analyze.input': 'أدخل كلمة المرور لتحليلها',
+  'analyze.placeholder': 'اكتب كلمة المرور هنا...',
+  'analyze.show': 'إظهار كلمة المرور',
+  'analyze.hide': 'إخفاء كلمة المرور',
+  'analyze.localEstimate': 'تقدير محلي',
+  'analyze.instantEstimate': 'تقدير محلي فوري — بانتظار النماذج...',
+  'analyze.historyLabel': 'تسمية في السجل',
+  'analyze.historyPlaceholder': 'مثال: شبكة العمل الخاصة (اختياري)',
+  'analyze.model': 'اختر نموذج التنبؤ',
+  'analyze.allModels': 'كل النماذج (الإجماع)',
+  'analyze.privacy': 'وضع الخصوصية',
+  'analyze.privacyHint': 'لا تغادر كلمة المرور المتصفح أبدًا: تُقدَّر القوة محليًا ولا يرسل فحص التسريبات سوى أول {prefix} أحرف من بصمة SHA-1 الخاصة بها.',
+  'analyze.live': 'تحليل مباشر',
+  'analyze.liveHint': 'إعادة التحليل تلقائيًا أثناء الكتابة.',
+  'analyze.paused': 'التحليل متوقف لأن الواجهة البرمجية لم تحمّل أي نموذج. فعّل وضع الخصوصية لتقييم كلمات المرور على هذا الجهاز في الأثناء.',
+  'context.title': 'السياق الشخصي (اختياري)',
+  'context.hint': 'كلمات المرور المبنية على معلوماتك الشخصية هي أول ما يُجرَّب في الهجمات الموجّهة. تبقى هذه القيم في الذاكرة خلال هذه الزيارة فقط. تُرسل مع كل تحليل، أو يُتحقق منها على هذا الجهاز فقط في وضع الخصوصية.',
+  'context.name': 'الاسم',
+  'context.username': 'اسم المستخدم',
+  'context.email': 'البريد الإلكتروني',
+  'context.company': 'الشركة',
+  'context.dates': 'تواريخ مهمة',
+  'context.datesPlaceholder': '1998-04-12, 2015',
+  'context.clear': 'مسح',
+  'context.active.zero': 'لا معلومات مستخدمة',
+  'context.active.one': 'معلومة واحدة مستخدمة',
+  'context.active.two': 'معلومتان مستخدمتان',
+  'context.active.few': '{count} معلومات مستخدمة',
+  'context.active.many': '{count} معلومة مستخدمة',
+  'context.active.other': '{count} معلومة مستخدمة',
+  'analyze.submit': 'حلّل كلمة المرور',
+  'analyze.analyzing': 'جارٍ التحليل...',
+
+  'results.heading': 'نتائج التحليل',
+  'results.privateEstimate': 'تقدير خاص',
+  'results.offlineEstimate': 'تقدير دون اتصال',
+  'results.localEstimate': 'تقدير محلي',
+  'results.privateNotice': 'وضع الخصوصية مفعّل، لذا حُسبت هذه النتيجة في متصفحك بطريقة تقديرية محلية وليس بنماذج التعلم الآلي.',
+  'results.offlineNotice': 'تعذّر الوصول إلى الواجهة البرمجية، لذا حُسبت هذه النتيجة في متصفحك بطريقة تقديرية محلية وليس بنماذج التعلم الآلي.',
+  'results.invalidNotice': 'أعادت الواجهة البرمجية استجابة غير صالحة، لذا حُسبت هذه النتيجة في متصفحك بطريقة تقديرية محلية وليس بنماذج التعلم الآلي.',
+  'results.breachTitle': 'خطر: كلمة المرور مخترقة!',
+  'results.breachBody.one': 'عُثر على كلمة المرور هذه في تسريب واحد للبيانات. لا تستخدمها أبدًا!',
+  'results.breachBody.two': 'عُثر على كلمة المرور هذه في تسريبين للبيانات. لا تستخدمها أبدًا!',
+  'results.breachBody.few': 'عُثر على كلمة المرور هذه في {count} تسريبات للبيانات. لا تستخدمها أبدًا!',
+  'results.breachBody.many': 'عُثر على كلمة المرور هذه في {count} تسريبًا للبيانات. لا تستخدمها أبدًا!',
+  'results.breachBody.other': 'عُثر على كلمة المرور هذه في {count} تسريب للبيانات. لا تستخدمها أبدًا!',
+  'results.breachCheckRange': 'فحص التسريبات: استعلام نطاق مجهول الهوية (لم يُرسل سوى بادئة بصمة من {prefix} أحرف)',
+  'results.breachCheckServer': 'فحص التسريبات: بحث على الخادم (أُرسلت كلمة المرور إلى الواجهة البرمجية)',
+  'results.breachCheckNone': 'فحص التسريبات: لم يُجرَ (تعذّر الوصول إلى الواجهة البرمجية)',
+  'results.notBreached': ' — غير موجودة في التسريبات المعروفة',
+  'results.predictions': 'تنبؤات النماذج',
+  'results.consensus': 'تنبؤ الإجماع',
+  'results.agreement': 'توافق بنسبة {percent}',
+  'results.metrics': 'المقاييس',
+  'results.length': 'الطول:',
+  'results.characters.zero': '{count} حرف',
+  'results.characters.one': 'حرف واحد',
+  'results.characters.two': 'حرفان',
+  'results.characters.few': '{count} أحرف',
+  'results.characters.many': '{count} حرفًا',
+  'results.characters.other': '{count} حرف',
+  'results.shannon': 'إنتروبيا شانون:',
+  'results.practical': 'الإنتروبيا العملية:',
+  'results.bits': '{bits} بت',
+  'results.composition': 'التركيب',
+  'results.lowercase': 'أحرف صغيرة:',
+  'results.uppercase': 'أحرف كبيرة:',
+  'results.digits': 'أرقام:',
+  'results.symbols': 'رموز:',
+  'results.unique': 'فريدة:',
+  'results.crackTime': 'الوقت اللازم للاختراق',
+  'results.warnings': 'تحذيرات',
+  'results.securityIssues': 'مشكلات أمنية',
+  'results.dictionaryWords': 'كلمات قاموس موجودة: {words}',
+  'results.recommendations': 'توصيات',
+  'results.summary': 'اكتمل التحليل: {strength}، {bits} بت من الإنتروبيا.',
+  'results.summaryBreached.one': 'موجودة في تسريب واحد معروف.',
+  'results.summaryBreached.two': 'موجودة في تسريبين معروفين.',
+  'results.summaryBreached.few': 'موجودة في {count} تسريبات معروفة.',
+  'results.summaryBreached.many': 'موجودة في {count} تسريبًا معروفًا.',
+  'results.summaryBreached.other': 'موجودة في {count} تسريب معروف.',
+  'results.summaryWarnings.one': 'تحذير واحد.',
+  'results.summaryWarnings.two': 'تحذيران.',
+  'results.summaryWarnings.few': '{count} تحذيرات.',
+  'results.summaryWarnings.many': '{count} تحذيرًا.',
+  'results.summaryWarnings.other': '{count} تحذير.',
+
+  'crack.online_throttled': 'عبر الإنترنت (مقيّد)',
+  'crack.online_fast': 'عبر الإنترنت (سريع)',
+  'crack.offline_gpu': 'دون اتصال (معالج رسومي)',
+  'crack.offline_super': 'دون اتصال (حاسوب فائق)',
+  'duration.instant': 'فوري',
+  'duration.centuries': 'قرون',
+
+  'strength.weak': 'ضعيفة',
+  'strength.medium': 'متوسطة',
+  'strength.strong': 'قوية',
+  'severity.critical': 'حرج',
+  'severity.high': 'مرتفع',
+  'severity.medium': 'متوسط',
+  'severity.low': 'منخفض',
+
+  'guidance.length': 'استخدم {min} حرفًا على الأقل؛ الطول هو ما يمنح أكبر قدر من القوة.',
+  'guidance.add_uppercase': 'أضف أحرفًا كبيرة.',
+  'guidance.add_lowercase': 'أضف أحرفًا صغيرة.',
+  'guidance.add_digits': 'أضف أرقامًا.',
+  'guidance.add_symbols': 'أضف رموزًا مثل ! أو # أو %.',
+  'guidance.avoid_common': 'اختر كلمة مرور لا تظهر في قوائم كلمات المرور الشائعة.',
+  'guidance.avoid_words': 'تجنّب كلمات القاموس؛ استبدال الأحرف برموز مشابهة لا يخفيها.',
+  'guidance.avoid_sequences': 'تجنّب تتابع مفاتيح لوحة المفاتيح والتسلسلات مثل qwerty أو 1234.',
+  'guidance.avoid_repeats': 'تجنّب الأحرف والمقاطع المكررة.',
+  'guidance.avoid_dates': 'تجنّب التواريخ والسنوات، وخاصة تواريخ الميلاد.',
+  'guidance.looks_good': 'تبدو جيدة. احفظها في مدير كلمات مرور ولا تُعِد استخدامها.',
+  'guidance.breach_not_checked': 'لم يُتحقق من قاعدة بيانات التسريبات لهذه الكلمة.',
+  'guidance.common_password': 'هذه من أكثر كلمات المرور استخدامًا.',
+  'guidance.breached': 'موجودة في {count} من تسريبات البيانات المعروفة.',
+  'guidance.personal_info': 'تحتوي على معلوماتك الشخصية، وهي أول ما تجرّبه الهجمات الموجّهة.',
+  'guidance.avoid_personal': 'تجنّب الأسماء وأسماء المستخدمين وعناوين البريد وأسماء الشركات والتواريخ المرتبطة بك.',
+
+  'generate.settings': 'إعدادات مولّد كلمات المرور',
+  'generate.charset': 'مجموعات الأحرف',
+  'generate.template': 'قالب النمط',
+  'generate.length': 'الطول: {length}',
+  'generate.templateInput': 'القالب',
+  'generate.templatePreview': '{length} حرفًا، {bits} بت من الإنتروبيا',
+  'generate.templateLiteral': 'x حرفية؛ يبقى أي حرف آخر كما هو',
+  'generate.count': 'العدد: {count}',
+  'generate.uppercase': 'أحرف كبيرة (A-Z)',
+  'generate.lowercase': 'أحرف صغيرة (a-z)',
+  'generate.digits': 'أرقام (0-9)',
+  'generate.symbols': 'رموز (!@#$)',
+  'generate.excludeAmbiguous': 'استبعاد الأحرف الملتبسة',
+  'generate.symbolSet': 'مجموعة الرموز',
+  'generate.symbolSetHint': 'تُستخدم هذه الرموز فقط. اتركها فارغة لاستخدام المجموعة الافتراضية.',
+  'generate.minimumPerClass': 'الحد الأدنى لكل فئة',
+  'generate.policyConflict': 'لا يمكن لهذه الإعدادات استيفاء سياسة "{policy}":',
+  'generate.submit': 'ولّد كلمات مرور',
+  'generate.generating': 'جارٍ التوليد...',
+  'generate.results': 'كلمات المرور المولّدة',
+  'generate.policyRejected.one': 'خالفت كلمة مرور مولّدة واحدة سياسة "{policy}" فاستُبعدت.',
+  'generate.policyRejected.two': 'خالفت كلمتا مرور مولّدتان سياسة "{policy}" فاستُبعدتا.',
+  'generate.policyRejected.few': 'خالفت {count} كلمات مرور مولّدة سياسة "{policy}" فاستُبعدت.',
+  'generate.policyRejected.many': 'خالفت {count} كلمة مرور مولّدة سياسة "{policy}" فاستُبعدت.',
+  'generate.policyRejected.other': 'خالفت {count} كلمة مرور مولّدة سياسة "{policy}" فاستُبعدت.',
+  'generate.copy': 'نسخ كلمة المرور',
+  'generate.onDevice': 'التوليد على هذا الجهاز',
+  'generate.onDeviceOffline': 'الواجهة البرمجية غير متصلة، لذا تُولَّد الأسرار في المتصفح.',
+  'generate.onDeviceHint': 'تُستخرج الأسرار من مولّد الأرقام العشوائية التشفيري في المتصفح ولا تعبر الشبكة أبدًا.',
+  'generate.token.upper_consonant': 'حرف ساكن كبير',
+  'generate.token.lower_consonant': 'حرف ساكن صغير',
+  'generate.token.upper_vowel': 'حرف علة كبير',
+  'generate.token.lower_vowel': 'حرف علة صغير',
+  'generate.token.upper_letter': 'حرف كبير',
+  'generate.token.lower_letter': 'حرف صغير',
+  'generate.token.digit': 'رقم',
+  'generate.token.symbol': 'رمز',
+  'generate.token.any': 'أي حرف',
+  'generate.error.unfinished_escape': 'ينتهي القالب بتهريب غير مكتمل (\\).',
+  'generate.error.empty_pool': 'لا توجد أحرف متاحة لـ "{token}" ({kind}).',
+  'generate.error.empty_template': 'القالب فارغ.',
+  'generate.error.template_too_long': 'القالب أطول من {max} حرفًا.',
+  'generate.error.no_classes': 'فعّل فئة أحرف واحدة على الأقل.',
+  'generate.error.empty_symbols': 'مجموعة الرموز فارغة.',
+  'generate.error.minimums_too_long': 'مجموع الحدود الدنيا {minimums}، وهو أكثر من الطول {length}.',
+
+  'passphrase.settings': 'إعدادات مولّد عبارات المرور',
+  'passphrase.words': 'عدد الكلمات: {count}',
+  'passphrase.separator': 'الفاصل',
+  'passphrase.separatorDash': 'شرطة (-)',
+  'passphrase.separatorUnderscore': 'شرطة سفلية (_)',
+  'passphrase.separatorSpace': 'مسافة ( )',
+  'passphrase.separatorDot': 'نقطة (.)',
+  'passphrase.separatorNone': 'بلا فاصل',
+  'passphrase.separatorCustom': 'مخصص...',
+  'passphrase.customSeparator': 'فاصل مخصص',
+  'passphrase.wordlist': 'قائمة الكلمات',
+  'passphrase.wordlistOption.one': '{name} (كلمة واحدة)',
+  'passphrase.wordlistOption.two': '{name} (كلمتان)',
+  'passphrase.wordlistOption.few': '{name} ({count} كلمات)',
+  'passphrase.wordlistOption.many': '{name} ({count} كلمة)',
+  'passphrase.wordlistOption.other': '{name} ({count} كلمة)',
+  'passphrase.upload': 'ارفع قائمتك...',
+  'passphrase.capitalization': 'الأحرف الكبيرة',
+  'passphrase.capitalization.none': 'بلا',
+  'passphrase.capitalization.first_letter': 'الحرف الأول من كل كلمة',
+  'passphrase.capitalization.random_word': 'كلمة واحدة عشوائية',
+  'passphrase.insertDigit': 'إدراج رقم',
+  'passphrase.insertSymbol': 'إدراج رمز',
+  'passphrase.insertHint': 'تُدرج الأحرف في موضع عشوائي بين الكلمات.',
+  'passphrase.count': 'العدد: {count}',
+  'passphrase.entropy': 'تحمل كل عبارة مرور {bits} بت من الإنتروبيا بهذه الإعدادات.',
+  'passphrase.uploadedLocal': 'تُستخدم القوائم المرفوعة على هذا الجهاز فقط.',
+  'passphrase.submit': 'ولّد عبارات مرور',
+  'passphrase.results': 'عبارات المرور المولّدة',
+  'passphrase.copy': 'نسخ عبارة المرور',
+  'passphrase.wordlistSample.zero': '{words}',
+  'passphrase.wordlistSample.one': '{words} وكلمة أخرى',
+  'passphrase.wordlistSample.two': '{words} وكلمتان أخريان',
+  'passphrase.wordlistSample.few': '{words} و{count} كلمات أخرى',
+  'passphrase.wordlistSample.many': '{words} و{count} كلمة أخرى',
+  'passphrase.wordlistSample.other': '{words} و{count} كلمة أخرى',
+  'passphrase.wordlistError.duplicates': 'كلمات مكررة: {sample}.',
+  'passphrase.wordlistError.too_short': 'كلمات أقصر من {min} أحرف: {sample}.',
+  'passphrase.wordlistError.too_few': 'تحتاج القائمة إلى {min} كلمة مختلفة على الأقل، وفيها {size}.',
+
+  'vault.title': 'فحص إعادة الاستخدام في الخزنة',
+  'vault.hint': 'استورد ملف تصدير غير مشفّر من Bitwarden (JSON أو CSV) أو 1Password (CSV أو 1PIF) أو KeePass (CSV) للعثور على كلمات المرور المُعاد استخدامها أو المعدّلة قليلًا بين المدخلات.',
+  'vault.chooseFile': 'اختر ملف ‎.json أو ‎.csv أو ‎.1pif',
+  'vault.privacy': 'يُقرأ الملف ويُقارن على هذا الجهاز. تُرسل كلمة مرور واحدة فقط من كل مجموعة للتحليل، عبر المسار نفسه المستخدم في تبويب التحليل.',
+  'vault.scanning': 'جارٍ البحث عن إعادة الاستخدام...',
+  'vault.analyzing': 'جارٍ تحليل المجموعات...',
+  'vault.report': 'تقرير إعادة الاستخدام',
+  'vault.summary.zero': 'لا مدخلات من تصدير {format}.',
+  'vault.summary.one': 'مدخل واحد من تصدير {format}.',
+  'vault.summary.two': 'مدخلان من تصدير {format}.',
+  'vault.summary.few': '{count} مدخلات من تصدير {format}.',
+  'vault.summary.many': '{count} مدخلًا من تصدير {format}.',
+  'vault.summary.other': '{count} مدخل من تصدير {format}.',
+  'vault.noReuse': 'لم يُعثر على كلمات مرور مُعاد استخدامها أو متشابهة.',
+  'vault.groups.zero': 'لا توجد مجموعات إعادة استخدام تشمل {entries}.',
+  'vault.groups.one': 'مجموعة إعادة استخدام واحدة تشمل {entries}.',
+  'vault.groups.two': 'مجموعتا إعادة استخدام تشملان {entries}.',
+  'vault.groups.few': '{count} مجموعات إعادة استخدام تشمل {entries}.',
+  'vault.groups.many': '{count} مجموعة إعادة استخدام تشمل {entries}.',
+  'vault.groups.other': '{count} مجموعة إعادة استخدام تشمل {entries}.',
+  'vault.reused': 'مُعاد استخدامها ×{count}',
+  'vault.similar': 'متشابهة ×{count}',
+  'vault.analysisFailed': 'فشل التحليل',
+  'vault.breached.zero': 'لم يُعثر عليها في أي تسريب',
+  'vault.breached.one': 'موجودة في تسريب واحد',
+  'vault.breached.two': 'موجودة في تسريبين',
+  'vault.breached.few': 'موجودة في {count} تسريبات',
+  'vault.breached.many': 'موجودة في {count} تسريبًا',
+  'vault.breached.other': 'موجودة في {count} تسريب',
+  'vault.reason.exact': 'كلمة مرور مطابقة',
+  'vault.reason.leetspeak': 'متطابقة باستثناء leetspeak أو حالة الأحرف',
+  'vault.reason.base_word': 'الكلمة الأساسية نفسها',
+  'vault.reason.edit_distance': 'شبه متطابقة',
+  'vault.reasonWord': '{reason}: «{word}»',
+  'vault.error.empty': 'الملف فارغ.',
+  'vault.error.encrypted': 'تصدير Bitwarden هذا مشفّر. صدّر الخزنة مرة أخرى بصيغة JSON أو CSV غير مشفّرة.',
+  'vault.error.invalid_pif': 'يحتوي ملف 1PIF على سجل ليس بصيغة JSON صالحة.',
+  'vault.error.invalid_json': 'يبدو الملف بصيغة JSON لكن تعذّرت قراءته.',
+  'vault.error.unsupported_json': 'تصدير JSON غير معروف. الملفات المدعومة هي Bitwarden JSON و1Password 1PIF.',
+  'vault.error.no_password_column': 'لم يُعثر على عمود لكلمات المرور. ارفع تصديرًا من Bitwarden أو 1Password أو KeePass.',
+  'vault.error.unreadable': 'تعذّرت قراءة ملف التصدير.',
+
+  'audit.title': 'تدقيق مجمّع لكلمات المرور',
+  'audit.hint': 'ارفع ملف CSV يحتوي على عمود «password» (مثلًا من مدير كلمات مرور) أو ملفًا نصيًا فيه كلمة مرور في كل سطر. تمرّ كل كلمة مرور بالتحليل نفسه المستخدم في تبويب التحليل.',
+  'audit.chooseFile': 'اختر ملف ‎.csv أو ‎.txt',
+  'audit.progress': '{done}/{total}',
+  'audit.noPasswords': 'لم يُعثر على كلمات مرور. ارفع ملف CSV يحتوي على عمود «password» أو كلمة مرور في كل سطر.',
+  'audit.readFailed': 'تعذّرت قراءة الملف.',
+  'audit.failed': 'تعذّر إكمال التدقيق. يُرجى المحاولة مرة أخرى.',
+  'audit.distribution': 'توزيع القوة',
+  'audit.share': '{count} ({percent})',
+  'audit.reuse': 'إعادة الاستخدام',
+  'audit.reused': 'مدخلات تشترك في كلمة مرور',
+  'audit.distinct.zero': 'لا كلمات مرور مختلفة عبر {entries}',
+  'audit.distinct.one': 'كلمة مرور واحدة مختلفة عبر {entries}',
+  'audit.distinct.two': 'كلمتا مرور مختلفتان عبر {entries}',
+  'audit.distinct.few': '{count} كلمات مرور مختلفة عبر {entries}',
+  'audit.distinct.many': '{count} كلمة مرور مختلفة عبر {entries}',
+  'audit.distinct.other': '{count} كلمة مرور مختلفة عبر {entries}',
+  'audit.entries.zero': 'لا مدخلات',
+  'audit.entries.one': 'مدخل واحد',
+  'audit.entries.two': 'مدخلين',
+  'audit.entries.few': '{count} مدخلات',
+  'audit.entries.many': '{count} مدخلًا',
+  'audit.entries.other': '{count} مدخل',
+  'audit.breached': 'مسرّبة',
+  'audit.breachedEntries': 'مدخلات موجودة في تسريبات',
+  'audit.report': 'تقرير التدقيق',
+  'audit.showPasswords': 'إظهار كلمات المرور',
+  'audit.hidePasswords': 'إخفاء كلمات المرور',
+  'audit.column.entry': 'المدخل',
+  'audit.column.consensus': 'الإجماع',
+  'audit.column.breaches': 'التسريبات',
+  'audit.column.entropy': 'الإنتروبيا',
+  'audit.column.topIssue': 'المشكلة الرئيسية',
+  'audit.reusedTimes': 'مُعاد استخدامها ×{count}',
+  'audit.issue.breached.zero': 'لم يُعثر عليها في أي تسريب',
+  'audit.issue.breached.one': 'موجودة في تسريب واحد',
+  'audit.issue.breached.two': 'موجودة في تسريبين',
+  'audit.issue.breached.few': 'موجودة في {count} تسريبات',
+  'audit.issue.breached.many': 'موجودة في {count} تسريبًا',
+  'audit.issue.breached.other': 'موجودة في {count} تسريب',
+  'audit.issue.dictionary': 'كلمة من القاموس: {word}',
+
+  'compare.title': 'مقارنة المرشحين',
+  'compare.candidate': 'المرشح {number}',
+  'compare.candidateNumber': 'المرشح رقم {number}',
+  'compare.remove': 'إزالة المرشح',
+  'compare.add': 'إضافة مرشح',
+  'compare.submit': 'قارن',
+  'compare.failed': 'تعذّر إكمال المقارنة. يُرجى المحاولة مرة أخرى.',
+  'compare.verdict': 'الحكم',
+  'compare.consensus': 'الإجماع',
+  'compare.agreement': 'التوافق',
+  'compare.length': 'الطول',
+  'compare.shannon': 'إنتروبيا شانون',
+  'compare.practical': 'الإنتروبيا العملية',
+  'compare.issues': 'المشكلات',
+  'compare.breaches': 'التسريبات',
+  'compare.patterns': 'الأنماط',
+  'compare.noPatterns': 'لا شيء',
+
+  'models.disagree': 'النماذج غير متفقة',
+  'models.votes': '{count} {label}',
+  'models.confidence': 'متأكد بنسبة {percent}',
+  'models.feature': 'الخاصية',
+  'models.contested': 'موضع خلاف',
+  'models.arrows': 'تُظهر الأسهم مدى دفع كل خاصية للنموذج نحو {strongest} (أعلى) أو {weakest} (أسفل).',
+  'models.noAttributions': 'لم تُرجع النماذج أي إسناد للخصائص لكلمة المرور هذه.',
+
+  'pattern.common': 'كلمة مرور شائعة',
+  'pattern.dictionary': 'كلمة من القاموس',
+  'pattern.leet': 'كلمة بأسلوب leetspeak',
+  'pattern.keyboard': 'تسلسل لوحة المفاتيح',
+  'pattern.sequence': 'تسلسل',
+  'pattern.repeat': 'تكرار',
+  'pattern.date': 'تاريخ',
+  'pattern.personal': 'معلومة شخصية',
+  'pattern.position': 'الحرف {position}',
+  'pattern.range': 'الأحرف من {start} إلى {end}',
+  'pattern.mask': 'إخفاء كلمة المرور',
+  'pattern.reveal': 'إظهار كلمة المرور',
+  'finding.keyboard': 'تسلسل مفاتيح على لوحة المفاتيح: «{token}»',
+  'finding.sequence': 'أحرف متتالية: «{token}»',
+  'finding.repeat': 'أحرف مكررة: «{token}»',
+  'finding.date': 'تاريخ أو سنة: «{token}»',
+  'finding.leet': 'استبدال بأسلوب leetspeak: «{token}» ← «{word}»',
+  'finding.dictionary': 'كلمة من القاموس: «{word}»',
+  'finding.common': 'من أكثر كلمات المرور استخدامًا',
+  'finding.personal.name': 'تحتوي على اسمك',
+  'finding.personal.username': 'تحتوي على اسم المستخدم الخاص بك',
+  'finding.personal.email': 'تحتوي على بريدك الإلكتروني',
+  'finding.personal.company': 'تحتوي على اسم شركتك',
+  'finding.personal.dates': 'تحتوي على أحد تواريخك',
+
+  'improver.submit': 'حسّن كلمة المرور هذه',
+  'improver.again': 'اقترح بدائل أخرى',
+  'improver.scoring': 'جارٍ تقييم البدائل...',
+  'improver.mask': 'إخفاء البدائل',
+  'improver.reveal': 'إظهار البدائل',
+  'improver.accept': 'استخدم هذه',
+  'improver.failed': 'تعذّر تقييم البدائل. يُرجى المحاولة مرة أخرى.',
+  'improver.to': 'إلى',
+  'improver.entropy': 'الإنتروبيا',
+  'improver.entropyChange': '{bits} ({delta})',
+  'improver.variant.break_words': 'افصل {fragments} برمز وحرف كبير',
+  'improver.variant.replace_patterns': 'استبدل {fragments} بأحرف عشوائية',
+  'improver.variant.insert.zero': 'لا تُدرج أي أحرف عشوائية',
+  'improver.variant.insert.one': 'أدرج حرفًا عشوائيًا واحدًا في موضع عشوائي',
+  'improver.variant.insert.two': 'أدرج حرفين عشوائيين في مواضع عشوائية',
+  'improver.variant.insert.few': 'أدرج {count} أحرف عشوائية في مواضع عشوائية',
+  'improver.variant.insert.many': 'أدرج {count} حرفًا عشوائيًا في مواضع عشوائية',
+  'improver.variant.insert.other': 'أدرج {count} حرف عشوائي في مواضع عشوائية',
+  'improver.variant.extend.zero': 'لا تُلحق أي كلمات عشوائية',
+  'improver.variant.extend.one': 'ألحق كلمة عشوائية واحدة',
+  'improver.variant.extend.two': 'ألحق كلمتين عشوائيتين',
+  'improver.variant.extend.few': 'ألحق {count} كلمات عشوائية',
+  'improver.variant.extend.many': 'ألحق {count} كلمة عشوائية',
+  'improver.variant.extend.other': 'ألحق {count} كلمة عشوائية',
+  'improver.variant.combined': 'أصلح كل نمط مكتشف وألحق كلمات عشوائية',
+
+  'calculator.title': 'حاسبة زمن الكسر',
+  'calculator.algorithm': 'خوارزمية التجزئة',
+  'calculator.attacker': 'المهاجم',
+  'calculator.attacker.hobbyist': 'هاوٍ (وحدة GPU واحدة)',
+  'calculator.attacker.criminal': 'مجموعة إجرامية (50 ألف دولار)',
+  'calculator.attacker.organization': 'مؤسسة كبيرة (مليون دولار)',
+  'calculator.attacker.nation_state': 'دولة (100 مليون دولار)',
+  'calculator.customBudget': 'ميزانية مخصصة',
+  'calculator.cost': 'التكلفة: {cost}',
+  'calculator.iterations': 'التكرارات',
+  'calculator.budget': 'ميزانية العتاد (بالدولار)',
+  'calculator.hardware': 'العتاد',
+  'calculator.gpus.zero': 'لا وحدات GPU',
+  'calculator.gpus.one': 'وحدة GPU واحدة',
+  'calculator.gpus.two': 'وحدتا GPU',
+  'calculator.gpus.few': '{count} وحدات GPU',
+  'calculator.gpus.many': '{count} وحدة GPU',
+  'calculator.gpus.other': '{count} وحدة GPU',
+  'calculator.rate': 'معدل التخمين',
+  'calculator.averageTime': 'متوسط زمن الكسر',
+  'calculator.chart': 'زمن الكسر حسب خوارزمية التجزئة',
+  'calculator.hash.bcrypt': '{name} (التكلفة {cost})',
+  'calculator.hash.pbkdf2': '{name} ({iterations} تكرار)',
+  'calculator.hash.scrypt': '{name} (N=2^{n}، r={r}، p={p})',
+  'calculator.forever': 'إلى الأبد',
+  'calculator.years.zero': 'لا سنوات',
+  'calculator.years.one': 'سنة واحدة',
+  'calculator.years.two': 'سنتان',
+  'calculator.years.few': '{count} سنوات',
+  'calculator.years.many': '{count} سنة',
+  'calculator.years.other': '{count} سنة',
+  'calculator.yearsApprox': '{years} سنة',
+  'calculator.axis.second': 'ثانية',
+  'calculator.axis.hour': 'ساعة',
+  'calculator.axis.year': 'سنة',
+  'calculator.axis.years': '{amount} سنة',
+  'calculator.footnote': 'بناءً على {bits} بت من الإنتروبيا العملية وقياسات hashcat على وحدة GPU واحدة معدّلة حسب عامل العمل، بتكلفة {cost} لكل وحدة GPU. يجرّب المهاجمون الحقيقيون كلمات المرور المرجّحة أولًا.',
+
+  'report.export': 'تصدير التقرير (كلمة المرور محجوبة)',
+  'report.copyMarkdown': 'نسخ بصيغة Markdown',
+  'report.copied': 'تم النسخ',
+  'report.title': 'تقرير تحليل كلمة المرور',
+  'report.generated': 'أُنشئ في {date}',
+  'report.engine.local': 'تقدير محلي',
+  'report.engine.models': 'نماذج التعلم الآلي',
+  'report.section.summary': 'الملخص',
+  'report.section.patterns': 'الأنماط',
+  'report.section.suggestions': 'الاقتراحات',
+  'report.row.password': 'كلمة المرور',
+  'report.row.consensus': 'الإجماع',
+  'report.row.agreement': 'نسبة الاتفاق',
+  'report.row.engine': 'المحرك',
+  'report.row.breached': 'التسريبات',
+  'report.row.shannon': 'إنتروبيا شانون',
+  'report.row.practical': 'الإنتروبيا العملية',
+  'report.row.lowercase': 'أحرف صغيرة',
+  'report.row.uppercase': 'أحرف كبيرة',
+  'report.row.digits': 'أرقام',
+  'report.row.symbols': 'رموز',
+  'report.row.spaces': 'مسافات',
+  'report.row.unique': 'أحرف فريدة',
+  'report.passwordValue.zero': '{password} ({count} حرف)',
+  'report.passwordValue.one': '{password} (حرف واحد)',
+  'report.passwordValue.two': '{password} (حرفان)',
+  'report.passwordValue.few': '{password} ({count} أحرف)',
+  'report.passwordValue.many': '{password} ({count} حرفًا)',
+  'report.passwordValue.other': '{password} ({count} حرف)',
+  'report.breachedYes.zero': 'نعم، في {count} تسريب',
+  'report.breachedYes.one': 'نعم، في تسريب واحد',
+  'report.breachedYes.two': 'نعم، في تسريبين',
+  'report.breachedYes.few': 'نعم، في {count} تسريبات',
+  'report.breachedYes.many': 'نعم، في {count} تسريبًا',
+  'report.breachedYes.other': 'نعم، في {count} تسريب',
+  'report.breachedNo': 'لا',
+  'report.none': 'لا شيء',
+
+  'policy.title': 'سياسة كلمات المرور',
+  'policy.active': 'النشطة: {name}',
+  'policy.noneActive': 'لا توجد سياسة نشطة',
+  'policy.new': '+ جديدة',
+  'policy.newName': 'سياسة جديدة',
+  'policy.untitled': 'بلا عنوان',
+  'policy.name': 'الاسم',
+  'policy.minLength': 'الحد الأدنى للطول',
+  'policy.minLengthHint': 'بالأحرف؛ 0 يعني بلا حد أدنى.',
+  'policy.maxRepeated': 'أقصى عدد للأحرف المتكررة',
+  'policy.maxRepeatedHint': 'الحرف نفسه متتاليًا؛ 0 يعني بلا حد.',
+  'policy.minEntropy': 'الحد الأدنى للإنتروبيا (بت)',
+  'policy.minEntropyHint': 'عتبة الإنتروبيا العملية؛ 0 يعني بلا عتبة.',
+  'policy.requireUppercase': 'اشتراط أحرف كبيرة',
+  'policy.requireLowercase': 'اشتراط أحرف صغيرة',
+  'policy.requireDigits': 'اشتراط أرقام',
+  'policy.requireSymbols': 'اشتراط رموز',
+  'policy.mustNotBeBreached': 'يجب ألا تكون مسرّبة',
+  'policy.banned': 'سلاسل فرعية محظورة',
+  'policy.bannedPlaceholder': 'أسماء الشركات والمنتجات، واحد في كل سطر',
+  'policy.bannedHint': 'تُطابق دون مراعاة حالة الأحرف، بما في ذلك صيغ leetspeak.',
+  'policy.save': 'حفظ',
+  'policy.saved': 'تم حفظ «{name}».',
+  'policy.deactivate': 'إلغاء التفعيل',
+  'policy.setActive': 'تفعيل',
+  'policy.export': 'تصدير JSON',
+  'policy.import': 'استيراد JSON',
+  'policy.imported': 'تم استيراد «{file}». احفظها للاحتفاظ بها.',
+  'policy.importFailed': 'تعذّر استيراد {file}: {error}',
+  'policy.delete': 'حذف',
+  'policy.heading': 'السياسة: {name}',
+  'policy.compliant': 'متوافقة',
+  'policy.notCompliant': 'غير متوافقة',
+  'policy.status.pass': 'ناجح',
+  'policy.status.fail': 'فاشل',
+  'policy.status.unknown': 'لم يُتحقق منه',
+  'policy.check.min_length': '{min} حرفًا على الأقل',
+  'policy.check.require_uppercase': 'تحتوي على حرف كبير',
+  'policy.check.require_lowercase': 'تحتوي على حرف صغير',
+  'policy.check.require_digits': 'تحتوي على رقم',
+  'policy.check.require_symbols': 'تحتوي على رمز',
+  'policy.check.banned_substrings': 'لا تحتوي على مصطلحات محظورة',
+  'policy.check.max_repeated_chars': 'لا يتكرر أي حرف أكثر من {max} مرات متتالية',
+  'policy.check.min_entropy': 'إنتروبيا لا تقل عن {min} بت',
+  'policy.check.must_not_be_breached': 'غير موجودة في التسريبات المعروفة',
+  'policy.detail.min_length.zero': 'لا أحرف',
+  'policy.detail.min_length.one': 'حرف واحد',
+  'policy.detail.min_length.two': 'حرفان',
+  'policy.detail.min_length.few': '{count} أحرف',
+  'policy.detail.min_length.many': '{count} حرفًا',
+  'policy.detail.min_length.other': '{count} حرف',
+  'policy.detail.banned_substrings': 'تحتوي على {terms}',
+  'policy.detail.max_repeated_chars': '{longest} متتالية',
+  'policy.detail.min_entropy': '{bits} بت',
+  'policy.detail.must_not_be_breached': 'لم يتم الرجوع إلى قاعدة التسريبات',
+  'policy.conflict.min_length': 'يجب ألا يقل الطول عن {min}.',
+  'policy.conflict.require_uppercase': 'الأحرف الكبيرة مطلوبة.',
+  'policy.conflict.require_lowercase': 'الأحرف الصغيرة مطلوبة.',
+  'policy.conflict.require_digits': 'الأرقام مطلوبة.',
+  'policy.conflict.require_symbols': 'الرموز مطلوبة.',
+
+  'history.title': 'السجل',
+  'history.unavailable': 'يتطلب السجل IndexedDB، وهو غير متاح في هذا المتصفح.',
+  'history.lock': 'قفل',
+  'history.enable': 'الاحتفاظ بسجل',
+  'history.enableHint': 'تُحفظ التحليلات والأسرار المولّدة على هذا الجهاز مشفّرة بعبارة المرور الرئيسية.',
+  'history.storePasswords': 'حفظ كلمات المرور المحلَّلة أيضًا',
+  'history.storePasswordsHint': 'معطّل افتراضيًا: تُحفظ التحليلات بتسمية وبصمة SHA-256 فقط.',
+  'history.expiry': 'حذف المدخلات',
+  'history.expiryAfter.zero': 'فورًا',
+  'history.expiryAfter.one': 'بعد يوم واحد',
+  'history.expiryAfter.two': 'بعد يومين',
+  'history.expiryAfter.few': 'بعد {count} أيام',
+  'history.expiryAfter.many': 'بعد {count} يومًا',
+  'history.expiryAfter.other': 'بعد {count} يوم',
+  'history.expiryNever': 'أبدًا',
+  'history.createHint': 'اختر عبارة مرور رئيسية. فهي تشفّر السجل على هذا الجهاز ولا يمكن استعادتها إن نسيتها.',
+  'history.unlockHint': 'أدخل عبارة المرور الرئيسية لعرض السجل والإضافة إليه.',
+  'history.passphrase': 'عبارة المرور الرئيسية',
+  'history.confirmPassphrase': 'تأكيد عبارة المرور الرئيسية',
+  'history.confirmPlaceholder': 'تأكيد عبارة المرور',
+  'history.passphraseTooShort.zero': 'استخدم أحرفًا.',
+  'history.passphraseTooShort.one': 'استخدم حرفًا واحدًا على الأقل.',
+  'history.passphraseTooShort.two': 'استخدم حرفين على الأقل.',
+  'history.passphraseTooShort.few': 'استخدم {count} أحرف على الأقل.',
+  'history.passphraseTooShort.many': 'استخدم {count} حرفًا على الأقل.',
+  'history.passphraseTooShort.other': 'استخدم {count} حرف على الأقل.',
+  'history.passphraseMismatch': 'عبارتا المرور غير متطابقتين.',
+  'history.unlocking': 'جارٍ فتح القفل...',
+  'history.create': 'إنشاء السجل',
+  'history.unlock': 'فتح القفل',
+  'history.wipe': 'مسح السجل',
+  'history.wipeConfirm': 'حذف السجل كله وعبارة المرور الرئيسية الخاصة به؟ لا يمكن التراجع عن ذلك.',
+  'history.search': 'البحث في السجل',
+  'history.searchPlaceholder': 'ابحث في التسميات أو الصق كلمة مرور حلّلتها سابقًا',
+  'history.kindFilter': 'نوع المدخل',
+  'history.kind.all': 'كل المدخلات',
+  'history.kind.analysis': 'تحليل',
+  'history.kind.password': 'كلمة مرور',
+  'history.kind.passphrase': 'عبارة مرور',
+  'history.empty': 'لم يُحفظ شيء بعد. ستظهر هنا التحليلات والأسرار المولّدة.',
+  'history.noMatches': 'لا توجد مدخلات مطابقة.',
+  'history.crackTimeGpu': '{time} (GPU)',
+  'history.copy': 'نسخ',
+  'history.delete': 'حذف المدخل',
+  'history.wrongPassphrase': 'عبارة المرور هذه لا تفتح هذا السجل.',
+  'history.defaultLabel.analysis.zero': 'كلمة مرور {strength}، {count} حرف',
+  'history.defaultLabel.analysis.one': 'كلمة مرور {strength}، حرف واحد',
+  'history.defaultLabel.analysis.two': 'كلمة مرور {strength}، حرفان',
+  'history.defaultLabel.analysis.few': 'كلمة مرور {strength}، {count} أحرف',
+  'history.defaultLabel.analysis.many': 'كلمة مرور {strength}، {count} حرفًا',
+  'history.defaultLabel.analysis.other': 'كلمة مرور {strength}، {count} حرف',
+  'history.defaultLabel.password': 'كلمة مرور مولّدة',
+  'history.defaultLabel.passphrase': 'عبارة مرور مولّدة',
+
+  'secrets.show': 'إظهار',
+  'secrets.hide': 'إخفاء',
+  'secrets.hidden': 'مخفي',
+  'secrets.clearAll': 'امسح الكل',
+  'secrets.cleared': 'مُسحت الأسرار المولّدة من الذاكرة.',
+
+  'clipboard.copied.zero': 'نُسخ إلى الحافظة. ستُمسح الآن.',
+  'clipboard.copied.one': 'نُسخ إلى الحافظة. ستُمسح بعد ثانية واحدة.',
+  'clipboard.copied.two': 'نُسخ إلى الحافظة. ستُمسح بعد ثانيتين.',
+  'clipboard.copied.few': 'نُسخ إلى الحافظة. ستُمسح بعد {count} ثوانٍ.',
+  'clipboard.copied.many': 'نُسخ إلى الحافظة. ستُمسح بعد {count} ثانية.',
+  'clipboard.copied.other': 'نُسخ إلى الحافظة. ستُمسح بعد {count} ثانية.',
+  'clipboard.failed': 'تعذّر النسخ إلى الحافظة.',
+  'clipboard.countdown.zero': 'تُمسح الحافظة الآن',
+  'clipboard.countdown.one': 'تُمسح الحافظة بعد ثانية واحدة',
+  'clipboard.countdown.two': 'تُمسح الحافظة بعد ثانيتين',
+  'clipboard.countdown.few': 'تُمسح الحافظة بعد {count} ثوانٍ',
+  'clipboard.countdown.many': 'تُمسح الحافظة بعد {count} ثانية',
+  'clipboard.countdown.other': 'تُمسح الحافظة بعد {count} ثانية',
+  'clipboard.clearNow': 'امسح الآن',
+  'clipboard.cleared': 'مُسحت الحافظة.'
+};
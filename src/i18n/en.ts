@@ -0,0 +1,527 @@
+// English catalog; the other locales must provide every key defined here.
+// Plural forms use CLDR category suffixes (.zero, .one, .two, .few, .many, .other).
+
+export const en = {
+  'app.title': 'AI Password Analyzer',
+  'app.subtitle.one': '{count} ML model • {breaches} breached passwords',
+  'app.subtitle.other': '{count} ML models • {breaches} breached passwords',
+  'app.subtitleOffline': 'Password strength analysis and generation',
+  'app.language': 'Language',
+
+  'api.healthy': '✅ API Connected',
+  'api.noModels': '⚠️ No Models',
+  'api.checking': '⏳ Checking API',
+  'api.offline': '❌ API Offline (local mode)',
+  'api.settings': 'API settings',
+  'api.baseUrl': 'API Base URL',
+  'api.save': 'Save',
+  'api.reset': 'Reset',
+  'api.settingsHint': 'Saved in this browser. Defaults to REACT_APP_API_BASE_URL or http://localhost:8000.',
+  'api.dismiss': 'Dismiss',
+  'api.status': 'API status',
+  'api.models': 'Loaded models',
+  'api.noModelsLoaded': 'None',
+  'api.breachDatabase': 'Breach database',
+  'api.breachDatabaseSize.one': '{count} password',
+  'api.breachDatabaseSize.other': '{count} passwords',
+  'api.unknown': 'Unknown',
+  'api.lastCheck': 'Last check',
+  'api.lastCheckValue': '{time} ({latency} ms)',
+  'api.lastCheckFailed': '{time} (no response)',
+  'api.notChecked': 'Not yet',
+  'api.nextCheck': 'Next check',
+  'api.offlineHint': 'The API could not be reached. Analysis and generation run on this device until it is back.',
+  'api.noModelsHint': 'The API is up but has not loaded any models yet. Model analysis is unavailable until it has.',
+  'api.checkNow': 'Check now',
+
+  'tabs.label': 'Tools',
+  'tabs.analyze': 'Analyze',
+  'tabs.generate': 'Generate',
+  'tabs.passphrase': 'Passphrase',
+  'tabs.audit': 'Bulk Audit',
+  'tabs.vault': 'Vault',
+  'tabs.policy': 'Policy',
+  'tabs.history': 'History',
+
+  'analyze.single': 'Single Password',
+  'analyze.compare': 'Compare',
+  'analyze.input': 'Enter Password to Analyze',
+  'analyze.placeholder': 'Type your password here...',
+  'analyze.show': 'Show password',
+  'analyze.hide': 'Hide password',
+  'analyze.localEstimate': 'Local estimate',
+  'analyze.instantEstimate': 'Instant local estimate — waiting for the models...',
+  'analyze.historyLabel': 'History Label',
+  'analyze.historyPlaceholder': 'e.g. Work VPN (optional)',
+  'analyze.model': 'Select Model for Prediction',
+  'analyze.allModels': 'All Models (Consensus)',
+  'analyze.privacy': 'Privacy mode',
+  'analyze.privacyHint': 'Your password never leaves the browser: strength is estimated locally and the breach check sends only the first {prefix} characters of its SHA-1 hash.',
+  'analyze.live': 'Live analysis',
+  'analyze.liveHint': 'Re-analyze automatically as you type.',
+  'analyze.paused': 'Analysis is paused because the API has no models loaded. Turn on privacy mode to score passwords on this device meanwhile.',
+  'context.title': 'Personal context (optional)',
+  'context.hint': 'Passwords built from your own details are the first guesses in a targeted attack. These values are kept in memory for this visit only. They are sent with each analysis, or only checked on this device in privacy mode.',
+  'context.name': 'Name',
+  'context.username': 'Username',
+  'context.email': 'Email',
+  'context.company': 'Company',
+  'context.dates': 'Significant dates',
+  'context.datesPlaceholder': '1998-04-12, 2015',
+  'context.clear': 'Clear',
+  'context.active.one': '{count} detail in use',
+  'context.active.other': '{count} details in use',
+  'analyze.submit': 'Analyze Password',
+  'analyze.analyzing': 'Analyzing...',
+
+  'results.heading': 'Analysis Results',
+  'results.privateEstimate': 'Private Estimate',
+  'results.offlineEstimate': 'Offline Estimate',
+  'results.localEstimate': 'Local Estimate',
+  'results.privateNotice': 'Privacy mode is on, so this result was computed in your browser by a local heuristic, not by the ML models.',
+  'results.offlineNotice': 'The API is unreachable, so this result was computed in your browser by a local heuristic, not by the ML models.',
+  'results.invalidNotice': 'The API returned an unusable response, so this result was computed in your browser by a local heuristic, not by the ML models.',
+  'results.breachTitle': 'CRITICAL: Password Compromised!',
+  'results.breachBody.one': 'This password was found in {count} data breach. Never use this password!',
+  'results.breachBody.other': 'This password was found in {count} data breaches. Never use this password!',
+  'results.breachCheckRange': 'Breach check: k-anonymity range query (only a {prefix}-character hash prefix was sent)',
+  'results.breachCheckServer': 'Breach check: server-side lookup (the password was sent to the API)',
+  'results.breachCheckNone': 'Breach check: not performed (API unreachable)',
+  'results.notBreached': ' — not found in known breaches',
+  'results.predictions': 'Model Predictions',
+  'results.consensus': 'Consensus Prediction',
+  'results.agreement': '{percent} agreement',
+  'results.metrics': 'Metrics',
+  'results.length': 'Length:',
+  'results.characters.one': '{count} character',
+  'results.characters.other': '{count} characters',
+  'results.shannon': 'Shannon Entropy:',
+  'results.practical': 'Practical Entropy:',
+  'results.bits': '{bits} bits',
+  'results.composition': 'Composition',
+  'results.lowercase': 'Lowercase:',
+  'results.uppercase': 'Uppercase:',
+  'results.digits': 'Digits:',
+  'results.symbols': 'Symbols:',
+  'results.unique': 'Unique:',
+  'results.crackTime': 'Time to Crack',
+  'results.warnings': 'Warnings',
+  'results.securityIssues': 'Security Issues',
+  'results.dictionaryWords': 'Dictionary words found: {words}',
+  'results.recommendations': 'Recommendations',
+  'results.summary': 'Analysis complete: {strength}, {bits} bits of entropy.',
+  'results.summaryBreached.one': 'Found in {count} known data breach.',
+  'results.summaryBreached.other': 'Found in {count} known data breaches.',
+  'results.summaryWarnings.one': '{count} warning.',
+  'results.summaryWarnings.other': '{count} warnings.',
+
+  'crack.online_throttled': 'Online (throttled)',
+  'crack.online_fast': 'Online (fast)',
+  'crack.offline_gpu': 'Offline (GPU)',
+  'crack.offline_super': 'Offline (supercomputer)',
+  'duration.instant': 'instant',
+  'duration.centuries': 'centuries',
+
+  'strength.weak': 'Weak',
+  'strength.medium': 'Medium',
+  'strength.strong': 'Strong',
+  'severity.critical': 'critical',
+  'severity.high': 'high',
+  'severity.medium': 'medium',
+  'severity.low': 'low',
+
+  'guidance.length': 'Use at least {min} characters; length adds the most strength.',
+  'guidance.add_uppercase': 'Add uppercase letters.',
+  'guidance.add_lowercase': 'Add lowercase letters.',
+  'guidance.add_digits': 'Add digits.',
+  'guidance.add_symbols': 'Add symbols such as !, # or %.',
+  'guidance.avoid_common': 'Pick a password that does not appear on common password lists.',
+  'guidance.avoid_words': 'Avoid dictionary words; swapping letters for look-alike symbols does not hide them.',
+  'guidance.avoid_sequences': 'Avoid keyboard walks and sequences like qwerty or 1234.',
+  'guidance.avoid_repeats': 'Avoid repeated characters and repeated chunks.',
+  'guidance.avoid_dates': 'Avoid dates and years, especially birthdays.',
+  'guidance.looks_good': 'Looks good. Store it in a password manager and do not reuse it.',
+  'guidance.breach_not_checked': 'The breach database was not checked for this password.',
+  'guidance.common_password': 'This is one of the most commonly used passwords.',
+  'guidance.breached': 'Found in {count} known data breaches.',
+  'guidance.personal_info': 'Contains your own personal details, which targeted attacks try first.',
+  'guidance.avoid_personal': 'Leave out names, usernames, email addresses, company names and dates tied to you.',
+
+  'generate.settings': 'Password Generator Settings',
+  'generate.charset': 'Character Sets',
+  'generate.template': 'Pattern Template',
+  'generate.length': 'Length: {length}',
+  'generate.templateInput': 'Template',
+  'generate.templatePreview': '{length} characters, {bits} bits of entropy',
+  'generate.templateLiteral': 'literal x; anything else is kept as is',
+  'generate.count': 'Count: {count}',
+  'generate.uppercase': 'Uppercase (A-Z)',
+  'generate.lowercase': 'Lowercase (a-z)',
+  'generate.digits': 'Digits (0-9)',
+  'generate.symbols': 'Symbols (!@#$)',
+  'generate.excludeAmbiguous': 'Exclude Ambiguous',
+  'generate.symbolSet': 'Symbol Set',
+  'generate.symbolSetHint': 'Only these symbols are used. Leave empty for the default set.',
+  'generate.minimumPerClass': 'Minimum per Class',
+  'generate.policyConflict': 'These settings cannot satisfy the "{policy}" policy:',
+  'generate.submit': 'Generate Passwords',
+  'generate.generating': 'Generating...',
+  'generate.results': 'Generated Passwords',
+  'generate.policyRejected.one': '{count} generated password violated the "{policy}" policy and was discarded.',
+  'generate.policyRejected.other': '{count} generated passwords violated the "{policy}" policy and were discarded.',
+  'generate.copy': 'Copy password',
+  'generate.onDevice': 'Generate on this device',
+  'generate.onDeviceOffline': 'The API is offline, so secrets are generated in the browser.',
+  'generate.onDeviceHint': 'Secrets are drawn from the browser\'s cryptographic random generator and never cross the network.',
+  'generate.token.upper_consonant': 'uppercase consonant',
+  'generate.token.lower_consonant': 'lowercase consonant',
+  'generate.token.upper_vowel': 'uppercase vowel',
+  'generate.token.lower_vowel': 'lowercase vowel',
+  'generate.token.upper_letter': 'uppercase letter',
+  'generate.token.lower_letter': 'lowercase letter',
+  'generate.token.digit': 'digit',
+  'generate.token.symbol': 'symbol',
+  'generate.token.any': 'any character',
+  'generate.error.unfinished_escape': 'Template ends with an unfinished escape (\\).',
+  'generate.error.empty_pool': 'No characters available for \'{token}\' ({kind}).',
+  'generate.error.empty_template': 'Template is empty.',
+  'generate.error.template_too_long': 'Template is longer than {max} characters.',
+  'generate.error.no_classes': 'Enable at least one character class.',
+  'generate.error.empty_symbols': 'The symbol set is empty.',
+  'generate.error.minimums_too_long': 'Minimum counts add up to {minimums}, more than the length of {length}.',
+
+  'passphrase.settings': 'Passphrase Generator Settings',
+  'passphrase.words': 'Number of Words: {count}',
+  'passphrase.separator': 'Separator',
+  'passphrase.separatorDash': 'Dash (-)',
+  'passphrase.separatorUnderscore': 'Underscore (_)',
+  'passphrase.separatorSpace': 'Space ( )',
+  'passphrase.separatorDot': 'Dot (.)',
+  'passphrase.separatorNone': 'None',
+  'passphrase.separatorCustom': 'Custom...',
+  'passphrase.customSeparator': 'Custom separator',
+  'passphrase.wordlist': 'Wordlist',
+  'passphrase.wordlistOption.one': '{name} ({count} word)',
+  'passphrase.wordlistOption.other': '{name} ({count} words)',
+  'passphrase.upload': 'Upload your own...',
+  'passphrase.capitalization': 'Capitalization',
+  'passphrase.capitalization.none': 'None',
+  'passphrase.capitalization.first_letter': 'First letter of each word',
+  'passphrase.capitalization.random_word': 'One random word',
+  'passphrase.insertDigit': 'Insert a digit',
+  'passphrase.insertSymbol': 'Insert a symbol',
+  'passphrase.insertHint': 'Inserted characters land at a random spot between words.',
+  'passphrase.count': 'Count: {count}',
+  'passphrase.entropy': 'Each passphrase carries {bits} bits of entropy with these settings.',
+  'passphrase.uploadedLocal': 'Uploaded lists are only used on this device.',
+  'passphrase.submit': 'Generate Passphrases',
+  'passphrase.results': 'Generated Passphrases',
+  'passphrase.copy': 'Copy passphrase',
+  'passphrase.wordlistSample.one': '{words} and {count} more',
+  'passphrase.wordlistSample.other': '{words} and {count} more',
+  'passphrase.wordlistError.duplicates': 'Duplicate words: {sample}.',
+  'passphrase.wordlistError.too_short': 'Words shorter than {min} letters: {sample}.',
+  'passphrase.wordlistError.too_few': 'The list needs at least {min} distinct words; it has {size}.',
+
+  'vault.title': 'Vault Reuse Check',
+  'vault.hint': 'Import an unencrypted export from Bitwarden (JSON or CSV), 1Password (CSV or 1PIF) or KeePass (CSV) to find passwords that are reused or only slightly changed between entries.',
+  'vault.chooseFile': 'Choose a .json, .csv or .1pif file',
+  'vault.privacy': 'The file is read and compared on this device. Only one password per reuse group is sent for analysis, through the same pipeline as the Analyze tab.',
+  'vault.scanning': 'Looking for reuse...',
+  'vault.analyzing': 'Analyzing reuse groups...',
+  'vault.report': 'Reuse Report',
+  'vault.summary.one': '{count} entry from a {format} export.',
+  'vault.summary.other': '{count} entries from a {format} export.',
+  'vault.noReuse': 'No reused or similar passwords found.',
+  'vault.groups.one': '{count} reuse group covers {entries}.',
+  'vault.groups.other': '{count} reuse groups cover {entries}.',
+  'vault.reused': 'Reused ×{count}',
+  'vault.similar': 'Similar ×{count}',
+  'vault.analysisFailed': 'Analysis failed',
+  'vault.breached.one': 'Found in {count} breach',
+  'vault.breached.other': 'Found in {count} breaches',
+  'vault.reason.exact': 'Identical password',
+  'vault.reason.leetspeak': 'Same apart from leetspeak or case',
+  'vault.reason.base_word': 'Same base word',
+  'vault.reason.edit_distance': 'Nearly identical',
+  'vault.reasonWord': '{reason}: "{word}"',
+  'vault.error.empty': 'The file is empty.',
+  'vault.error.encrypted': 'This Bitwarden export is encrypted. Export the vault again as unencrypted JSON or CSV.',
+  'vault.error.invalid_pif': 'The 1PIF file contains a record that is not valid JSON.',
+  'vault.error.invalid_json': 'The file looks like JSON but could not be parsed.',
+  'vault.error.unsupported_json': 'Unrecognized JSON export. Bitwarden JSON and 1Password 1PIF files are supported.',
+  'vault.error.no_password_column': 'No password column found. Upload a Bitwarden, 1Password or KeePass export.',
+  'vault.error.unreadable': 'The export could not be read.',
+
+  'audit.title': 'Bulk Password Audit',
+  'audit.hint': 'Upload a CSV export with a "password" column (for example from a password manager) or a text file with one password per line. Each password is run through the same analysis as the Analyze tab.',
+  'audit.chooseFile': 'Choose a .csv or .txt file',
+  'audit.progress': '{done}/{total}',
+  'audit.noPasswords': 'No passwords found. Upload a CSV with a "password" column or one password per line.',
+  'audit.readFailed': 'The file could not be read.',
+  'audit.failed': 'The audit could not be completed. Please try again.',
+  'audit.distribution': 'Strength Distribution',
+  'audit.share': '{count} ({percent})',
+  'audit.reuse': 'Reuse',
+  'audit.reused': 'Entries sharing a password',
+  'audit.distinct.one': '{count} distinct password across {entries}',
+  'audit.distinct.other': '{count} distinct passwords across {entries}',
+  'audit.entries.one': '{count} entry',
+  'audit.entries.other': '{count} entries',
+  'audit.breached': 'Breached',
+  'audit.breachedEntries': 'Entries found in breaches',
+  'audit.report': 'Audit Report',
+  'audit.showPasswords': 'Show passwords',
+  'audit.hidePasswords': 'Hide passwords',
+  'audit.column.entry': 'Entry',
+  'audit.column.consensus': 'Consensus',
+  'audit.column.breaches': 'Breaches',
+  'audit.column.entropy': 'Entropy',
+  'audit.column.topIssue': 'Top Issue',
+  'audit.reusedTimes': 'reused ×{count}',
+  'audit.issue.breached.one': 'Found in {count} breach',
+  'audit.issue.breached.other': 'Found in {count} breaches',
+  'audit.issue.dictionary': 'Dictionary word: {word}',
+
+  'compare.title': 'Compare Candidates',
+  'compare.candidate': 'Candidate {number}',
+  'compare.candidateNumber': 'Candidate #{number}',
+  'compare.remove': 'Remove candidate',
+  'compare.add': 'Add Candidate',
+  'compare.submit': 'Compare',
+  'compare.failed': 'The comparison could not be completed. Please try again.',
+  'compare.verdict': 'Verdict',
+  'compare.consensus': 'Consensus',
+  'compare.agreement': 'Agreement',
+  'compare.length': 'Length',
+  'compare.shannon': 'Shannon Entropy',
+  'compare.practical': 'Practical Entropy',
+  'compare.issues': 'Issues',
+  'compare.breaches': 'Breaches',
+  'compare.patterns': 'Patterns',
+  'compare.noPatterns': 'None',
+
+  'models.disagree': 'Models Disagree',
+  'models.votes': '{count} {label}',
+  'models.confidence': '{percent} sure',
+  'models.feature': 'Feature',
+  'models.contested': 'contested',
+  'models.arrows': 'Arrows show how much each feature pushed a model toward {strongest} (up) or {weakest} (down).',
+  'models.noAttributions': 'The models did not report feature attributions for this password.',
+
+  'pattern.common': 'Common password',
+  'pattern.dictionary': 'Dictionary word',
+  'pattern.leet': 'Leetspeak word',
+  'pattern.keyboard': 'Keyboard walk',
+  'pattern.sequence': 'Sequence',
+  'pattern.repeat': 'Repeat',
+  'pattern.date': 'Date',
+  'pattern.personal': 'Personal information',
+  'pattern.position': 'Character {position}',
+  'pattern.range': 'Characters {start} to {end}',
+  'pattern.mask': 'Mask password',
+  'pattern.reveal': 'Reveal password',
+  'finding.keyboard': 'Keyboard walk: \'{token}\'',
+  'finding.sequence': 'Sequential characters: \'{token}\'',
+  'finding.repeat': 'Repeated characters: \'{token}\'',
+  'finding.date': 'Date or year: \'{token}\'',
+  'finding.leet': 'Leetspeak substitution: \'{token}\' → \'{word}\'',
+  'finding.dictionary': 'Dictionary word: \'{word}\'',
+  'finding.common': 'One of the most commonly used passwords',
+  'finding.personal.name': 'Contains your name',
+  'finding.personal.username': 'Contains your username',
+  'finding.personal.email': 'Contains your email address',
+  'finding.personal.company': 'Contains your company',
+  'finding.personal.dates': 'Contains one of your dates',
+
+  'improver.submit': 'Improve This Password',
+  'improver.again': 'Suggest Other Variants',
+  'improver.scoring': 'Scoring variants...',
+  'improver.mask': 'Mask variants',
+  'improver.reveal': 'Reveal variants',
+  'improver.accept': 'Use This',
+  'improver.failed': 'The variants could not be scored. Please try again.',
+  'improver.to': 'to',
+  'improver.entropy': 'Entropy',
+  'improver.entropyChange': '{bits} ({delta})',
+  'improver.variant.break_words': 'Break up {fragments} with a symbol and a capital letter',
+  'improver.variant.replace_patterns': 'Replace {fragments} with random characters',
+  'improver.variant.insert.one': 'Insert {count} random character at a random position',
+  'improver.variant.insert.other': 'Insert {count} random characters at random positions',
+  'improver.variant.extend.one': 'Add {count} random word to the end',
+  'improver.variant.extend.other': 'Add {count} random words to the end',
+  'improver.variant.combined': 'Fix every detected pattern and add random words',
+
+  'calculator.title': 'Crack Time Calculator',
+  'calculator.algorithm': 'Hash Algorithm',
+  'calculator.attacker': 'Attacker',
+  'calculator.attacker.hobbyist': 'Hobbyist (1 GPU)',
+  'calculator.attacker.criminal': 'Criminal group ($50k)',
+  'calculator.attacker.organization': 'Large organization ($1M)',
+  'calculator.attacker.nation_state': 'Nation state ($100M)',
+  'calculator.customBudget': 'Custom budget',
+  'calculator.cost': 'Cost: {cost}',
+  'calculator.iterations': 'Iterations',
+  'calculator.budget': 'Hardware Budget (USD)',
+  'calculator.hardware': 'Hardware',
+  'calculator.gpus.one': '{count} GPU',
+  'calculator.gpus.other': '{count} GPUs',
+  'calculator.rate': 'Guess Rate',
+  'calculator.averageTime': 'Average Time to Crack',
+  'calculator.chart': 'Time to crack by hash algorithm',
+  'calculator.hash.bcrypt': '{name} (cost {cost})',
+  'calculator.hash.pbkdf2': '{name} ({iterations} iterations)',
+  'calculator.hash.scrypt': '{name} (N=2^{n}, r={r}, p={p})',
+  'calculator.forever': 'forever',
+  'calculator.years.one': '{count} year',
+  'calculator.years.other': '{count} years',
+  'calculator.yearsApprox': '{years} years',
+  'calculator.axis.second': '1 sec',
+  'calculator.axis.hour': '1 hour',
+  'calculator.axis.year': '1 year',
+  'calculator.axis.years': '{amount} years',
+  'calculator.footnote': 'Based on {bits} bits of practical entropy and single-GPU hashcat benchmarks scaled to the work factor, at {cost} per GPU. Real attackers also try likely passwords first.',
+
+  'report.export': 'Export report (password redacted)',
+  'report.copyMarkdown': 'Copy Markdown',
+  'report.copied': 'Copied',
+  'report.title': 'Password Analysis Report',
+  'report.generated': 'Generated {date}',
+  'report.engine.local': 'Local heuristic',
+  'report.engine.models': 'ML models',
+  'report.section.summary': 'Summary',
+  'report.section.patterns': 'Patterns',
+  'report.section.suggestions': 'Suggestions',
+  'report.row.password': 'Password',
+  'report.row.consensus': 'Consensus',
+  'report.row.agreement': 'Agreement',
+  'report.row.engine': 'Engine',
+  'report.row.breached': 'Breached',
+  'report.row.shannon': 'Shannon entropy',
+  'report.row.practical': 'Practical entropy',
+  'report.row.lowercase': 'Lowercase',
+  'report.row.uppercase': 'Uppercase',
+  'report.row.digits': 'Digits',
+  'report.row.symbols': 'Symbols',
+  'report.row.spaces': 'Spaces',
+  'report.row.unique': 'Unique characters',
+  'report.passwordValue.one': '{password} ({count} character)',
+  'report.passwordValue.other': '{password} ({count} characters)',
+  'report.breachedYes.one': 'Yes, found in {count} breach',
+  'report.breachedYes.other': 'Yes, found in {count} breaches',
+  'report.breachedNo': 'No',
+  'report.none': 'None',
+
+  'policy.title': 'Password Policy',
+  'policy.active': 'Active: {name}',
+  'policy.noneActive': 'No active policy',
+  'policy.new': '+ New',
+  'policy.newName': 'New policy',
+  'policy.untitled': 'Untitled',
+  'policy.name': 'Name',
+  'policy.minLength': 'Minimum length',
+  'policy.minLengthHint': 'Characters; 0 for no minimum.',
+  'policy.maxRepeated': 'Maximum repeated characters',
+  'policy.maxRepeatedHint': 'Same character in a row; 0 for no limit.',
+  'policy.minEntropy': 'Minimum entropy (bits)',
+  'policy.minEntropyHint': 'Practical entropy floor; 0 for none.',
+  'policy.requireUppercase': 'Require uppercase',
+  'policy.requireLowercase': 'Require lowercase',
+  'policy.requireDigits': 'Require digits',
+  'policy.requireSymbols': 'Require symbols',
+  'policy.mustNotBeBreached': 'Must not be breached',
+  'policy.banned': 'Banned substrings',
+  'policy.bannedPlaceholder': 'Company and product names, one per line',
+  'policy.bannedHint': 'Matched case-insensitively, including leetspeak variants.',
+  'policy.save': 'Save',
+  'policy.saved': 'Saved "{name}".',
+  'policy.deactivate': 'Deactivate',
+  'policy.setActive': 'Set Active',
+  'policy.export': 'Export JSON',
+  'policy.import': 'Import JSON',
+  'policy.imported': 'Imported "{file}". Save it to keep it.',
+  'policy.importFailed': 'Could not import {file}: {error}',
+  'policy.delete': 'Delete',
+  'policy.heading': 'Policy: {name}',
+  'policy.compliant': 'Compliant',
+  'policy.notCompliant': 'Not compliant',
+  'policy.status.pass': 'Pass',
+  'policy.status.fail': 'Fail',
+  'policy.status.unknown': 'Not checked',
+  'policy.check.min_length': 'At least {min} characters',
+  'policy.check.require_uppercase': 'Contains an uppercase letter',
+  'policy.check.require_lowercase': 'Contains a lowercase letter',
+  'policy.check.require_digits': 'Contains a digit',
+  'policy.check.require_symbols': 'Contains a symbol',
+  'policy.check.banned_substrings': 'No banned terms',
+  'policy.check.max_repeated_chars': 'No character repeated more than {max} times in a row',
+  'policy.check.min_entropy': 'Entropy of at least {min} bits',
+  'policy.check.must_not_be_breached': 'Not found in known breaches',
+  'policy.detail.min_length.one': '{count} character',
+  'policy.detail.min_length.other': '{count} characters',
+  'policy.detail.banned_substrings': 'Contains {terms}',
+  'policy.detail.max_repeated_chars': '{longest} in a row',
+  'policy.detail.min_entropy': '{bits} bits',
+  'policy.detail.must_not_be_breached': 'Breach database not checked',
+  'policy.conflict.min_length': 'Length must be at least {min}.',
+  'policy.conflict.require_uppercase': 'Uppercase letters are required.',
+  'policy.conflict.require_lowercase': 'Lowercase letters are required.',
+  'policy.conflict.require_digits': 'Digits are required.',
+  'policy.conflict.require_symbols': 'Symbols are required.',
+
+  'history.title': 'History',
+  'history.unavailable': 'History needs IndexedDB, which this browser does not provide.',
+  'history.lock': 'Lock',
+  'history.enable': 'Keep a history',
+  'history.enableHint': 'Analyses and generated secrets are saved on this device, encrypted with your master passphrase.',
+  'history.storePasswords': 'Also save analyzed passwords',
+  'history.storePasswordsHint': 'Off by default: analyses are saved with a label and a SHA-256 hash only.',
+  'history.expiry': 'Delete entries',
+  'history.expiryAfter.one': 'After {count} day',
+  'history.expiryAfter.other': 'After {count} days',
+  'history.expiryNever': 'Never',
+  'history.createHint': 'Choose a master passphrase. It encrypts the history on this device and cannot be recovered if you forget it.',
+  'history.unlockHint': 'Enter your master passphrase to read and add to the history.',
+  'history.passphrase': 'Master passphrase',
+  'history.confirmPassphrase': 'Confirm master passphrase',
+  'history.confirmPlaceholder': 'Confirm passphrase',
+  'history.passphraseTooShort.one': 'Use at least {count} character.',
+  'history.passphraseTooShort.other': 'Use at least {count} characters.',
+  'history.passphraseMismatch': 'The passphrases do not match.',
+  'history.unlocking': 'Unlocking...',
+  'history.create': 'Create History',
+  'history.unlock': 'Unlock',
+  'history.wipe': 'Wipe History',
+  'history.wipeConfirm': 'Delete the whole history and its master passphrase? This cannot be undone.',
+  'history.search': 'Search history',
+  'history.searchPlaceholder': 'Search labels or paste a password you analyzed before',
+  'history.kindFilter': 'Entry type',
+  'history.kind.all': 'All entries',
+  'history.kind.analysis': 'Analysis',
+  'history.kind.password': 'Password',
+  'history.kind.passphrase': 'Passphrase',
+  'history.empty': 'Nothing saved yet. Analyses and generated secrets will appear here.',
+  'history.noMatches': 'No entries match.',
+  'history.crackTimeGpu': '{time} (GPU)',
+  'history.copy': 'Copy',
+  'history.delete': 'Delete entry',
+  'history.wrongPassphrase': 'That passphrase does not unlock this history.',
+  'history.defaultLabel.analysis.one': '{strength} password, {count} character',
+  'history.defaultLabel.analysis.other': '{strength} password, {count} characters',
+  'history.defaultLabel.password': 'Generated password',
+  'history.defaultLabel.passphrase': 'Generated passphrase',
+
+  'secrets.show': 'Show',
+  'secrets.hide': 'Hide',
+  'secrets.hidden': 'Hidden',
+  'secrets.clearAll': 'Clear all',
+  'secrets.cleared': 'Generated secrets cleared from memory.',
+
+  'clipboard.copied.one': 'Copied to clipboard. It will be cleared in {count} second.',
+  'clipboard.copied.other': 'Copied to clipboard. It will be cleared in {count} seconds.',
+  'clipboard.failed': 'Could not copy to the clipboard.',
+  'clipboard.countdown.one': 'Clipboard clears in {count} second',
+  'clipboard.countdown.other': 'Clipboard clears in {count} seconds',
+  'clipboard.clearNow': 'Clear now',
+  'clipboard.cleared': 'Clipboard cleared.'
+};
@@ -0,0 +1,526 @@
+import type { Catalog } from '.';
+
+export const fr: Catalog = {
+  'app.title': 'Analyseur de mots de passe IA',
+  'app.subtitle.one': '{count} modèle ML • {breaches} mots de passe divulgués',
+  'app.subtitle.other': '{count} modèles ML • {breaches} mots de passe divulgués',
+  'app.subtitleOffline': 'Analyse de robustesse et génération de mots de passe',
+  'app.language': 'Langue',
+
+  'api.healthy': '✅ API connectée',
+  'api.noModels': '⚠️ Aucun modèle',
+  'api.checking': '⏳ Vérification de l\'API',
+  'api.offline': '❌ API hors ligne (mode local)',
+  'api.settings': 'Paramètres de l\'API',
+  'api.baseUrl': 'URL de base de l\'API',
+  'api.save': 'Enregistrer',
+  'api.reset': 'Réinitialiser',
+  'api.settingsHint': 'Enregistrée dans ce navigateur. Par défaut : REACT_APP_API_BASE_URL ou http://localhost:8000.',
+  'api.dismiss': 'Fermer',
+  'api.status': 'État de l\'API',
+  'api.models': 'Modèles chargés',
+  'api.noModelsLoaded': 'Aucun',
+  'api.breachDatabase': 'Base de fuites',
+  'api.breachDatabaseSize.one': '{count} mot de passe',
+  'api.breachDatabaseSize.other': '{count} mots de passe',
+  'api.unknown': 'Inconnue',
+  'api.lastCheck': 'Dernière vérification',
+  'api.lastCheckValue': '{time} ({latency} ms)',
+  'api.lastCheckFailed': '{time} (aucune réponse)',
+  'api.notChecked': 'Pas encore',
+  'api.nextCheck': 'Prochaine vérification',
+  'api.offlineHint': 'L\'API est injoignable. L\'analyse et la génération se font sur cet appareil jusqu\'à son retour.',
+  'api.noModelsHint': 'L\'API répond mais n\'a encore chargé aucun modèle. L\'analyse par les modèles reste indisponible d\'ici là.',
+  'api.checkNow': 'Vérifier maintenant',
+
+  'tabs.label': 'Outils',
+  'tabs.analyze': 'Analyser',
+  'tabs.generate': 'Générer',
+  'tabs.passphrase': 'Phrase de passe',
+  'tabs.audit': 'Audit groupé',
+  'tabs.vault': 'Coffre-fort',
+  'tabs.policy': 'Politique',
+  'tabs.history': 'Historique',
+
+  'analyze.single': 'Un mot de passe',
+  'analyze.compare': 'Comparer',
+  'analyze.input': 'Saisissez le mot de passe à analyser',
+  'analyze.placeholder': 'Tapez votre mot de passe ici...',
+  'analyze.show': 'Afficher le mot de passe',
+  'analyze.hide': 'Masquer le mot de passe',
+  'analyze.localEstimate': 'Estimation locale',
+  'analyze.instantEstimate': 'Estimation locale instantanée — en attente des modèles...',
+  'analyze.historyLabel': 'Libellé dans l\'historique',
+  'analyze.historyPlaceholder': 'ex. VPN du bureau (facultatif)',
+  'analyze.model': 'Modèle utilisé pour la prédiction',
+  'analyze.allModels': 'Tous les modèles (consensus)',
+  'analyze.privacy': 'Mode confidentialité',
+  'analyze.privacyHint': 'Votre mot de passe ne quitte jamais le navigateur : la robustesse est estimée localement et la vérification des fuites n\'envoie que les {prefix} premiers caractères de son empreinte SHA-1.',
+  'analyze.live': 'Analyse en direct',
+  'analyze.liveHint': 'Analyser automatiquement pendant la saisie.',
+  'analyze.paused': 'L\'analyse est suspendue car l\'API n\'a chargé aucun modèle. Activez le mode confidentialité pour évaluer les mots de passe sur cet appareil en attendant.',
+  'context.title': 'Contexte personnel (facultatif)',
+  'context.hint': 'Les mots de passe construits à partir de vos informations sont les premiers essayés lors d\'une attaque ciblée. Ces valeurs restent en mémoire pour cette visite uniquement. Elles sont envoyées avec chaque analyse, ou seulement vérifiées sur cet appareil en mode confidentialité.',
+  'context.name': 'Nom',
+  'context.username': 'Identifiant',
+  'context.email': 'E-mail',
+  'context.company': 'Entreprise',
+  'context.dates': 'Dates importantes',
+  'context.datesPlaceholder': '1998-04-12, 2015',
+  'context.clear': 'Effacer',
+  'context.active.one': '{count} information utilisée',
+  'context.active.other': '{count} informations utilisées',
+  'analyze.submit': 'Analyser le mot de passe',
+  'analyze.analyzing': 'Analyse en cours...',
+
+  'results.heading': 'Résultats de l\'analyse',
+  'results.privateEstimate': 'Estimation privée',
+  'results.offlineEstimate': 'Estimation hors ligne',
+  'results.localEstimate': 'Estimation locale',
+  'results.privateNotice': 'Le mode confidentialité est activé : ce résultat a été calculé dans votre navigateur par une heuristique locale, et non par les modèles ML.',
+  'results.offlineNotice': 'L\'API est injoignable : ce résultat a été calculé dans votre navigateur par une heuristique locale, et non par les modèles ML.',
+  'results.invalidNotice': 'L\'API a renvoyé une réponse inutilisable : ce résultat a été calculé dans votre navigateur par une heuristique locale, et non par les modèles ML.',
+  'results.breachTitle': 'CRITIQUE : mot de passe compromis !',
+  'results.breachBody.one': 'Ce mot de passe figure dans {count} fuite de données. Ne l\'utilisez jamais !',
+  'results.breachBody.other': 'Ce mot de passe figure dans {count} fuites de données. Ne l\'utilisez jamais !',
+  'results.breachCheckRange': 'Vérification des fuites : requête par plage k-anonyme (seul un préfixe d\'empreinte de {prefix} caractères a été envoyé)',
+  'results.breachCheckServer': 'Vérification des fuites : recherche côté serveur (le mot de passe a été envoyé à l\'API)',
+  'results.breachCheckNone': 'Vérification des fuites : non effectuée (API injoignable)',
+  'results.notBreached': ' — absent des fuites connues',
+  'results.predictions': 'Prédictions des modèles',
+  'results.consensus': 'Prédiction consensuelle',
+  'results.agreement': '{percent} d\'accord',
+  'results.metrics': 'Mesures',
+  'results.length': 'Longueur :',
+  'results.characters.one': '{count} caractère',
+  'results.characters.other': '{count} caractères',
+  'results.shannon': 'Entropie de Shannon :',
+  'results.practical': 'Entropie pratique :',
+  'results.bits': '{bits} bits',
+  'results.composition': 'Composition',
+  'results.lowercase': 'Minuscules :',
+  'results.uppercase': 'Majuscules :',
+  'results.digits': 'Chiffres :',
+  'results.symbols': 'Symboles :',
+  'results.unique': 'Uniques :',
+  'results.crackTime': 'Temps de cassage',
+  'results.warnings': 'Avertissements',
+  'results.securityIssues': 'Problèmes de sécurité',
+  'results.dictionaryWords': 'Mots du dictionnaire trouvés : {words}',
+  'results.recommendations': 'Recommandations',
+  'results.summary': 'Analyse terminée : {strength}, {bits} bits d\'entropie.',
+  'results.summaryBreached.one': 'Présent dans {count} fuite de données connue.',
+  'results.summaryBreached.other': 'Présent dans {count} fuites de données connues.',
+  'results.summaryWarnings.one': '{count} avertissement.',
+  'results.summaryWarnings.other': '{count} avertissements.',
+
+  'crack.online_throttled': 'En ligne (limité)',
+  'crack.online_fast': 'En ligne (rapide)',
+  'crack.offline_gpu': 'Hors ligne (GPU)',
+  'crack.offline_super': 'Hors ligne (superordinateur)',
+  'duration.instant': 'instantané',
+  'duration.centuries': 'des siècles',
+
+  'strength.weak': 'Faible',
+  'strength.medium': 'Moyen',
+  'strength.strong': 'Fort',
+  'severity.critical': 'critique',
+  'severity.high': 'élevée',
+  'severity.medium': 'moyenne',
+  'severity.low': 'faible',
+
+  'guidance.length': 'Utilisez au moins {min} caractères ; c\'est la longueur qui apporte le plus de robustesse.',
+  'guidance.add_uppercase': 'Ajoutez des majuscules.',
+  'guidance.add_lowercase': 'Ajoutez des minuscules.',
+  'guidance.add_digits': 'Ajoutez des chiffres.',
+  'guidance.add_symbols': 'Ajoutez des symboles comme !, # ou %.',
+  'guidance.avoid_common': 'Choisissez un mot de passe absent des listes de mots de passe courants.',
+  'guidance.avoid_words': 'Évitez les mots du dictionnaire ; remplacer des lettres par des symboles ressemblants ne les cache pas.',
+  'guidance.avoid_sequences': 'Évitez les suites de touches et les séquences comme azerty ou 1234.',
+  'guidance.avoid_repeats': 'Évitez les caractères et les fragments répétés.',
+  'guidance.avoid_dates': 'Évitez les dates et les années, surtout les anniversaires.',
+  'guidance.looks_good': 'C\'est bien. Conservez-le dans un gestionnaire de mots de passe et ne le réutilisez pas.',
+  'guidance.breach_not_checked': 'La base des fuites n\'a pas été consultée pour ce mot de passe.',
+  'guidance.common_password': 'C\'est l\'un des mots de passe les plus utilisés.',
+  'guidance.breached': 'Présent dans {count} fuites de données connues.',
+  'guidance.personal_info': 'Contient vos informations personnelles, que les attaques ciblées essaient en premier.',
+  'guidance.avoid_personal': 'Évitez les noms, identifiants, adresses e-mail, noms d\'entreprise et dates qui vous concernent.',
+
+  'generate.settings': 'Paramètres du générateur de mots de passe',
+  'generate.charset': 'Jeux de caractères',
+  'generate.template': 'Modèle',
+  'generate.length': 'Longueur : {length}',
+  'generate.templateInput': 'Modèle',
+  'generate.templatePreview': '{length} caractères, {bits} bits d\'entropie',
+  'generate.templateLiteral': 'x littéral ; tout autre caractère est conservé tel quel',
+  'generate.count': 'Nombre : {count}',
+  'generate.uppercase': 'Majuscules (A-Z)',
+  'generate.lowercase': 'Minuscules (a-z)',
+  'generate.digits': 'Chiffres (0-9)',
+  'generate.symbols': 'Symboles (!@#$)',
+  'generate.excludeAmbiguous': 'Exclure les ambigus',
+  'generate.symbolSet': 'Jeu de symboles',
+  'generate.symbolSetHint': 'Seuls ces symboles sont utilisés. Laissez vide pour le jeu par défaut.',
+  'generate.minimumPerClass': 'Minimum par classe',
+  'generate.policyConflict': 'Ces paramètres ne peuvent pas satisfaire la politique « {policy} » :',
+  'generate.submit': 'Générer des mots de passe',
+  'generate.generating': 'Génération...',
+  'generate.results': 'Mots de passe générés',
+  'generate.policyRejected.one': '{count} mot de passe généré enfreignait la politique « {policy} » et a été écarté.',
+  'generate.policyRejected.other': '{count} mots de passe générés enfreignaient la politique « {policy} » et ont été écartés.',
+  'generate.copy': 'Copier le mot de passe',
+  'generate.onDevice': 'Générer sur cet appareil',
+  'generate.onDeviceOffline': 'L\'API est hors ligne : les secrets sont générés dans le navigateur.',
+  'generate.onDeviceHint': 'Les secrets proviennent du générateur aléatoire cryptographique du navigateur et ne transitent jamais par le réseau.',
+  'generate.token.upper_consonant': 'consonne majuscule',
+  'generate.token.lower_consonant': 'consonne minuscule',
+  'generate.token.upper_vowel': 'voyelle majuscule',
+  'generate.token.lower_vowel': 'voyelle minuscule',
+  'generate.token.upper_letter': 'lettre majuscule',
+  'generate.token.lower_letter': 'lettre minuscule',
+  'generate.token.digit': 'chiffre',
+  'generate.token.symbol': 'symbole',
+  'generate.token.any': 'n\'importe quel caractère',
+  'generate.error.unfinished_escape': 'Le modèle se termine par un échappement inachevé (\\).',
+  'generate.error.empty_pool': 'Aucun caractère disponible pour « {token} » ({kind}).',
+  'generate.error.empty_template': 'Le modèle est vide.',
+  'generate.error.template_too_long': 'Le modèle dépasse {max} caractères.',
+  'generate.error.no_classes': 'Activez au moins une classe de caractères.',
+  'generate.error.empty_symbols': 'L\'ensemble de symboles est vide.',
+  'generate.error.minimums_too_long': 'Les minimums totalisent {minimums}, plus que la longueur de {length}.',
+
+  'passphrase.settings': 'Paramètres du générateur de phrases de passe',
+  'passphrase.words': 'Nombre de mots : {count}',
+  'passphrase.separator': 'Séparateur',
+  'passphrase.separatorDash': 'Tiret (-)',
+  'passphrase.separatorUnderscore': 'Tiret bas (_)',
+  'passphrase.separatorSpace': 'Espace ( )',
+  'passphrase.separatorDot': 'Point (.)',
+  'passphrase.separatorNone': 'Aucun',
+  'passphrase.separatorCustom': 'Personnalisé...',
+  'passphrase.customSeparator': 'Séparateur personnalisé',
+  'passphrase.wordlist': 'Liste de mots',
+  'passphrase.wordlistOption.one': '{name} ({count} mot)',
+  'passphrase.wordlistOption.other': '{name} ({count} mots)',
+  'passphrase.upload': 'Importer la vôtre...',
+  'passphrase.capitalization': 'Majuscules',
+  'passphrase.capitalization.none': 'Aucune',
+  'passphrase.capitalization.first_letter': 'Première lettre de chaque mot',
+  'passphrase.capitalization.random_word': 'Un mot au hasard',
+  'passphrase.insertDigit': 'Insérer un chiffre',
+  'passphrase.insertSymbol': 'Insérer un symbole',
+  'passphrase.insertHint': 'Les caractères insérés sont placés au hasard entre les mots.',
+  'passphrase.count': 'Nombre : {count}',
+  'passphrase.entropy': 'Avec ces paramètres, chaque phrase de passe porte {bits} bits d\'entropie.',
+  'passphrase.uploadedLocal': 'Les listes importées ne sont utilisées que sur cet appareil.',
+  'passphrase.submit': 'Générer des phrases de passe',
+  'passphrase.results': 'Phrases de passe générées',
+  'passphrase.copy': 'Copier la phrase de passe',
+  'passphrase.wordlistSample.one': '{words} et {count} autre',
+  'passphrase.wordlistSample.other': '{words} et {count} autres',
+  'passphrase.wordlistError.duplicates': 'Mots en double : {sample}.',
+  'passphrase.wordlistError.too_short': 'Mots de moins de {min} lettres : {sample}.',
+  'passphrase.wordlistError.too_few': 'La liste doit compter au moins {min} mots distincts ; elle en a {size}.',
+
+  'vault.title': 'Réutilisation dans le coffre',
+  'vault.hint': 'Importez un export non chiffré de Bitwarden (JSON ou CSV), 1Password (CSV ou 1PIF) ou KeePass (CSV) pour trouver les mots de passe réutilisés ou à peine modifiés d\'une entrée à l\'autre.',
+  'vault.chooseFile': 'Choisir un fichier .json, .csv ou .1pif',
+  'vault.privacy': 'Le fichier est lu et comparé sur cet appareil. Un seul mot de passe par groupe est envoyé pour analyse, par la même chaîne que l\'onglet Analyser.',
+  'vault.scanning': 'Recherche de réutilisation...',
+  'vault.analyzing': 'Analyse des groupes...',
+  'vault.report': 'Rapport de réutilisation',
+  'vault.summary.one': '{count} entrée issue d\'un export {format}.',
+  'vault.summary.other': '{count} entrées issues d\'un export {format}.',
+  'vault.noReuse': 'Aucun mot de passe réutilisé ou similaire.',
+  'vault.groups.one': '{count} groupe de réutilisation couvre {entries}.',
+  'vault.groups.other': '{count} groupes de réutilisation couvrent {entries}.',
+  'vault.reused': 'Réutilisé ×{count}',
+  'vault.similar': 'Similaire ×{count}',
+  'vault.analysisFailed': 'Échec de l\'analyse',
+  'vault.breached.one': 'Trouvé dans {count} fuite',
+  'vault.breached.other': 'Trouvé dans {count} fuites',
+  'vault.reason.exact': 'Mot de passe identique',
+  'vault.reason.leetspeak': 'Identique au leetspeak ou à la casse près',
+  'vault.reason.base_word': 'Même mot de base',
+  'vault.reason.edit_distance': 'Presque identique',
+  'vault.reasonWord': '{reason} : « {word} »',
+  'vault.error.empty': 'Le fichier est vide.',
+  'vault.error.encrypted': 'Cet export Bitwarden est chiffré. Exportez à nouveau le coffre en JSON ou CSV non chiffré.',
+  'vault.error.invalid_pif': 'Le fichier 1PIF contient un enregistrement qui n\'est pas du JSON valide.',
+  'vault.error.invalid_json': 'Le fichier ressemble à du JSON mais n\'a pas pu être lu.',
+  'vault.error.unsupported_json': 'Export JSON non reconnu. Les fichiers Bitwarden JSON et 1Password 1PIF sont pris en charge.',
+  'vault.error.no_password_column': 'Aucune colonne de mot de passe trouvée. Importez un export Bitwarden, 1Password ou KeePass.',
+  'vault.error.unreadable': 'L\'export n\'a pas pu être lu.',
+
+  'audit.title': 'Audit groupé de mots de passe',
+  'audit.hint': 'Importez un export CSV avec une colonne « password » (par exemple depuis un gestionnaire de mots de passe) ou un fichier texte avec un mot de passe par ligne. Chaque mot de passe passe par la même analyse que dans l\'onglet Analyser.',
+  'audit.chooseFile': 'Choisir un fichier .csv ou .txt',
+  'audit.progress': '{done}/{total}',
+  'audit.noPasswords': 'Aucun mot de passe trouvé. Importez un CSV avec une colonne « password » ou un mot de passe par ligne.',
+  'audit.readFailed': 'Le fichier n\'a pas pu être lu.',
+  'audit.failed': 'L\'audit n\'a pas pu aboutir. Veuillez réessayer.',
+  'audit.distribution': 'Répartition de la robustesse',
+  'audit.share': '{count} ({percent})',
+  'audit.reuse': 'Réutilisation',
+  'audit.reused': 'Entrées partageant un mot de passe',
+  'audit.distinct.one': '{count} mot de passe distinct sur {entries}',
+  'audit.distinct.other': '{count} mots de passe distincts sur {entries}',
+  'audit.entries.one': '{count} entrée',
+  'audit.entries.other': '{count} entrées',
+  'audit.breached': 'Divulgués',
+  'audit.breachedEntries': 'Entrées trouvées dans des fuites',
+  'audit.report': 'Rapport d\'audit',
+  'audit.showPasswords': 'Afficher les mots de passe',
+  'audit.hidePasswords': 'Masquer les mots de passe',
+  'audit.column.entry': 'Entrée',
+  'audit.column.consensus': 'Consensus',
+  'audit.column.breaches': 'Fuites',
+  'audit.column.entropy': 'Entropie',
+  'audit.column.topIssue': 'Problème principal',
+  'audit.reusedTimes': 'réutilisé ×{count}',
+  'audit.issue.breached.one': 'Trouvé dans {count} fuite',
+  'audit.issue.breached.other': 'Trouvé dans {count} fuites',
+  'audit.issue.dictionary': 'Mot du dictionnaire : {word}',
+
+  'compare.title': 'Comparer des candidats',
+  'compare.candidate': 'Candidat {number}',
+  'compare.candidateNumber': 'Candidat n° {number}',
+  'compare.remove': 'Retirer le candidat',
+  'compare.add': 'Ajouter un candidat',
+  'compare.submit': 'Comparer',
+  'compare.failed': 'La comparaison n\'a pas pu aboutir. Veuillez réessayer.',
+  'compare.verdict': 'Verdict',
+  'compare.consensus': 'Consensus',
+  'compare.agreement': 'Accord',
+  'compare.length': 'Longueur',
+  'compare.shannon': 'Entropie de Shannon',
+  'compare.practical': 'Entropie pratique',
+  'compare.issues': 'Problèmes',
+  'compare.breaches': 'Fuites',
+  'compare.patterns': 'Motifs',
+  'compare.noPatterns': 'Aucun',
+
+  'models.disagree': 'Les modèles sont en désaccord',
+  'models.votes': '{count} {label}',
+  'models.confidence': 'sûr à {percent}',
+  'models.feature': 'Caractéristique',
+  'models.contested': 'contestée',
+  'models.arrows': 'Les flèches indiquent à quel point chaque caractéristique a poussé un modèle vers {strongest} (haut) ou {weakest} (bas).',
+  'models.noAttributions': 'Les modèles n\'ont fourni aucune attribution de caractéristiques pour ce mot de passe.',
+
+  'pattern.common': 'Mot de passe courant',
+  'pattern.dictionary': 'Mot du dictionnaire',
+  'pattern.leet': 'Mot en leetspeak',
+  'pattern.keyboard': 'Suite de touches',
+  'pattern.sequence': 'Séquence',
+  'pattern.repeat': 'Répétition',
+  'pattern.date': 'Date',
+  'pattern.personal': 'Information personnelle',
+  'pattern.position': 'Caractère {position}',
+  'pattern.range': 'Caractères {start} à {end}',
+  'pattern.mask': 'Masquer le mot de passe',
+  'pattern.reveal': 'Afficher le mot de passe',
+  'finding.keyboard': 'Suite de touches du clavier : « {token} »',
+  'finding.sequence': 'Caractères consécutifs : « {token} »',
+  'finding.repeat': 'Caractères répétés : « {token} »',
+  'finding.date': 'Date ou année : « {token} »',
+  'finding.leet': 'Substitution leetspeak : « {token} » → « {word} »',
+  'finding.dictionary': 'Mot du dictionnaire : « {word} »',
+  'finding.common': 'L\'un des mots de passe les plus utilisés',
+  'finding.personal.name': 'Contient votre nom',
+  'finding.personal.username': 'Contient votre nom d\'utilisateur',
+  'finding.personal.email': 'Contient votre adresse e-mail',
+  'finding.personal.company': 'Contient votre entreprise',
+  'finding.personal.dates': 'Contient l\'une de vos dates',
+
+  'improver.submit': 'Améliorer ce mot de passe',
+  'improver.again': 'Proposer d\'autres variantes',
+  'improver.scoring': 'Évaluation des variantes...',
+  'improver.mask': 'Masquer les variantes',
+  'improver.reveal': 'Afficher les variantes',
+  'improver.accept': 'Utiliser',
+  'improver.failed': 'Les variantes n\'ont pas pu être évaluées. Veuillez réessayer.',
+  'improver.to': 'vers',
+  'improver.entropy': 'Entropie',
+  'improver.entropyChange': '{bits} ({delta})',
+  'improver.variant.break_words': 'Couper {fragments} avec un symbole et une majuscule',
+  'improver.variant.replace_patterns': 'Remplacer {fragments} par des caractères aléatoires',
+  'improver.variant.insert.one': 'Insérer {count} caractère aléatoire à une position aléatoire',
+  'improver.variant.insert.other': 'Insérer {count} caractères aléatoires à des positions aléatoires',
+  'improver.variant.extend.one': 'Ajouter {count} mot aléatoire à la fin',
+  'improver.variant.extend.other': 'Ajouter {count} mots aléatoires à la fin',
+  'improver.variant.combined': 'Corriger chaque motif détecté et ajouter des mots aléatoires',
+
+  'calculator.title': 'Calculateur de temps de cassage',
+  'calculator.algorithm': 'Algorithme de hachage',
+  'calculator.attacker': 'Attaquant',
+  'calculator.attacker.hobbyist': 'Amateur (1 GPU)',
+  'calculator.attacker.criminal': 'Groupe criminel (50 k$)',
+  'calculator.attacker.organization': 'Grande organisation (1 M$)',
+  'calculator.attacker.nation_state': 'État-nation (100 M$)',
+  'calculator.customBudget': 'Budget personnalisé',
+  'calculator.cost': 'Coût : {cost}',
+  'calculator.iterations': 'Itérations',
+  'calculator.budget': 'Budget matériel (USD)',
+  'calculator.hardware': 'Matériel',
+  'calculator.gpus.one': '{count} GPU',
+  'calculator.gpus.other': '{count} GPU',
+  'calculator.rate': 'Débit d\'essais',
+  'calculator.averageTime': 'Temps moyen de cassage',
+  'calculator.chart': 'Temps de cassage par algorithme de hachage',
+  'calculator.hash.bcrypt': '{name} (coût {cost})',
+  'calculator.hash.pbkdf2': '{name} ({iterations} itérations)',
+  'calculator.hash.scrypt': '{name} (N=2^{n}, r={r}, p={p})',
+  'calculator.forever': 'pour toujours',
+  'calculator.years.one': '{count} an',
+  'calculator.years.other': '{count} ans',
+  'calculator.yearsApprox': '{years} ans',
+  'calculator.axis.second': '1 s',
+  'calculator.axis.hour': '1 heure',
+  'calculator.axis.year': '1 an',
+  'calculator.axis.years': '{amount} ans',
+  'calculator.footnote': 'Basé sur {bits} bits d\'entropie pratique et sur des mesures hashcat sur un seul GPU, ajustées au facteur de travail, à {cost} par GPU. Les vrais attaquants essaient aussi d\'abord les mots de passe probables.',
+
+  'report.export': 'Exporter le rapport (mot de passe masqué)',
+  'report.copyMarkdown': 'Copier en Markdown',
+  'report.copied': 'Copié',
+  'report.title': 'Rapport d\'analyse de mot de passe',
+  'report.generated': 'Généré le {date}',
+  'report.engine.local': 'Heuristique locale',
+  'report.engine.models': 'Modèles de ML',
+  'report.section.summary': 'Résumé',
+  'report.section.patterns': 'Motifs',
+  'report.section.suggestions': 'Suggestions',
+  'report.row.password': 'Mot de passe',
+  'report.row.consensus': 'Consensus',
+  'report.row.agreement': 'Accord',
+  'report.row.engine': 'Moteur',
+  'report.row.breached': 'Fuites',
+  'report.row.shannon': 'Entropie de Shannon',
+  'report.row.practical': 'Entropie pratique',
+  'report.row.lowercase': 'Minuscules',
+  'report.row.uppercase': 'Majuscules',
+  'report.row.digits': 'Chiffres',
+  'report.row.symbols': 'Symboles',
+  'report.row.spaces': 'Espaces',
+  'report.row.unique': 'Caractères uniques',
+  'report.passwordValue.one': '{password} ({count} caractère)',
+  'report.passwordValue.other': '{password} ({count} caractères)',
+  'report.breachedYes.one': 'Oui, trouvé dans {count} fuite',
+  'report.breachedYes.other': 'Oui, trouvé dans {count} fuites',
+  'report.breachedNo': 'Non',
+  'report.none': 'Aucun',
+
+  'policy.title': 'Politique de mots de passe',
+  'policy.active': 'Active : {name}',
+  'policy.noneActive': 'Aucune politique active',
+  'policy.new': '+ Nouvelle',
+  'policy.newName': 'Nouvelle politique',
+  'policy.untitled': 'Sans titre',
+  'policy.name': 'Nom',
+  'policy.minLength': 'Longueur minimale',
+  'policy.minLengthHint': 'En caractères ; 0 pour aucun minimum.',
+  'policy.maxRepeated': 'Caractères répétés au maximum',
+  'policy.maxRepeatedHint': 'Même caractère à la suite ; 0 pour aucune limite.',
+  'policy.minEntropy': 'Entropie minimale (bits)',
+  'policy.minEntropyHint': 'Seuil d\'entropie pratique ; 0 pour aucun.',
+  'policy.requireUppercase': 'Exiger des majuscules',
+  'policy.requireLowercase': 'Exiger des minuscules',
+  'policy.requireDigits': 'Exiger des chiffres',
+  'policy.requireSymbols': 'Exiger des symboles',
+  'policy.mustNotBeBreached': 'Ne doit pas avoir fuité',
+  'policy.banned': 'Sous-chaînes interdites',
+  'policy.bannedPlaceholder': 'Noms d\'entreprise et de produits, un par ligne',
+  'policy.bannedHint': 'Comparées sans tenir compte de la casse, variantes en leetspeak comprises.',
+  'policy.save': 'Enregistrer',
+  'policy.saved': '« {name} » enregistrée.',
+  'policy.deactivate': 'Désactiver',
+  'policy.setActive': 'Activer',
+  'policy.export': 'Exporter en JSON',
+  'policy.import': 'Importer un JSON',
+  'policy.imported': '« {file} » importé. Enregistrez-la pour la conserver.',
+  'policy.importFailed': 'Impossible d\'importer {file} : {error}',
+  'policy.delete': 'Supprimer',
+  'policy.heading': 'Politique : {name}',
+  'policy.compliant': 'Conforme',
+  'policy.notCompliant': 'Non conforme',
+  'policy.status.pass': 'Réussi',
+  'policy.status.fail': 'Échec',
+  'policy.status.unknown': 'Non vérifié',
+  'policy.check.min_length': 'Au moins {min} caractères',
+  'policy.check.require_uppercase': 'Contient une majuscule',
+  'policy.check.require_lowercase': 'Contient une minuscule',
+  'policy.check.require_digits': 'Contient un chiffre',
+  'policy.check.require_symbols': 'Contient un symbole',
+  'policy.check.banned_substrings': 'Aucun terme interdit',
+  'policy.check.max_repeated_chars': 'Aucun caractère répété plus de {max} fois à la suite',
+  'policy.check.min_entropy': 'Entropie d\'au moins {min} bits',
+  'policy.check.must_not_be_breached': 'Absent des fuites connues',
+  'policy.detail.min_length.one': '{count} caractère',
+  'policy.detail.min_length.other': '{count} caractères',
+  'policy.detail.banned_substrings': 'Contient {terms}',
+  'policy.detail.max_repeated_chars': '{longest} à la suite',
+  'policy.detail.min_entropy': '{bits} bits',
+  'policy.detail.must_not_be_breached': 'Base des fuites non consultée',
+  'policy.conflict.min_length': 'La longueur doit être d\'au moins {min}.',
+  'policy.conflict.require_uppercase': 'Les majuscules sont obligatoires.',
+  'policy.conflict.require_lowercase': 'Les minuscules sont obligatoires.',
+  'policy.conflict.require_digits': 'Les chiffres sont obligatoires.',
+  'policy.conflict.require_symbols': 'Les symboles sont obligatoires.',
+
+  'history.title': 'Historique',
+  'history.unavailable': 'L\'historique nécessite IndexedDB, que ce navigateur ne fournit pas.',
+  'history.lock': 'Verrouiller',
+  'history.enable': 'Conserver un historique',
+  'history.enableHint': 'Les analyses et les secrets générés sont enregistrés sur cet appareil, chiffrés avec votre phrase secrète principale.',
+  'history.storePasswords': 'Enregistrer aussi les mots de passe analysés',
+  'history.storePasswordsHint': 'Désactivé par défaut : les analyses sont enregistrées uniquement avec un libellé et une empreinte SHA-256.',
+  'history.expiry': 'Supprimer les entrées',
+  'history.expiryAfter.one': 'Après {count} jour',
+  'history.expiryAfter.other': 'Après {count} jours',
+  'history.expiryNever': 'Jamais',
+  'history.createHint': 'Choisissez une phrase secrète principale. Elle chiffre l\'historique sur cet appareil et ne peut pas être récupérée si vous l\'oubliez.',
+  'history.unlockHint': 'Saisissez votre phrase secrète principale pour consulter et compléter l\'historique.',
+  'history.passphrase': 'Phrase secrète principale',
+  'history.confirmPassphrase': 'Confirmer la phrase secrète principale',
+  'history.confirmPlaceholder': 'Confirmer la phrase secrète',
+  'history.passphraseTooShort.one': 'Utilisez au moins {count} caractère.',
+  'history.passphraseTooShort.other': 'Utilisez au moins {count} caractères.',
+  'history.passphraseMismatch': 'Les phrases secrètes ne correspondent pas.',
+  'history.unlocking': 'Déverrouillage...',
+  'history.create': 'Créer l\'historique',
+  'history.unlock': 'Déverrouiller',
+  'history.wipe': 'Effacer l\'historique',
+  'history.wipeConfirm': 'Supprimer tout l\'historique et sa phrase secrète principale ? Cette action est irréversible.',
+  'history.search': 'Rechercher dans l\'historique',
+  'history.searchPlaceholder': 'Rechercher un libellé ou coller un mot de passe déjà analysé',
+  'history.kindFilter': 'Type d\'entrée',
+  'history.kind.all': 'Toutes les entrées',
+  'history.kind.analysis': 'Analyse',
+  'history.kind.password': 'Mot de passe',
+  'history.kind.passphrase': 'Phrase secrète',
+  'history.empty': 'Rien n\'est encore enregistré. Les analyses et les secrets générés apparaîtront ici.',
+  'history.noMatches': 'Aucune entrée ne correspond.',
+  'history.crackTimeGpu': '{time} (GPU)',
+  'history.copy': 'Copier',
+  'history.delete': 'Supprimer l\'entrée',
+  'history.wrongPassphrase': 'Cette phrase secrète ne déverrouille pas cet historique.',
+  'history.defaultLabel.analysis.one': 'Mot de passe {strength}, {count} caractère',
+  'history.defaultLabel.analysis.other': 'Mot de passe {strength}, {count} caractères',
+  'history.defaultLabel.password': 'Mot de passe généré',
+  'history.defaultLabel.passphrase': 'Phrase de passe générée',
+
+  'secrets.show': 'Afficher',
+  'secrets.hide': 'Masquer',
+  'secrets.hidden': 'Masqué',
+  'secrets.clearAll': 'Tout effacer',
+  'secrets.cleared': 'Secrets générés effacés de la mémoire.',
+
+  'clipboard.copied.one': 'Copié dans le presse-papiers. Il sera vidé dans {count} seconde.',
+  'clipboard.copied.other': 'Copié dans le presse-papiers. Il sera vidé dans {count} secondes.',
+  'clipboard.failed': 'Impossible de copier dans le presse-papiers.',
+  'clipboard.countdown.one': 'Presse-papiers vidé dans {count} seconde',
+  'clipboard.countdown.other': 'Presse-papiers vidé dans {count} secondes',
+  'clipboard.clearNow': 'Vider maintenant',
+  'clipboard.cleared': 'Presse-papiers vidé.'
+};
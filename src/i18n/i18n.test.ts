@@ -0,0 +1,71 @@
+import { en } from './en';
+import { fr } from './fr';
+import { ar } from './ar';
+import {
+  detectLocale, formatSeconds, localeDir, translate, translateFinding, translateGeneratorError, translateGuidance,
+  translateWordlistError
+} from '.';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { validateGenerateRequest } from '../lib/generator';
+import { validateWordlist } from '../lib/passphrase';
+
+test('every locale covers the English catalog', () => {
+  const keys = Object.keys(en);
+  expect(keys.filter(key => !(key in fr))).toEqual([]);
+  expect(keys.filter(key => !(key in ar))).toEqual([]);
+});
+
+test('interpolates parameters with locale number formatting', () => {
+  expect(translate('en', 'guidance.breached', { count: 1200 })).toBe('Found in 1,200 known data breaches.');
+  expect(translate('fr', 'generate.policyConflict', { policy: 'Corp' })).toBe('Ces paramètres ne peuvent pas satisfaire la politique « Corp » :');
+});
+
+test('selects plural forms with the locale rules', () => {
+  expect(translate('en', 'results.characters', { count: 1 })).toBe('1 character');
+  expect(translate('en', 'results.characters', { count: 12 })).toBe('12 characters');
+  expect(translate('fr', 'results.characters', { count: 0 })).toBe('0 caractère');
+  expect(translate('ar', 'results.characters', { count: 2 })).toBe('حرفان');
+  expect(translate('ar', 'results.characters', { count: 11 })).toMatch(/حرفًا$/);
+});
+
+test('translates coded guidance and keeps uncoded text', () => {
+  const coded = { code: 'length', params: { min: 12 }, message: 'Use at least 12 characters; length adds the most strength.' };
+  expect(translateGuidance('en', coded)).toBe(coded.message);
+  expect(translateGuidance('fr', coded)).toMatch(/^Utilisez au moins 12 caractères/);
+  expect(translateGuidance('fr', { code: 'unknown_code', message: 'Server text.' })).toBe('Server text.');
+  expect(translateGuidance('fr', { message: 'Server text.' })).toBe('Server text.');
+});
+
+test('words analyzer findings and validation errors from their codes', () => {
+  const [date] = analyzeLocally('xq2019').pattern_matches!.filter(match => match.kind === 'date');
+  expect(translateFinding('en', date)).toBe(date.description);
+  expect(translateFinding('fr', date)).toBe('Date ou année : « 2019 »');
+  expect(translateFinding('fr', { description: 'Server text.' })).toBe('Server text.');
+
+  const [pool] = validateGenerateRequest({
+    length: 8, count: 1, include_uppercase: false, include_lowercase: false, include_digits: false, include_symbols: true,
+    exclude_ambiguous: true, custom_symbols: '|`', template: '#'
+  });
+  expect(translateGeneratorError('en', pool)).toBe(pool.message);
+  expect(translateGeneratorError('fr', pool)).toBe('Aucun caractère disponible pour « # » (symbole).');
+
+  const words = ['ab', 'cd', 'ef', 'gh', 'ij', 'kl', 'mn'];
+  const errors = validateWordlist(words);
+  expect(errors.map(error => translateWordlistError('en', error))).toEqual(errors.map(error => error.message));
+  expect(translateWordlistError('fr', errors[0])).toBe('Mots de moins de 3 lettres : ab, cd, ef, gh, ij et 2 autres.');
+});
+
+test('formats crack times for the locale', () => {
+  expect(formatSeconds('en', 3 * 3600)).toBe('3 hours');
+  expect(formatSeconds('fr', 3 * 3600)).toMatch(/^3\s+heures$/);
+  expect(formatSeconds('en', 1)).toBe('1 second');
+  expect(formatSeconds('fr', 0.2)).toBe('instantané');
+  expect(formatSeconds('ar', Infinity)).toBe('قرون');
+});
+
+test('detects the preferred supported locale and its direction', () => {
+  expect(detectLocale(['de-DE', 'fr-CA', 'en'])).toBe('fr');
+  expect(detectLocale(['de-DE'])).toBe('en');
+  expect(localeDir('ar')).toBe('rtl');
+  expect(localeDir('fr')).toBe('ltr');
+});
@@ -0,0 +1,126 @@
+import { GuidanceMessage, PatternFinding } from '../types';
+import { DURATION_UNITS } from '../lib/crackTime';
+import type { PolicyCheck, PolicyConflict } from '../lib/policy';
+import type { GeneratorError } from '../lib/generator';
+import type { WordlistError } from '../lib/passphrase';
+import { en } from './en';
+import { fr } from './fr';
+import { ar } from './ar';
+
+export type CatalogKey = keyof typeof en;
+
+// Plural messages are looked up by their base key ('results.characters')
+type PluralKey = { [K in CatalogKey]: K extends `${infer Base}.other` ? Base : never }[CatalogKey];
+
+export type MessageKey = CatalogKey | PluralKey;
+
+// Every English key plus any extra plural categories a language needs (Arabic has six)
+export type Catalog = Record<CatalogKey, string> & Record<string, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export type Locale = 'en' | 'fr' | 'ar';
+
+export const LOCALES: { id: Locale; label: string; dir: 'ltr' | 'rtl' }[] = [
+  { id: 'en', label: 'English', dir: 'ltr' },
+  { id: 'fr', label: 'Français', dir: 'ltr' },
+  { id: 'ar', label: 'العربية', dir: 'rtl' }
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const CATALOGS: Record<Locale, Catalog> = { en, fr, ar };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.id === value);
+
+export const localeDir = (locale: Locale): 'ltr' | 'rtl' =>
+  LOCALES.find(l => l.id === locale)?.dir ?? 'ltr';
+
+// First supported language in the browser's preference list
+export const detectLocale = (languages: readonly string[] = navigator.languages || [navigator.language]): Locale => {
+  const match = languages.map(tag => tag.split('-')[0].toLowerCase()).find(isLocale);
+  return match ?? DEFAULT_LOCALE;
+};
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions): string =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+// Number options for exactly `digits` decimals, e.g. entropy in bits
+export const fixed = (digits: number): Intl.NumberFormatOptions =>
+  ({ minimumFractionDigits: digits, maximumFractionDigits: digits });
+
+const lookup = (locale: Locale, key: string, count: unknown): string | undefined => {
+  const catalog = CATALOGS[locale];
+  if (typeof count !== 'number') return catalog[key];
+  const category = new Intl.PluralRules(locale).select(count);
+  return catalog[`${key}.${category}`] ?? catalog[`${key}.other`] ?? catalog[key];
+};
+
+// Falls back to English, then to the key itself, so a missing entry never blanks the UI.
+// Numeric parameters are formatted for the locale; strings are inserted as is.
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+  const message = lookup(locale, key, params.count) ?? lookup(DEFAULT_LOCALE, key, params.count) ?? key;
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'number' ? formatNumber(locale, value) : value;
+  });
+};
+
+// Coded server messages are translated when the catalog knows the code; otherwise
+// the server's own text is shown
+export const translateGuidance = (locale: Locale, guidance: Partial<GuidanceMessage> & { message: string }): string => {
+  const key = `guidance.${guidance.code}`;
+  return guidance.code && key in CATALOGS[DEFAULT_LOCALE]
+    ? translate(locale, key as MessageKey, guidance.params)
+    : guidance.message;
+};
+
+// Pattern findings are worded the same way: by code when the catalog knows it, else the server's text
+export const translateFinding = (locale: Locale, finding: Pick<PatternFinding, 'code' | 'params' | 'description'>): string => {
+  const key = `finding.${finding.code}`;
+  return finding.code && key in CATALOGS[DEFAULT_LOCALE]
+    ? translate(locale, key as MessageKey, finding.params)
+    : finding.description;
+};
+
+// A template token is named by its kind, which is worded per locale too
+export const translateGeneratorError = (locale: Locale, error: GeneratorError): string => {
+  const kind = error.params?.kind;
+  return translate(locale, `generate.error.${error.code}` as MessageKey, {
+    ...error.params,
+    ...(kind !== undefined && { kind: translate(locale, `generate.token.${kind}` as MessageKey) })
+  });
+};
+
+export const translateWordlistError = (locale: Locale, error: WordlistError): string => {
+  const { words = '', more = 0 } = error.params ?? {};
+  const sample = more > 0 ? translate(locale, 'passphrase.wordlistSample', { words, count: more }) : String(words);
+  return translate(locale, `passphrase.wordlistError.${error.code}` as MessageKey, { ...error.params, sample });
+};
+
+// Server strength labels outside the catalog are shown untranslated
+export const translateStrength = (locale: Locale, strength: string): string => {
+  const key = `strength.${strength.toLowerCase()}`;
+  return key in CATALOGS[DEFAULT_LOCALE] ? translate(locale, key as MessageKey) : strength;
+};
+
+// Policy rules carry their values, so each locale words the check and its detail itself
+export const translatePolicyCheck = (locale: Locale, check: PolicyCheck): { label: string; detail?: string } => ({
+  label: translate(locale, `policy.check.${check.rule}` as MessageKey, check.params),
+  detail: check.detail && translate(locale, `policy.detail.${check.rule}` as MessageKey, check.params)
+});
+
+export const translatePolicyConflict = (locale: Locale, conflict: PolicyConflict): string =>
+  translate(locale, `policy.conflict.${conflict.code}` as MessageKey, conflict.params);
+
+// Duration in the largest whole unit, e.g. "3 hours", "3 heures", "3 ساعات"
+export const formatSeconds = (locale: Locale, seconds: number): string => {
+  if (!isFinite(seconds) || seconds >= 100 * DURATION_UNITS[0][1]) return translate(locale, 'duration.centuries');
+  if (seconds < 1) return translate(locale, 'duration.instant');
+
+  const [unit, size] = DURATION_UNITS.find(([, unitSize]) => seconds >= unitSize) ?? DURATION_UNITS[DURATION_UNITS.length - 1];
+  return formatNumber(locale, Math.round(seconds / size), { style: 'unit', unit, unitDisplay: 'long' });
+};
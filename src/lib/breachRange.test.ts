@@ -0,0 +1,63 @@
+import { applyBreachVerdict, checkBreachRange, parseRangeResponse, sha1Hex } from './breachRange';
+import { analyzeLocally, BREACH_NOT_CHECKED_WARNING } from './localAnalyzer';
+import { createMockRangeServer } from '../test-utils/mockRangeServer';
+import { createApiClient } from '../api/client';
+
+const BASE_URL = 'http://api.test';
+
+test('hashes with uppercase SHA-1 hex', async () => {
+  expect(await sha1Hex('password')).toBe('5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8');
+});
+
+test('parses suffix lines and ignores blanks', () => {
+  const suffixes = parseRangeResponse('ABC:12\r\n\r\ndef:0\n');
+  expect(suffixes.get('ABC')).toBe(12);
+  expect(suffixes.get('DEF')).toBe(0);
+  expect(suffixes.size).toBe(2);
+});
+
+test('reports breach counts from the range response', async () => {
+  const server = createMockRangeServer({ password: 9545824 });
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: server.fetch });
+
+  expect(await checkBreachRange('password', client)).toEqual({
+    ok: true,
+    data: { is_breached: true, breach_count: 9545824 }
+  });
+  expect(server.requests).toEqual([`${BASE_URL}/breach/range/5BAA6`]);
+});
+
+test('only sends the hash prefix, never the password', async () => {
+  const server = createMockRangeServer({});
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: server.fetch });
+
+  const verdict = await checkBreachRange('correct horse battery staple', client);
+  expect(verdict).toEqual({ ok: true, data: { is_breached: false, breach_count: 0 } });
+  expect(server.requests).toHaveLength(1);
+  expect(server.requests[0]).not.toMatch(/horse/);
+  expect(server.requests[0]).toMatch(/\/breach\/range\/[0-9A-F]{5}$/);
+});
+
+test('reports server errors as typed failures', async () => {
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: jest.fn().mockResolvedValue({ ok: false, status: 503 }) });
+  const verdict = await checkBreachRange('password', client);
+  expect(verdict).toMatchObject({ ok: false, error: { kind: 'http', status: 503 } });
+});
+
+test('merges the verdict into a local result', () => {
+  const merged = applyBreachVerdict(analyzeLocally('hunter2'), { is_breached: true, breach_count: 17 });
+  expect(merged.breach_check).toBe('range');
+  expect(merged.breach_count).toBe(17);
+  expect(merged.warnings).not.toContain(BREACH_NOT_CHECKED_WARNING);
+});
+
+test('reports a missing Web Crypto as an error instead of throwing', async () => {
+  const server = createMockRangeServer({});
+  const client = createApiClient({ baseUrl: BASE_URL, fetch: server.fetch });
+  const digest = jest.spyOn(crypto.subtle, 'digest').mockRejectedValue(new TypeError('crypto.subtle is undefined'));
+
+  const verdict = await checkBreachRange('password', client);
+  expect(verdict).toEqual({ ok: false, error: { kind: 'unsupported', message: expect.stringMatching(/crypto\.subtle/) } });
+  expect(server.requests).toHaveLength(0);
+  digest.mockRestore();
+});
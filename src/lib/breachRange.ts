@@ -0,0 +1,60 @@
+import { AnalysisResult } from '../types';
+import { ApiClient, ApiResult, RequestOptions } from '../api/client';
+import { BREACH_NOT_CHECKED_WARNING } from './localAnalyzer';
+
+// k-anonymity breach lookup in the style of the HIBP range API: only the first
+// PREFIX_LENGTH hex characters of the SHA-1 hash are sent, and the server
+// answers with every known suffix under that prefix as "SUFFIX:COUNT" lines.
+
+export const PREFIX_LENGTH = 5;
+
+export interface BreachVerdict {
+  is_breached: boolean;
+  breach_count: number;
+}
+
+export const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+};
+
+export const parseRangeResponse = (body: string): Map<string, number> => {
+  const suffixes = new Map<string, number>();
+  body.split(/\r?\n/).forEach(line => {
+    const [suffix, count] = line.trim().split(':');
+    if (suffix && count) suffixes.set(suffix.toUpperCase(), parseInt(count, 10) || 0);
+  });
+  return suffixes;
+};
+
+export const checkBreachRange = async (
+  password: string,
+  client: ApiClient,
+  options?: RequestOptions
+): Promise<ApiResult<BreachVerdict>> => {
+  let hash: string;
+  try {
+    hash = await sha1Hex(password);
+  } catch (err) {
+    // crypto.subtle only exists in secure contexts, so plain-http deployments end up here
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, error: { kind: 'unsupported', message: `Could not hash the password: ${message}` } };
+  }
+  const response = await client.breachRange(hash.slice(0, PREFIX_LENGTH), options);
+  if (!response.ok) return response;
+
+  // Padding entries carry a count of 0 and must not count as hits
+  const count = parseRangeResponse(response.data).get(hash.slice(PREFIX_LENGTH)) || 0;
+  return { ok: true, data: { is_breached: count > 0, breach_count: count } };
+};
+
+export const applyBreachVerdict = (result: AnalysisResult, verdict: BreachVerdict): AnalysisResult => ({
+  ...result,
+  ...verdict,
+  breach_check: 'range',
+  warnings: result.warnings.filter(w => w !== BREACH_NOT_CHECKED_WARNING),
+  warning_details: result.warning_details?.filter(w => w.message !== BREACH_NOT_CHECKED_WARNING)
+});
@@ -0,0 +1,40 @@
+import { clearClipboardIfHolds, maskSecret } from './clipboard';
+
+interface FakeClipboard {
+  contents: string;
+  readText: jest.Mock<Promise<string>, []>;
+  writeText: jest.Mock<Promise<void>, [string]>;
+}
+
+const fakeClipboard = (contents: string, readable = true): FakeClipboard => {
+  const clipboard: FakeClipboard = {
+    contents,
+    readText: jest.fn(async () => {
+      if (!readable) throw new DOMException('Read permission denied.', 'NotAllowedError');
+      return clipboard.contents;
+    }),
+    writeText: jest.fn(async (text: string) => { clipboard.contents = text; })
+  };
+  return clipboard;
+};
+
+test('clears the clipboard only while it still holds the secret', async () => {
+  const holding = fakeClipboard('s3cret!');
+  expect(await clearClipboardIfHolds('s3cret!', holding as unknown as Clipboard)).toBe(true);
+  expect(holding.contents).toBe('');
+
+  const replaced = fakeClipboard('meeting notes');
+  expect(await clearClipboardIfHolds('s3cret!', replaced as unknown as Clipboard)).toBe(false);
+  expect(replaced.writeText).not.toHaveBeenCalled();
+});
+
+test('clears the clipboard when it cannot be read back', async () => {
+  const unreadable = fakeClipboard('s3cret!', false);
+  expect(await clearClipboardIfHolds('s3cret!', unreadable as unknown as Clipboard)).toBe(true);
+  expect(unreadable.contents).toBe('');
+});
+
+test('masks without revealing lengths above 16', () => {
+  expect(maskSecret('abc')).toBe('•••');
+  expect(maskSecret('x'.repeat(40))).toBe('•'.repeat(16));
+});
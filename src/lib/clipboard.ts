@@ -0,0 +1,25 @@
+// Copied secrets are wiped from the clipboard after a countdown, unless the user has
+// copied something else in the meantime.
+
+export const CLIPBOARD_CLEAR_SECONDS = 30;
+
+// Overwrites the clipboard when it still holds `secret`. Browsers that will not read the
+// clipboard back (Firefox, or a denied permission) get it overwritten regardless: losing
+// an unrelated clipboard entry is cheaper than leaving a credential behind.
+export const clearClipboardIfHolds = async (
+  secret: string,
+  clipboard: Clipboard = navigator.clipboard
+): Promise<boolean> => {
+  let current: string | null = null;
+  try {
+    current = await clipboard.readText();
+  } catch {
+    // Unreadable; treated as still holding the secret
+  }
+  if (current !== null && current !== secret) return false;
+  await clipboard.writeText('');
+  return true;
+};
+
+// Shown in place of a secret until it is revealed
+export const maskSecret = (secret: string): string => '•'.repeat(Math.min(secret.length, 16));
@@ -0,0 +1,19 @@
+import { mapWithConcurrency } from './concurrency';
+
+test('keeps order and never exceeds the limit', async () => {
+  let active = 0;
+  let peak = 0;
+  const progress: number[] = [];
+
+  const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise(resolve => setTimeout(resolve, n));
+    active--;
+    return n * 10;
+  }, (done) => progress.push(done));
+
+  expect(results).toEqual([50, 10, 40, 20, 30]);
+  expect(peak).toBe(2);
+  expect(progress).toEqual([1, 2, 3, 4, 5]);
+});
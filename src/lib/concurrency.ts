@@ -0,0 +1,24 @@
+// Maps items through an async worker with at most `limit` calls in flight,
+// preserving input order in the output.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onProgress?: (done: number, total: number) => void
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let done = 0;
+
+  const lane = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+      done++;
+      onProgress?.(done, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+  return results;
+};
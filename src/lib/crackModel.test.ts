@@ -0,0 +1,44 @@
+import {
+  ATTACKER_PROFILES, compareAlgorithms, DEFAULT_HASH_SETTINGS, describeHash, estimateCrackTime, formatCrackTime, formatRate,
+  GPU_COST_USD, guessRate
+} from './crackModel';
+
+const ONE_GPU = GPU_COST_USD;
+
+test('each bcrypt cost step halves the guess rate', () => {
+  const at10 = guessRate({ ...DEFAULT_HASH_SETTINGS, bcrypt_cost: 10 }, ONE_GPU, 'bcrypt');
+  const at12 = guessRate({ ...DEFAULT_HASH_SETTINGS, bcrypt_cost: 12 }, ONE_GPU, 'bcrypt');
+  expect(at10 / at12).toBeCloseTo(4);
+});
+
+test('scales PBKDF2 and scrypt with their work factors', () => {
+  const pbkdf2 = (iterations: number) => guessRate({ ...DEFAULT_HASH_SETTINGS, pbkdf2_iterations: iterations }, ONE_GPU, 'pbkdf2_sha256');
+  expect(pbkdf2(100000) / pbkdf2(600000)).toBeCloseTo(6);
+  const scrypt = (logN: number, p: number) => guessRate({ ...DEFAULT_HASH_SETTINGS, scrypt_log_n: logN, scrypt_p: p }, ONE_GPU, 'scrypt');
+  expect(scrypt(14, 1) / scrypt(15, 2)).toBeCloseTo(4);
+});
+
+test('scales guess rates linearly with the attacker budget', () => {
+  const [hobbyist, criminal] = ATTACKER_PROFILES;
+  expect(guessRate(DEFAULT_HASH_SETTINGS, criminal.budget_usd, 'md5') / guessRate(DEFAULT_HASH_SETTINGS, hobbyist.budget_usd, 'md5'))
+    .toBeCloseTo(criminal.budget_usd / hobbyist.budget_usd);
+  expect(estimateCrackTime(40, DEFAULT_HASH_SETTINGS, 0).seconds).toBe(Infinity);
+});
+
+test('orders fast hashes before slow key derivation functions', () => {
+  const estimates = compareAlgorithms(50, DEFAULT_HASH_SETTINGS, ONE_GPU);
+  const seconds = (algorithm: string) => estimates.find(e => e.algorithm === algorithm)!.seconds;
+  expect(seconds('ntlm')).toBeLessThan(seconds('md5'));
+  expect(seconds('md5')).toBeLessThan(seconds('sha256'));
+  expect(seconds('sha256')).toBeLessThan(seconds('bcrypt'));
+  expect(estimates.find(e => e.algorithm === 'bcrypt')!.label).toBe('bcrypt (cost 12)');
+});
+
+test('formats long durations and guess rates', () => {
+  expect(formatCrackTime(7200)).toBe('2 hours');
+  expect(formatCrackTime(1000 * 365 * 24 * 3600)).toBe('1,000 years');
+  expect(formatCrackTime(2.5e9 * 365 * 24 * 3600)).toBe('2.5e9 years');
+  expect(formatRate(164e9)).toBe('164.0 GH/s');
+  expect(formatRate(5.75)).toBe('5.75 H/s');
+  expect(describeHash({ ...DEFAULT_HASH_SETTINGS, algorithm: 'scrypt' })).toBe('scrypt (N=2^15, r=8, p=1)');
+});
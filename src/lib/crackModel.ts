@@ -0,0 +1,131 @@
+import { formatDuration } from './crackTime';
+
+// Offline cracking model for the crack-time calculator. Guess rates start from
+// single-GPU hashcat benchmarks (RTX 4090 class) at each algorithm's benchmark
+// parameters and scale with the configured work factor.
+
+export type HashAlgorithm = 'md5' | 'ntlm' | 'sha256' | 'pbkdf2_sha256' | 'bcrypt' | 'scrypt';
+
+export interface HashSettings {
+  algorithm: HashAlgorithm;
+  bcrypt_cost: number;
+  pbkdf2_iterations: number;
+  scrypt_log_n: number;
+  scrypt_r: number;
+  scrypt_p: number;
+}
+
+export interface AttackerProfile {
+  id: string;
+  label: string;
+  budget_usd: number;
+}
+
+export interface CrackEstimate {
+  algorithm: HashAlgorithm;
+  label: string;
+  guesses_per_second: number;
+  seconds: number;
+  display: string;
+}
+
+export const DEFAULT_HASH_SETTINGS: HashSettings = {
+  algorithm: 'bcrypt',
+  bcrypt_cost: 12,
+  pbkdf2_iterations: 600000,
+  scrypt_log_n: 15,
+  scrypt_r: 8,
+  scrypt_p: 1
+};
+
+// Purchase price of one benchmark GPU, used to turn a budget into a rig size
+export const GPU_COST_USD = 2000;
+
+export const BCRYPT_COST_RANGE = { min: 4, max: 20 };
+export const SCRYPT_LOG_N_RANGE = { min: 10, max: 22 };
+
+export const ATTACKER_PROFILES: AttackerProfile[] = [
+  { id: 'hobbyist', label: 'Hobbyist (1 GPU)', budget_usd: 2000 },
+  { id: 'criminal', label: 'Criminal group ($50k)', budget_usd: 50000 },
+  { id: 'organization', label: 'Large organization ($1M)', budget_usd: 1000000 },
+  { id: 'nation_state', label: 'Nation state ($100M)', budget_usd: 100000000 }
+];
+
+const BENCHMARKS: Record<HashAlgorithm, { label: string; rate: (settings: HashSettings) => number }> = {
+  md5: { label: 'MD5', rate: () => 164e9 },
+  ntlm: { label: 'NTLM', rate: () => 288e9 },
+  sha256: { label: 'SHA-256', rate: () => 22e9 },
+  // Benchmarked at 999 iterations; each iteration is one more HMAC round
+  pbkdf2_sha256: { label: 'PBKDF2-SHA256', rate: s => 8.8e6 * 999 / Math.max(s.pbkdf2_iterations, 1) },
+  // Benchmarked at cost 5; every cost step doubles the work
+  bcrypt: { label: 'bcrypt', rate: s => 184e3 * Math.pow(2, 5 - s.bcrypt_cost) },
+  // Benchmarked at N=2^14, r=8, p=1; work grows linearly in N, r and p
+  scrypt: { label: 'scrypt', rate: s => 7.1e3 * (Math.pow(2, 14) * 8) / (Math.pow(2, s.scrypt_log_n) * s.scrypt_r * s.scrypt_p) }
+};
+
+export const HASH_ALGORITHMS = Object.keys(BENCHMARKS) as HashAlgorithm[];
+
+export const algorithmLabel = (algorithm: HashAlgorithm): string => BENCHMARKS[algorithm].label;
+
+// Short description of the work factor, e.g. "bcrypt (cost 12)"
+export const describeHash = (settings: HashSettings, algorithm: HashAlgorithm = settings.algorithm): string => {
+  const label = algorithmLabel(algorithm);
+  switch (algorithm) {
+    case 'bcrypt':
+      return `${label} (cost ${settings.bcrypt_cost})`;
+    case 'pbkdf2_sha256':
+      return `${label} (${settings.pbkdf2_iterations.toLocaleString()} iterations)`;
+    case 'scrypt':
+      return `${label} (N=2^${settings.scrypt_log_n}, r=${settings.scrypt_r}, p=${settings.scrypt_p})`;
+    default:
+      return label;
+  }
+};
+
+export const gpuCount = (budgetUsd: number): number => Math.max(budgetUsd / GPU_COST_USD, 0);
+
+export const guessRate = (settings: HashSettings, budgetUsd: number, algorithm: HashAlgorithm = settings.algorithm): number =>
+  BENCHMARKS[algorithm].rate(settings) * gpuCount(budgetUsd);
+
+// Like formatDuration, but keeps counting past centuries so strong settings stay comparable
+export const formatCrackTime = (seconds: number): string => {
+  const years = seconds / (365 * 24 * 3600);
+  if (!isFinite(seconds)) return 'forever';
+  if (years < 100) return formatDuration(seconds);
+  if (years < 1e6) return `${Math.round(years).toLocaleString()} years`;
+  return `${years.toExponential(1).replace('e+', 'e')} years`;
+};
+
+// Average time to crack: half of the search space of 2^entropy guesses
+export const estimateCrackTime = (
+  entropyBits: number,
+  settings: HashSettings,
+  budgetUsd: number,
+  algorithm: HashAlgorithm = settings.algorithm
+): CrackEstimate => {
+  const rate = guessRate(settings, budgetUsd, algorithm);
+  const seconds = rate > 0 ? Math.pow(2, Math.max(entropyBits - 1, 0)) / rate : Infinity;
+  return {
+    algorithm,
+    label: describeHash(settings, algorithm),
+    guesses_per_second: rate,
+    seconds,
+    display: formatCrackTime(seconds)
+  };
+};
+
+// One estimate per algorithm, each at its configured work factor
+export const compareAlgorithms = (entropyBits: number, settings: HashSettings, budgetUsd: number): CrackEstimate[] =>
+  HASH_ALGORITHMS.map(algorithm => estimateCrackTime(entropyBits, settings, budgetUsd, algorithm));
+
+const RATE_UNITS: [string, number][] = [['T', 1e12], ['G', 1e9], ['M', 1e6], ['k', 1e3]];
+
+// `formatValue` lets the UI format the number for its locale
+export const formatRate = (
+  guessesPerSecond: number,
+  formatValue: (value: number, digits: number) => string = (value, digits) => value.toFixed(digits)
+): string => {
+  const unit = RATE_UNITS.find(([, size]) => guessesPerSecond >= size);
+  if (!unit) return `${formatValue(guessesPerSecond, guessesPerSecond < 10 ? 2 : 0)} H/s`;
+  return `${formatValue(guessesPerSecond / unit[1], 1)} ${unit[0]}H/s`;
+};
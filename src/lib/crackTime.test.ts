@@ -0,0 +1,22 @@
+import { estimateCrackTimes, formatDuration, parseDuration } from './crackTime';
+
+test('formats durations with the largest fitting unit', () => {
+  expect(formatDuration(0.2)).toBe('instant');
+  expect(formatDuration(1)).toBe('1 second');
+  expect(formatDuration(7200)).toBe('2 hours');
+  expect(formatDuration(1e12)).toBe('centuries');
+});
+
+test('parses formatted and server-style durations', () => {
+  expect(parseDuration('instant')).toBe(0);
+  expect(parseDuration(formatDuration(7200))).toBe(7200);
+  expect(parseDuration('3.5 years')).toBeCloseTo(3.5 * 365 * 24 * 3600);
+  expect(parseDuration('2 mins')).toBe(120);
+  expect(parseDuration('centuries')).toBe(Infinity);
+  expect(parseDuration('soon')).toBeNaN();
+});
+
+test('gets slower for stronger attack resistance', () => {
+  const times = estimateCrackTimes(40);
+  expect(parseDuration(times.online_throttled)).toBeGreaterThan(parseDuration(times.offline_gpu));
+});
@@ -0,0 +1,65 @@
+import { AnalysisResult, CrackTimeSeconds } from '../types';
+
+// Guesses per second for each attack scenario reported by the API
+export const GUESS_RATES: CrackTimeSeconds = {
+  online_throttled: 100 / 3600,
+  online_fast: 10,
+  offline_gpu: 1e10,
+  offline_super: 1e12
+};
+
+export const DURATION_UNITS: [Intl.NumberFormatOptions['unit'] & string, number][] = [
+  ['year', 365 * 24 * 3600],
+  ['month', 30 * 24 * 3600],
+  ['day', 24 * 3600],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1]
+];
+
+export const formatDuration = (seconds: number): string => {
+  if (!isFinite(seconds) || seconds >= 100 * DURATION_UNITS[0][1]) return 'centuries';
+  if (seconds < 1) return 'instant';
+
+  for (const [unit, size] of DURATION_UNITS) {
+    if (seconds >= size) {
+      const value = Math.round(seconds / size);
+      return `${value} ${unit}${value === 1 ? '' : 's'}`;
+    }
+  }
+  return 'instant';
+};
+
+// Inverse of formatDuration, also tolerant of the server's phrasing ("3.5 years", "2 mins");
+// returns NaN for text it cannot read
+export const parseDuration = (text: string): number => {
+  const normalized = text.trim().toLowerCase();
+  if (normalized === 'instant' || normalized.startsWith('less than')) return 0;
+  if (normalized.includes('centur')) return Infinity;
+
+  const match = normalized.match(/^([\d.,]+)\s*([a-z]+)/);
+  if (!match) return NaN;
+  const unit = DURATION_UNITS.find(([name]) => match[2].startsWith(name.slice(0, 3)));
+  return unit ? parseFloat(match[1].replace(/,/g, '')) * unit[1] : NaN;
+};
+
+// Average time to crack: half of the search space of 2^entropy guesses
+export const estimateCrackSeconds = (entropyBits: number): CrackTimeSeconds => {
+  const guesses = Math.pow(2, Math.max(entropyBits - 1, 0));
+  return {
+    online_throttled: guesses / GUESS_RATES.online_throttled,
+    online_fast: guesses / GUESS_RATES.online_fast,
+    offline_gpu: guesses / GUESS_RATES.offline_gpu,
+    offline_super: guesses / GUESS_RATES.offline_super
+  };
+};
+
+export const estimateCrackTimes = (entropyBits: number): AnalysisResult['crack_time'] => {
+  const seconds = estimateCrackSeconds(entropyBits);
+  return {
+    online_throttled: formatDuration(seconds.online_throttled),
+    online_fast: formatDuration(seconds.online_fast),
+    offline_gpu: formatDuration(seconds.offline_gpu),
+    offline_super: formatDuration(seconds.offline_super)
+  };
+};
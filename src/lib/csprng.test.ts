@@ -0,0 +1,54 @@
+import { randomInt, RandomSource, shuffle } from './csprng';
+
+// Replays the given 32-bit words in order
+const sequence = (values: number[]): RandomSource & { calls: number } => {
+  const source = Object.assign((buffer: Uint32Array) => {
+    buffer[0] = values[source.calls++];
+    return buffer;
+  }, { calls: 0 });
+  return source;
+};
+
+// Pearson's chi-square statistic against a uniform distribution
+const chiSquare = (counts: number[]): number => {
+  const expected = counts.reduce((sum, c) => sum + c, 0) / counts.length;
+  return counts.reduce((sum, c) => sum + (c - expected) ** 2 / expected, 0);
+};
+
+test('rejects draws from the incomplete top block instead of wrapping them', () => {
+  // 2^32 - 1 is the only value at or above the limit for max = 3
+  const source = sequence([2 ** 32 - 1, 5]);
+  expect(randomInt(3, source)).toBe(2);
+  expect(source.calls).toBe(2);
+});
+
+test('rejects the whole incomplete top block when max does not divide 2^32', () => {
+  // 2^32 % 7 = 4, so the last four words would make 0 to 3 more likely under plain modulo
+  const source = sequence([2 ** 32 - 4, 2 ** 32 - 1, 2 ** 32 - 5]);
+  expect(randomInt(7, source)).toBe((2 ** 32 - 5) % 7);
+  expect(source.calls).toBe(3);
+});
+
+test('refuses empty or oversized ranges', () => {
+  expect(() => randomInt(0)).toThrow(RangeError);
+  expect(() => randomInt(2 ** 32 + 1)).toThrow(RangeError);
+});
+
+test('draws integers uniformly', () => {
+  // A sanity check of the default source; modulo bias is far too small to show up in
+  // a sample this size, which is why rejection is tested with replayed words above
+  const counts = new Array(7).fill(0);
+  for (let i = 0; i < 70000; i++) counts[randomInt(7)]++;
+  // Critical value for 6 degrees of freedom at p = 1e-6 is about 35.9
+  expect(chiSquare(counts)).toBeLessThan(36);
+});
+
+test('shuffles every position uniformly', () => {
+  // counts[item][position]
+  const counts = [0, 1, 2, 3].map(() => new Array(4).fill(0));
+  for (let i = 0; i < 20000; i++) {
+    shuffle([0, 1, 2, 3]).forEach((item, position) => counts[item][position]++);
+  }
+  // Critical value for 3 degrees of freedom at p = 1e-6 is about 30.7
+  counts.forEach(row => expect(chiSquare(row)).toBeLessThan(31));
+});
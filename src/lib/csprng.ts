@@ -0,0 +1,34 @@
+// Fills the buffer with uniformly random 32-bit words; injectable so tests can
+// replay fixed sequences
+export type RandomSource = (buffer: Uint32Array) => Uint32Array;
+
+export const webCryptoSource: RandomSource = buffer => crypto.getRandomValues(buffer);
+
+const RANGE = 2 ** 32;
+
+// Uniform integer in [0, max). Plain modulo would favor small values whenever max
+// does not divide 2^32, so draws from the incomplete block at the top are rejected.
+export const randomInt = (max: number, random: RandomSource = webCryptoSource): number => {
+  if (!Number.isInteger(max) || max < 1 || max > RANGE) {
+    throw new RangeError(`randomInt needs an integer between 1 and 2^32, got ${max}`);
+  }
+  const limit = RANGE - (RANGE % max);
+  const buffer = new Uint32Array(1);
+  for (;;) {
+    const value = random(buffer)[0];
+    if (value < limit) return value % max;
+  }
+};
+
+export const pick = <T>(items: ArrayLike<T>, random: RandomSource = webCryptoSource): T =>
+  items[randomInt(items.length, random)];
+
+// Fisher-Yates shuffle into a new array
+export const shuffle = <T>(items: T[], random: RandomSource = webCryptoSource): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, random);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
@@ -0,0 +1,47 @@
+import { buildSegments, getWarnings, inferSeverity, summarizeResult } from './findings';
+import { analyzeLocally } from './localAnalyzer';
+import { PatternFinding } from '../types';
+
+const finding = (start: number, end: number, kind: PatternFinding['kind'] = 'date'): PatternFinding =>
+  ({ kind, start, end, description: `${kind} ${start}-${end}` });
+
+test('splits the password at every finding boundary', () => {
+  const word = finding(0, 6, 'dictionary');
+  const year = finding(6, 10);
+  const repeat = finding(4, 8, 'repeat');
+  expect(buildSegments(12, [word, year, repeat]).map(s => [s.start, s.end, s.findings.length])).toEqual([
+    [0, 4, 1], [4, 6, 2], [6, 8, 2], [8, 10, 1], [10, 12, 0]
+  ]);
+});
+
+test('ignores ranges outside the password', () => {
+  expect(buildSegments(4, [finding(2, 9), finding(-1, 2), finding(3, 3)])).toEqual([{ start: 0, end: 4, findings: [] }]);
+});
+
+test('grades plain warnings and puts breaches first', () => {
+  expect(inferSeverity('This password appeared in a data breach.')).toBe('critical');
+  expect(inferSeverity('Contains a keyboard pattern.')).toBe('high');
+  expect(inferSeverity('The breach database was not checked for this password.')).toBe('low');
+
+  const result = { ...analyzeLocally('qwerty123'), warning_details: undefined, is_breached: true, breach_count: 12 };
+  const warnings = getWarnings(result);
+  expect(warnings[0]).toMatchObject({ message: 'Found in 12 known data breaches.', severity: 'critical' });
+});
+
+test('uses the severities reported with the result', () => {
+  const warnings = getWarnings(analyzeLocally('password'));
+  expect(warnings.map(w => w.severity)).toEqual(['critical', 'low']);
+});
+
+test('summarizes a result for announcements', () => {
+  const result = analyzeLocally('qwerty');
+  expect(summarizeResult(result)).toMatch(/^Analysis complete: Weak, [\d.]+ bits of entropy\. \d+ warnings?\.$/);
+  expect(summarizeResult({ ...result, is_breached: true, breach_count: 1200 }))
+    .toContain('Found in 1,200 known data breaches.');
+  expect(summarizeResult(result, 'fr')).toMatch(/^Analyse terminée : Faible, [\d,]+ bits d'entropie\./);
+});
+
+test('codes the synthesized breach warning', () => {
+  const [breach] = getWarnings({ ...analyzeLocally('qwerty'), is_breached: true, breach_count: 3 });
+  expect(breach).toMatchObject({ code: 'breached', params: { count: 3 }, severity: 'critical' });
+});
@@ -0,0 +1,68 @@
+import { AnalysisResult, AnalysisWarning, PatternFinding, WarningSeverity } from '../types';
+import { DEFAULT_LOCALE, formatNumber, Locale, translate, translateFinding, translateStrength } from '../i18n';
+
+export const SEVERITY_ORDER: WarningSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// Grades a plain warning string for backends that do not send warning_details
+export const inferSeverity = (message: string): WarningSeverity => {
+  if (/not checked|unavailable|could not|skipped/i.test(message)) return 'low';
+  if (/breach|compromis|leak|most common/i.test(message)) return 'critical';
+  if (/common|dictionary|keyboard|sequence|repeat|short|reuse/i.test(message)) return 'high';
+  return 'medium';
+};
+
+// Warnings with severities, most severe first; a breach always leads the list
+export const getWarnings = (result: AnalysisResult): AnalysisWarning[] => {
+  const warnings = result.warning_details ||
+    result.warnings.map(message => ({ message, severity: inferSeverity(message) }));
+  const all = result.is_breached && !warnings.some(w => w.severity === 'critical' && /breach/i.test(w.message))
+    ? [{
+        code: 'breached',
+        params: { count: result.breach_count },
+        message: translate('en', 'guidance.breached', { count: result.breach_count }),
+        severity: 'critical' as const
+      }, ...warnings]
+    : warnings;
+  return [...all].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+};
+
+// Screen-reader announcement for a completed analysis, in the caller's language
+export const summarizeResult = (result: AnalysisResult, locale: Locale = DEFAULT_LOCALE): string => {
+  const parts = [translate(locale, 'results.summary', {
+    strength: translateStrength(locale, result.consensus),
+    bits: formatNumber(locale, result.metrics.practical_entropy, { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+  })];
+  if (result.is_breached) parts.push(translate(locale, 'results.summaryBreached', { count: result.breach_count }));
+  const warnings = getWarnings(result).length;
+  if (warnings > 0) parts.push(translate(locale, 'results.summaryWarnings', { count: warnings }));
+  return parts.join(' ');
+};
+
+// `patterns` in the reader's language: entries that come from a coded finding are reworded,
+// anything else a backend sent is kept as is
+export const describePatterns = (result: AnalysisResult, locale: Locale = DEFAULT_LOCALE): string[] =>
+  result.patterns.map(pattern => {
+    const match = result.pattern_matches?.find(m => m.code && m.description === pattern);
+    return match ? translateFinding(locale, match) : pattern;
+  });
+
+export interface Segment {
+  start: number;
+  end: number;
+  findings: PatternFinding[];
+}
+
+// Splits [0, length) at every finding boundary so overlapping findings can be
+// highlighted together; ranges outside the password are ignored
+export const buildSegments = (length: number, findings: PatternFinding[]): Segment[] => {
+  const valid = findings.filter(f => Number.isInteger(f.start) && Number.isInteger(f.end) &&
+    f.start >= 0 && f.end <= length && f.start < f.end);
+  const cuts = Array.from(new Set([0, length, ...valid.flatMap(f => [f.start, f.end])])).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const [start, end] = [cuts[i], cuts[i + 1]];
+    segments.push({ start, end, findings: valid.filter(f => f.start <= start && f.end >= end) });
+  }
+  return segments;
+};
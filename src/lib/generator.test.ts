@@ -0,0 +1,51 @@
+import { parseTemplate, symbolPool, TemplateError, templateClasses, templateEntropy, validateGenerateRequest } from './generator';
+import { GenerateRequest } from '../types';
+
+const request: GenerateRequest = {
+  length: 16,
+  count: 1,
+  include_uppercase: true,
+  include_lowercase: true,
+  include_digits: true,
+  include_symbols: true,
+  exclude_ambiguous: false
+};
+
+test('parses template tokens, literals and escapes', () => {
+  const slots = parseTemplate('Cv-9\\9', '!');
+  expect(slots).toHaveLength(5);
+  expect(slots[0]).toEqual({ pool: 'BCDFGHJKLMNPQRSTVWXYZ' });
+  expect(slots[2]).toEqual({ literal: '-' });
+  expect(slots[3]).toEqual({ pool: '0123456789' });
+  expect(slots[4]).toEqual({ literal: '9' });
+  expect(templateClasses(slots)).toEqual({ uppercase: true, lowercase: true, digits: true, symbols: true });
+});
+
+test('computes template entropy from the pool sizes', () => {
+  expect(templateEntropy(parseTemplate('9999', '!'))).toBeCloseTo(4 * Math.log2(10));
+  expect(templateEntropy(parseTemplate('##', '!?'))).toBeCloseTo(2);
+});
+
+test('rejects empty, unfinished or impossible templates', () => {
+  expect(() => parseTemplate('', '!')).toThrow(TemplateError);
+  expect(() => parseTemplate('ab\\', '!')).toThrow('unfinished escape');
+  expect(() => parseTemplate('#', '|', true)).toThrow("No characters available for '#'");
+});
+
+test('uses the custom symbol set without duplicates', () => {
+  expect(symbolPool({ custom_symbols: '!!-_' })).toBe('!-_');
+  expect(symbolPool({})).toContain('@');
+});
+
+test('validates generator requests', () => {
+  expect(validateGenerateRequest(request)).toEqual([]);
+  expect(validateGenerateRequest({
+    ...request, include_uppercase: false, include_lowercase: false, include_digits: false, include_symbols: false
+  })).toEqual([{ code: 'no_classes', message: 'Enable at least one character class.' }]);
+  expect(validateGenerateRequest({ ...request, min_digits: 10, min_symbols: 10 })).toEqual([{
+    code: 'minimums_too_long',
+    params: { minimums: 20, length: 16 },
+    message: 'Minimum counts add up to 20, more than the length of 16.'
+  }]);
+  expect(validateGenerateRequest({ ...request, template: 'ab\\' }).map(error => error.code)).toEqual(['unfinished_escape']);
+});
@@ -0,0 +1,137 @@
+import { GenerateRequest, GuidanceMessage } from '../types';
+
+// Character pools and pattern templates shared by the Generate tab's request
+// validation and entropy previews.
+
+export const MAX_LENGTH = 128;
+
+export const LOWERCASE = 'abcdefghijklmnopqrstuvwxyz';
+export const UPPERCASE = LOWERCASE.toUpperCase();
+export const DIGITS = '0123456789';
+export const DEFAULT_SYMBOLS = '!@#$%^&*()-_=+[]{};:,.<>?/~';
+export const AMBIGUOUS = 'Il1O0o|`\'"';
+
+const VOWELS = 'aeiou';
+const CONSONANTS = 'bcdfghjklmnpqrstvwxyz';
+
+export type TemplateTokenKind =
+  'upper_consonant' | 'lower_consonant' | 'upper_vowel' | 'lower_vowel' | 'upper_letter' | 'lower_letter' | 'digit' | 'symbol' | 'any';
+
+// `label` is the English name; the UI words each kind itself
+export const TEMPLATE_TOKENS: Record<string, { kind: TemplateTokenKind; label: string; pool: (symbols: string) => string }> = {
+  C: { kind: 'upper_consonant', label: 'uppercase consonant', pool: () => CONSONANTS.toUpperCase() },
+  c: { kind: 'lower_consonant', label: 'lowercase consonant', pool: () => CONSONANTS },
+  V: { kind: 'upper_vowel', label: 'uppercase vowel', pool: () => VOWELS.toUpperCase() },
+  v: { kind: 'lower_vowel', label: 'lowercase vowel', pool: () => VOWELS },
+  A: { kind: 'upper_letter', label: 'uppercase letter', pool: () => UPPERCASE },
+  a: { kind: 'lower_letter', label: 'lowercase letter', pool: () => LOWERCASE },
+  '9': { kind: 'digit', label: 'digit', pool: () => DIGITS },
+  '#': { kind: 'symbol', label: 'symbol', pool: symbols => symbols },
+  '*': { kind: 'any', label: 'any character', pool: symbols => LOWERCASE + UPPERCASE + DIGITS + symbols }
+};
+
+// One output position: either a fixed character or a pool to draw from
+export type TemplateSlot = { literal: string } | { pool: string };
+
+export type GeneratorErrorCode =
+  'unfinished_escape' | 'empty_pool' | 'empty_template' | 'template_too_long' | 'no_classes' | 'empty_symbols' | 'minimums_too_long';
+
+// Coded like guidance so the UI can word it per locale; `message` is the English text for the CLI
+export type GeneratorError = GuidanceMessage & { code: GeneratorErrorCode };
+
+export class TemplateError extends Error {
+  constructor(readonly error: GeneratorError) {
+    super(error.message);
+    this.name = 'TemplateError';
+  }
+}
+
+export const withoutAmbiguous = (pool: string, excludeAmbiguous: boolean): string =>
+  excludeAmbiguous ? pool.split('').filter(c => !AMBIGUOUS.includes(c)).join('') : pool;
+
+// Distinct characters in first-seen order
+export const uniqueChars = (text: string): string => Array.from(new Set(text.split(''))).join('');
+
+export const symbolPool = (request: Pick<GenerateRequest, 'custom_symbols'>): string =>
+  uniqueChars(request.custom_symbols || DEFAULT_SYMBOLS);
+
+// Parses a template such as "Cvcc-9999-Cvcc"; a backslash makes the next character literal
+export const parseTemplate = (template: string, symbols: string, excludeAmbiguous = false): TemplateSlot[] => {
+  const slots: TemplateSlot[] = [];
+  for (let i = 0; i < template.length; i++) {
+    const c = template[i];
+    if (c === '\\') {
+      if (i + 1 >= template.length) {
+        throw new TemplateError({ code: 'unfinished_escape', message: 'Template ends with an unfinished escape (\\).' });
+      }
+      slots.push({ literal: template[++i] });
+    } else if (TEMPLATE_TOKENS[c]) {
+      const pool = withoutAmbiguous(TEMPLATE_TOKENS[c].pool(symbols), excludeAmbiguous);
+      if (!pool) {
+        throw new TemplateError({
+          code: 'empty_pool',
+          params: { token: c, kind: TEMPLATE_TOKENS[c].kind },
+          message: `No characters available for '${c}' (${TEMPLATE_TOKENS[c].label}).`
+        });
+      }
+      slots.push({ pool });
+    } else {
+      slots.push({ literal: c });
+    }
+  }
+  if (slots.length === 0) throw new TemplateError({ code: 'empty_template', message: 'Template is empty.' });
+  if (slots.length > MAX_LENGTH) {
+    throw new TemplateError({
+      code: 'template_too_long',
+      params: { max: MAX_LENGTH },
+      message: `Template is longer than ${MAX_LENGTH} characters.`
+    });
+  }
+  return slots;
+};
+
+export const templateEntropy = (slots: TemplateSlot[]): number =>
+  slots.reduce((bits, slot) => bits + ('pool' in slot ? Math.log2(slot.pool.length) : 0), 0);
+
+// Whether each character class can appear in output built from the slots
+export const templateClasses = (slots: TemplateSlot[]) => {
+  const chars = slots.map(slot => ('pool' in slot ? slot.pool : slot.literal)).join('');
+  return {
+    uppercase: /[A-Z]/.test(chars),
+    lowercase: /[a-z]/.test(chars),
+    digits: /[0-9]/.test(chars),
+    symbols: /[^a-zA-Z0-9]/.test(chars)
+  };
+};
+
+// Client-side checks so impossible requests never reach /generate
+export const validateGenerateRequest = (request: GenerateRequest): GeneratorError[] => {
+  const errors: GeneratorError[] = [];
+
+  if (request.template) {
+    try {
+      parseTemplate(request.template, symbolPool(request), request.exclude_ambiguous);
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      errors.push(error.error);
+    }
+    return errors;
+  }
+
+  if (!request.include_uppercase && !request.include_lowercase && !request.include_digits && !request.include_symbols) {
+    errors.push({ code: 'no_classes', message: 'Enable at least one character class.' });
+  }
+  if (request.include_symbols && !withoutAmbiguous(symbolPool(request), request.exclude_ambiguous)) {
+    errors.push({ code: 'empty_symbols', message: 'The symbol set is empty.' });
+  }
+  const minimums = (request.min_uppercase || 0) + (request.min_lowercase || 0) +
+    (request.min_digits || 0) + (request.min_symbols || 0);
+  if (minimums > request.length) {
+    errors.push({
+      code: 'minimums_too_long',
+      params: { minimums, length: request.length },
+      message: `Minimum counts add up to ${minimums}, more than the length of ${request.length}.`
+    });
+  }
+  return errors;
+};
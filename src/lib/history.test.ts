@@ -0,0 +1,58 @@
+import { analysisEntry, generatedEntries, openHistory, pruneExpired, searchHistory, WrongPassphraseError } from './history';
+import { createMemoryHistoryBackend } from '../test-utils/memoryHistoryBackend';
+import { analyzeLocally } from './localAnalyzer';
+
+// Few iterations keep the tests fast; the derivation is the same
+const ITERATIONS = 1000;
+
+test('stores entries encrypted and reads them back with the passphrase', async () => {
+  const backend = createMemoryHistoryBackend();
+  const vault = await openHistory(backend, 'correct horse', ITERATIONS);
+  await vault.add(generatedEntries('password', [
+    { password: 'Xk9#mQ2$vL', metadata: { length: 10, entropy: 65, crack_time_gpu: '2 years' } }
+  ]));
+
+  expect(JSON.stringify(Array.from(backend.records.values()))).not.toMatch(/Xk9#mQ2|Generated/);
+
+  const reopened = await openHistory(backend, 'correct horse', ITERATIONS);
+  expect(await reopened.entries()).toEqual([
+    expect.objectContaining({ kind: 'password', password: 'Xk9#mQ2$vL', entropy: 65 })
+  ]);
+});
+
+test('rejects the wrong passphrase', async () => {
+  const backend = createMemoryHistoryBackend();
+  await openHistory(backend, 'correct horse', ITERATIONS);
+  await expect(openHistory(backend, 'battery staple', ITERATIONS)).rejects.toThrow(WrongPassphraseError);
+});
+
+test('keeps only the hash of analyzed passwords unless asked', async () => {
+  const result = analyzeLocally('Winter2024!');
+  const hashed = await analysisEntry('Winter2024!', result, '', false);
+  expect(hashed.password).toBeUndefined();
+  expect(hashed.password_hash).toMatch(/^[0-9a-f]{64}$/);
+  expect(hashed.label).toBe('');
+  expect(hashed.length).toBe(11);
+  expect((await analysisEntry('Winter2024!', result, 'VPN', true)).password).toBe('Winter2024!');
+});
+
+test('prunes entries past the expiry window', async () => {
+  const backend = createMemoryHistoryBackend();
+  const vault = await openHistory(backend, 'correct horse', ITERATIONS);
+  const [old] = await vault.add([{ kind: 'passphrase', label: 'old' }]);
+  backend.records.set(old.id, { ...backend.records.get(old.id)!, created_at: Date.now() - 8 * 24 * 3600 * 1000 });
+  await vault.add([{ kind: 'passphrase', label: 'new' }]);
+
+  expect(await pruneExpired(backend, 0)).toBe(0);
+  expect(await pruneExpired(backend, 7)).toBe(1);
+  expect((await vault.entries()).map(e => e.label)).toEqual(['new']);
+});
+
+test('searches labels and recognizes a previously analyzed password by hash', async () => {
+  const entry = { ...(await analysisEntry('hunter2', analyzeLocally('hunter2'), 'Old VPN', false)), id: '1', created_at: 0 };
+  const other = { id: '2', created_at: 0, kind: 'password' as const, label: 'Generated password', password: 'abc' };
+  expect(searchHistory([entry, other], 'vpn')).toEqual([entry]);
+  expect(searchHistory([entry, other], 'hunter2', entry.password_hash)).toEqual([entry]);
+  expect(searchHistory([entry, other], '')).toHaveLength(2);
+  expect(searchHistory([{ ...other, label: '' }], 'mot de passe', undefined, () => 'Mot de passe généré')).toHaveLength(1);
+});
@@ -0,0 +1,196 @@
+import { AnalysisResult, GeneratedPassword, HistoryEntry, HistoryEntryKind, HistorySettings } from '../types';
+import {
+  decryptJson, deriveKey, EncryptedBlob, encryptJson, fromBase64, PBKDF2_ITERATIONS, randomBytes, SALT_BYTES, sha256Hex, toBase64
+} from './historyCrypto';
+
+// Opt-in history of analyses and generated secrets. Entries are encrypted with a
+// key derived from the user's master passphrase; only their ids and timestamps
+// are stored in the clear so expired entries can be pruned while locked.
+
+const DAY_MS = 24 * 3600 * 1000;
+const VERIFIER = 'password-analyzer-history';
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  enabled: false,
+  expire_days: 30,
+  store_analyzed_passwords: false
+};
+
+export interface StoredRecord {
+  id: string;
+  created_at: number;
+  payload: EncryptedBlob;
+}
+
+export interface HistoryMeta {
+  salt: string;
+  iterations: number;
+  // A known value encrypted with the key, to tell a wrong passphrase from an empty history
+  verifier: EncryptedBlob;
+}
+
+export interface HistoryBackend {
+  getMeta: () => Promise<HistoryMeta | null>;
+  setMeta: (meta: HistoryMeta) => Promise<void>;
+  list: () => Promise<StoredRecord[]>;
+  put: (record: StoredRecord) => Promise<void>;
+  remove: (ids: string[]) => Promise<void>;
+  // Drops every record and the key metadata
+  clear: () => Promise<void>;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, 'id' | 'created_at'>;
+
+export interface HistoryVault {
+  entries: () => Promise<HistoryEntry[]>;
+  add: (entries: NewHistoryEntry[]) => Promise<HistoryEntry[]>;
+  remove: (ids: string[]) => Promise<void>;
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('That passphrase does not unlock this history.');
+    this.name = 'WrongPassphraseError';
+  }
+}
+
+const DB_VERSION = 1;
+const RECORDS = 'records';
+const META = 'meta';
+const META_KEY = 'key';
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const createIndexedDbBackend = (name = 'password-analyzer-history'): HistoryBackend => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    if (!db) {
+      const request = indexedDB.open(name, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(RECORDS, { keyPath: 'id' });
+        request.result.createObjectStore(META);
+      };
+      db = promisify(request);
+    }
+    return db;
+  };
+
+  const withStore = async <T>(
+    store: string,
+    mode: IDBTransactionMode,
+    run: (objects: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => promisify(run((await open()).transaction(store, mode).objectStore(store)));
+
+  return {
+    getMeta: async () => (await withStore<HistoryMeta | undefined>(META, 'readonly', s => s.get(META_KEY))) || null,
+    setMeta: async meta => { await withStore(META, 'readwrite', s => s.put(meta, META_KEY)); },
+    list: () => withStore<StoredRecord[]>(RECORDS, 'readonly', s => s.getAll()),
+    put: async record => { await withStore(RECORDS, 'readwrite', s => s.put(record)); },
+    remove: async ids => { await Promise.all(ids.map(id => withStore(RECORDS, 'readwrite', s => s.delete(id)))); },
+    clear: async () => {
+      await withStore(RECORDS, 'readwrite', s => s.clear());
+      await withStore(META, 'readwrite', s => s.clear());
+    }
+  };
+};
+
+const newId = (): string => Array.from(randomBytes(16)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// Unlocks the history, creating it with this passphrase on first use
+export const openHistory = async (
+  backend: HistoryBackend,
+  passphrase: string,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<HistoryVault> => {
+  let meta = await backend.getMeta();
+  let key: CryptoKey;
+  if (meta) {
+    key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+    const verified = await decryptJson<string>(key, meta.verifier).catch(() => null);
+    if (verified !== VERIFIER) throw new WrongPassphraseError();
+  } else {
+    const salt = randomBytes(SALT_BYTES);
+    key = await deriveKey(passphrase, salt, iterations);
+    meta = { salt: toBase64(salt), iterations, verifier: await encryptJson(key, VERIFIER) };
+    await backend.setMeta(meta);
+  }
+
+  return {
+    entries: async () => {
+      const records = await backend.list();
+      const entries = await Promise.all(records.map(async record => ({
+        ...(await decryptJson<NewHistoryEntry>(key, record.payload)),
+        id: record.id,
+        created_at: record.created_at
+      })));
+      return entries.sort((a, b) => b.created_at - a.created_at);
+    },
+    add: async newEntries => {
+      const created_at = Date.now();
+      return Promise.all(newEntries.map(async entry => {
+        const id = newId();
+        await backend.put({ id, created_at, payload: await encryptJson(key, entry) });
+        return { ...entry, id, created_at };
+      }));
+    },
+    remove: ids => backend.remove(ids)
+  };
+};
+
+// Deletes entries older than the expiry window; returns how many were removed
+export const pruneExpired = async (backend: HistoryBackend, expireDays: number, now = Date.now()): Promise<number> => {
+  if (expireDays <= 0) return 0;
+  const cutoff = now - expireDays * DAY_MS;
+  const expired = (await backend.list()).filter(record => record.created_at < cutoff).map(record => record.id);
+  if (expired.length > 0) await backend.remove(expired);
+  return expired.length;
+};
+
+export const analysisEntry = async (
+  password: string,
+  result: AnalysisResult,
+  label: string,
+  keepPassword: boolean
+): Promise<NewHistoryEntry> => ({
+  kind: 'analysis',
+  label: label.trim(),
+  password_hash: await sha256Hex(password),
+  ...(keepPassword && { password }),
+  consensus: result.consensus,
+  entropy: result.metrics.practical_entropy,
+  crack_time_gpu: result.crack_time.offline_gpu,
+  crack_time_gpu_seconds: result.crack_time_seconds?.offline_gpu,
+  length: result.length
+});
+
+export const generatedEntries = (kind: Exclude<HistoryEntryKind, 'analysis'>, items: GeneratedPassword[]): NewHistoryEntry[] =>
+  items.map(item => ({
+    kind,
+    label: '',
+    password: item.password,
+    entropy: item.metadata.entropy,
+    crack_time_gpu: item.metadata.crack_time_gpu,
+    crack_time_gpu_seconds: item.metadata.crack_time_gpu_seconds
+  }));
+
+// Case-insensitive match on the visible fields; queryHash also finds analyses of that exact password.
+// labelOf gives the shown label, so default labels are searched in the reader's language
+export const searchHistory = (
+  entries: HistoryEntry[],
+  query: string,
+  queryHash?: string,
+  labelOf: (entry: HistoryEntry) => string = entry => entry.label
+): HistoryEntry[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter(entry =>
+    (queryHash !== undefined && entry.password_hash === queryHash) ||
+    [labelOf(entry), entry.kind, entry.consensus, entry.password]
+      .some(field => field !== undefined && field.toLowerCase().includes(needle)));
+};
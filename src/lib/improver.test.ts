@@ -0,0 +1,36 @@
+import { proposeVariants, scoreVariants } from './improver';
+import { analyzeLocally } from './localAnalyzer';
+
+const variantsFor = (password: string) => proposeVariants(password, analyzeLocally(password).pattern_matches!);
+
+test('proposes a rewrite for each kind of weakness found', () => {
+  const variants = variantsFor('dragon1234');
+  expect(variants.map(v => v.kind)).toEqual(['break_words', 'replace_patterns', 'insert', 'extend', 'combined']);
+
+  const broken = variants.find(v => v.kind === 'break_words')!;
+  expect(broken.description).toContain("'dragon'");
+  expect(broken.password).toHaveLength('dragon1234'.length + 1);
+  expect(broken.password).toMatch(/[A-Z]/);
+  expect(broken.password.endsWith('1234')).toBe(true);
+
+  const replaced = variants.find(v => v.kind === 'replace_patterns')!;
+  expect(replaced.password.startsWith('dragon')).toBe(true);
+  expect(replaced.password).not.toContain('1234');
+});
+
+test('offers only length and insertions when nothing was detected', () => {
+  const variants = proposeVariants('vT9#qLm2', []);
+  expect(variants.map(v => v.kind)).toEqual(['insert', 'extend']);
+  expect(variants[0].password).toHaveLength(11);
+  expect(variants[1].password).toMatch(/^vT9#qLm2-[a-z-]+-[a-z-]+$/);
+  expect(proposeVariants('', [])).toEqual([]);
+});
+
+test('every variant scores stronger than the original', async () => {
+  const original = analyzeLocally('password1');
+  const scored = await scoreVariants(proposeVariants('password1', original.pattern_matches!), async p => analyzeLocally(p));
+  scored.forEach(variant => {
+    expect(variant.result.password).toBe(variant.password);
+    expect(variant.result.metrics.practical_entropy).toBeGreaterThan(original.metrics.practical_entropy);
+  });
+});
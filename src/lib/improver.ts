@@ -0,0 +1,154 @@
+import { AnalysisResult, PatternFinding, PatternKind } from '../types';
+import { pick, randomInt, RandomSource, webCryptoSource } from './csprng';
+import { DEFAULT_SYMBOLS, DIGITS, LOWERCASE, UPPERCASE } from './generator';
+import { WORDLISTS } from './passphrase';
+
+// Concrete rewrites of an analyzed password. Every change draws from the CSPRNG,
+// so a variant is only as guessable as the parts of the original it keeps.
+
+export type ImprovementKind = 'extend' | 'insert' | 'break_words' | 'replace_patterns' | 'combined';
+
+export interface ImprovementVariant {
+  kind: ImprovementKind;
+  // English rendering; the UI translates `kind` with `params`
+  description: string;
+  params?: Record<string, string | number>;
+  password: string;
+}
+
+export interface ScoredVariant extends ImprovementVariant {
+  result: AnalysisResult;
+}
+
+interface Span {
+  start: number;
+  end: number;
+  findings: PatternFinding[];
+}
+
+const WORD_KINDS: PatternKind[] = ['common', 'dictionary', 'leet'];
+const EXTENSION_WORDS = 2;
+const INSERTED_CHARACTERS = 3;
+const MIN_REPLACEMENT = 4;
+const RANDOM_POOL = LOWERCASE + UPPERCASE + DIGITS + DEFAULT_SYMBOLS;
+
+const isWord = (finding: PatternFinding): boolean => WORD_KINDS.includes(finding.kind);
+
+// Overlapping findings become one span, so each character is rewritten at most once
+const mergeSpans = (findings: PatternFinding[]): Span[] =>
+  [...findings]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Span[]>((spans, finding) => {
+      const last = spans[spans.length - 1];
+      if (last && finding.start < last.end) {
+        last.end = Math.max(last.end, finding.end);
+        last.findings.push(finding);
+      } else {
+        spans.push({ start: finding.start, end: finding.end, findings: [finding] });
+      }
+      return spans;
+    }, []);
+
+const randomChars = (length: number, random: RandomSource): string =>
+  Array.from({ length }, () => pick(RANDOM_POOL, random)).join('');
+
+// A symbol inside the word and one letter flipped to uppercase
+const breakWord = (token: string, random: RandomSource): string => {
+  const letters = Array.from(token).flatMap((c, i) => (/[a-z]/.test(c) ? [i] : []));
+  const chars = Array.from(token);
+  if (letters.length > 0) {
+    const index = pick(letters, random);
+    chars[index] = chars[index].toUpperCase();
+  }
+  const at = token.length > 1 ? randomInt(token.length - 1, random) + 1 : token.length;
+  chars.splice(at, 0, pick(DEFAULT_SYMBOLS, random));
+  return chars.join('');
+};
+
+// Applies replacements right to left so earlier offsets stay valid
+const rewriteSpans = (password: string, spans: Span[], rewrite: (span: Span) => string): string =>
+  [...spans]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, span) => text.slice(0, span.start) + rewrite(span) + text.slice(span.end), password);
+
+const replaceSpan = (span: Span, random: RandomSource): string =>
+  randomChars(Math.max(span.end - span.start, MIN_REPLACEMENT), random);
+
+const extend = (password: string, random: RandomSource): string => {
+  const words = Array.from({ length: EXTENSION_WORDS }, () => pick(WORDLISTS.eff_large.words, random));
+  return [password, ...words].join('-');
+};
+
+const insertRandom = (password: string, random: RandomSource): string => {
+  const chars = Array.from(password);
+  for (let i = 0; i < INSERTED_CHARACTERS; i++) {
+    chars.splice(randomInt(chars.length + 1, random), 0, pick(RANDOM_POOL, random));
+  }
+  return chars.join('');
+};
+
+const quote = (spans: Span[], password: string): string =>
+  spans.map(span => `'${password.slice(span.start, span.end)}'`).join(', ');
+
+// Findings come from the analysis when it reports positions; callers fall back to
+// the local analyzer for results that do not
+export const proposeVariants = (
+  password: string,
+  findings: PatternFinding[],
+  random: RandomSource = webCryptoSource
+): ImprovementVariant[] => {
+  if (!password) return [];
+  const words = mergeSpans(findings.filter(isWord));
+  const patterns = mergeSpans(findings.filter(f => !isWord(f)));
+  const variants: ImprovementVariant[] = [];
+
+  if (words.length > 0) {
+    const fragments = quote(words, password);
+    variants.push({
+      kind: 'break_words',
+      description: `Break up ${fragments} with a symbol and a capital letter`,
+      params: { fragments },
+      password: rewriteSpans(password, words, span => breakWord(password.slice(span.start, span.end), random))
+    });
+  }
+  if (patterns.length > 0) {
+    const fragments = quote(patterns, password);
+    variants.push({
+      kind: 'replace_patterns',
+      description: `Replace ${fragments} with random characters`,
+      params: { fragments },
+      password: rewriteSpans(password, patterns, span => replaceSpan(span, random))
+    });
+  }
+  variants.push({
+    kind: 'insert',
+    description: `Insert ${INSERTED_CHARACTERS} random characters at random positions`,
+    params: { count: INSERTED_CHARACTERS },
+    password: insertRandom(password, random)
+  });
+  variants.push({
+    kind: 'extend',
+    description: `Add ${EXTENSION_WORDS} random words to the end`,
+    params: { count: EXTENSION_WORDS },
+    password: extend(password, random)
+  });
+
+  if (words.length + patterns.length > 0) {
+    const rewritten = rewriteSpans(password, mergeSpans(findings), span => (span.findings.every(isWord)
+      ? breakWord(password.slice(span.start, span.end), random)
+      : replaceSpan(span, random)));
+    variants.push({
+      kind: 'combined',
+      description: 'Fix every detected pattern and add random words',
+      password: extend(rewritten, random)
+    });
+  }
+  return variants;
+};
+
+// Scores every variant with the same pipeline as the original password
+export const scoreVariants = (
+  variants: ImprovementVariant[],
+  analyze: (password: string) => Promise<AnalysisResult>
+): Promise<ScoredVariant[]> =>
+  Promise.all(variants.map(async variant => ({ ...variant, result: await analyze(variant.password) })));
@@ -0,0 +1,52 @@
+import { analyzeLocally, detectPatterns, getComposition, LOCAL_MODEL_NAME } from './localAnalyzer';
+
+test('fills the full AnalysisResult shape', () => {
+  const result = analyzeLocally('Tr0ub4dor&3');
+  expect(result.length).toBe(11);
+  expect(result.source).toBe('local');
+  expect(Object.keys(result.predictions)).toEqual([LOCAL_MODEL_NAME]);
+  expect(result.consensus).toBe(result.predictions[LOCAL_MODEL_NAME]);
+  expect(Object.keys(result.crack_time)).toEqual(['online_throttled', 'online_fast', 'offline_gpu', 'offline_super']);
+  expect(result.metrics.shannon_entropy).toBeGreaterThan(0);
+});
+
+test('counts character classes', () => {
+  expect(getComposition('aB3 !a')).toEqual({
+    lowercase: 2, uppercase: 1, digits: 1, symbols: 1, spaces: 1, unique: 5
+  });
+});
+
+test('rates common passwords as weak', () => {
+  const result = analyzeLocally('P@ssw0rd');
+  expect(result.consensus).toBe('Weak');
+  expect(result.crack_time.offline_gpu).toBe('instant');
+});
+
+test('detects keyboard walks, sequences, repeats and dates', () => {
+  const kinds = (pw: string) => detectPatterns(pw).map(m => m.kind);
+  expect(kinds('xQwertz')).toContain('keyboard');
+  expect(kinds('zz6789')).toContain('sequence');
+  expect(kinds('Kaaaa')).toContain('repeat');
+  expect(kinds('Kx1998')).toContain('date');
+});
+
+test('finds dictionary words through leetspeak', () => {
+  const result = analyzeLocally('Dr4g0n!Xk');
+  expect(result.dictionary_words).toContain('dragon');
+  expect(result.patterns.some(p => p.startsWith('Leetspeak'))).toBe(true);
+});
+
+test('rates long random passwords as strong', () => {
+  expect(analyzeLocally('vT9#qLm2@xR7!pWz4&Kc').consensus).toBe('Strong');
+});
+
+test('codes suggestions and reports crack times in seconds', () => {
+  const result = analyzeLocally('dragon');
+  expect(result.suggestion_details?.[0]).toEqual({
+    code: 'length',
+    params: { min: 12 },
+    message: 'Use at least 12 characters; length adds the most strength.'
+  });
+  expect(result.suggestions).toEqual(result.suggestion_details?.map(s => s.message));
+  expect(result.crack_time_seconds?.offline_gpu).toBeLessThan(1);
+});
@@ -0,0 +1,281 @@
+import { AnalysisResult, AnalysisWarning, GuidanceMessage, PatternFinding, PatternKind } from '../types';
+import { estimateCrackSeconds, estimateCrackTimes } from './crackTime';
+import { MessageKey, translate } from '../i18n';
+import { COMMON_PASSWORDS, DICTIONARY_WORDS } from './wordlist';
+
+// Browser-side strength engine used when the ML backend is unreachable.
+// It mirrors the shape of the /analyze response so the results panel can
+// render either source without branching.
+
+export const LOCAL_MODEL_NAME = 'Local Heuristic';
+
+export const BREACH_NOT_CHECKED_WARNING = translate('en', 'guidance.breach_not_checked');
+
+export interface PatternMatch extends PatternFinding {
+  token: string;
+}
+
+const KEYBOARD_ROWS = ['qwertyuiop', 'asdfghjkl', 'zxcvbnm', 'azertyuiop', 'qsdfghjklm', 'wxcvbn'];
+
+const LEET_MAP: Record<string, string> = {
+  '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '8': 'b',
+  '@': 'a', '$': 's', '!': 'i', '+': 't', '|': 'l'
+};
+
+const POOL_SIZES = { lowercase: 26, uppercase: 26, digits: 10, symbols: 33, spaces: 1 };
+
+// Approximate guessing cost, in bits, of a token once an attacker knows its pattern
+const PATTERN_COST: Record<PatternKind, number> = {
+  common: Math.log2(COMMON_PASSWORDS.length),
+  keyboard: Math.log2(KEYBOARD_ROWS.length * 10 * 2),
+  sequence: Math.log2(62 * 2),
+  repeat: Math.log2(95),
+  date: Math.log2(200),
+  personal: Math.log2(100),
+  leet: Math.log2(DICTIONARY_WORDS.length) + 1,
+  dictionary: Math.log2(DICTIONARY_WORDS.length)
+};
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+// A finding coded by its kind, described in English for clients that do not know the code
+const finding = (
+  kind: PatternKind,
+  token: string,
+  start: number,
+  params?: PatternFinding['params']
+): PatternMatch => ({
+  kind,
+  token,
+  start,
+  end: start + token.length,
+  description: translate('en', `finding.${kind}` as MessageKey, params),
+  code: kind,
+  ...(params && { params })
+});
+
+export const foldLeetspeak = (password: string): string =>
+  password.toLowerCase().split('').map(c => LEET_MAP[c] ?? c).join('');
+
+export const getComposition = (password: string): AnalysisResult['composition'] => {
+  const chars = password.split('');
+  return {
+    lowercase: chars.filter(c => /[a-z]/.test(c)).length,
+    uppercase: chars.filter(c => /[A-Z]/.test(c)).length,
+    digits: chars.filter(c => /[0-9]/.test(c)).length,
+    symbols: chars.filter(c => /[^a-zA-Z0-9\s]/.test(c)).length,
+    spaces: chars.filter(c => /\s/.test(c)).length,
+    unique: new Set(chars).size
+  };
+};
+
+export const shannonEntropy = (password: string): number => {
+  if (!password) return 0;
+  const counts: Record<string, number> = {};
+  for (const c of password) counts[c] = (counts[c] || 0) + 1;
+
+  const perChar = Object.values(counts).reduce((sum, count) => {
+    const p = count / password.length;
+    return sum - p * Math.log2(p);
+  }, 0);
+  return perChar * password.length;
+};
+
+const poolSize = (composition: AnalysisResult['composition']): number =>
+  (Object.keys(POOL_SIZES) as (keyof typeof POOL_SIZES)[])
+    .filter(cls => composition[cls] > 0)
+    .reduce((sum, cls) => sum + POOL_SIZES[cls], 0);
+
+const isKeyboardStep = (a: string, b: string): boolean =>
+  KEYBOARD_ROWS.some(row => {
+    const i = row.indexOf(a);
+    return i >= 0 && row[i + 1] === b;
+  });
+
+// Finds maximal runs of at least minLength where every adjacent pair satisfies step
+const findRuns = (text: string, minLength: number, step: (a: string, b: string) => boolean): [number, number][] => {
+  const runs: [number, number][] = [];
+  let start = 0;
+  for (let i = 1; i <= text.length; i++) {
+    if (i < text.length && step(text[i - 1], text[i])) continue;
+    if (i - start >= minLength) runs.push([start, i]);
+    start = i;
+  }
+  return runs;
+};
+
+const findKeyboardWalks = (password: string): PatternMatch[] => {
+  const lower = password.toLowerCase();
+  return [
+    ...findRuns(lower, 4, isKeyboardStep),
+    ...findRuns(lower, 4, (a, b) => isKeyboardStep(b, a))
+  ].map(([start, end]) => finding('keyboard', password.slice(start, end), start, { token: password.slice(start, end) }));
+};
+
+const findSequences = (password: string): PatternMatch[] => {
+  const lower = password.toLowerCase();
+  const alnum = (c: string) => /[a-z0-9]/.test(c);
+  const stepBy = (delta: number) => (a: string, b: string) =>
+    alnum(a) && alnum(b) && b.charCodeAt(0) - a.charCodeAt(0) === delta;
+
+  return [...findRuns(lower, 3, stepBy(1)), ...findRuns(lower, 3, stepBy(-1))].map(([start, end]) =>
+    finding('sequence', password.slice(start, end), start, { token: password.slice(start, end) }));
+};
+
+const findRepeats = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const repeated = /(.+?)\1{2,}|(.{2,})\2+/g;
+  let m: RegExpExecArray | null;
+  while ((m = repeated.exec(password)) !== null) {
+    matches.push(finding('repeat', m[0], m.index, { token: m[0] }));
+  }
+  return matches;
+};
+
+const findDates = (password: string): PatternMatch[] => {
+  const matches: PatternMatch[] = [];
+  const dates = /\d{1,2}[-/.]\d{1,2}[-/.](?:\d{4}|\d{2})|(?:19|20)\d{2}/g;
+  let m: RegExpExecArray | null;
+  while ((m = dates.exec(password)) !== null) {
+    matches.push(finding('date', m[0], m.index, { token: m[0] }));
+  }
+  return matches;
+};
+
+const findWords = (password: string): PatternMatch[] => {
+  const lower = password.toLowerCase();
+  const folded = foldLeetspeak(password);
+  const matches: PatternMatch[] = [];
+
+  DICTIONARY_WORDS.filter(word => word.length >= 4).forEach(word => {
+    const start = folded.indexOf(word);
+    if (start < 0) return;
+    const token = password.slice(start, start + word.length);
+    matches.push(lower.slice(start, start + word.length) !== word
+      ? finding('leet', token, start, { token, word })
+      : finding('dictionary', token, start, { word }));
+  });
+
+  // Drop words contained in a longer match ('pass' inside 'password')
+  return matches.filter(a => !matches.some(b =>
+    b !== a && b.start <= a.start && b.end >= a.end && b.end - b.start > a.end - a.start
+  ));
+};
+
+export const detectPatterns = (password: string): PatternMatch[] => {
+  if (!password) return [];
+  const folded = foldLeetspeak(password);
+  if (COMMON_PASSWORDS.includes(password.toLowerCase()) || COMMON_PASSWORDS.includes(folded)) {
+    return [finding('common', password, 0)];
+  }
+
+  return [
+    ...findWords(password),
+    ...findKeyboardWalks(password),
+    ...findSequences(password),
+    ...findRepeats(password),
+    ...findDates(password)
+  ].sort((a, b) => a.start - b.start || b.end - a.end);
+};
+
+// Brute-force bits for characters outside any pattern plus a fixed cost per
+// pattern; overlapping patterns are resolved longest-first.
+export const practicalEntropy = (password: string, matches: PatternMatch[]): number => {
+  const bitsPerChar = Math.log2(Math.max(poolSize(getComposition(password)), 1));
+  const covered = new Array(password.length).fill(false);
+  let bits = 0;
+
+  [...matches]
+    .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+    .forEach(match => {
+      const free = covered.slice(match.start, match.end).every(c => !c);
+      if (!free) return;
+      for (let i = match.start; i < match.end; i++) covered[i] = true;
+      bits += Math.min(PATTERN_COST[match.kind], (match.end - match.start) * bitsPerChar);
+    });
+
+  bits += covered.filter(c => !c).length * bitsPerChar;
+  return bits;
+};
+
+export const classifyStrength = (entropyBits: number, matches: PatternMatch[]): string => {
+  if (matches.some(m => m.kind === 'common')) return 'Weak';
+  if (entropyBits < 36) return 'Weak';
+  if (entropyBits < 60) return 'Medium';
+  return 'Strong';
+};
+
+const MIN_LENGTH = 12;
+
+export const guidance = (code: string, params?: GuidanceMessage['params']): GuidanceMessage => ({
+  code,
+  ...(params && { params }),
+  message: translate('en', `guidance.${code}` as MessageKey, params)
+});
+
+const buildSuggestions = (
+  password: string,
+  composition: AnalysisResult['composition'],
+  matches: PatternMatch[]
+): GuidanceMessage[] => {
+  const suggestions: GuidanceMessage[] = [];
+  const kinds = new Set(matches.map(m => m.kind));
+
+  if (password.length < MIN_LENGTH) suggestions.push(guidance('length', { min: MIN_LENGTH }));
+  if (!composition.uppercase) suggestions.push(guidance('add_uppercase'));
+  if (!composition.lowercase) suggestions.push(guidance('add_lowercase'));
+  if (!composition.digits) suggestions.push(guidance('add_digits'));
+  if (!composition.symbols) suggestions.push(guidance('add_symbols'));
+  if (kinds.has('common')) suggestions.push(guidance('avoid_common'));
+  if (kinds.has('dictionary') || kinds.has('leet')) suggestions.push(guidance('avoid_words'));
+  if (kinds.has('keyboard') || kinds.has('sequence')) suggestions.push(guidance('avoid_sequences'));
+  if (kinds.has('repeat')) suggestions.push(guidance('avoid_repeats'));
+  if (kinds.has('date')) suggestions.push(guidance('avoid_dates'));
+  if (suggestions.length === 0) suggestions.push(guidance('looks_good'));
+
+  return suggestions;
+};
+
+export const analyzeLocally = (password: string): AnalysisResult => {
+  const composition = getComposition(password);
+  const matches = detectPatterns(password);
+  const entropy = practicalEntropy(password, matches);
+  const strength = classifyStrength(entropy, matches);
+
+  const suggestions = buildSuggestions(password, composition, matches);
+
+  const warnings: AnalysisWarning[] = [{ ...guidance('breach_not_checked'), severity: 'low' }];
+  if (matches.some(m => m.kind === 'common')) {
+    warnings.push({ ...guidance('common_password'), severity: 'critical' });
+  }
+
+  return {
+    password,
+    length: password.length,
+    predictions: { [LOCAL_MODEL_NAME]: strength },
+    consensus: strength,
+    agreement_percentage: 100,
+    metrics: {
+      shannon_entropy: round2(shannonEntropy(password)),
+      practical_entropy: round2(entropy)
+    },
+    composition,
+    crack_time: estimateCrackTimes(entropy),
+    crack_time_seconds: estimateCrackSeconds(entropy),
+    patterns: matches
+      .filter(m => m.kind !== 'dictionary')
+      .map(m => m.description),
+    dictionary_words: Array.from(new Set(
+      matches.filter(m => m.kind === 'dictionary' || m.kind === 'leet').map(m => foldLeetspeak(m.token))
+    )),
+    suggestions: suggestions.map(suggestion => suggestion.message),
+    suggestion_details: suggestions,
+    warnings: warnings.map(w => w.message),
+    warning_details: warnings,
+    pattern_matches: matches.map(({ token, ...match }) => match),
+    is_breached: false,
+    breach_count: 0,
+    source: 'local',
+    breach_check: 'none'
+  };
+};
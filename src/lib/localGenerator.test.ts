@@ -0,0 +1,80 @@
+import { generatePassphrasesLocally, generatePasswordsLocally } from './localGenerator';
+import { PASSPHRASE_WORDS } from './wordlist';
+import { estimateCrackTimes } from './crackTime';
+import { GenerateRequest } from '../types';
+
+const request: GenerateRequest = {
+  length: 20,
+  count: 5,
+  include_uppercase: true,
+  include_lowercase: true,
+  include_digits: true,
+  include_symbols: false,
+  exclude_ambiguous: false
+};
+
+test('bundles a prefix-free passphrase list of 6^4 words', () => {
+  expect(new Set(PASSPHRASE_WORDS).size).toBe(1296);
+  expect(PASSPHRASE_WORDS.some(a => PASSPHRASE_WORDS.some(b => a !== b && b.startsWith(a)))).toBe(false);
+});
+
+test('honors length, classes and minimum counts', () => {
+  const generated = generatePasswordsLocally({ ...request, include_symbols: true, custom_symbols: '!?', min_digits: 6, min_symbols: 3 });
+  expect(generated).toHaveLength(5);
+  generated.forEach(({ password, metadata }) => {
+    expect(password).toHaveLength(20);
+    expect(password).toMatch(/^[A-Za-z0-9!?]+$/);
+    expect(password.replace(/\D/g, '').length).toBeGreaterThanOrEqual(6);
+    expect(password.replace(/[^!?]/g, '').length).toBeGreaterThanOrEqual(3);
+    expect(metadata.length).toBe(20);
+  });
+});
+
+test('drops ambiguous characters when asked', () => {
+  const [{ password }] = generatePasswordsLocally({ ...request, count: 1, length: 128, exclude_ambiguous: true });
+  expect(password).not.toMatch(/[Il1O0o]/);
+});
+
+test('fills templates and reports their entropy', () => {
+  const [{ password, metadata }] = generatePasswordsLocally({ ...request, count: 1, template: 'Cvcc-9999' });
+  expect(password).toMatch(/^[B-DF-HJ-NP-TV-Z][aeiou][b-df-hj-np-tv-z]{2}-\d{4}$/);
+  expect(metadata.entropy).toBeCloseTo(Math.log2(21 * 5 * 21 * 21) + 4 * Math.log2(10));
+});
+
+test('spreads characters uniformly over the pool', () => {
+  const counts = new Map<string, number>();
+  generatePasswordsLocally({ ...request, include_uppercase: false, include_lowercase: false, length: 100, count: 500 })
+    .forEach(({ password }) => password.split('').forEach(c => counts.set(c, (counts.get(c) || 0) + 1)));
+  const observed = Array.from(counts.values());
+  const expected = 50000 / 10;
+  const chiSquare = observed.reduce((sum, c) => sum + (c - expected) ** 2 / expected, 0);
+  expect(counts.size).toBe(10);
+  // Critical value for 9 degrees of freedom at p = 1e-6 is about 42.6
+  expect(chiSquare).toBeLessThan(43);
+});
+
+test('builds passphrases from the bundled list with local metadata', () => {
+  const phrases = generatePassphrasesLocally({ num_words: 5, separator: '.', count: 3, wordlist: 'eff_short' });
+  expect(phrases).toHaveLength(3);
+  phrases.forEach(({ password, metadata }) => {
+    const words = password.split('.');
+    expect(words).toHaveLength(5);
+    words.forEach(word => expect(PASSPHRASE_WORDS).toContain(word));
+    expect(metadata.entropy).toBeCloseTo(5 * Math.log2(1296));
+    expect(metadata.crack_time_gpu).toBe(estimateCrackTimes(metadata.entropy).offline_gpu);
+  });
+});
+
+test('applies capitalization and inserts a digit and a symbol between words', () => {
+  const words = PASSPHRASE_WORDS.slice(0, 200);
+  const [{ password }] = generatePassphrasesLocally({
+    num_words: 4, separator: ' ', count: 1, capitalization: 'first_letter', insert_digit: true, insert_symbol: true
+  }, words);
+  const tokens = password.split(' ');
+  expect(tokens).toHaveLength(6);
+  expect(tokens.filter(t => /^\d$/.test(t))).toHaveLength(1);
+  expect(tokens.filter(t => /^[A-Z][a-z]+$/.test(t))).toHaveLength(4);
+
+  const [random] = generatePassphrasesLocally({ num_words: 4, separator: '-', count: 1, capitalization: 'random_word' }, words);
+  expect(random.password.split('-').filter(t => /^[A-Z]/.test(t))).toHaveLength(1);
+});
@@ -0,0 +1,80 @@
+import { GeneratedPassword, GenerateRequest, PassphraseRequest } from '../types';
+import { estimateCrackSeconds, estimateCrackTimes } from './crackTime';
+import { pick, randomInt, RandomSource, shuffle, webCryptoSource } from './csprng';
+import {
+  DEFAULT_SYMBOLS, DIGITS, LOWERCASE, parseTemplate, symbolPool, templateEntropy, UPPERCASE, withoutAmbiguous
+} from './generator';
+import { passphraseEntropy, WORDLISTS } from './passphrase';
+
+// On-device counterparts of /generate and /generate/passphrase: secrets never leave
+// the browser and generation works without the API.
+
+const withMetadata = (password: string, entropy: number): GeneratedPassword => ({
+  password,
+  metadata: {
+    length: password.length,
+    entropy,
+    crack_time_gpu: estimateCrackTimes(entropy).offline_gpu,
+    crack_time_gpu_seconds: estimateCrackSeconds(entropy).offline_gpu
+  }
+});
+
+const generateFromTemplate = (request: GenerateRequest, template: string, random: RandomSource): GeneratedPassword => {
+  const slots = parseTemplate(template, symbolPool(request), request.exclude_ambiguous);
+  const password = slots.map(slot => ('pool' in slot ? pick(slot.pool, random) : slot.literal)).join('');
+  return withMetadata(password, templateEntropy(slots));
+};
+
+const generateFromClasses = (request: GenerateRequest, random: RandomSource): GeneratedPassword => {
+  const classes = [
+    { enabled: request.include_uppercase, chars: UPPERCASE, min: request.min_uppercase || 0 },
+    { enabled: request.include_lowercase, chars: LOWERCASE, min: request.min_lowercase || 0 },
+    { enabled: request.include_digits, chars: DIGITS, min: request.min_digits || 0 },
+    { enabled: request.include_symbols, chars: symbolPool(request), min: request.min_symbols || 0 }
+  ]
+    .filter(c => c.enabled)
+    .map(c => ({ ...c, chars: withoutAmbiguous(c.chars, request.exclude_ambiguous) }));
+
+  const pool = classes.map(c => c.chars).join('');
+  const required = classes.flatMap(c => Array.from({ length: c.min }, () => pick(c.chars, random)));
+  const free = Array.from({ length: Math.max(request.length - required.length, 0) }, () => pick(pool, random));
+
+  // Conservative: required characters only count their own class, and their positions are not credited
+  const entropy = classes.reduce((bits, c) => bits + c.min * Math.log2(c.chars.length), 0) +
+    free.length * Math.log2(pool.length);
+  return withMetadata(shuffle([...required, ...free], random).join(''), entropy);
+};
+
+// Callers validate the request first (see validateGenerateRequest)
+export const generatePasswordsLocally = (
+  request: GenerateRequest,
+  random: RandomSource = webCryptoSource
+): GeneratedPassword[] =>
+  Array.from({ length: request.count }, () => (request.template
+    ? generateFromTemplate(request, request.template, random)
+    : generateFromClasses(request, random)));
+
+const capitalize = (word: string): string => word.charAt(0).toUpperCase() + word.slice(1);
+
+const insertAtRandom = (tokens: string[], token: string, random: RandomSource): string[] => {
+  const index = randomInt(tokens.length + 1, random);
+  return [...tokens.slice(0, index), token, ...tokens.slice(index)];
+};
+
+// Uses the request's bundled wordlist unless the caller supplies its own (e.g. an uploaded list)
+export const generatePassphrasesLocally = (
+  request: PassphraseRequest,
+  words: string[] = WORDLISTS[request.wordlist || 'eff_large'].words,
+  random: RandomSource = webCryptoSource
+): GeneratedPassword[] =>
+  Array.from({ length: request.count }, () => {
+    let tokens = Array.from({ length: request.num_words }, () => pick(words, random));
+    if (request.capitalization === 'first_letter') tokens = tokens.map(capitalize);
+    if (request.capitalization === 'random_word') {
+      const index = randomInt(tokens.length, random);
+      tokens[index] = capitalize(tokens[index]);
+    }
+    if (request.insert_digit) tokens = insertAtRandom(tokens, pick(DIGITS, random), random);
+    if (request.insert_symbol) tokens = insertAtRandom(tokens, pick(DEFAULT_SYMBOLS, random), random);
+    return withMetadata(tokens.join(request.separator), passphraseEntropy(request, words.length));
+  });
@@ -0,0 +1,19 @@
+// JSON helpers over localStorage that degrade to defaults when storage is
+// unavailable (private windows, quota errors, corrupt values)
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export const storeJson = (key: string, value: unknown): void => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable: the value lasts for this session only
+  }
+};
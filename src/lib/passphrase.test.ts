@@ -0,0 +1,39 @@
+import { MIN_WORDLIST_SIZE, parseWordlist, passphraseEntropy, validateWordlist, WORDLISTS } from './passphrase';
+
+const words = (count: number): string[] => Array.from({ length: count }, (_, i) => `word${i}`);
+
+test('bundles the EFF large list', () => {
+  expect(WORDLISTS.eff_large.words).toHaveLength(7776);
+  expect(new Set(WORDLISTS.eff_large.words).size).toBe(7776);
+});
+
+test('parses plain and dice-numbered wordlists', () => {
+  expect(parseWordlist('11111\tabacus\r\n11112 Abdomen\n\n  zebra  ')).toEqual(['abacus', 'abdomen', 'zebra']);
+});
+
+test('rejects duplicate, short or too few words', () => {
+  expect(validateWordlist(words(MIN_WORDLIST_SIZE))).toEqual([]);
+  expect(validateWordlist([...words(MIN_WORDLIST_SIZE), 'word1', 'ox']).map(error => error.message)).toEqual([
+    'Duplicate words: word1.',
+    'Words shorter than 3 letters: ox.'
+  ]);
+  expect(validateWordlist(words(10))).toEqual([{
+    code: 'too_few',
+    params: { min: MIN_WORDLIST_SIZE, size: 10 },
+    message: `The list needs at least ${MIN_WORDLIST_SIZE} distinct words; it has 10.`
+  }]);
+  const short = ['a', 'b', 'c', 'd', 'e', 'f', 'g'];
+  expect(validateWordlist([...words(MIN_WORDLIST_SIZE), ...short])[0]).toMatchObject({
+    code: 'too_short',
+    params: { words: 'a, b, c, d, e', more: 2, min: 3 },
+    message: 'Words shorter than 3 letters: a, b, c, d, e and 2 more.'
+  });
+});
+
+test('credits capitalization and insertions in the entropy', () => {
+  const base = { num_words: 4, separator: '-', count: 1 };
+  expect(passphraseEntropy(base, 7776)).toBeCloseTo(4 * Math.log2(7776));
+  expect(passphraseEntropy({ ...base, capitalization: 'first_letter' }, 7776)).toBeCloseTo(4 * Math.log2(7776));
+  expect(passphraseEntropy({ ...base, capitalization: 'random_word', insert_digit: true }, 1296))
+    .toBeCloseTo(4 * Math.log2(1296) + 2 + Math.log2(10) + Math.log2(5));
+});
@@ -0,0 +1,82 @@
+import { CapitalizationStyle, GuidanceMessage, PassphraseRequest, WordlistId } from '../types';
+import { EFF_LARGE_WORDS } from './effLargeWordlist';
+import { DEFAULT_SYMBOLS, DIGITS } from './generator';
+import { PASSPHRASE_WORDS } from './wordlist';
+
+export const MIN_WORD_LENGTH = 3;
+// Fewer words than this gives under 6.6 bits per word
+export const MIN_WORDLIST_SIZE = 100;
+
+export const WORDLISTS: Record<WordlistId, { label: string; words: string[] }> = {
+  eff_large: { label: 'EFF large', words: EFF_LARGE_WORDS },
+  eff_short: { label: 'EFF-style short', words: PASSPHRASE_WORDS }
+};
+
+export const CAPITALIZATION_STYLES: Record<CapitalizationStyle, string> = {
+  none: 'None',
+  first_letter: 'First letter of each word',
+  random_word: 'One random word'
+};
+
+// One word per line; dice-roll prefixes as in the EFF files ("11111\tabacus") are dropped
+export const parseWordlist = (text: string): string[] =>
+  text.split(/\r?\n/)
+    .map(line => line.trim().replace(/^\d+\s+/, '').toLowerCase())
+    .filter(Boolean);
+
+export type WordlistErrorCode = 'duplicates' | 'too_short' | 'too_few';
+
+// Coded like guidance so the UI can word it per locale; `message` is the English text
+export type WordlistError = GuidanceMessage & { code: WordlistErrorCode };
+
+const SAMPLE_SIZE = 5;
+
+// The first few offending words, and how many more were left out
+const sample = (words: Iterable<string>): { words: string; more: number } => {
+  const list = Array.from(words);
+  return { words: list.slice(0, SAMPLE_SIZE).join(', '), more: Math.max(list.length - SAMPLE_SIZE, 0) };
+};
+
+const sampleText = ({ words, more }: { words: string; more: number }): string =>
+  words + (more > 0 ? ` and ${more} more` : '');
+
+// Duplicates or very short words would make the shown entropy overstate the real strength
+export const validateWordlist = (words: string[]): WordlistError[] => {
+  const errors: WordlistError[] = [];
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  words.forEach(word => (seen.has(word) ? duplicates.add(word) : seen.add(word)));
+
+  if (duplicates.size > 0) {
+    const params = sample(duplicates);
+    errors.push({ code: 'duplicates', params, message: `Duplicate words: ${sampleText(params)}.` });
+  }
+  const short = words.filter(word => word.length < MIN_WORD_LENGTH);
+  if (short.length > 0) {
+    const params = sample(short);
+    errors.push({
+      code: 'too_short',
+      params: { ...params, min: MIN_WORD_LENGTH },
+      message: `Words shorter than ${MIN_WORD_LENGTH} letters: ${sampleText(params)}.`
+    });
+  }
+  if (seen.size < MIN_WORDLIST_SIZE) {
+    errors.push({
+      code: 'too_few',
+      params: { min: MIN_WORDLIST_SIZE, size: seen.size },
+      message: `The list needs at least ${MIN_WORDLIST_SIZE} distinct words; it has ${seen.size}.`
+    });
+  }
+  return errors;
+};
+
+// Word choices, plus which word is capitalized and where inserted characters land
+export const passphraseEntropy = (request: PassphraseRequest, listSize: number): number => {
+  let bits = request.num_words * Math.log2(listSize);
+  if (request.capitalization === 'random_word') bits += Math.log2(request.num_words);
+
+  let slots = request.num_words + 1;
+  if (request.insert_digit) bits += Math.log2(DIGITS.length) + Math.log2(slots++);
+  if (request.insert_symbol) bits += Math.log2(DEFAULT_SYMBOLS.length) + Math.log2(slots);
+  return bits;
+};
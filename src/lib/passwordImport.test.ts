@@ -0,0 +1,36 @@
+import { parseCsvLine, parseCsvRecords, parsePasswordList, readCsvRecords } from './passwordImport';
+
+test('splits quoted CSV fields', () => {
+  expect(parseCsvLine('a,"b,c","say ""hi"""')).toEqual(['a', 'b,c', 'say "hi"']);
+});
+
+test('reads one password per line from plain text, labeled with its line in the file', () => {
+  expect(parsePasswordList('hunter2\r\n\r\nletmein\n')).toEqual([
+    { label: 'Line 1', password: 'hunter2' },
+    { label: 'Line 3', password: 'letmein' }
+  ]);
+});
+
+test('uses the password and name columns of a CSV export', () => {
+  const csv = 'folder,favorite,type,name,notes,fields,login_uri,login_username,login_password\n' +
+    ',,login,Mail,,,https://mail.test,me,"p,ss"\n' +
+    ',,login,Bank,,,https://bank.test,me,\n';
+  expect(parsePasswordList(csv)).toEqual([{ label: 'Mail', password: 'p,ss' }]);
+});
+
+test('keeps line breaks inside quoted CSV fields', () => {
+  expect(parseCsvRecords('name,notes\r\nMail,"line one\nline two"\n\nBank,\n')).toEqual([
+    ['name', 'notes'],
+    ['Mail', 'line one\nline two'],
+    ['Bank', '']
+  ]);
+  expect(readCsvRecords('name,notes\r\nMail,"line one\nline two"\n\nBank,\n').map(record => record.line)).toEqual([1, 2, 5]);
+});
+
+test('reads CSV rows whose quoted fields span lines', () => {
+  const csv = 'name,notes,password\nMail,"line one\nline two",hunter2\n,,letmein\n';
+  expect(parsePasswordList(csv)).toEqual([
+    { label: 'Mail', password: 'hunter2' },
+    { label: 'Line 4', password: 'letmein' }
+  ]);
+});
@@ -0,0 +1,118 @@
+// Parsing of uploaded password lists: either a CSV export with a "password"
+// column (password managers, spreadsheets) or one password per line.
+
+export interface ImportedEntry {
+  label: string;
+  password: string;
+}
+
+const LABEL_COLUMNS = ['name', 'title', 'url', 'login_uri', 'website', 'username', 'login_username'];
+
+// Splits one CSV record, honoring double-quoted fields and "" escapes
+export const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+export interface CsvRecord {
+  // Source line the record starts on
+  line: number;
+  fields: string[];
+}
+
+// Splits a whole CSV document into records. Unlike parseCsvLine, quoted fields may
+// span lines, as the notes column of password manager exports often does.
+export const readCsvRecords = (text: string): CsvRecord[] => {
+  const records: CsvRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = (): void => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== '') records.push({ line: start, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+        if (c === '\n' || (c === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      start = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+  return records;
+};
+
+export const parseCsvRecords = (text: string): string[][] => readCsvRecords(text).map(record => record.fields);
+
+// Unlabeled entries are named after their line in the file, blank lines included,
+// so they can be found again
+export const parsePasswordList = (text: string): ImportedEntry[] => {
+  const lines = text.split(/\r\n|\r|\n/)
+    .map((value, i) => ({ line: i + 1, value }))
+    .filter(({ value }) => value.trim() !== '');
+  if (lines.length === 0) return [];
+
+  const header = parseCsvLine(lines[0].value).map(cell => cell.trim().toLowerCase());
+  const passwordColumn = header.findIndex(cell => cell === 'password' || cell === 'login_password');
+
+  // Plain lists are taken line by line, since passwords may contain quotes and commas
+  if (passwordColumn < 0) {
+    return lines.map(({ line, value }) => ({ label: `Line ${line}`, password: value }));
+  }
+
+  const labelColumn = header.findIndex(cell => LABEL_COLUMNS.includes(cell));
+  return readCsvRecords(text).slice(1)
+    .filter(({ fields }) => fields[passwordColumn])
+    .map(({ line, fields }) => ({
+      label: (labelColumn >= 0 && fields[labelColumn]) || `Line ${line}`,
+      password: fields[passwordColumn]
+    }));
+};
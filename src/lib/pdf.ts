@@ -0,0 +1,106 @@
+// Minimal text-only PDF writer (PDF 1.4, built-in Helvetica fonts), enough for
+// printable reports without pulling in a PDF library. Text is limited to ASCII;
+// common typographic characters are mapped to plain equivalents.
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+  size?: number;
+  // Extra space above the line, in points
+  spaceBefore?: number;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const DEFAULT_SIZE = 10;
+// Average Helvetica glyph width as a fraction of the font size; used for wrapping
+const CHAR_WIDTH = 0.52;
+
+const REPLACEMENTS: Record<string, string> = {
+  '—': '-', '–': '-', '•': '*', '…': '...', '‘': "'", '’': "'",
+  '“': '"', '”': '"', '×': 'x', '·': '-', '✓': 'v', '✗': 'x'
+};
+
+const toAscii = (text: string): string =>
+  text.replace(/[^\x20-\x7e]/g, c => REPLACEMENTS[c] ?? '?');
+
+const escapePdf = (text: string): string => text.replace(/([\\()])/g, '\\$1');
+
+export const wrapText = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(' ').forEach(word => {
+    while (word.length > maxChars) {
+      if (current) lines.push(current);
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+      current = '';
+    }
+    if (!word) return;
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+};
+
+// Lays the lines out top to bottom, starting new pages as needed
+const paginate = (lines: PdfLine[]): string[] => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach(line => {
+    const size = line.size || DEFAULT_SIZE;
+    const leading = size * 1.4;
+    const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * CHAR_WIDTH));
+    y -= line.spaceBefore || 0;
+
+    wrapText(toAscii(line.text), maxChars).forEach(text => {
+      if (y - leading < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= leading;
+      pages[pages.length - 1].push(
+        `BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${escapePdf(text)}) Tj ET`
+      );
+    });
+  });
+  return pages.map(ops => ops.join('\n'));
+};
+
+export const createTextPdf = (lines: PdfLine[]): string => {
+  const contents = paginate(lines);
+  const objects: string[] = [];
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const pageIds = contents.map((_, i) => 5 + i * 2);
+
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  contents.forEach((stream, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return pdf;
+};
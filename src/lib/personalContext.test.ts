@@ -0,0 +1,54 @@
+import { analyzeLocally } from './localAnalyzer';
+import { applyPersonalContext, contextTokens, EMPTY_CONTEXT, findContextMatches, userInputs } from './personalContext';
+
+const CONTEXT = {
+  name: 'Saoud El Amrani',
+  username: 'saoud_dev',
+  email: 'saoud.amrani@acme-labs.com',
+  company: 'Acme Labs',
+  dates: '1998-04-12, 2015'
+};
+
+test('derives the tokens a targeted attacker would try', () => {
+  const values = userInputs(contextTokens(CONTEXT));
+  expect(values).toEqual(expect.arrayContaining([
+    'saoud', 'amrani', 'saoudelamrani', 'saoud_dev', 'dev', 'acme', 'acmelabs', '1998', '1204', '0412', '120498', '19980412', '2015'
+  ]));
+  expect(values).not.toContain('el');
+  expect(values).not.toContain('com');
+  expect(new Set(values).size).toBe(values.length);
+});
+
+test('ignores free-mail domains and empty fields', () => {
+  expect(userInputs(contextTokens({ ...EMPTY_CONTEXT, email: 'someone@gmail.com' }))).toEqual(['someone']);
+  expect(contextTokens(EMPTY_CONTEXT)).toEqual([]);
+});
+
+test('finds personal details, including leetspeak spellings', () => {
+  const tokens = contextTokens(CONTEXT);
+  expect(findContextMatches('S4oud1998!', tokens)).toEqual([
+    { kind: 'personal', start: 0, end: 5, description: 'Contains your name', code: 'personal.name' },
+    { kind: 'personal', start: 5, end: 9, description: 'Contains one of your dates', code: 'personal.dates' }
+  ]);
+  expect(findContextMatches('x19980412', tokens)).toHaveLength(1);
+  expect(findContextMatches('vT9#qLm2@xR7', tokens)).toEqual([]);
+});
+
+test('downgrades the verdict and adds a high-severity warning', () => {
+  const base = { ...analyzeLocally('Saoud1998!xQ#'), consensus: 'Strong' };
+  const result = applyPersonalContext(base, contextTokens(CONTEXT));
+
+  expect(result.consensus).toBe('Medium');
+  expect(result.patterns.slice(0, 2)).toEqual(['Contains your name', 'Contains one of your dates']);
+  expect(result.warning_details?.[0]).toMatchObject({ code: 'personal_info', severity: 'high' });
+  expect(result.suggestion_details?.[0]).toMatchObject({ code: 'avoid_personal' });
+  expect(applyPersonalContext(base, [])).toBe(base);
+});
+
+test('keeps the verdict of a backend that matched the user inputs itself', () => {
+  const server = {
+    ...analyzeLocally('Saoud1998!'),
+    pattern_matches: [{ kind: 'personal' as const, start: 0, end: 5, description: 'User input: saoud' }]
+  };
+  expect(applyPersonalContext(server, contextTokens(CONTEXT))).toBe(server);
+});
@@ -0,0 +1,120 @@
+// Context-aware analysis: details the user enters about themselves (name, username,
+// email, company, significant dates) are turned into tokens that a targeted attacker
+// would try first. Passwords containing one are flagged and their verdict downgraded.
+
+import { AnalysisResult, AnalysisWarning, PatternFinding } from '../types';
+import { foldLeetspeak, guidance } from './localAnalyzer';
+import { inferSeverity } from './findings';
+import { MessageKey, translate } from '../i18n';
+
+export interface PersonalContext {
+  name: string;
+  username: string;
+  email: string;
+  company: string;
+  // Comma-separated ISO dates (1998-04-12) or years
+  dates: string;
+}
+
+export type ContextField = keyof PersonalContext;
+
+export interface ContextToken {
+  field: ContextField;
+  value: string;
+}
+
+export const EMPTY_CONTEXT: PersonalContext = { name: '', username: '', email: '', company: '', dates: '' };
+
+const MIN_TOKEN_LENGTH = 3;
+
+// Free-mail domains say nothing about the user
+const MAIL_PROVIDERS = ['gmail', 'googlemail', 'yahoo', 'hotmail', 'outlook', 'live', 'icloud', 'proton', 'protonmail', 'aol', 'gmx'];
+
+const DOWNGRADE: Record<string, string> = { strong: 'Medium', medium: 'Weak' };
+
+const words = (value: string): string[] => value.toLowerCase().split(/[^\p{L}\p{N}]+/u);
+
+// Every way a date tends to appear in a password: 1998, 0412, 1204, 120498, 19980412 ...
+const dateVariants = (value: string): string[] => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!iso) return /^\d{4}$/.test(value) ? [value] : [];
+  const [year, month, day] = [iso[1], iso[2].padStart(2, '0'), iso[3].padStart(2, '0')];
+  const yy = year.slice(2);
+  return [year, month + day, day + month, day + month + yy, month + day + yy, yy + month + day,
+    day + month + year, month + day + year, year + month + day];
+};
+
+export const contextTokens = (context: PersonalContext): ContextToken[] => {
+  const [local = '', domain = ''] = context.email.toLowerCase().split('@');
+  const domainName = domain.split('.')[0];
+  const candidates: [ContextField, string[]][] = [
+    ['name', [...words(context.name), words(context.name).join('')]],
+    ['username', [context.username.toLowerCase(), ...words(context.username)]],
+    ['email', [...words(local), local, MAIL_PROVIDERS.includes(domainName) ? '' : domainName]],
+    ['company', [...words(context.company), words(context.company).join('')]],
+    ['dates', context.dates.split(/[,;\s]+/).flatMap(dateVariants)]
+  ];
+
+  const tokens: ContextToken[] = [];
+  candidates.forEach(([field, values]) => values.forEach(value => {
+    if (value.length < MIN_TOKEN_LENGTH || tokens.some(token => token.value === value)) return;
+    tokens.push({ field, value });
+  }));
+  return tokens;
+};
+
+// Values sent to /analyze as `user_inputs`
+export const userInputs = (tokens: ContextToken[]): string[] => tokens.map(token => token.value);
+
+export const findContextMatches = (password: string, tokens: ContextToken[]): PatternFinding[] => {
+  const lower = password.toLowerCase();
+  const folded = foldLeetspeak(password);
+  const matches: PatternFinding[] = [];
+
+  tokens.forEach(({ field, value }) => {
+    // Words are also looked for with leetspeak undone; digits must match as typed
+    const haystacks = /^\p{L}+$/u.test(value) ? [lower, folded] : [lower];
+    const starts = new Set<number>();
+    haystacks.forEach(haystack => {
+      for (let start = haystack.indexOf(value); start >= 0; start = haystack.indexOf(value, start + 1)) starts.add(start);
+    });
+    // Coded by field, and never quoting the matched characters
+    starts.forEach(start => matches.push({
+      kind: 'personal',
+      start,
+      end: start + value.length,
+      description: translate('en', `finding.personal.${field}` as MessageKey),
+      code: `personal.${field}`
+    }));
+  });
+
+  // Drop matches inside a longer one (the year inside a full date)
+  return matches
+    .filter(a => !matches.some(b => b !== a && b.start <= a.start && b.end >= a.end && b.end - b.start > a.end - a.start))
+    .sort((a, b) => a.start - b.start);
+};
+
+// Adds personal-information findings to a result and lowers its consensus one level.
+// A backend that already matched the user inputs reports 'personal' patterns itself;
+// its verdict is kept as is.
+export const applyPersonalContext = (result: AnalysisResult, tokens: ContextToken[]): AnalysisResult => {
+  if (result.pattern_matches?.some(match => match.kind === 'personal')) return result;
+  const matches = findContextMatches(result.password, tokens);
+  if (matches.length === 0) return result;
+
+  const warning: AnalysisWarning = { ...guidance('personal_info'), severity: 'high' };
+  const suggestion = guidance('avoid_personal');
+  const warnings = result.warning_details ||
+    result.warnings.map(message => ({ message, severity: inferSeverity(message) }));
+
+  return {
+    ...result,
+    consensus: DOWNGRADE[result.consensus.toLowerCase()] || result.consensus,
+    patterns: [...matches.map(match => match.description), ...result.patterns],
+    pattern_matches: [...matches, ...(result.pattern_matches || [])],
+    warnings: [warning.message, ...result.warnings],
+    warning_details: [warning, ...warnings],
+    suggestions: [suggestion.message, ...result.suggestions],
+    ...(result.suggestion_details && { suggestion_details: [suggestion, ...result.suggestion_details] })
+  };
+};
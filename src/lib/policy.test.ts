@@ -0,0 +1,58 @@
+import { checkPolicy, DEFAULT_POLICY, generatorConflicts, isCompliant, longestRepeat, parsePolicy, serializePolicy } from './policy';
+import { PasswordPolicy } from '../types';
+
+const policy: PasswordPolicy = {
+  ...DEFAULT_POLICY,
+  name: 'Corp',
+  require_symbols: true,
+  banned_substrings: ['acme'],
+  max_repeated_chars: 2,
+  min_entropy: 40
+};
+
+const statusOf = (password: string, rule: keyof PasswordPolicy, evidence = {}) =>
+  checkPolicy(password, policy, evidence).find(c => c.rule === rule)?.status;
+
+test('checks length and character classes', () => {
+  expect(statusOf('Short1!', 'min_length')).toBe('fail');
+  expect(statusOf('long-enough-password', 'require_uppercase')).toBe('fail');
+  expect(statusOf('Long-Enough-Pa55word', 'require_symbols')).toBe('pass');
+});
+
+test('catches banned terms through leetspeak', () => {
+  const check = checkPolicy('Welcome@4cm3-2024', policy).find(c => c.rule === 'banned_substrings');
+  expect(check).toMatchObject({ status: 'fail', detail: 'Contains acme' });
+});
+
+test('limits repeated characters', () => {
+  expect(longestRepeat('abbbc')).toBe(3);
+  expect(statusOf('Paaassword-Long1!', 'max_repeated_chars')).toBe('fail');
+});
+
+test('reports unknown when entropy or breach evidence is missing', () => {
+  expect(statusOf('Xy9#-long-password', 'min_entropy')).toBe('unknown');
+  expect(statusOf('Xy9#-long-password', 'min_entropy', { entropy: 55 })).toBe('pass');
+  expect(statusOf('Xy9#-long-password', 'must_not_be_breached', { is_breached: true })).toBe('fail');
+  expect(isCompliant(checkPolicy('Xy9#-Long-passw0rd', policy))).toBe(true);
+});
+
+test('round-trips through JSON and fills missing rules with defaults', () => {
+  expect(parsePolicy(serializePolicy(policy))).toEqual(policy);
+  expect(parsePolicy('{"name":"Min","min_length":20}')).toEqual({ ...DEFAULT_POLICY, name: 'Min', min_length: 20 });
+  expect(() => parsePolicy('{"min_length":"twelve"}')).toThrow(/min_length/);
+});
+
+test('flags generator settings that can never comply', () => {
+  expect(generatorConflicts(policy, {
+    length: 8, count: 1, include_uppercase: true, include_lowercase: true,
+    include_digits: true, include_symbols: false, exclude_ambiguous: false
+  }).map(conflict => conflict.message)).toEqual(['Length must be at least 12.', 'Symbols are required.']);
+});
+
+test('judges template requests by what the template can produce', () => {
+  expect(generatorConflicts(policy, {
+    length: 8, count: 1, include_uppercase: false, include_lowercase: false,
+    include_digits: false, include_symbols: false, exclude_ambiguous: false,
+    template: 'Cvcc-9999-Cvcc'
+  })).toEqual([]);
+});
@@ -0,0 +1,178 @@
+import { AnalysisResult, GenerateRequest, GuidanceMessage, PasswordPolicy } from '../types';
+import { array, boolean, number, object, string } from '../api/validate';
+import { foldLeetspeak, getComposition } from './localAnalyzer';
+import { parseTemplate, symbolPool, templateClasses } from './generator';
+
+export type PolicyStatus = 'pass' | 'fail' | 'unknown';
+
+// `label` and `detail` are the English rendering for the command-line tool; the UI
+// translates the rule with `params` instead
+export interface PolicyCheck {
+  rule: keyof PasswordPolicy;
+  label: string;
+  status: PolicyStatus;
+  detail?: string;
+  params?: Record<string, string | number>;
+}
+
+// A generator setting that rules out compliance; `code` is the policy rule it breaks
+export type PolicyConflict = GuidanceMessage & { code: keyof PasswordPolicy };
+
+// Values the caller already knows about the password, from an analysis or generator metadata
+export interface PolicyEvidence {
+  entropy?: number;
+  is_breached?: boolean;
+}
+
+export const DEFAULT_POLICY: PasswordPolicy = {
+  name: 'Default',
+  min_length: 12,
+  require_uppercase: true,
+  require_lowercase: true,
+  require_digits: true,
+  require_symbols: false,
+  banned_substrings: [],
+  max_repeated_chars: 3,
+  min_entropy: 50,
+  must_not_be_breached: true
+};
+
+const policySchema = object<PasswordPolicy>({
+  name: string,
+  min_length: number,
+  require_uppercase: boolean,
+  require_lowercase: boolean,
+  require_digits: boolean,
+  require_symbols: boolean,
+  banned_substrings: array(string),
+  max_repeated_chars: number,
+  min_entropy: number,
+  must_not_be_breached: boolean
+});
+
+// Accepts partial policies on import; missing rules fall back to the defaults
+export const parsePolicy = (json: string): PasswordPolicy => {
+  const raw = JSON.parse(json);
+  return policySchema({ ...DEFAULT_POLICY, ...raw });
+};
+
+export const serializePolicy = (policy: PasswordPolicy): string => JSON.stringify(policy, null, 2);
+
+export const evidenceFromResult = (result: AnalysisResult): PolicyEvidence => ({
+  entropy: result.metrics.practical_entropy,
+  is_breached: result.breach_check === 'none' ? undefined : result.is_breached
+});
+
+export const longestRepeat = (password: string): number => {
+  let longest = 0;
+  let run = 0;
+  for (let i = 0; i < password.length; i++) {
+    run = i > 0 && password[i] === password[i - 1] ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+  return longest;
+};
+
+const classCheck = (rule: keyof PasswordPolicy, label: string, present: number): PolicyCheck =>
+  ({ rule, label, status: present > 0 ? 'pass' : 'fail' });
+
+export const checkPolicy = (password: string, policy: PasswordPolicy, evidence: PolicyEvidence = {}): PolicyCheck[] => {
+  const composition = getComposition(password);
+  const checks: PolicyCheck[] = [];
+
+  if (policy.min_length > 0) {
+    checks.push({
+      rule: 'min_length',
+      label: `At least ${policy.min_length} characters`,
+      status: password.length >= policy.min_length ? 'pass' : 'fail',
+      detail: `${password.length} characters`,
+      params: { min: policy.min_length, count: password.length }
+    });
+  }
+  if (policy.require_uppercase) checks.push(classCheck('require_uppercase', 'Contains an uppercase letter', composition.uppercase));
+  if (policy.require_lowercase) checks.push(classCheck('require_lowercase', 'Contains a lowercase letter', composition.lowercase));
+  if (policy.require_digits) checks.push(classCheck('require_digits', 'Contains a digit', composition.digits));
+  if (policy.require_symbols) checks.push(classCheck('require_symbols', 'Contains a symbol', composition.symbols));
+
+  if (policy.banned_substrings.length > 0) {
+    const lower = password.toLowerCase();
+    const folded = foldLeetspeak(password);
+    const hits = policy.banned_substrings
+      .filter(term => term.trim() !== '')
+      .filter(term => lower.includes(term.toLowerCase()) || folded.includes(foldLeetspeak(term)));
+    checks.push({
+      rule: 'banned_substrings',
+      label: 'No banned terms',
+      status: hits.length === 0 ? 'pass' : 'fail',
+      detail: hits.length > 0 ? `Contains ${hits.join(', ')}` : undefined,
+      params: { terms: hits.join(', ') }
+    });
+  }
+
+  if (policy.max_repeated_chars > 0) {
+    const longest = longestRepeat(password);
+    checks.push({
+      rule: 'max_repeated_chars',
+      label: `No character repeated more than ${policy.max_repeated_chars} times in a row`,
+      status: longest <= policy.max_repeated_chars ? 'pass' : 'fail',
+      detail: longest > policy.max_repeated_chars ? `${longest} in a row` : undefined,
+      params: { max: policy.max_repeated_chars, longest }
+    });
+  }
+
+  if (policy.min_entropy > 0) {
+    checks.push({
+      rule: 'min_entropy',
+      label: `Entropy of at least ${policy.min_entropy} bits`,
+      status: evidence.entropy === undefined ? 'unknown' : evidence.entropy >= policy.min_entropy ? 'pass' : 'fail',
+      detail: evidence.entropy === undefined ? undefined : `${evidence.entropy.toFixed(1)} bits`,
+      params: evidence.entropy === undefined
+        ? { min: policy.min_entropy }
+        : { min: policy.min_entropy, bits: Math.round(evidence.entropy * 10) / 10 }
+    });
+  }
+
+  if (policy.must_not_be_breached) {
+    checks.push({
+      rule: 'must_not_be_breached',
+      label: 'Not found in known breaches',
+      status: evidence.is_breached === undefined ? 'unknown' : evidence.is_breached ? 'fail' : 'pass',
+      detail: evidence.is_breached === undefined ? 'Breach database not checked' : undefined
+    });
+  }
+
+  return checks;
+};
+
+export const isCompliant = (checks: PolicyCheck[]): boolean => checks.every(c => c.status !== 'fail');
+
+// Generator settings that can never produce a compliant password
+export const generatorConflicts = (policy: PasswordPolicy, request: GenerateRequest): PolicyConflict[] => {
+  let length = request.length;
+  let classes = {
+    uppercase: request.include_uppercase,
+    lowercase: request.include_lowercase,
+    digits: request.include_digits,
+    symbols: request.include_symbols
+  };
+  if (request.template) {
+    try {
+      const slots = parseTemplate(request.template, symbolPool(request), request.exclude_ambiguous);
+      length = slots.length;
+      classes = templateClasses(slots);
+    } catch {
+      // An invalid template is reported by the generator's own validation
+      return [];
+    }
+  }
+
+  const conflicts: PolicyConflict[] = [];
+  if (length < policy.min_length) {
+    conflicts.push({ code: 'min_length', params: { min: policy.min_length }, message: `Length must be at least ${policy.min_length}.` });
+  }
+  if (policy.require_uppercase && !classes.uppercase) conflicts.push({ code: 'require_uppercase', message: 'Uppercase letters are required.' });
+  if (policy.require_lowercase && !classes.lowercase) conflicts.push({ code: 'require_lowercase', message: 'Lowercase letters are required.' });
+  if (policy.require_digits && !classes.digits) conflicts.push({ code: 'require_digits', message: 'Digits are required.' });
+  if (policy.require_symbols && !classes.symbols) conflicts.push({ code: 'require_symbols', message: 'Symbols are required.' });
+  return conflicts;
+};
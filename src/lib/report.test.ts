@@ -0,0 +1,69 @@
+import { buildReport, REDACTED, redactText, reportLocale, reportToJson, reportToMarkdown, reportToPdf } from './report';
+import { wrapText } from './pdf';
+import { analyzeLocally } from './localAnalyzer';
+
+const PASSWORD = 'Summer2024!';
+const result = {
+  ...analyzeLocally(PASSWORD),
+  patterns: ['Dictionary word: summer', 'Year: 2024'],
+  suggestions: ['Avoid "Summer2024" style season-year combinations']
+};
+
+test('masks the password and any quoted fragment of it', () => {
+  expect(redactText('Dictionary word: summer', PASSWORD)).toBe(`Dictionary word: ${REDACTED}`);
+  expect(redactText('Year: 2024', PASSWORD)).toBe(`Year: ${REDACTED}`);
+  expect(redactText('Add more length', PASSWORD)).toBe('Add more length');
+});
+
+test('masks a password shorter than the fragment threshold but not its substrings', () => {
+  expect(redactText("Sequential characters: 'abc'", 'abc')).toBe(`Sequential characters: '${REDACTED}'`);
+  expect(redactText('Add more length', 'abc')).toBe('Add more length');
+  expect(redactText('Crack time: 1 second', 'x1')).toBe('Crack time: 1 second');
+});
+
+test('never includes the password in any format', () => {
+  const report = buildReport(result, new Date('2026-01-02T03:04:05Z'));
+  expect(report.password).toBe(REDACTED);
+  [reportToJson(report), reportToMarkdown(report), reportToPdf(report)].forEach(output => {
+    expect(output).not.toMatch(/summer|2024!/i);
+  });
+});
+
+test('masks the word behind a leetspeak substitution', () => {
+  const leet = analyzeLocally('Dr4g0n!Sky');
+  expect(leet.patterns.join('\n')).toMatch(/dragon/);
+  expect(reportToMarkdown(buildReport(leet))).not.toMatch(/dragon|dr4g0n/i);
+});
+
+test('renders the requested sections as Markdown', () => {
+  const markdown = reportToMarkdown(buildReport(result, new Date('2026-01-02T03:04:05Z')));
+  ['Summary', 'Model Predictions', 'Metrics', 'Composition', 'Time to Crack', 'Patterns', 'Warnings', 'Suggestions']
+    .forEach(title => expect(markdown).toContain(`## ${title}`));
+  expect(markdown).toContain(`| Consensus | ${result.consensus} |`);
+  expect(JSON.parse(reportToJson(buildReport(result))).crack_time).toEqual(result.crack_time);
+});
+
+test('words the report in the reader\'s language, except PDFs', () => {
+  const markdown = reportToMarkdown(buildReport(analyzeLocally('qwerty77'), new Date('2026-01-02T03:04:05Z'), 'fr'));
+  expect(markdown).toContain('# Rapport d\'analyse de mot de passe');
+  expect(markdown).toContain('## Résumé');
+  expect(markdown).toContain(`- Suite de touches du clavier : « ${REDACTED} »`);
+  expect(reportLocale('pdf', 'fr')).toBe('en');
+  expect(reportLocale('markdown', 'fr')).toBe('fr');
+});
+
+test('writes a well-formed PDF with a valid cross-reference table', () => {
+  const pdf = reportToPdf(buildReport(result));
+  expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+  expect(pdf).toMatch(/%%EOF\n$/);
+  const startxref = parseInt(pdf.match(/startxref\n(\d+)/)![1], 10);
+  expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+  const firstOffset = parseInt(pdf.match(/0000000000 65535 f \n(\d{10})/)![1], 10);
+  expect(pdf.slice(firstOffset, firstOffset + 7)).toBe('1 0 obj');
+});
+
+test('wraps long lines on word boundaries', () => {
+  expect(wrapText('aaa bbb ccc', 7)).toEqual(['aaa bbb', 'ccc']);
+  expect(wrapText('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+  expect(wrapText('abcdefgh', 4)).toEqual(['abcd', 'efgh']);
+});
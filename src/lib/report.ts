@@ -0,0 +1,188 @@
+import { AnalysisResult, CrackTimeSeconds } from '../types';
+import { createTextPdf, PdfLine } from './pdf';
+import { foldLeetspeak } from './localAnalyzer';
+import { describePatterns } from './findings';
+import {
+  DEFAULT_LOCALE, fixed, formatNumber, formatSeconds, Locale, MessageKey, MessageParams, translate, translateGuidance, translateStrength
+} from '../i18n';
+
+// Shareable analysis reports. The password never appears in a report: the
+// password field is replaced, and any fragment of it quoted by a pattern,
+// warning or suggestion is masked too, as is the word behind leetspeak ('Dr4g0n' → 'dragon').
+// Reports are worded in the reader's language, except PDFs (see reportLocale).
+
+export const REDACTED = '[redacted]';
+// Shorter shared runs are too common ("a", "12") to say anything about the password
+const MIN_FRAGMENT = 4;
+
+export type ReportFormat = 'pdf' | 'json' | 'markdown';
+
+export interface AnalysisReport {
+  locale: Locale;
+  title: string;
+  generated_at: string;
+  engine: string;
+  password: string;
+  length: number;
+  consensus: string;
+  agreement_percentage: number;
+  predictions: Record<string, string>;
+  metrics: AnalysisResult['metrics'];
+  composition: AnalysisResult['composition'];
+  crack_time: AnalysisResult['crack_time'];
+  crack_time_seconds?: CrackTimeSeconds;
+  is_breached: boolean;
+  breach_count: number;
+  patterns: string[];
+  warnings: string[];
+  suggestions: string[];
+}
+
+interface ReportSection {
+  title: string;
+  rows?: [string, string][];
+  items?: string[];
+}
+
+// Masks the password itself, whatever its length, and every run of MIN_FRAGMENT or more
+// characters that also occurs in it
+export const redactText = (text: string, password: string): string => {
+  if (!password) return text;
+  const secret = password.toLowerCase();
+  const shortest = Math.min(MIN_FRAGMENT, secret.length);
+  const lower = text.toLowerCase();
+  let output = '';
+  let i = 0;
+  while (i < text.length) {
+    let run = 0;
+    for (let length = Math.min(secret.length, text.length - i); length >= shortest; length--) {
+      if (secret.includes(lower.slice(i, i + length))) {
+        run = length;
+        break;
+      }
+    }
+    if (run > 0) {
+      output += REDACTED;
+      i += run;
+    } else {
+      output += text[i++];
+    }
+  }
+  return output;
+};
+
+// The PDF writer only encodes ASCII, so PDFs stay in English
+export const reportLocale = (format: ReportFormat, locale: Locale): Locale => (format === 'pdf' ? DEFAULT_LOCALE : locale);
+
+export const buildReport = (result: AnalysisResult, now: Date = new Date(), locale: Locale = DEFAULT_LOCALE): AnalysisReport => {
+  const folded = foldLeetspeak(result.password);
+  const redact = (items: string[]) => items.map(item => redactText(redactText(item, result.password), folded));
+  return {
+    locale,
+    title: translate(locale, 'report.title'),
+    generated_at: now.toISOString(),
+    engine: translate(locale, result.source === 'local' ? 'report.engine.local' : 'report.engine.models'),
+    password: REDACTED,
+    length: result.length,
+    consensus: result.consensus,
+    agreement_percentage: result.agreement_percentage,
+    predictions: result.predictions,
+    metrics: result.metrics,
+    composition: result.composition,
+    crack_time: result.crack_time,
+    crack_time_seconds: result.crack_time_seconds,
+    is_breached: result.is_breached,
+    breach_count: result.breach_count,
+    patterns: redact(describePatterns(result, locale)),
+    warnings: redact(result.warning_details?.map(w => translateGuidance(locale, w)) ?? result.warnings),
+    suggestions: redact(result.suggestion_details?.map(s => translateGuidance(locale, s)) ?? result.suggestions)
+  };
+};
+
+const CRACK_TIME_KEYS: (keyof AnalysisResult['crack_time'])[] = ['online_throttled', 'online_fast', 'offline_gpu', 'offline_super'];
+
+const COMPOSITION_KEYS: (keyof AnalysisResult['composition'])[] = ['lowercase', 'uppercase', 'digits', 'symbols', 'spaces', 'unique'];
+
+const sections = (report: AnalysisReport): ReportSection[] => {
+  const { locale } = report;
+  const t = (key: MessageKey, params?: MessageParams) => translate(locale, key, params);
+  const bits = (value: number) => t('results.bits', { bits: formatNumber(locale, value, fixed(2)) });
+  const crackTime = (key: keyof AnalysisResult['crack_time']) => {
+    const seconds = report.crack_time_seconds?.[key];
+    return seconds === undefined ? report.crack_time[key] : formatSeconds(locale, seconds);
+  };
+  return [
+    {
+      title: t('report.section.summary'),
+      rows: [
+        [t('report.row.password'), t('report.passwordValue', { password: report.password, count: report.length })],
+        [t('report.row.consensus'), translateStrength(locale, report.consensus)],
+        [t('report.row.agreement'), formatNumber(locale, report.agreement_percentage / 100, { style: 'percent', maximumFractionDigits: 0 })],
+        [t('report.row.engine'), report.engine],
+        [t('report.row.breached'), report.is_breached ? t('report.breachedYes', { count: report.breach_count }) : t('report.breachedNo')]
+      ]
+    },
+    {
+      title: t('results.predictions'),
+      rows: Object.entries(report.predictions).map(([model, label]) => [model, translateStrength(locale, label)])
+    },
+    {
+      title: t('results.metrics'),
+      rows: [
+        [t('report.row.shannon'), bits(report.metrics.shannon_entropy)],
+        [t('report.row.practical'), bits(report.metrics.practical_entropy)]
+      ]
+    },
+    {
+      title: t('results.composition'),
+      rows: COMPOSITION_KEYS.map(key => [t(`report.row.${key}`), formatNumber(locale, report.composition[key])])
+    },
+    { title: t('results.crackTime'), rows: CRACK_TIME_KEYS.map(key => [t(`crack.${key}`), crackTime(key)]) },
+    { title: t('report.section.patterns'), items: report.patterns },
+    { title: t('results.warnings'), items: report.warnings },
+    { title: t('report.section.suggestions'), items: report.suggestions }
+  ];
+};
+
+export const reportToJson = (report: AnalysisReport): string => JSON.stringify(report, null, 2);
+
+const escapeCell = (text: string): string => text.replace(/\|/g, '\\|');
+
+export const reportToMarkdown = (report: AnalysisReport): string => {
+  const lines = [`# ${report.title}`, '', translate(report.locale, 'report.generated', { date: report.generated_at })];
+  sections(report).forEach(section => {
+    lines.push('', `## ${section.title}`, '');
+    if (section.rows) {
+      lines.push('| | |', '|---|---|', ...section.rows.map(([label, value]) => `| ${escapeCell(label)} | ${escapeCell(value)} |`));
+    } else if (section.items && section.items.length > 0) {
+      lines.push(...section.items.map(item => `- ${item}`));
+    } else {
+      lines.push(`_${translate(report.locale, 'report.none')}_`);
+    }
+  });
+  return lines.join('\n') + '\n';
+};
+
+export const reportToPdf = (report: AnalysisReport): string => {
+  const lines: PdfLine[] = [
+    { text: report.title, bold: true, size: 18 },
+    { text: translate(report.locale, 'report.generated', { date: report.generated_at }), size: 9 }
+  ];
+  sections(report).forEach(section => {
+    lines.push({ text: section.title, bold: true, size: 13, spaceBefore: 10 });
+    if (section.rows) {
+      lines.push(...section.rows.map(([label, value]) => ({ text: `${label}: ${value}` })));
+    } else if (section.items && section.items.length > 0) {
+      lines.push(...section.items.map(item => ({ text: `- ${item}` })));
+    } else {
+      lines.push({ text: translate(report.locale, 'report.none') });
+    }
+  });
+  return createTextPdf(lines);
+};
+
+export const REPORT_FORMATS: Record<ReportFormat, { label: string; extension: string; type: string; render: (report: AnalysisReport) => string }> = {
+  pdf: { label: 'PDF', extension: 'pdf', type: 'application/pdf', render: reportToPdf },
+  json: { label: 'JSON', extension: 'json', type: 'application/json', render: reportToJson },
+  markdown: { label: 'Markdown', extension: 'md', type: 'text/markdown', render: reportToMarkdown }
+};
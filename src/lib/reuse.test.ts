@@ -0,0 +1,44 @@
+import { editDistance, extractBaseWord, findReuseClusters, normalizedDistance } from './reuse';
+import { VaultEntry } from './vaultImport';
+import { handleScanRequest } from './vaultScan';
+
+const entries = (passwords: string[]): VaultEntry[] =>
+  passwords.map((password, index) => ({ index, name: `Site ${index + 1}`, username: '', url: '', password }));
+
+test('extracts base words', () => {
+  expect(extractBaseWord('P@ssw0rd1!')).toBe('password');
+  expect(extractBaseWord('2023Summer!')).toBe('summer');
+  expect(extractBaseWord('abc123')).toBeNull();
+});
+
+test('measures edit distance relative to the longer password', () => {
+  expect(editDistance('kitten', 'sitting')).toBe(3);
+  expect(normalizedDistance('abcd', 'abcd')).toBe(0);
+  expect(normalizedDistance('abcd', 'abce')).toBe(0.25);
+});
+
+test('groups identical passwords', () => {
+  const clusters = findReuseClusters(entries(['hunter2', 'vT9#qLm2@xR7', 'hunter2', 'hunter2']));
+  expect(clusters).toHaveLength(1);
+  expect(clusters[0]).toMatchObject({ kind: 'exact', passwords: ['hunter2'], reasons: ['exact'] });
+  expect(clusters[0].entries.map(entry => entry.name)).toEqual(['Site 1', 'Site 3', 'Site 4']);
+});
+
+test('groups near-reuse and says why', () => {
+  const clusters = findReuseClusters(entries(['Summer2023!', 'summer24', 'P@ssw0rd', 'password', 'correcthorse1', 'correcthorse2', 'vT9#qLm2@xR7']));
+  const byPassword = (password: string) => clusters.find(cluster => cluster.passwords.includes(password));
+
+  expect(clusters).toHaveLength(3);
+  expect(byPassword('summer24')).toMatchObject({ kind: 'similar', reasons: ['base_word'], baseWord: 'summer' });
+  expect(byPassword('password')?.reasons).toEqual(['leetspeak']);
+  expect(byPassword('correcthorse2')?.passwords).toHaveLength(2);
+  expect(byPassword('vT9#qLm2@xR7')).toBeUndefined();
+});
+
+test('scan requests report import errors as messages', () => {
+  expect(handleScanRequest({ text: 'password\nhunter2\nhunter2\n' })).toMatchObject({
+    ok: true,
+    scan: { format: 'generic-csv', entryCount: 2, clusters: [{ kind: 'exact' }] }
+  });
+  expect(handleScanRequest({ text: '' })).toEqual({ ok: false, code: 'empty', error: 'The file is empty.' });
+});
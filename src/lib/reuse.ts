@@ -0,0 +1,117 @@
+// Detection of reused and near-reused passwords across vault entries. Passwords are
+// grouped when they are identical, fold to the same string once leetspeak and case
+// are undone, share a base word ("Summer2023!" and "summer24"), or are within a small
+// normalized edit distance of each other.
+
+import { foldLeetspeak } from './localAnalyzer';
+import { VaultEntry } from './vaultImport';
+
+export type ReuseReason = 'exact' | 'leetspeak' | 'base_word' | 'edit_distance';
+
+export interface ReuseCluster {
+  id: number;
+  kind: 'exact' | 'similar';
+  // Distinct passwords in the cluster, most used first; the first one stands for the cluster
+  passwords: string[];
+  entries: VaultEntry[];
+  reasons: ReuseReason[];
+  baseWord?: string;
+}
+
+export interface ReuseOptions {
+  // Largest edit distance, relative to the longer password, still counted as similar
+  maxDistance?: number;
+  minBaseWordLength?: number;
+}
+
+export const DEFAULT_MAX_DISTANCE = 0.25;
+export const DEFAULT_MIN_BASE_WORD_LENGTH = 4;
+
+// The word a password was built around: digits and symbols around it are dropped and
+// leetspeak inside it is undone, so "P@ssw0rd1!" gives "password"
+export const extractBaseWord = (password: string, minLength = DEFAULT_MIN_BASE_WORD_LENGTH): string | null => {
+  const core = password.replace(/^[^a-z]+/i, '').replace(/[^a-z]+$/i, '');
+  const word = foldLeetspeak(core).replace(/[^a-z]/g, '');
+  return word.length >= minLength ? word : null;
+};
+
+export const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const normalizedDistance = (a: string, b: string): number =>
+  a === b ? 0 : editDistance(a, b) / Math.max(a.length, b.length);
+
+interface Candidate {
+  password: string;
+  folded: string;
+  baseWord: string | null;
+  entries: VaultEntry[];
+}
+
+// Why two distinct passwords belong together, or null when they do not
+const similarity = (a: Candidate, b: Candidate, maxDistance: number): ReuseReason | null => {
+  if (a.folded === b.folded) return 'leetspeak';
+  if (a.baseWord && a.baseWord === b.baseWord) return 'base_word';
+  // Cheap length check first: the distance is at least the length difference
+  const longest = Math.max(a.folded.length, b.folded.length);
+  if (Math.abs(a.folded.length - b.folded.length) / longest > maxDistance) return null;
+  return normalizedDistance(a.folded, b.folded) <= maxDistance ? 'edit_distance' : null;
+};
+
+export const findReuseClusters = (entries: VaultEntry[], options: ReuseOptions = {}): ReuseCluster[] => {
+  const maxDistance = options.maxDistance ?? DEFAULT_MAX_DISTANCE;
+  const minBaseWordLength = options.minBaseWordLength ?? DEFAULT_MIN_BASE_WORD_LENGTH;
+
+  const byPassword = new Map<string, VaultEntry[]>();
+  entries.forEach(entry => byPassword.set(entry.password, [...(byPassword.get(entry.password) || []), entry]));
+  const candidates: Candidate[] = Array.from(byPassword, ([password, shared]) => ({
+    password,
+    folded: foldLeetspeak(password),
+    baseWord: extractBaseWord(password, minBaseWordLength),
+    entries: shared
+  }));
+
+  // Union-find over distinct passwords; each link records why it was made
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const reasons = new Map<number, Set<ReuseReason>>();
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const reason = similarity(candidates[i], candidates[j], maxDistance);
+      if (!reason) continue;
+      const [root, child] = [find(i), find(j)];
+      const merged = new Set([...Array.from(reasons.get(root) || []), ...Array.from(reasons.get(child) || []), reason]);
+      parent[child] = root;
+      reasons.set(root, merged);
+    }
+  }
+
+  const groups = new Map<number, Candidate[]>();
+  candidates.forEach((candidate, i) => groups.set(find(i), [...(groups.get(find(i)) || []), candidate]));
+
+  return Array.from(groups)
+    .filter(([, members]) => members.length > 1 || members[0].entries.length > 1)
+    .map(([root, members]) => {
+      const sorted = [...members].sort((a, b) => b.entries.length - a.entries.length);
+      const linked = Array.from(reasons.get(root) || []);
+      const baseWords = Array.from(new Set(members.map(member => member.baseWord)));
+      return {
+        kind: members.length === 1 ? 'exact' as const : 'similar' as const,
+        passwords: sorted.map(member => member.password),
+        entries: sorted.flatMap(member => member.entries).sort((a, b) => a.index - b.index),
+        reasons: sorted.some(member => member.entries.length > 1) ? ['exact' as const, ...linked] : linked,
+        baseWord: baseWords.length === 1 && baseWords[0] ? baseWords[0] : undefined
+      };
+    })
+    .sort((a, b) => b.entries.length - a.entries.length)
+    .map((cluster, id) => ({ id, ...cluster }));
+};
@@ -0,0 +1,7 @@
+// Consensus labels in ascending order; shared by the UI and the command-line tool
+
+export const STRENGTH_LEVELS = ['Weak', 'Medium', 'Strong'];
+
+// Ordinal rank for sorting and comparisons; unknown labels rank lowest
+export const getStrengthRank = (strength: string): number =>
+  STRENGTH_LEVELS.findIndex(level => level.toLowerCase() === strength?.toLowerCase());
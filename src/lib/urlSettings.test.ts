@@ -0,0 +1,40 @@
+import { decodeSettings, encodeSettings, SettingsSchema } from './urlSettings';
+
+interface Settings extends Record<string, string | number | boolean> {
+  length: number;
+  symbols: boolean;
+  mode: string;
+}
+
+const SCHEMA: SettingsSchema<Settings> = {
+  length: { param: 'length', default: 16, min: 8, max: 64 },
+  symbols: { param: 'symbols', default: true },
+  mode: { param: 'mode', default: 'charset', options: ['charset', 'template'] }
+};
+
+test('decodes values from the query string', () => {
+  const params = new URLSearchParams('length=20&symbols=0&mode=template');
+  expect(decodeSettings(SCHEMA, params)).toEqual({ length: 20, symbols: false, mode: 'template' });
+});
+
+test('prefers the URL over stored values and stored values over defaults', () => {
+  const params = new URLSearchParams('length=24');
+  expect(decodeSettings(SCHEMA, params, { length: '12', symbols: '0' })).toEqual({
+    length: 24,
+    symbols: false,
+    mode: 'charset'
+  });
+});
+
+test('ignores values that fail validation', () => {
+  const params = new URLSearchParams('length=4&symbols=yes&mode=emoji');
+  expect(decodeSettings(SCHEMA, params, { length: '12.5' })).toEqual({ length: 16, symbols: true, mode: 'charset' });
+  expect(decodeSettings(SCHEMA, new URLSearchParams('length=100'))).toMatchObject({ length: 16 });
+});
+
+test('encodes settings so they decode to the same values', () => {
+  const settings: Settings = { length: 32, symbols: false, mode: 'template' };
+  const encoded = encodeSettings(SCHEMA, settings);
+  expect(encoded).toEqual({ length: '32', symbols: '0', mode: 'template' });
+  expect(decodeSettings(SCHEMA, new URLSearchParams(encoded))).toEqual(settings);
+});
@@ -0,0 +1,59 @@
+// Settings that round-trip through a URL query string, so a configuration can be
+// bookmarked or shared as a link. Every value is validated against its spec;
+// anything missing or out of range falls back to the stored value, then the default.
+
+export type SettingValue = string | number | boolean;
+
+export interface SettingSpec<V extends SettingValue = SettingValue> {
+  param: string;
+  default: V;
+  min?: number;
+  max?: number;
+  options?: readonly string[];
+}
+
+export type SettingsSchema<T extends Record<string, SettingValue>> = { [K in keyof T]: SettingSpec<T[K]> };
+
+// Query parameters as written to the URL and to localStorage
+export type EncodedSettings = Record<string, string>;
+
+const parseValue = (raw: string | null | undefined, spec: SettingSpec): SettingValue | undefined => {
+  if (raw === null || raw === undefined) return undefined;
+
+  switch (typeof spec.default) {
+    case 'boolean':
+      return raw === '1' ? true : raw === '0' ? false : undefined;
+    case 'number': {
+      if (!/^-?\d+$/.test(raw)) return undefined;
+      const value = parseInt(raw, 10);
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) return undefined;
+      return value;
+    }
+    default:
+      return spec.options && !spec.options.includes(raw) ? undefined : raw;
+  }
+};
+
+const encodeValue = (value: SettingValue): string =>
+  typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+
+export const decodeSettings = <T extends Record<string, SettingValue>>(
+  schema: SettingsSchema<T>,
+  params: URLSearchParams,
+  stored: EncodedSettings = {}
+): T => {
+  const settings = {} as T;
+  (Object.keys(schema) as (keyof T)[]).forEach(key => {
+    const spec = schema[key] as SettingSpec;
+    settings[key] = (parseValue(params.get(spec.param), spec) ??
+      parseValue(stored[spec.param], spec) ??
+      spec.default) as T[keyof T];
+  });
+  return settings;
+};
+
+export const encodeSettings = <T extends Record<string, SettingValue>>(
+  schema: SettingsSchema<T>,
+  settings: T
+): EncodedSettings =>
+  Object.fromEntries((Object.keys(schema) as (keyof T)[]).map(key => [schema[key].param, encodeValue(settings[key])]));
@@ -0,0 +1,61 @@
+import { parseVault, VaultImportError } from './vaultImport';
+
+test('reads a Bitwarden JSON export', () => {
+  const json = JSON.stringify({
+    encrypted: false,
+    items: [
+      { type: 1, name: 'Mail', login: { username: 'me', password: 'hunter2', uris: [{ uri: 'https://mail.test' }] } },
+      { type: 2, name: 'Secure note' }
+    ]
+  });
+  expect(parseVault(json)).toEqual({
+    format: 'bitwarden-json',
+    entries: [{ index: 0, name: 'Mail', username: 'me', url: 'https://mail.test', password: 'hunter2' }]
+  });
+});
+
+test('rejects encrypted Bitwarden exports', () => {
+  expect(() => parseVault('{"encrypted":true,"data":"2.abc"}')).toThrow(VaultImportError);
+});
+
+test('reads a Bitwarden CSV export with multi-line notes', () => {
+  const csv = 'folder,favorite,type,name,notes,fields,login_uri,login_username,login_password\n' +
+    ',,login,Mail,"first\nsecond",,https://mail.test,me,hunter2\n';
+  expect(parseVault(csv).entries).toEqual([
+    { index: 0, name: 'Mail', username: 'me', url: 'https://mail.test', password: 'hunter2' }
+  ]);
+});
+
+test('recognizes 1Password and KeePass CSV layouts', () => {
+  const onePassword = '"Title","Url","Username","Password","OTPAuth","Favorite","Archived","Tags","Notes"\n' +
+    '"Bank","https://bank.test","me","s3cret","","false","false","",""\n';
+  expect(parseVault(onePassword)).toMatchObject({ format: '1password-csv', entries: [{ name: 'Bank', password: 's3cret' }] });
+
+  const keepassXc = '"Group","Title","Username","Password","URL","Notes"\n"Root","Shop","me","pa55","https://shop.test",""\n';
+  expect(parseVault(keepassXc)).toMatchObject({ format: 'keepass-csv', entries: [{ name: 'Shop', url: 'https://shop.test' }] });
+
+  const keepass2 = '"Account","Login Name","Password","Web Site","Comments"\n"Forum","me","letmein","https://forum.test",""\n';
+  expect(parseVault(keepass2)).toMatchObject({ format: 'keepass-csv', entries: [{ name: 'Forum', username: 'me' }] });
+});
+
+test('reads the login records of a 1PIF file', () => {
+  const separator = '***5642bee8-a5ff-11dc-8314-0800200c9a66***';
+  const login = {
+    title: 'Mail',
+    location: 'https://mail.test',
+    secureContents: { fields: [{ designation: 'username', value: 'me' }, { designation: 'password', value: 'hunter2' }] }
+  };
+  const note = { title: 'Note', secureContents: { notesPlain: 'hello' } };
+  const pif = `${JSON.stringify(login)}\n${separator}\n${JSON.stringify(note)}\n${separator}\n`;
+  expect(parseVault(pif)).toEqual({
+    format: '1password-1pif',
+    entries: [{ index: 0, name: 'Mail', username: 'me', url: 'https://mail.test', password: 'hunter2' }]
+  });
+});
+
+test('explains files it cannot read', () => {
+  expect(() => parseVault('')).toThrow('The file is empty.');
+  expect(() => parseVault('name,notes\nMail,hello\n')).toThrow(/No password column/);
+  expect(() => parseVault('{"vaults": []}')).toThrow(/Unrecognized JSON export/);
+  expect(() => parseVault('{"items": ')).toThrow(expect.objectContaining({ code: 'invalid_json' }));
+});
@@ -0,0 +1,158 @@
+// Parsing of password manager exports: Bitwarden (JSON and CSV), 1Password (CSV and
+// 1PIF) and KeePass / KeePassXC (CSV). Any other CSV with a password column is read
+// as a generic export. Everything here runs in the browser; nothing is uploaded.
+
+import { parseCsvRecords } from './passwordImport';
+
+export type VaultFormat = 'bitwarden-json' | 'bitwarden-csv' | '1password-csv' | '1password-1pif' | 'keepass-csv' | 'generic-csv';
+
+export const VAULT_FORMAT_LABELS: Record<VaultFormat, string> = {
+  'bitwarden-json': 'Bitwarden JSON',
+  'bitwarden-csv': 'Bitwarden CSV',
+  '1password-csv': '1Password CSV',
+  '1password-1pif': '1Password 1PIF',
+  'keepass-csv': 'KeePass CSV',
+  'generic-csv': 'CSV'
+};
+
+export interface VaultEntry {
+  // Position in the export, so entries with the same name stay distinguishable
+  index: number;
+  name: string;
+  username: string;
+  url: string;
+  password: string;
+}
+
+export interface ParsedVault {
+  format: VaultFormat;
+  entries: VaultEntry[];
+}
+
+// Why an export could not be read; the UI words each code itself
+export type VaultImportErrorCode =
+  'empty' | 'encrypted' | 'invalid_pif' | 'invalid_json' | 'unsupported_json' | 'no_password_column' | 'unreadable';
+
+export class VaultImportError extends Error {
+  constructor(readonly code: VaultImportErrorCode, message: string) {
+    super(message);
+    this.name = 'VaultImportError';
+  }
+}
+
+// Separator line between the JSON records of a 1PIF file
+const PIF_SEPARATOR = /^\*\*\*[0-9a-f-]+\*\*\*$/m;
+
+type RawEntry = Omit<VaultEntry, 'index'>;
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const finish = (format: VaultFormat, raw: RawEntry[]): ParsedVault => ({
+  format,
+  entries: raw
+    .filter(entry => entry.password !== '')
+    .map((entry, index) => ({ ...entry, index, name: entry.name || entry.url || `Entry ${index + 1}` }))
+});
+
+const parseBitwardenJson = (data: { encrypted?: boolean; items?: unknown }): ParsedVault => {
+  if (data.encrypted) {
+    throw new VaultImportError('encrypted', 'This Bitwarden export is encrypted. Export the vault again as unencrypted JSON or CSV.');
+  }
+  const items = Array.isArray(data.items) ? data.items : [];
+  return finish('bitwarden-json', items.map(item => ({
+    name: asString(item?.name),
+    username: asString(item?.login?.username),
+    url: asString(item?.login?.uris?.[0]?.uri),
+    password: asString(item?.login?.password)
+  })));
+};
+
+const parse1Pif = (text: string): ParsedVault => {
+  const records = text.split(PIF_SEPARATOR).map(chunk => chunk.trim()).filter(chunk => chunk !== '');
+  return finish('1password-1pif', records.map(chunk => {
+    let item;
+    try {
+      item = JSON.parse(chunk);
+    } catch {
+      throw new VaultImportError('invalid_pif', 'The 1PIF file contains a record that is not valid JSON.');
+    }
+    const fields: { designation?: string; value?: unknown }[] = item?.secureContents?.fields ?? [];
+    return {
+      name: asString(item?.title),
+      username: asString(fields.find(field => field.designation === 'username')?.value),
+      url: asString(item?.location),
+      password: asString(fields.find(field => field.designation === 'password')?.value ?? item?.secureContents?.password)
+    };
+  }));
+};
+
+const parseJson = (text: string): ParsedVault => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new VaultImportError('invalid_json', 'The file looks like JSON but could not be parsed.');
+  }
+  if (data && typeof data === 'object' && ('items' in data || 'encrypted' in data)) return parseBitwardenJson(data);
+  throw new VaultImportError('unsupported_json', 'Unrecognized JSON export. Bitwarden JSON and 1Password 1PIF files are supported.');
+};
+
+// Column names per format, in the order they are tried
+const CSV_COLUMNS: { format: VaultFormat; detect: string[]; name: string[]; username: string[]; url: string[]; password: string[] }[] = [
+  {
+    format: 'bitwarden-csv',
+    detect: ['login_password'],
+    name: ['name'], username: ['login_username'], url: ['login_uri'], password: ['login_password']
+  },
+  {
+    format: 'keepass-csv',
+    detect: ['group'],
+    name: ['title'], username: ['username'], url: ['url'], password: ['password']
+  },
+  {
+    format: 'keepass-csv',
+    detect: ['login name'],
+    name: ['account'], username: ['login name'], url: ['web site'], password: ['password']
+  },
+  {
+    format: '1password-csv',
+    detect: ['title', 'password'],
+    name: ['title'], username: ['username'], url: ['url', 'website'], password: ['password']
+  },
+  {
+    format: 'generic-csv',
+    detect: ['password'],
+    name: ['name', 'title', 'account'], username: ['username', 'login', 'email'], url: ['url', 'website', 'login_uri'], password: ['password']
+  }
+];
+
+const parseCsv = (text: string): ParsedVault => {
+  const [header, ...rows] = parseCsvRecords(text);
+  const columns = (header ?? []).map(cell => cell.trim().toLowerCase());
+  const layout = CSV_COLUMNS.find(candidate => candidate.detect.every(column => columns.includes(column)));
+  if (!layout) {
+    throw new VaultImportError(
+      'no_password_column',
+      'No password column found. Upload a Bitwarden, 1Password or KeePass export.'
+    );
+  }
+
+  const column = (names: string[]): number => columns.findIndex(cell => names.includes(cell));
+  const [name, username, url, password] = [layout.name, layout.username, layout.url, layout.password].map(column);
+  const field = (row: string[], index: number): string => (index >= 0 ? row[index] ?? '' : '');
+
+  return finish(layout.format, rows.map(row => ({
+    name: field(row, name),
+    username: field(row, username),
+    url: field(row, url),
+    password: field(row, password)
+  })));
+};
+
+export const parseVault = (text: string): ParsedVault => {
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  if (trimmed === '') throw new VaultImportError('empty', 'The file is empty.');
+  if (PIF_SEPARATOR.test(trimmed)) return parse1Pif(trimmed);
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return parseJson(trimmed);
+  return parseCsv(trimmed);
+};
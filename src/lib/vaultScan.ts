@@ -0,0 +1,33 @@
+// The vault scan as one message round trip: parse an export and find reuse clusters.
+// Runs inside the vault scan Web Worker (src/workers) so large vaults do not block the UI.
+
+import { findReuseClusters, ReuseCluster } from './reuse';
+import { parseVault, VaultFormat, VaultImportError, VaultImportErrorCode } from './vaultImport';
+
+export interface VaultScan {
+  format: VaultFormat;
+  entryCount: number;
+  clusters: ReuseCluster[];
+}
+
+export interface VaultScanRequest {
+  text: string;
+}
+
+export type VaultScanResponse = { ok: true; scan: VaultScan } | { ok: false; code: VaultImportErrorCode; error: string };
+
+export const scanVaultText = (text: string): VaultScan => {
+  const { format, entries } = parseVault(text);
+  return { format, entryCount: entries.length, clusters: findReuseClusters(entries) };
+};
+
+// Errors cannot cross the worker boundary as instances, so they travel as codes and messages
+export const handleScanRequest = ({ text }: VaultScanRequest): VaultScanResponse => {
+  try {
+    return { ok: true, scan: scanVaultText(text) };
+  } catch (error) {
+    if (error instanceof VaultImportError) return { ok: false, code: error.code, error: error.message };
+    console.error('Error scanning vault:', error);
+    return { ok: false, code: 'unreadable', error: 'The export could not be read.' };
+  }
+};
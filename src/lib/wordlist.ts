@@ -0,0 +1,206 @@
+// Bundled word lists for the offline strength engine and local generator.
+// COMMON_PASSWORDS are treated as instantly guessable; DICTIONARY_WORDS are
+// matched as substrings (after leetspeak folding) to flag guessable words.
+
+export const COMMON_PASSWORDS: string[] = [
+  '123456', '123456789', '12345678', '12345', '1234567', '1234567890', '111111',
+  '000000', '123123', '654321', '666666', '121212', '112233', '987654321',
+  'password', 'password1', 'password123', 'passw0rd', 'p@ssw0rd', 'qwerty',
+  'qwerty123', 'qwertyuiop', 'asdfgh', 'asdfghjkl', 'zxcvbnm', '1q2w3e4r',
+  '1qaz2wsx', 'abc123', 'iloveyou', 'admin', 'admin123', 'welcome', 'welcome1',
+  'letmein', 'monkey', 'dragon', 'football', 'baseball', 'sunshine', 'princess',
+  'master', 'shadow', 'superman', 'batman', 'trustno1', 'hello123', 'freedom',
+  'whatever', 'starwars', 'michael', 'charlie', 'jennifer', 'jordan23', 'ninja',
+  'mustang', 'access', 'login', 'secret', 'changeme', 'default', 'guest', 'root',
+  'toor', 'test', 'test123', 'azerty', 'soleil', 'loveme', 'flower', 'pokemon'
+];
+
+export const DICTIONARY_WORDS: string[] = [
+  'password', 'pass', 'admin', 'user', 'login', 'welcome', 'hello', 'love',
+  'secret', 'master', 'dragon', 'monkey', 'shadow', 'sunshine', 'princess',
+  'football', 'baseball', 'soccer', 'hockey', 'summer', 'winter', 'spring',
+  'autumn', 'january', 'february', 'march', 'april', 'june', 'july', 'august',
+  'september', 'october', 'november', 'december', 'monday', 'friday', 'sunday',
+  'qwerty', 'letmein', 'trust', 'freedom', 'money', 'power', 'super', 'star',
+  'angel', 'baby', 'happy', 'lucky', 'magic', 'music', 'party', 'pepper',
+  'ginger', 'cookie', 'cheese', 'coffee', 'chocolate', 'orange', 'banana',
+  'apple', 'cherry', 'purple', 'yellow', 'silver', 'golden', 'black', 'white',
+  'green', 'blue', 'red', 'tiger', 'lion', 'eagle', 'falcon', 'wolf', 'bear',
+  'horse', 'kitty', 'puppy', 'doggy', 'kitten', 'rabbit', 'turtle', 'spider',
+  'batman', 'superman', 'starwars', 'pokemon', 'matrix', 'ninja', 'pirate',
+  'killer', 'hunter', 'ranger', 'soldier', 'knight', 'wizard', 'legend',
+  'hero', 'king', 'queen', 'prince', 'jesus', 'christ', 'god', 'heaven',
+  'computer', 'internet', 'server', 'system', 'network', 'database', 'office',
+  'company', 'business', 'account', 'access', 'default', 'guest', 'change',
+  'test', 'demo', 'sample', 'temp', 'family', 'friend', 'mother', 'father',
+  'sister', 'brother', 'daughter', 'son', 'mama', 'papa', 'home', 'house',
+  'school', 'college', 'student', 'teacher', 'doctor', 'nurse', 'police',
+  'america', 'london', 'paris', 'france', 'canada', 'morocco', 'casablanca',
+  'rabat', 'soleil', 'bonjour', 'amour', 'chat', 'chien', 'maison', 'ordinateur',
+  'jordan', 'michael', 'charlie', 'thomas', 'robert', 'daniel', 'jessica',
+  'ashley', 'nicole', 'maria', 'sarah', 'david', 'james', 'john', 'mohamed',
+  'ahmed', 'youssef', 'fatima'
+];
+
+// Passphrase words in the style of the EFF short list: 6^4 entries (four dice),
+// 4-8 letters, and no word is a prefix of another so phrases stay unambiguous
+// even without separators.
+export const PASSPHRASE_WORDS: string[] = [
+  'able', 'acid', 'acorn', 'acre', 'actor', 'adapt', 'adobe', 'aerial', 'affix',
+  'afloat', 'agent', 'agile', 'aging', 'agree', 'aide', 'aisle', 'alarm',
+  'alert', 'algae', 'alias', 'alien', 'align', 'alike', 'alive', 'allot',
+  'allow', 'alloy', 'almond', 'aloe', 'aloft', 'along', 'alpha', 'altar',
+  'alter', 'amble', 'amend', 'amino', 'amuse', 'anchor', 'angel', 'angle',
+  'ankle', 'antler', 'anvil', 'apex', 'apple', 'april', 'aqua', 'arbor',
+  'arcade', 'arctic', 'arena', 'argue', 'arise', 'army', 'aroma', 'array',
+  'ascend', 'aside', 'aspen', 'atlas', 'atom', 'attic', 'audio', 'aunt',
+  'avoid', 'awake', 'aware', 'awning', 'axis', 'bacon', 'badger', 'bagel',
+  'baker', 'balmy', 'bamboo', 'banjo', 'barge', 'barn', 'baron', 'basin',
+  'basket', 'batch', 'bath', 'beach', 'beacon', 'beads', 'beam', 'bean',
+  'beard', 'beech', 'beef', 'beep', 'beet', 'being', 'belt', 'bench', 'best',
+  'bike', 'bingo', 'bird', 'bison', 'blade', 'blank', 'blaze', 'blend', 'bless',
+  'blink', 'bliss', 'block', 'bloom', 'blossom', 'blot', 'blouse', 'bluff',
+  'blunt', 'blur', 'board', 'boat', 'body', 'bolt', 'bonfire', 'bonus', 'book',
+  'booth', 'born', 'boss', 'bottle', 'bounce', 'bowl', 'bramble', 'brand',
+  'brass', 'brave', 'breeze', 'brick', 'bride', 'bring', 'brisk', 'broad',
+  'brook', 'broom', 'brown', 'brush', 'bucket', 'buddy', 'budget', 'bugle',
+  'build', 'bulb', 'bunch', 'bunny', 'burst', 'bush', 'button', 'buyer', 'buzz',
+  'cable', 'cacao', 'cactus', 'cake', 'calf', 'calm', 'camel', 'camp', 'canal',
+  'candle', 'canoe', 'canvas', 'canyon', 'caramel', 'caravan', 'carbon', 'card',
+  'carol', 'carrot', 'cart', 'case', 'cashew', 'castle', 'cedar', 'cello',
+  'cement', 'cereal', 'chair', 'chalk', 'champ', 'chapel', 'charm', 'chart',
+  'cheek', 'cheer', 'cherry', 'chess', 'chew', 'chick', 'chief', 'chimp',
+  'chin', 'chip', 'choice', 'chord', 'chorus', 'chose', 'cider', 'cinder',
+  'cinema', 'circus', 'citrus', 'city', 'claim', 'clam', 'clap', 'clash',
+  'class', 'claw', 'clay', 'clear', 'clerk', 'click', 'climb', 'cling', 'clip',
+  'cloak', 'clone', 'cloth', 'cloud', 'clown', 'club', 'clue', 'coast', 'coat',
+  'cobalt', 'cobra', 'code', 'coil', 'coin', 'cold', 'comet', 'comic',
+  'compass', 'copper', 'coral', 'cord', 'cork', 'corn', 'cosmic', 'cough',
+  'count', 'coupe', 'cover', 'cozy', 'crab', 'craft', 'crate', 'crawl',
+  'crayon', 'creek', 'crepe', 'crest', 'crib', 'cricket', 'crimson', 'crisp',
+  'cross', 'crowd', 'crown', 'crush', 'crust', 'crystal', 'cuddle', 'cupcake',
+  'curl', 'curry', 'cushion', 'cycle', 'cymbal', 'dairy', 'daisy', 'dance',
+  'dart', 'dash', 'data', 'date', 'deal', 'debut', 'decal', 'deed', 'deep',
+  'deer', 'denim', 'dense', 'depot', 'depth', 'desk', 'detox', 'dial', 'dice',
+  'diet', 'digit', 'diner', 'dingo', 'disco', 'dish', 'dive', 'dizzy', 'dock',
+  'doll', 'dolphin', 'dome', 'donut', 'door', 'dose', 'double', 'dove', 'dozen',
+  'draft', 'drain', 'drama', 'drank', 'draw', 'dream', 'dress', 'dried',
+  'drill', 'drink', 'drip', 'drone', 'drop', 'drum', 'duet', 'duke', 'dune',
+  'dusk', 'duty', 'dwell', 'dynamo', 'eagle', 'early', 'earth', 'east', 'easy',
+  'eaten', 'echo', 'eclipse', 'edge', 'edit', 'eight', 'elbow', 'elder',
+  'elope', 'elude', 'email', 'ember', 'emerald', 'empty', 'enamel', 'enter',
+  'entry', 'envoy', 'equal', 'erase', 'errand', 'essay', 'event', 'evoke',
+  'exact', 'excel', 'exit', 'expo', 'fable', 'fabric', 'face', 'fact', 'fairy',
+  'faith', 'falcon', 'fame', 'fancy', 'fang', 'fast', 'fawn', 'feast',
+  'feather', 'fern', 'ferret', 'ferry', 'fever', 'fiber', 'fiddle', 'fiesta',
+  'fifth', 'film', 'final', 'find', 'fine', 'finger', 'firm', 'fish', 'fizz',
+  'flag', 'flair', 'flake', 'flame', 'flask', 'flat', 'flavor', 'flex', 'flick',
+  'flint', 'float', 'flock', 'flood', 'floor', 'flow', 'fluff', 'fluid',
+  'flyer', 'foam', 'focus', 'folk', 'font', 'food', 'foot', 'forest', 'fork',
+  'form', 'forum', 'fossil', 'found', 'fresh', 'fridge', 'fries', 'frog',
+  'frost', 'fruit', 'fudge', 'full', 'fungus', 'funky', 'galaxy', 'gallon',
+  'game', 'gamma', 'garden', 'garlic', 'gate', 'gazebo', 'gecko', 'genre',
+  'gift', 'giggle', 'ginger', 'ginkgo', 'give', 'glacier', 'glade', 'glaze',
+  'gleam', 'glee', 'glint', 'globe', 'glory', 'glove', 'glue', 'goal', 'goat',
+  'gold', 'golf', 'good', 'gopher', 'gorge', 'gospel', 'gourd', 'grade',
+  'grain', 'grand', 'grant', 'grape', 'graph', 'grass', 'gravy', 'gray',
+  'great', 'greet', 'grid', 'griffin', 'grin', 'grip', 'grit', 'group', 'grove',
+  'growl', 'gruel', 'guava', 'guess', 'guest', 'guild', 'guitar', 'gulf',
+  'gumbo', 'guppy', 'gust', 'habit', 'half', 'hall', 'halo', 'hammer', 'handy',
+  'hanger', 'harbor', 'hardy', 'harmony', 'harp', 'hash', 'hatch', 'hawk',
+  'head', 'heap', 'heart', 'hedge', 'heel', 'hefty', 'helmet', 'herb', 'herd',
+  'hermit', 'hike', 'hill', 'hint', 'hobby', 'hockey', 'hold', 'hole', 'home',
+  'honey', 'hood', 'hope', 'horizon', 'horn', 'host', 'hotel', 'hound', 'hour',
+  'hover', 'howl', 'hull', 'humid', 'humor', 'hump', 'hurry', 'husky', 'hymn',
+  'iceberg', 'icon', 'idea', 'idle', 'image', 'imply', 'inch', 'indigo',
+  'infant', 'inkwell', 'inlet', 'input', 'insect', 'inside', 'iris', 'iron',
+  'island', 'itch', 'item', 'ivory', 'jackal', 'jade', 'jaguar', 'jasmine',
+  'jeans', 'jelly', 'jersey', 'jewel', 'jigsaw', 'jockey', 'join', 'jolly',
+  'journal', 'jubilee', 'juice', 'july', 'jumbo', 'june', 'jungle', 'junior',
+  'juniper', 'just', 'kale', 'karate', 'keep', 'kelp', 'kennel', 'kestrel',
+  'kettle', 'kick', 'kidney', 'kingdom', 'kiosk', 'kite', 'kiwi', 'knee',
+  'knife', 'knob', 'knock', 'knot', 'koala', 'lace', 'ladder', 'ladle',
+  'lagoon', 'lake', 'lamb', 'lance', 'land', 'lane', 'lantern', 'laser',
+  'lasso', 'latch', 'lava', 'lawn', 'layer', 'leaf', 'leap', 'learn', 'least',
+  'left', 'legend', 'lemon', 'lentil', 'level', 'lever', 'lilac', 'lily',
+  'limb', 'lime', 'linen', 'lion', 'liquid', 'litter', 'lizard', 'llama',
+  'loaf', 'lobby', 'lobster', 'locket', 'lodge', 'loft', 'logic', 'long',
+  'loom', 'loop', 'loud', 'lounge', 'loyal', 'lumber', 'lunar', 'lunch', 'lure',
+  'lyric', 'macaw', 'magenta', 'magnet', 'mail', 'major', 'mall', 'mammoth',
+  'mango', 'manor', 'marble', 'march', 'mare', 'maroon', 'marsh', 'mascot',
+  'mason', 'match', 'math', 'maze', 'meal', 'medal', 'media', 'memo', 'menu',
+  'merit', 'mesa', 'mesh', 'metal', 'meteor', 'mild', 'mile', 'milk', 'mimic',
+  'mind', 'minnow', 'minus', 'mirror', 'mist', 'mitten', 'mocha', 'model',
+  'modem', 'mole', 'money', 'monk', 'month', 'moon', 'moose', 'moral', 'moss',
+  'motel', 'moth', 'mound', 'mount', 'mouse', 'movie', 'muffin', 'muffler',
+  'mulch', 'mural', 'muse', 'music', 'myth', 'nacho', 'nail', 'napkin',
+  'narrow', 'navy', 'near', 'nebula', 'neck', 'nectar', 'neon', 'nerve', 'nest',
+  'next', 'nickel', 'night', 'nimble', 'noble', 'noise', 'nomad', 'noon',
+  'north', 'nose', 'note', 'noun', 'novel', 'nudge', 'number', 'nurse',
+  'nutmeg', 'oasis', 'oatmeal', 'object', 'octave', 'offer', 'office', 'often',
+  'olive', 'omega', 'omen', 'online', 'onset', 'opal', 'opera', 'optic', 'oral',
+  'orange', 'orchard', 'orchid', 'order', 'otter', 'ounce', 'outer', 'oval',
+  'oven', 'owner', 'oxygen', 'pace', 'pack', 'paddle', 'page', 'pagoda',
+  'paint', 'palace', 'palm', 'panda', 'panel', 'panther', 'pantry', 'papaya',
+  'parade', 'parcel', 'park', 'parsley', 'party', 'pasta', 'paste', 'patch',
+  'path', 'patio', 'pave', 'peace', 'peach', 'peak', 'peanut', 'pear', 'pebble',
+  'pedal', 'peel', 'pelican', 'penguin', 'penny', 'pepper', 'petal', 'pewter',
+  'phone', 'photo', 'pickle', 'picnic', 'piece', 'pigeon', 'pilot', 'pine',
+  'pint', 'pinwheel', 'pipe', 'pirate', 'pivot', 'pixel', 'pizza', 'plain',
+  'planet', 'plank', 'plateau', 'play', 'plaza', 'plot', 'plume', 'plus',
+  'pocket', 'poet', 'point', 'polar', 'polka', 'pollen', 'pond', 'pony',
+  'poppy', 'porch', 'port', 'post', 'pouch', 'pound', 'power', 'prank', 'press',
+  'pretzel', 'pride', 'prime', 'print', 'prize', 'probe', 'prose', 'prune',
+  'puffin', 'pulse', 'puma', 'punch', 'pupil', 'puppy', 'purse', 'puzzle',
+  'quail', 'quartz', 'queen', 'query', 'quest', 'quiet', 'quilt', 'quirk',
+  'quiz', 'quota', 'rabbit', 'rack', 'radar', 'radio', 'radish', 'rage', 'rail',
+  'rainbow', 'raisin', 'rake', 'rally', 'ranch', 'range', 'rapid', 'raven',
+  'razor', 'reach', 'ready', 'rebel', 'recap', 'recipe', 'refund', 'relax',
+  'relay', 'relic', 'remix', 'rent', 'reply', 'rescue', 'rhino', 'rhyme',
+  'rice', 'riddle', 'ride', 'ridge', 'rigid', 'ring', 'rinse', 'rise', 'river',
+  'road', 'robe', 'robin', 'robot', 'rocket', 'role', 'roll', 'roof', 'rooster',
+  'root', 'rope', 'rosy', 'rotor', 'round', 'route', 'royal', 'rubber', 'ruby',
+  'rumble', 'runway', 'rural', 'rustic', 'saddle', 'safari', 'safe', 'saga',
+  'sage', 'sail', 'salmon', 'salon', 'salsa', 'salute', 'sample', 'sandal',
+  'sapphire', 'sauce', 'sauna', 'savor', 'scarf', 'scarlet', 'scene', 'school',
+  'scoop', 'scope', 'score', 'scrap', 'screen', 'scroll', 'seal', 'season',
+  'seat', 'seed', 'sense', 'sequoia', 'serum', 'seven', 'shade', 'shadow',
+  'shake', 'shape', 'share', 'sharp', 'shed', 'sheep', 'shelf', 'sherbet',
+  'shield', 'shift', 'ship', 'shirt', 'shoe', 'short', 'shovel', 'show',
+  'shrub', 'sierra', 'sift', 'sign', 'silo', 'silver', 'simple', 'sister',
+  'sketch', 'skill', 'skirt', 'slate', 'sled', 'sleep', 'slice', 'slide',
+  'slope', 'slug', 'small', 'smile', 'smoke', 'snail', 'snake', 'sneeze',
+  'soap', 'soccer', 'sock', 'sofa', 'soft', 'solar', 'sole', 'solo', 'sonar',
+  'song', 'sonnet', 'soup', 'south', 'spade', 'spark', 'sparrow', 'speak',
+  'speed', 'spell', 'spend', 'spider', 'spike', 'spinach', 'spoke', 'sponge',
+  'spoon', 'sport', 'spray', 'spree', 'spring', 'sprout', 'spruce', 'squad',
+  'squid', 'stable', 'stack', 'staff', 'stair', 'stallion', 'stamp', 'starfish',
+  'start', 'state', 'steel', 'stem', 'step', 'stew', 'still', 'sting', 'stock',
+  'stool', 'storm', 'story', 'strap', 'straw', 'stream', 'street', 'stroll',
+  'studio', 'stuff', 'style', 'sugar', 'suit', 'sundial', 'sunny', 'super',
+  'surf', 'swan', 'sweater', 'sweet', 'swim', 'swing', 'switch', 'tablet',
+  'taco', 'tadpole', 'tail', 'tally', 'tandem', 'tango', 'tape', 'target',
+  'tart', 'taste', 'tavern', 'taxi', 'teach', 'team', 'teapot', 'tease',
+  'tennis', 'tent', 'term', 'text', 'thank', 'theme', 'thicket', 'thing',
+  'thistle', 'thorn', 'thrive', 'throne', 'thumb', 'thyme', 'ticket', 'tide',
+  'tiger', 'timber', 'time', 'tinsel', 'tissue', 'title', 'toast', 'token',
+  'tomato', 'tone', 'tongs', 'tool', 'tooth', 'topaz', 'torch', 'total',
+  'totem', 'touch', 'tour', 'towel', 'tower', 'track', 'trade', 'trail', 'tram',
+  'travel', 'tray', 'tree', 'trek', 'trellis', 'trend', 'tribe', 'trick',
+  'trim', 'trip', 'trophy', 'tropic', 'truck', 'trumpet', 'trunk', 'trust',
+  'tuba', 'tugboat', 'tulip', 'tundra', 'tune', 'tunnel', 'turkey', 'turnip',
+  'turtle', 'tutor', 'twig', 'twin', 'twist', 'umbra', 'umpire', 'uncle',
+  'unicorn', 'union', 'unity', 'until', 'upper', 'upset', 'urban', 'usage',
+  'usher', 'usual', 'vacuum', 'valid', 'valley', 'value', 'vanilla', 'vapor',
+  'vase', 'vector', 'velvet', 'vendor', 'verb', 'verse', 'vest', 'veto', 'view',
+  'vigor', 'villa', 'vinyl', 'viola', 'violet', 'virtue', 'visit', 'visor',
+  'vista', 'vivid', 'vocal', 'voice', 'volt', 'vote', 'voyage', 'waffle',
+  'wagon', 'waist', 'walk', 'walnut', 'walrus', 'wand', 'warm', 'wash', 'wasp',
+  'water', 'wave', 'wealth', 'weave', 'weekly', 'weld', 'well', 'whale',
+  'wheat', 'wheel', 'whisk', 'white', 'whole', 'wick', 'width', 'wigwam',
+  'wild', 'windmill', 'window', 'wing', 'winter', 'wire', 'wise', 'wish',
+  'wolf', 'wombat', 'wonder', 'wool', 'word', 'work', 'worm', 'worth', 'wrap',
+  'wreath', 'write', 'yacht', 'yard', 'year', 'yeast', 'yellow', 'yodel',
+  'yoga', 'yogurt', 'yolk', 'young', 'youth', 'zebra', 'zero', 'zesty',
+  'zigzag', 'zipper', 'zodiac', 'zone'
+];
@@ -0,0 +1,81 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import AnalyzePage from './AnalyzePage';
+import { HistoryState } from '../hooks/useHistory';
+import { ApiStatus } from '../types';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { EMPTY_CONTEXT } from '../lib/personalContext';
+
+const renderPage = ({
+  analyze = jest.fn(async (password: string) => analyzeLocally(password)),
+  announce = jest.fn(),
+  apiStatus = 'offline' as ApiStatus,
+  personalContext = EMPTY_CONTEXT
+} = {}) => {
+  render(
+    <AnalyzePage
+      analyze={analyze}
+      apiStatus={apiStatus}
+      availableModels={[]}
+      privacyMode={false}
+      setPrivacyMode={jest.fn()}
+      personalContext={personalContext}
+      setPersonalContext={jest.fn()}
+      activePolicy={null}
+      history={{ status: 'locked', record: jest.fn().mockResolvedValue(undefined) } as unknown as HistoryState}
+      announce={announce}
+    />
+  );
+  return { analyze, announce };
+};
+
+test('analyzes the typed password and announces the verdict', async () => {
+  const { analyze, announce } = renderPage();
+
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'qwerty123' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByText(/Offline Estimate/i)).toBeInTheDocument();
+  expect(analyze).toHaveBeenCalledWith('qwerty123', expect.any(AbortSignal));
+  expect(announce).toHaveBeenCalledWith(expect.stringMatching(/^Analysis complete: Weak/));
+});
+
+test('switches to side-by-side comparison', () => {
+  renderPage();
+  fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+  expect(screen.getByRole('button', { name: 'Compare', pressed: true })).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /Add Candidate/ })).toBeInTheDocument();
+  expect(screen.queryByPlaceholderText(/Type your password here/i)).not.toBeInTheDocument();
+});
+
+test('pauses analysis with an explanation while the API has no models', () => {
+  const { analyze } = renderPage({ apiStatus: 'no-models' });
+
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'qwerty123' } });
+  const submit = screen.getByRole('button', { name: /Analyze Password/i });
+  expect(submit).toBeDisabled();
+  expect(submit).toHaveAccessibleDescription(/no models loaded/);
+  expect(screen.getByLabelText(/Live analysis/i)).toBeDisabled();
+  expect(analyze).not.toHaveBeenCalled();
+});
+
+test('flags personal details in the instant estimate', () => {
+  renderPage({ personalContext: { ...EMPTY_CONTEXT, name: 'Saoud', dates: '1998-04-12' } });
+  expect(screen.getByRole('button', { name: /Personal context/ })).toHaveAttribute('aria-expanded', 'true');
+  expect(screen.getByLabelText('Name')).toHaveValue('Saoud');
+
+  fireEvent.click(screen.getByLabelText(/Live analysis/i));
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'Saoud1998!' } });
+  expect(screen.getByTestId('strength-meter')).toHaveTextContent('Weak');
+});
+
+test('stops the spinner when the analysis fails', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  renderPage({ analyze: jest.fn().mockRejectedValue(new Error('offline')) });
+
+  fireEvent.change(screen.getByPlaceholderText(/Type your password here/i), { target: { value: 'qwerty123' } });
+  fireEvent.click(screen.getByRole('button', { name: /Analyze Password/i }));
+
+  expect(await screen.findByRole('button', { name: /Analyze Password/i })).toBeEnabled();
+  expect(console.error).toHaveBeenCalledWith('Error analyzing password:', expect.any(Error));
+});
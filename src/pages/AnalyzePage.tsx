@@ -0,0 +1,533 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Brain, CheckCircle, Columns, Eye, EyeOff, Info, Lock, ShieldCheck, WifiOff, Zap } from 'lucide-react';
+import { AnalysisResult, ApiStatus, PasswordPolicy } from '../types';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { PREFIX_LENGTH } from '../lib/breachRange';
+import { getWarnings, summarizeResult } from '../lib/findings';
+import { checkPolicy, evidenceFromResult } from '../lib/policy';
+import { analysisEntry } from '../lib/history';
+import { applyPersonalContext, contextTokens, PersonalContext } from '../lib/personalContext';
+import { getStrengthColor, getStrengthIcon } from '../components/strength';
+import StrengthMeter from '../components/StrengthMeter';
+import CompareView from '../components/CompareView';
+import { DisagreementView, ModelProbabilities } from '../components/ModelExplorer';
+import PolicyChecklist from '../components/PolicyChecklist';
+import ReportExport from '../components/ReportExport';
+import CrackTimeCalculator from '../components/CrackTimeCalculator';
+import PasswordImprover from '../components/PasswordImprover';
+import ContextPanel from '../components/ContextPanel';
+import { PatternHighlighter, WarningList } from '../components/Findings';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { HistoryState } from '../hooks/useHistory';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+
+const LIVE_DEBOUNCE_MS = 400;
+
+const CRACK_METHODS: (keyof AnalysisResult['crack_time'])[] = ['online_throttled', 'online_fast', 'offline_gpu', 'offline_super'];
+
+type AnalyzeModeType = 'single' | 'compare';
+
+interface AnalyzePageProps {
+  analyze: (password: string, signal?: AbortSignal) => Promise<AnalysisResult>;
+  apiStatus: ApiStatus;
+  availableModels: string[];
+  privacyMode: boolean;
+  setPrivacyMode: (enabled: boolean) => void;
+  personalContext: PersonalContext;
+  setPersonalContext: (context: PersonalContext) => void;
+  activePolicy: PasswordPolicy | null;
+  history: HistoryState;
+  announce: (message: string) => void;
+}
+
+const AnalyzePage: React.FC<AnalyzePageProps> = ({
+  analyze, apiStatus, availableModels, privacyMode, setPrivacyMode, personalContext, setPersonalContext, activePolicy, history,
+  announce
+}) => {
+  const { locale, t, formatNumber, formatCrackTime, guidance, strength, finding } = useI18n();
+  const [analyzeMode, setAnalyzeMode] = useState<AnalyzeModeType>('single');
+  const [password, setPassword] = useState<string>('');
+  const [showPassword, setShowPassword] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [selectedModel, setSelectedModel] = useState<string>('all');
+  const [historyLabel, setHistoryLabel] = useState<string>('');
+  const resultsHeading = useRef<HTMLHeadingElement>(null);
+  // Set by explicit analyses so focus follows them to the results once rendered;
+  // live updates only announce
+  const focusResults = useRef<boolean>(false);
+
+  // Live analysis states
+  const [liveMode, setLiveMode] = useState<boolean>(false);
+  const debouncedPassword = useDebouncedValue(password, LIVE_DEBOUNCE_MS);
+  const inFlightAnalysis = useRef<AbortController | null>(null);
+  // Without models /analyze cannot answer; privacy mode still works because it scores locally
+  const paused = apiStatus === 'no-models' && !privacyMode;
+  const personalTokens = useMemo(() => contextTokens(personalContext), [personalContext]);
+  const instantEstimate = useMemo(
+    () => (liveMode && password ? applyPersonalContext(analyzeLocally(password), personalTokens) : null),
+    [liveMode, password, personalTokens]
+  );
+
+  // Cancels any analysis still in flight so a stale response never replaces a newer one
+  const analyzeLatest = useCallback(async (candidate: string): Promise<AnalysisResult | null> => {
+    inFlightAnalysis.current?.abort();
+    const controller = new AbortController();
+    inFlightAnalysis.current = controller;
+
+    setLoading(true);
+    try {
+      const next = await analyze(candidate, controller.signal);
+      if (controller.signal.aborted) return null;
+
+      setResult(next);
+      announce(summarizeResult(next, locale));
+      return next;
+    } catch (error) {
+      console.error('Error analyzing password:', error);
+      return null;
+    } finally {
+      // A superseding analysis owns the spinner from here on
+      if (!controller.signal.aborted) setLoading(false);
+    }
+  }, [analyze, announce, locale]);
+
+  useEffect(() => {
+    if (liveMode && debouncedPassword && !paused) analyzeLatest(debouncedPassword);
+  }, [liveMode, debouncedPassword, paused, analyzeLatest]);
+
+  useEffect(() => () => inFlightAnalysis.current?.abort(), []);
+
+  useEffect(() => {
+    if (!result || !focusResults.current) return;
+    focusResults.current = false;
+    resultsHeading.current?.focus();
+  }, [result]);
+
+  // Only explicit analyses are recorded; live mode would fill the history with every keystroke
+  const analyzePassword = async (): Promise<void> => {
+    if (!password || paused) return;
+    focusResults.current = true;
+    const analyzed = await analyzeLatest(password);
+    if (analyzed && history.status === 'unlocked') {
+      analysisEntry(password, analyzed, historyLabel, history.settings.store_analyzed_passwords)
+        .then(entry => history.record([entry]))
+        .catch(error => console.error('Error recording history:', error));
+    }
+  };
+
+  // An accepted variant was already scored by the improver, so its result is shown as is
+  const acceptImprovement = (improved: string, improvedResult: AnalysisResult): void => {
+    inFlightAnalysis.current?.abort();
+    setPassword(improved);
+    setResult(improvedResult);
+    setLoading(false);
+    announce(summarizeResult(improvedResult, locale));
+    focusResults.current = true;
+  };
+
+  const getFilteredPredictions = (): Record<string, string> => {
+    if (!result?.predictions) return {};
+    if (selectedModel === 'all' || result.source === 'local') return result.predictions;
+    return { [selectedModel]: result.predictions[selectedModel] };
+  };
+
+  return (
+    <>
+      {/* Analyze Mode Switch */}
+      <div className="flex gap-2 mb-6">
+        {[
+          { id: 'single' as AnalyzeModeType, label: t('analyze.single'), icon: Brain },
+          { id: 'compare' as AnalyzeModeType, label: t('analyze.compare'), icon: Columns }
+        ].map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => setAnalyzeMode(mode.id)}
+            aria-pressed={analyzeMode === mode.id}
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+              analyzeMode === mode.id
+                ? 'bg-white shadow text-blue-600'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            <mode.icon className="w-4 h-4" />
+            {mode.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Degraded API */}
+      {paused && (
+        <div id="analysis-paused" className="bg-yellow-50 border-2 border-yellow-200 rounded-2xl p-4 mb-6 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0 mt-0.5" aria-hidden="true" />
+          <p className="text-yellow-800 text-sm">{t('analyze.paused')}</p>
+        </div>
+      )}
+
+      {/* Compare Mode */}
+      {analyzeMode === 'compare' && <CompareView analyze={analyze} disabled={paused} />}
+
+      {/* Single Password */}
+      {analyzeMode === 'single' && (
+        <div className="space-y-6">
+          {/* Input Section */}
+          <div className="bg-white rounded-2xl shadow-xl p-8">
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="password-input" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('analyze.input')}
+                </label>
+                <div className="relative">
+                  <input
+                    id="password-input"
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && analyzePassword()}
+                    placeholder={t('analyze.placeholder')}
+                    className="w-full px-4 py-3 pe-12 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                  />
+                  <button
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute end-3 top-3 text-gray-500 hover:text-gray-700"
+                    aria-label={showPassword ? t('analyze.hide') : t('analyze.show')}
+                    aria-pressed={showPassword}
+                    aria-controls="password-input"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" aria-hidden="true" /> : <Eye className="w-5 h-5" aria-hidden="true" />}
+                  </button>
+                </div>
+
+                {/* Instant Local Meter */}
+                {instantEstimate && result?.password !== password && (
+                  <div className="mt-3">
+                    <StrengthMeter
+                      result={instantEstimate}
+                      caption={apiStatus === 'offline' || privacyMode
+                        ? t('analyze.localEstimate')
+                        : t('analyze.instantEstimate')}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {history.status === 'unlocked' && (
+                <div>
+                  <label htmlFor="history-label" className="block text-sm font-medium text-gray-700 mb-2">
+                    {t('analyze.historyLabel')}
+                  </label>
+                  <input
+                    id="history-label"
+                    type="text"
+                    value={historyLabel}
+                    onChange={(e) => setHistoryLabel(e.target.value)}
+                    placeholder={t('analyze.historyPlaceholder')}
+                    className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                  />
+                </div>
+              )}
+
+              {/* Model Selection */}
+              <div>
+                <label htmlFor="model-select" className="block text-sm font-medium text-gray-700 mb-2">
+                  {t('analyze.model')}
+                </label>
+                <select
+                  id="model-select"
+                  value={selectedModel}
+                  onChange={(e) => setSelectedModel(e.target.value)}
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                >
+                  <option value="all">{t('analyze.allModels')}</option>
+                  {availableModels.map(model => (
+                    <option key={model} value={model}>{model}</option>
+                  ))}
+                </select>
+              </div>
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={privacyMode}
+                  onChange={(e) => setPrivacyMode(e.target.checked)}
+                  className="w-4 h-4 mt-1 text-blue-600 rounded"
+                />
+                <span className="text-sm">
+                  <span className="font-medium">{t('analyze.privacy')}</span>
+                  <span className="block text-gray-500">
+                    {t('analyze.privacyHint', { prefix: PREFIX_LENGTH })}
+                  </span>
+                </span>
+              </label>
+
+              <label className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={liveMode}
+                  disabled={paused}
+                  onChange={(e) => setLiveMode(e.target.checked)}
+                  className="w-4 h-4 mt-1 text-blue-600 rounded"
+                />
+                <span className="text-sm">
+                  <span className="font-medium">{t('analyze.live')}</span>
+                  <span className="block text-gray-500">
+                    {t('analyze.liveHint')}
+                  </span>
+                </span>
+              </label>
+
+              <ContextPanel context={personalContext} onChange={setPersonalContext} />
+
+              <button
+                onClick={analyzePassword}
+                disabled={!password || loading || paused}
+                aria-describedby={paused ? 'analysis-paused' : undefined}
+                className="w-full bg-gradient-to-r from-blue-500 to-purple-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? t('analyze.analyzing') : t('analyze.submit')}
+              </button>
+            </div>
+          </div>
+
+          {/* Results */}
+          {result && (
+            <div className="space-y-6">
+              <h2 ref={resultsHeading} tabIndex={-1} className="sr-only">{t('results.heading')}</h2>
+              {/* Local Fallback Notice */}
+              {result.source === 'local' && (
+                <div className="bg-gray-50 border-2 border-gray-200 rounded-2xl p-6">
+                  <div className="flex items-start gap-3">
+                    <WifiOff className="w-6 h-6 text-gray-600 flex-shrink-0 mt-1" />
+                    <div>
+                      <h3 className="font-bold text-gray-900 text-lg">
+                        {result.breach_check === 'range' ? t('results.privateEstimate') :
+                         apiStatus === 'offline' ? t('results.offlineEstimate') :
+                         t('results.localEstimate')}
+                      </h3>
+                      <p className="text-gray-700 mt-1">
+                        {result.breach_check === 'range' ? t('results.privateNotice') :
+                         apiStatus === 'offline' ? t('results.offlineNotice') :
+                         t('results.invalidNotice')}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Breach Warning */}
+              {result.is_breached && (
+                <div className="bg-red-50 border-2 border-red-200 rounded-2xl p-6">
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-6 h-6 text-red-600 flex-shrink-0 mt-1" />
+                    <div>
+                      <h3 className="font-bold text-red-900 text-lg">{t('results.breachTitle')}</h3>
+                      <p className="text-red-700 mt-1">
+                        {t('results.breachBody', { count: result.breach_count })}
+                      </p>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Breach Check Mode */}
+              <div className="flex items-center gap-2 text-sm text-gray-600" data-testid="breach-check-mode">
+                <ShieldCheck className="w-4 h-4" />
+                {result.breach_check === 'range'
+                  ? t('results.breachCheckRange', { prefix: PREFIX_LENGTH })
+                  : result.breach_check === 'server'
+                  ? t('results.breachCheckServer')
+                  : t('results.breachCheckNone')}
+                {result.breach_check !== 'none' && !result.is_breached && t('results.notBreached')}
+              </div>
+
+              {/* Report Export */}
+              <ReportExport result={result} />
+
+              {/* Model Predictions */}
+              <div className="bg-white rounded-2xl shadow-xl p-8">
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <Brain className="w-6 h-6 text-blue-600" />
+                  {t('results.predictions')}
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+                  {Object.entries(getFilteredPredictions()).map(([model, prediction]) => (
+                    <div key={model} className={`p-4 rounded-xl border-2 ${getStrengthColor(prediction)}`}>
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{model}</span>
+                        <div className="flex items-center gap-2">
+                          {getStrengthIcon(prediction)}
+                          <span className="font-bold">{strength(prediction)}</span>
+                        </div>
+                      </div>
+                      <ModelProbabilities detail={result.model_details?.[model]} />
+                    </div>
+                  ))}
+                </div>
+
+                {selectedModel === 'all' && result.source !== 'local' && (
+                  <div className={`p-6 rounded-xl border-2 ${getStrengthColor(result.consensus)}`}>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <h4 className="font-bold text-lg">{t('results.consensus')}</h4>
+                        <p className="text-sm opacity-75">
+                          {t('results.agreement', {
+                            percent: formatNumber(result.agreement_percentage / 100, { style: 'percent', maximumFractionDigits: 0 })
+                          })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        {getStrengthIcon(result.consensus)}
+                        <span className="text-2xl font-bold">{strength(result.consensus)}</span>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {selectedModel === 'all' && <DisagreementView result={result} />}
+              </div>
+
+              {/* Policy Compliance */}
+              {activePolicy && (
+                <PolicyChecklist
+                  policy={activePolicy}
+                  checks={checkPolicy(result.password, activePolicy, evidenceFromResult(result))}
+                />
+              )}
+
+              {/* Metrics */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                    <Info className="w-5 h-5 text-blue-600" />
+                    {t('results.metrics')}
+                  </h3>
+                  <div className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.length')}</span>
+                      <span className="font-bold">{t('results.characters', { count: result.length })}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.shannon')}</span>
+                      <span className="font-bold">{t('results.bits', { bits: formatNumber(result.metrics.shannon_entropy, fixed(2)) })}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.practical')}</span>
+                      <span className="font-bold">{t('results.bits', { bits: formatNumber(result.metrics.practical_entropy, fixed(2)) })}</span>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                    <Lock className="w-5 h-5 text-blue-600" />
+                    {t('results.composition')}
+                  </h3>
+                  <div className="space-y-3">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.lowercase')}</span>
+                      <span className="font-bold">{formatNumber(result.composition.lowercase)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.uppercase')}</span>
+                      <span className="font-bold">{formatNumber(result.composition.uppercase)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.digits')}</span>
+                      <span className="font-bold">{formatNumber(result.composition.digits)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.symbols')}</span>
+                      <span className="font-bold">{formatNumber(result.composition.symbols)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">{t('results.unique')}</span>
+                      <span className="font-bold">{formatNumber(result.composition.unique)}/{formatNumber(result.length)}</span>
+                    </div>
+                  </div>
+                </div>
+              </div>
+
+              {/* Crack Time */}
+              <div className="bg-white rounded-2xl shadow-xl p-6">
+                <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <Zap className="w-5 h-5 text-yellow-600" />
+                  {t('results.crackTime')}
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  {CRACK_METHODS.map(method => (
+                    <div key={method} className="p-4 bg-gray-50 rounded-xl">
+                      <p className="text-xs text-gray-600 mb-1 uppercase">{t(`crack.${method}`)}</p>
+                      <p className="font-bold text-sm">
+                        {formatCrackTime(result.crack_time_seconds?.[method], result.crack_time[method])}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Crack Time Calculator */}
+              <CrackTimeCalculator entropy={result.metrics.practical_entropy} />
+
+              {/* Warnings */}
+              {getWarnings(result).length > 0 && (
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-red-600" />
+                    {t('results.warnings')}
+                  </h3>
+                  <WarningList warnings={getWarnings(result)} />
+                </div>
+              )}
+
+              {/* Patterns & Dictionary Words */}
+              {(result.patterns.length > 0 || result.dictionary_words.length > 0 || !!result.pattern_matches?.length) && (
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-yellow-600" />
+                    {t('results.securityIssues')}
+                  </h3>
+                  {result.pattern_matches && result.pattern_matches.length > 0 && (
+                    <PatternHighlighter password={result.password} findings={result.pattern_matches} />
+                  )}
+                  <div className="space-y-2">
+                    {(result.pattern_matches?.length ? result.pattern_matches.map(finding) : result.patterns).map((pattern, i) => (
+                      <div key={i} className="p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+                        {pattern}
+                      </div>
+                    ))}
+                    {result.dictionary_words.length > 0 && !result.pattern_matches?.length && (
+                      <div className="p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+                        {t('results.dictionaryWords', { words: result.dictionary_words.join(', ') })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Suggestions */}
+              <div className="bg-white rounded-2xl shadow-xl p-6">
+                <h3 className="text-lg font-bold mb-4 flex items-center gap-2">
+                  <CheckCircle className="w-5 h-5 text-green-600" />
+                  {t('results.recommendations')}
+                </h3>
+                <div className="space-y-2">
+                  {(result.suggestion_details?.map(guidance) ?? result.suggestions).map((suggestion, i) => (
+                    <div key={i} className="flex items-start gap-2 p-3 bg-blue-50 rounded-lg text-blue-800 text-sm">
+                      <span>•</span>
+                      <span>{suggestion}</span>
+                    </div>
+                  ))}
+                </div>
+                <PasswordImprover key={result.password} result={result} analyze={analyze} onAccept={acceptImprovement} />
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default AnalyzePage;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { screen, fireEvent, waitFor } from '@testing-library/react';
+import GeneratePage, { GenerateWith } from './GeneratePage';
+import { createApiClient } from '../api/client';
+import { HistoryState } from '../hooks/useHistory';
+import { renderWithRouter } from '../test-utils/renderWithRouter';
+
+const generateLocally: GenerateWith = async (_remote, local) => local();
+
+const renderPage = (route: string, clearSecrets = jest.fn(), record = jest.fn().mockResolvedValue(undefined)) =>
+  renderWithRouter(
+    <GeneratePage
+      client={createApiClient({ baseUrl: 'http://localhost:8000' })}
+      generateWith={generateLocally}
+      activePolicy={null}
+      history={{ status: 'locked', record } as unknown as HistoryState}
+      copy={jest.fn()}
+      clearSecrets={clearSecrets}
+      onDeviceToggle={null}
+    />,
+    route
+  );
+
+beforeEach(() => localStorage.clear());
+
+test('applies a preset from a bookmarked URL', async () => {
+  renderPage('/generate?length=20&symbols=0&exclude_ambiguous=1');
+
+  expect(screen.getByLabelText('Length: 20')).toHaveValue('20');
+  expect(screen.getByLabelText(/Symbols/)).not.toBeChecked();
+  expect(screen.getByLabelText('Exclude Ambiguous')).toBeChecked();
+  expect(screen.getByTestId('location')).toHaveTextContent(/count=5/);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Generate Passwords' }));
+  expect(await screen.findByText('Generated Passwords')).toBeInTheDocument();
+  screen.getAllByRole('button', { name: 'Show' }).forEach(button => fireEvent.click(button));
+  expect(screen.getAllByText(/^[A-Za-z0-9]{20}$/)).toHaveLength(5);
+});
+
+test('masks generated passwords until revealed and clears them on request', async () => {
+  const clearSecrets = jest.fn();
+  renderPage('/generate?count=2', clearSecrets);
+  fireEvent.click(screen.getByRole('button', { name: 'Generate Passwords' }));
+
+  const secrets = await screen.findAllByTestId('generated-secret');
+  expect(secrets.map(secret => secret.textContent)).toEqual(['••••••••••••••••Hidden', '••••••••••••••••Hidden']);
+
+  fireEvent.click(screen.getAllByRole('button', { name: 'Show' })[1]);
+  expect(screen.getByRole('button', { name: 'Hide' })).toHaveAttribute('aria-pressed', 'true');
+  expect(screen.getAllByTestId('generated-secret')[0]).toHaveTextContent('Hidden');
+  expect(screen.getAllByTestId('generated-secret')[1]).toHaveTextContent(/^\S{16}$/);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Clear all' }));
+  expect(screen.queryByTestId('generated-secret')).not.toBeInTheDocument();
+  expect(screen.queryByText('Generated Passwords')).not.toBeInTheDocument();
+  expect(clearSecrets).toHaveBeenCalledTimes(1);
+});
+
+test('reports a failed history write instead of leaving it unhandled', async () => {
+  const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+  const failure = new DOMException('Quota exceeded', 'QuotaExceededError');
+  renderPage('/generate?count=1', jest.fn(), jest.fn().mockRejectedValue(failure));
+  fireEvent.click(screen.getByRole('button', { name: 'Generate Passwords' }));
+
+  expect(await screen.findByText('Generated Passwords')).toBeInTheDocument();
+  await waitFor(() => expect(consoleError).toHaveBeenCalledWith('Error recording history:', failure));
+});
+
+test('writes changes to the URL and restores them from localStorage', () => {
+  const { unmount } = renderPage('/generate');
+  fireEvent.change(screen.getByLabelText('Count: 5'), { target: { value: '3' } });
+  fireEvent.click(screen.getByLabelText('Exclude Ambiguous'));
+
+  expect(screen.getByTestId('location')).toHaveTextContent(/count=3/);
+  expect(screen.getByTestId('location')).toHaveTextContent(/exclude_ambiguous=1/);
+  unmount();
+
+  renderPage('/generate');
+  expect(screen.getByLabelText('Count: 3')).toHaveValue('3');
+  expect(screen.getByLabelText('Exclude Ambiguous')).toBeChecked();
+  expect(screen.getByTestId('location')).toHaveTextContent(/count=3/);
+});
+
+test('falls back to defaults for invalid query values', () => {
+  renderPage('/generate?length=500&mode=emoji');
+  expect(screen.getByLabelText('Length: 16')).toHaveValue('16');
+  expect(screen.getByTestId('location')).toHaveTextContent(/length=16/);
+  expect(screen.getByTestId('location')).toHaveTextContent(/mode=charset/);
+});
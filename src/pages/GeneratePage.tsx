@@ -0,0 +1,334 @@
+import React, { useMemo, useState } from 'react';
+import { GeneratedPassword, GenerateRequest, PasswordPolicy } from '../types';
+import { ApiClient, ApiResult } from '../api/client';
+import {
+  DEFAULT_SYMBOLS, MAX_LENGTH, TEMPLATE_TOKENS, parseTemplate, symbolPool, templateEntropy, validateGenerateRequest
+} from '../lib/generator';
+import { generatePasswordsLocally } from '../lib/localGenerator';
+import { checkPolicy, generatorConflicts, isCompliant } from '../lib/policy';
+import { generatedEntries } from '../lib/history';
+import { SettingsSchema } from '../lib/urlSettings';
+import { useUrlSettings } from '../hooks/useUrlSettings';
+import { HistoryState } from '../hooks/useHistory';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+import SecretList, { ClearSecretsButton } from '../components/SecretList';
+
+// Asks the server or the device for secrets; resolves to null when the server refused
+export type GenerateWith = (
+  remote: () => Promise<ApiResult<GeneratedPassword[]>>,
+  local: () => GeneratedPassword[]
+) => Promise<GeneratedPassword[] | null>;
+
+type GeneratorModeType = 'charset' | 'template';
+
+export interface GeneratorSettings extends Record<string, string | number | boolean> {
+  mode: GeneratorModeType;
+  length: number;
+  count: number;
+  uppercase: boolean;
+  lowercase: boolean;
+  digits: boolean;
+  symbols: boolean;
+  excludeAmbiguous: boolean;
+  symbolSet: string;
+  minUppercase: number;
+  minLowercase: number;
+  minDigits: number;
+  minSymbols: number;
+  template: string;
+}
+
+// Query parameters of /generate, e.g. /generate?length=16&symbols=0&exclude_ambiguous=1
+export const GENERATOR_SETTINGS: SettingsSchema<GeneratorSettings> = {
+  mode: { param: 'mode', default: 'charset', options: ['charset', 'template'] },
+  length: { param: 'length', default: 16, min: 8, max: MAX_LENGTH },
+  count: { param: 'count', default: 5, min: 1, max: 10 },
+  uppercase: { param: 'uppercase', default: true },
+  lowercase: { param: 'lowercase', default: true },
+  digits: { param: 'digits', default: true },
+  symbols: { param: 'symbols', default: true },
+  excludeAmbiguous: { param: 'exclude_ambiguous', default: false },
+  symbolSet: { param: 'symbol_set', default: '' },
+  minUppercase: { param: 'min_uppercase', default: 0, min: 0, max: MAX_LENGTH },
+  minLowercase: { param: 'min_lowercase', default: 0, min: 0, max: MAX_LENGTH },
+  minDigits: { param: 'min_digits', default: 0, min: 0, max: MAX_LENGTH },
+  minSymbols: { param: 'min_symbols', default: 0, min: 0, max: MAX_LENGTH },
+  template: { param: 'template', default: 'Cvcc-9999-Cvcc' }
+};
+
+const SETTINGS_KEY = 'generatorSettings';
+
+interface GeneratePageProps {
+  client: ApiClient;
+  generateWith: GenerateWith;
+  activePolicy: PasswordPolicy | null;
+  history: HistoryState;
+  copy: (text: string) => void;
+  // Wipes the clipboard once the page has dropped its generated secrets
+  clearSecrets: () => void;
+  onDeviceToggle: React.ReactNode;
+}
+
+const GeneratePage: React.FC<GeneratePageProps> = ({
+  client, generateWith, activePolicy, history, copy, clearSecrets, onDeviceToggle
+}) => {
+  const { t, formatNumber, policyConflict, generatorError } = useI18n();
+  const [settings, updateSettings] = useUrlSettings(SETTINGS_KEY, GENERATOR_SETTINGS);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [generatedPasswords, setGeneratedPasswords] = useState<GeneratedPassword[]>([]);
+  const [policyRejected, setPolicyRejected] = useState<number>(0);
+
+  const generateRequest: GenerateRequest = {
+    length: settings.length,
+    count: settings.count,
+    include_uppercase: settings.uppercase,
+    include_lowercase: settings.lowercase,
+    include_digits: settings.digits,
+    include_symbols: settings.symbols,
+    exclude_ambiguous: settings.excludeAmbiguous,
+    ...(settings.symbolSet && { custom_symbols: settings.symbolSet }),
+    ...(settings.mode === 'template' ? { template: settings.template } : {
+      min_uppercase: settings.uppercase ? settings.minUppercase : 0,
+      min_lowercase: settings.lowercase ? settings.minLowercase : 0,
+      min_digits: settings.digits ? settings.minDigits : 0,
+      min_symbols: settings.symbols ? settings.minSymbols : 0
+    })
+  };
+  const generatorErrors = validateGenerateRequest(generateRequest);
+  const policyConflicts = activePolicy ? generatorConflicts(activePolicy, generateRequest) : [];
+  const { template, symbolSet, excludeAmbiguous } = settings;
+  const templatePreview = useMemo(() => {
+    try {
+      const slots = parseTemplate(template, symbolPool({ custom_symbols: symbolSet }), excludeAmbiguous);
+      return { length: slots.length, entropy: templateEntropy(slots) };
+    } catch {
+      return null;
+    }
+  }, [template, symbolSet, excludeAmbiguous]);
+
+  const clearGenerated = (): void => {
+    setGeneratedPasswords([]);
+    setPolicyRejected(0);
+    clearSecrets();
+  };
+
+  const generatePasswords = async (): Promise<void> => {
+    if (policyConflicts.length > 0 || generatorErrors.length > 0) return;
+
+    setLoading(true);
+    const generated = await generateWith(
+      () => client.generate(generateRequest),
+      () => generatePasswordsLocally(generateRequest)
+    );
+    setLoading(false);
+    if (!generated) return;
+
+    // Never hand out a password the active policy would reject
+    const compliant = activePolicy
+      ? generated.filter(item => isCompliant(checkPolicy(item.password, activePolicy, { entropy: item.metadata.entropy })))
+      : generated;
+    setPolicyRejected(generated.length - compliant.length);
+    setGeneratedPasswords(compliant);
+    history.record(generatedEntries('password', compliant))
+      .catch(error => console.error('Error recording history:', error));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <h3 className="text-xl font-bold mb-6">{t('generate.settings')}</h3>
+
+        {/* Generator Mode */}
+        <div className="flex gap-2 mb-6">
+          {[
+            { id: 'charset' as GeneratorModeType, label: t('generate.charset') },
+            { id: 'template' as GeneratorModeType, label: t('generate.template') }
+          ].map(mode => (
+            <button
+              key={mode.id}
+              onClick={() => updateSettings({ mode: mode.id })}
+              aria-pressed={settings.mode === mode.id}
+              className={`px-4 py-2 rounded-xl text-sm font-medium border-2 transition-all ${
+                settings.mode === mode.id ? 'border-blue-500 text-blue-600' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          {settings.mode === 'charset' ? (
+            <div>
+              <label htmlFor="gen-length" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generate.length', { length: settings.length })}
+              </label>
+              <input
+                id="gen-length"
+                type="range"
+                min="8"
+                max={MAX_LENGTH}
+                value={settings.length}
+                onChange={(e) => updateSettings({ length: parseInt(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="gen-template" className="block text-sm font-medium text-gray-700 mb-2">
+                {t('generate.templateInput')}
+              </label>
+              <input
+                id="gen-template"
+                type="text"
+                value={settings.template}
+                onChange={(e) => updateSettings({ template: e.target.value })}
+                className="w-full px-4 py-2 font-mono border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+              />
+              {templatePreview && (
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('generate.templatePreview', { length: templatePreview.length, bits: formatNumber(templatePreview.entropy, fixed(1)) })}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="gen-count" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('generate.count', { count: settings.count })}
+            </label>
+            <input
+              id="gen-count"
+              type="range"
+              min="1"
+              max="10"
+              value={settings.count}
+              onChange={(e) => updateSettings({ count: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {settings.mode === 'template' && (
+          <div className="mb-6 grid grid-cols-2 md:grid-cols-3 gap-2 text-xs text-gray-600">
+            {Object.entries(TEMPLATE_TOKENS).map(([token, { kind }]) => (
+              <span key={token}><code className="px-1 bg-gray-100 rounded font-bold">{token}</code> {t(`generate.token.${kind}`)}</span>
+            ))}
+            <span><code className="px-1 bg-gray-100 rounded font-bold">\x</code> {t('generate.templateLiteral')}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-6">
+          {[
+            { label: t('generate.uppercase'), key: 'uppercase' as const },
+            { label: t('generate.lowercase'), key: 'lowercase' as const },
+            { label: t('generate.digits'), key: 'digits' as const },
+            { label: t('generate.symbols'), key: 'symbols' as const },
+            { label: t('generate.excludeAmbiguous'), key: 'excludeAmbiguous' as const }
+          ].filter(item => settings.mode === 'charset' || item.key === 'excludeAmbiguous').map(item => (
+            <label key={item.key} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[item.key]}
+                onChange={(e) => updateSettings({ [item.key]: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              <span className="text-sm">{item.label}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label htmlFor="gen-symbols" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('generate.symbolSet')}
+            </label>
+            <input
+              id="gen-symbols"
+              type="text"
+              value={settings.symbolSet}
+              onChange={(e) => updateSettings({ symbolSet: e.target.value })}
+              placeholder={DEFAULT_SYMBOLS}
+              className="w-full px-4 py-2 font-mono border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">{t('generate.symbolSetHint')}</p>
+          </div>
+
+          {settings.mode === 'charset' && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">{t('generate.minimumPerClass')}</span>
+              <div className="grid grid-cols-4 gap-2">
+                {[
+                  { key: 'minUppercase' as const, label: 'A-Z', enabled: settings.uppercase },
+                  { key: 'minLowercase' as const, label: 'a-z', enabled: settings.lowercase },
+                  { key: 'minDigits' as const, label: '0-9', enabled: settings.digits },
+                  { key: 'minSymbols' as const, label: '!@#', enabled: settings.symbols }
+                ].map(item => (
+                  <label key={item.key} className="text-xs text-gray-600">
+                    {item.label}
+                    <input
+                      type="number"
+                      min="0"
+                      max={settings.length}
+                      value={item.enabled ? settings[item.key] : 0}
+                      disabled={!item.enabled}
+                      onChange={(e) => updateSettings({
+                        [item.key]: Math.min(Math.max(0, parseInt(e.target.value) || 0), MAX_LENGTH)
+                      })}
+                      className="w-full px-2 py-1 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none disabled:opacity-50"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {generatorErrors.length > 0 && (
+          <div className="mb-6 p-3 bg-red-50 rounded-lg text-red-800 text-sm">
+            <ul className="list-disc list-inside">
+              {generatorErrors.map(error => <li key={error.code}>{generatorError(error)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {activePolicy && policyConflicts.length > 0 && (
+          <div className="mb-6 p-3 bg-yellow-50 rounded-lg text-yellow-800 text-sm">
+            <p className="font-medium">{t('generate.policyConflict', { policy: activePolicy.name })}</p>
+            <ul className="list-disc list-inside">
+              {policyConflicts.map(conflict => <li key={conflict.code}>{policyConflict(conflict)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {onDeviceToggle}
+
+        <button
+          onClick={generatePasswords}
+          disabled={loading || policyConflicts.length > 0 || generatorErrors.length > 0}
+          className="w-full bg-gradient-to-r from-green-500 to-blue-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          {loading ? t('generate.generating') : t('generate.submit')}
+        </button>
+      </div>
+
+      {(generatedPasswords.length > 0 || policyRejected > 0) && (
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold">{t('generate.results')}</h3>
+            <ClearSecretsButton onClick={clearGenerated} />
+          </div>
+          {policyRejected > 0 && activePolicy && (
+            <p className="mb-4 text-sm text-yellow-700">
+              {t('generate.policyRejected', { count: policyRejected, policy: activePolicy.name })}
+            </p>
+          )}
+          <SecretList items={generatedPasswords} copy={copy} copyLabel={t('generate.copy')} monospace />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeneratePage;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { screen, fireEvent } from '@testing-library/react';
+import PassphrasePage from './PassphrasePage';
+import { GenerateWith } from './GeneratePage';
+import { createApiClient } from '../api/client';
+import { HistoryState } from '../hooks/useHistory';
+import { renderWithRouter } from '../test-utils/renderWithRouter';
+
+const generateLocally: GenerateWith = async (_remote, local) => local();
+
+const renderPage = (route: string) =>
+  renderWithRouter(
+    <PassphrasePage
+      client={createApiClient({ baseUrl: 'http://localhost:8000' })}
+      generateWith={generateLocally}
+      history={{ status: 'locked', record: jest.fn().mockResolvedValue(undefined) } as unknown as HistoryState}
+      copy={jest.fn()}
+      clearSecrets={jest.fn()}
+      onDeviceToggle={null}
+    />,
+    route
+  );
+
+beforeEach(() => localStorage.clear());
+
+test('applies a preset from a bookmarked URL', async () => {
+  renderPage('/passphrase?words=6&separator=.&count=2');
+
+  expect(screen.getByLabelText('Number of Words: 6')).toHaveValue('6');
+  expect(screen.getByLabelText('Separator')).toHaveValue('.');
+
+  fireEvent.click(screen.getByRole('button', { name: 'Generate Passphrases' }));
+  expect(await screen.findByText('Generated Passphrases')).toBeInTheDocument();
+  screen.getAllByRole('button', { name: 'Show' }).forEach(button => fireEvent.click(button));
+  expect(screen.getAllByText(/^[a-z]+(\.[a-z]+){5}$/)).toHaveLength(2);
+});
+
+test('restores the last used settings when the URL has none', () => {
+  const { unmount } = renderPage('/passphrase');
+  fireEvent.change(screen.getByLabelText('Capitalization'), { target: { value: 'first_letter' } });
+  expect(screen.getByTestId('location')).toHaveTextContent(/capitalization=first_letter/);
+  unmount();
+
+  renderPage('/passphrase');
+  expect(screen.getByLabelText('Capitalization')).toHaveValue('first_letter');
+});
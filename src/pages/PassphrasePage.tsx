@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { CapitalizationStyle, GeneratedPassword, PassphraseRequest, WordlistId } from '../types';
+import { ApiClient } from '../api/client';
+import { generatePassphrasesLocally } from '../lib/localGenerator';
+import {
+  CAPITALIZATION_STYLES, parseWordlist, passphraseEntropy, validateWordlist, WordlistError, WORDLISTS
+} from '../lib/passphrase';
+import { readFileText } from '../lib/files';
+import { generatedEntries } from '../lib/history';
+import { SettingsSchema } from '../lib/urlSettings';
+import { useUrlSettings } from '../hooks/useUrlSettings';
+import { HistoryState } from '../hooks/useHistory';
+import { useI18n } from '../i18n/I18nProvider';
+import { fixed } from '../i18n';
+import { GenerateWith } from './GeneratePage';
+import SecretList, { ClearSecretsButton } from '../components/SecretList';
+
+type WordlistChoice = WordlistId | 'custom';
+
+export interface PassphraseSettings extends Record<string, string | number | boolean> {
+  words: number;
+  separator: string;
+  count: number;
+  wordlist: WordlistChoice;
+  capitalization: CapitalizationStyle;
+  insertDigit: boolean;
+  insertSymbol: boolean;
+}
+
+// Query parameters of /passphrase, e.g. /passphrase?words=6&separator=.
+export const PASSPHRASE_SETTINGS: SettingsSchema<PassphraseSettings> = {
+  words: { param: 'words', default: 4, min: 2, max: 8 },
+  separator: { param: 'separator', default: '-' },
+  count: { param: 'count', default: 5, min: 1, max: 10 },
+  wordlist: { param: 'wordlist', default: 'eff_large', options: [...Object.keys(WORDLISTS), 'custom'] },
+  capitalization: { param: 'capitalization', default: 'none', options: Object.keys(CAPITALIZATION_STYLES) },
+  insertDigit: { param: 'insert_digit', default: false },
+  insertSymbol: { param: 'insert_symbol', default: false }
+};
+
+const SETTINGS_KEY = 'passphraseSettings';
+const PRESET_SEPARATORS = ['-', '_', ' ', '.', ''];
+
+interface PassphrasePageProps {
+  client: ApiClient;
+  generateWith: GenerateWith;
+  history: HistoryState;
+  copy: (text: string) => void;
+  clearSecrets: () => void;
+  onDeviceToggle: React.ReactNode;
+}
+
+const PassphrasePage: React.FC<PassphrasePageProps> = ({ client, generateWith, history, copy, clearSecrets, onDeviceToggle }) => {
+  const { t, formatNumber, wordlistError } = useI18n();
+  const [settings, updateSettings] = useUrlSettings(SETTINGS_KEY, PASSPHRASE_SETTINGS);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [customSeparator, setCustomSeparator] = useState<boolean>(() => !PRESET_SEPARATORS.includes(settings.separator));
+  const [customWordlist, setCustomWordlist] = useState<{ name: string; words: string[] } | null>(null);
+  const [wordlistErrors, setWordlistErrors] = useState<WordlistError[]>([]);
+  const [generatedPhrases, setGeneratedPhrases] = useState<GeneratedPassword[]>([]);
+
+  const passphraseRequest: PassphraseRequest = {
+    num_words: settings.words,
+    separator: settings.separator,
+    count: settings.count,
+    capitalization: settings.capitalization,
+    insert_digit: settings.insertDigit,
+    insert_symbol: settings.insertSymbol,
+    ...(settings.wordlist !== 'custom' && { wordlist: settings.wordlist })
+  };
+  const phraseWords = settings.wordlist === 'custom' ? customWordlist?.words || [] : WORDLISTS[settings.wordlist].words;
+
+  const loadWordlist = async (file: File): Promise<void> => {
+    const words = parseWordlist(await readFileText(file));
+    const errors = validateWordlist(words);
+    setWordlistErrors(errors);
+    setCustomWordlist(errors.length === 0 ? { name: file.name, words } : null);
+  };
+
+  const clearGenerated = (): void => {
+    setGeneratedPhrases([]);
+    clearSecrets();
+  };
+
+  const generatePassphrases = async (): Promise<void> => {
+    // The server only knows its bundled lists, so uploaded ones never leave the device
+    if (settings.wordlist === 'custom') {
+      const generated = generatePassphrasesLocally(passphraseRequest, phraseWords);
+      setGeneratedPhrases(generated);
+      history.record(generatedEntries('passphrase', generated))
+        .catch(error => console.error('Error recording history:', error));
+      return;
+    }
+    setLoading(true);
+    const generated = await generateWith(
+      () => client.generatePassphrase(passphraseRequest),
+      () => generatePassphrasesLocally(passphraseRequest)
+    );
+    setLoading(false);
+    if (!generated) return;
+    setGeneratedPhrases(generated);
+    history.record(generatedEntries('passphrase', generated))
+      .catch(error => console.error('Error recording history:', error));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-xl p-8">
+        <h3 className="text-xl font-bold mb-6">{t('passphrase.settings')}</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <label htmlFor="phrase-words" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('passphrase.words', { count: settings.words })}
+            </label>
+            <input
+              id="phrase-words"
+              type="range"
+              min="2"
+              max="8"
+              value={settings.words}
+              onChange={(e) => updateSettings({ words: parseInt(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+
+          <div>
+            <label htmlFor="phrase-separator" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('passphrase.separator')}
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="phrase-separator"
+                value={customSeparator ? 'custom' : settings.separator}
+                onChange={(e) => {
+                  setCustomSeparator(e.target.value === 'custom');
+                  if (e.target.value !== 'custom') updateSettings({ separator: e.target.value });
+                }}
+                className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+              >
+                <option value="-">{t('passphrase.separatorDash')}</option>
+                <option value="_">{t('passphrase.separatorUnderscore')}</option>
+                <option value=" ">{t('passphrase.separatorSpace')}</option>
+                <option value=".">{t('passphrase.separatorDot')}</option>
+                <option value="">{t('passphrase.separatorNone')}</option>
+                <option value="custom">{t('passphrase.separatorCustom')}</option>
+              </select>
+              {customSeparator && (
+                <input
+                  type="text"
+                  value={settings.separator}
+                  onChange={(e) => updateSettings({ separator: e.target.value })}
+                  aria-label={t('passphrase.customSeparator')}
+                  className="w-28 px-4 py-2 font-mono border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+                />
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="phrase-wordlist" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('passphrase.wordlist')}
+            </label>
+            <select
+              id="phrase-wordlist"
+              value={settings.wordlist}
+              onChange={(e) => updateSettings({ wordlist: e.target.value as WordlistChoice })}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+            >
+              {(Object.keys(WORDLISTS) as WordlistId[]).map(id => (
+                <option key={id} value={id}>
+                  {t('passphrase.wordlistOption', { name: WORDLISTS[id].label, count: WORDLISTS[id].words.length })}
+                </option>
+              ))}
+              <option value="custom">
+                {customWordlist
+                  ? t('passphrase.wordlistOption', { name: customWordlist.name, count: customWordlist.words.length })
+                  : t('passphrase.upload')}
+              </option>
+            </select>
+            {settings.wordlist === 'custom' && (
+              <input
+                type="file"
+                accept=".txt,text/plain"
+                onChange={(e) => e.target.files?.[0] && loadWordlist(e.target.files[0])}
+                className="mt-2 text-sm"
+                data-testid="wordlist-file-input"
+              />
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="phrase-capitalization" className="block text-sm font-medium text-gray-700 mb-2">
+              {t('passphrase.capitalization')}
+            </label>
+            <select
+              id="phrase-capitalization"
+              value={settings.capitalization}
+              onChange={(e) => updateSettings({ capitalization: e.target.value as CapitalizationStyle })}
+              className="w-full px-4 py-2 border-2 border-gray-200 rounded-xl focus:border-blue-500 focus:outline-none"
+            >
+              {(Object.keys(CAPITALIZATION_STYLES) as CapitalizationStyle[]).map(style => (
+                <option key={style} value={style}>{t(`passphrase.capitalization.${style}`)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {settings.wordlist === 'custom' && wordlistErrors.length > 0 && (
+          <div className="mb-6 p-3 bg-red-50 rounded-lg text-red-800 text-sm">
+            <ul className="list-disc list-inside">
+              {wordlistErrors.map(error => <li key={error.code}>{wordlistError(error)}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-6 mb-6">
+          {[
+            { label: t('passphrase.insertDigit'), key: 'insertDigit' as const },
+            { label: t('passphrase.insertSymbol'), key: 'insertSymbol' as const }
+          ].map(item => (
+            <label key={item.key} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings[item.key]}
+                onChange={(e) => updateSettings({ [item.key]: e.target.checked })}
+                className="w-4 h-4 text-blue-600 rounded"
+              />
+              <span className="text-sm">{item.label}</span>
+            </label>
+          ))}
+          <span className="text-sm text-gray-500">{t('passphrase.insertHint')}</span>
+        </div>
+
+        <div className="mb-6">
+          <label htmlFor="phrase-count" className="block text-sm font-medium text-gray-700 mb-2">
+            {t('passphrase.count', { count: settings.count })}
+          </label>
+          <input
+            id="phrase-count"
+            type="range"
+            min="1"
+            max="10"
+            value={settings.count}
+            onChange={(e) => updateSettings({ count: parseInt(e.target.value) })}
+            className="w-full"
+          />
+        </div>
+
+        {phraseWords.length > 0 && (
+          <p className="mb-6 text-sm text-gray-600">
+            {t('passphrase.entropy', { bits: formatNumber(passphraseEntropy(passphraseRequest, phraseWords.length), fixed(1)) })}
+            {settings.wordlist === 'custom' && ` ${t('passphrase.uploadedLocal')}`}
+          </p>
+        )}
+
+        {onDeviceToggle}
+
+        <button
+          onClick={generatePassphrases}
+          disabled={loading || phraseWords.length === 0}
+          className="w-full bg-gradient-to-r from-purple-500 to-pink-600 text-white py-3 rounded-xl font-medium hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          {loading ? t('generate.generating') : t('passphrase.submit')}
+        </button>
+      </div>
+
+      {generatedPhrases.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-xl p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold">{t('passphrase.results')}</h3>
+            <ClearSecretsButton onClick={clearGenerated} />
+          </div>
+          <SecretList items={generatedPhrases} copy={copy} copyLabel={t('passphrase.copy')} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PassphrasePage;
@@ -3,3 +3,13 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+// toHaveNoViolations for the axe accessibility checks
+import 'jest-axe/extend-expect';
+import { webcrypto } from 'crypto';
+import { TextEncoder, TextDecoder } from 'util';
+
+// jsdom lacks Web Crypto and TextEncoder; borrow Node's implementations
+Object.assign(globalThis, { TextEncoder, TextDecoder });
+if (!globalThis.crypto) {
+  Object.defineProperty(globalThis, 'crypto', { value: webcrypto });
+}
@@ -0,0 +1,25 @@
+import { HistoryBackend, HistoryMeta, StoredRecord } from '../lib/history';
+
+// In-memory HistoryBackend for tests. Exposes the raw stored records so tests can
+// check that nothing readable is written to disk.
+
+export interface MemoryHistoryBackend extends HistoryBackend {
+  records: Map<string, StoredRecord>;
+}
+
+export const createMemoryHistoryBackend = (): MemoryHistoryBackend => {
+  const records = new Map<string, StoredRecord>();
+  let meta: HistoryMeta | null = null;
+  return {
+    records,
+    getMeta: async () => meta,
+    setMeta: async next => { meta = next; },
+    list: async () => Array.from(records.values()),
+    put: async record => { records.set(record.id, record); },
+    remove: async ids => { ids.forEach(id => records.delete(id)); },
+    clear: async () => {
+      records.clear();
+      meta = null;
+    }
+  };
+};
@@ -0,0 +1,97 @@
+import { AnalyzeRequest, GeneratedPassword, GenerateRequest, HealthStatus, PassphraseRequest } from '../types';
+import { analyzeLocally } from '../lib/localAnalyzer';
+
+// In-memory stand-in for /health, /analyze, /generate and /generate/passphrase.
+// Analysis comes from the local heuristic, relabeled as a model prediction; generated
+// secrets are deterministic so tests can assert on them. Every request is recorded.
+
+export type MockApiRequestBody = AnalyzeRequest | GenerateRequest | PassphraseRequest;
+
+export interface MockApiRequest {
+  method: string;
+  path: string;
+  body?: MockApiRequestBody;
+}
+
+export interface MockApiOptions {
+  health?: Partial<HealthStatus>;
+  // Passwords the mock breach database knows, with their counts
+  breached?: Record<string, number>;
+  // Status returned for every request instead of a response, e.g. 500
+  failWith?: number;
+}
+
+export interface MockApiServer {
+  fetch: jest.Mock<Promise<Response>, [RequestInfo | URL, RequestInit?]>;
+  requests: MockApiRequest[];
+}
+
+export const MOCK_MODEL = 'random_forest';
+
+const PASSPHRASE_WORDS = ['correct', 'horse', 'battery', 'staple', 'orbit', 'lantern', 'meadow', 'quartz'];
+
+// The wire format pairs passwords with their metadata by index
+const generatedResponse = (secrets: GeneratedPassword[]) => ({
+  passwords: secrets.map(({ password }) => password),
+  metadata: secrets.map(({ metadata }) => metadata)
+});
+
+const json = (data: unknown, status = 200): Response =>
+  ({ ok: status < 400, status, json: async () => data, text: async () => JSON.stringify(data) } as Response);
+
+const generated = (password: string, entropy: number): GeneratedPassword => ({
+  password,
+  metadata: { length: password.length, entropy, crack_time_gpu: 'centuries' }
+});
+
+const mockPasswords = ({ length, count }: GenerateRequest): GeneratedPassword[] =>
+  Array.from({ length: count }, (_, i) => generated(`${i}Aa!`.repeat(length).slice(0, length), length * 6));
+
+const mockPassphrases = ({ num_words, separator, count }: PassphraseRequest): GeneratedPassword[] =>
+  Array.from({ length: count }, (_, i) => generated(
+    Array.from({ length: num_words }, (_, w) => PASSPHRASE_WORDS[(i + w) % PASSPHRASE_WORDS.length]).join(separator),
+    num_words * 12.9
+  ));
+
+export const createMockApiServer = ({ health = {}, breached = {}, failWith }: MockApiOptions = {}): MockApiServer => {
+  const requests: MockApiRequest[] = [];
+
+  const fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const path = new URL(String(input)).pathname;
+    const method = init?.method || 'GET';
+    const body: MockApiRequestBody | undefined = init?.body ? JSON.parse(String(init.body)) : undefined;
+    requests.push({ method, path, body });
+    if (failWith) return json({ detail: 'Mock failure' }, failWith);
+
+    // The route decides which payload the body carries
+    switch (`${method} ${path}`) {
+      case 'GET /health':
+        return json({
+          status: 'healthy',
+          models_loaded: true,
+          available_models: [MOCK_MODEL],
+          breach_database_size: 1000,
+          ...health
+        });
+      case 'POST /analyze': {
+        const { password } = body as AnalyzeRequest;
+        const { source, breach_check, ...result } = analyzeLocally(password);
+        const breachCount = breached[password] || 0;
+        return json({
+          ...result,
+          predictions: { [MOCK_MODEL]: result.consensus },
+          is_breached: breachCount > 0,
+          breach_count: breachCount
+        });
+      }
+      case 'POST /generate':
+        return json(generatedResponse(mockPasswords(body as GenerateRequest)));
+      case 'POST /generate/passphrase':
+        return json(generatedResponse(mockPassphrases(body as PassphraseRequest)));
+      default:
+        return json({ detail: 'Not Found' }, 404);
+    }
+  });
+
+  return { fetch, requests };
+};
@@ -0,0 +1,35 @@
+import { createHash } from 'crypto';
+
+// In-memory stand-in for the /breach/range/{prefix} endpoint. It records every
+// requested URL so tests can assert that no plaintext ever reaches the network.
+
+export interface MockRangeServer {
+  fetch: jest.Mock<Promise<Response>, [RequestInfo | URL, RequestInit?]>;
+  requests: string[];
+}
+
+const sha1 = (text: string): string => createHash('sha1').update(text).digest('hex').toUpperCase();
+
+export const createMockRangeServer = (breached: Record<string, number>, padding = 3): MockRangeServer => {
+  const requests: string[] = [];
+  const hashes = Object.entries(breached).map(([password, count]) => [sha1(password), count] as const);
+
+  const fetch = jest.fn(async (input: RequestInfo | URL, _init?: RequestInit) => {
+    const url = String(input);
+    requests.push(url);
+
+    const match = url.match(/\/breach\/range\/([0-9A-F]{5})$/i);
+    if (!match) return { ok: false, status: 404, text: async () => '' } as Response;
+
+    const prefix = match[1].toUpperCase();
+    const lines = hashes
+      .filter(([hash]) => hash.startsWith(prefix))
+      .map(([hash, count]) => `${hash.slice(5)}:${count}`);
+    for (let i = 0; i < padding; i++) {
+      lines.push(`${sha1(`padding-${prefix}-${i}`).slice(5)}:0`);
+    }
+    return { ok: true, status: 200, text: async () => lines.join('\r\n') } as Response;
+  });
+
+  return { fetch, requests };
+};
@@ -0,0 +1,24 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { MemoryRouter, useLocation } from 'react-router-dom';
+import { I18nProvider } from '../i18n/I18nProvider';
+
+// Renders a routed tree the way src/index.tsx mounts the app, starting at `route`.
+// The current location is exposed as text in a `location` test id.
+
+export const ROUTER_FUTURE = { v7_startTransition: true, v7_relativeSplatPath: true };
+
+const LocationDisplay: React.FC = () => {
+  const location = useLocation();
+  return <div data-testid="location">{location.pathname + location.search}</div>;
+};
+
+export const renderWithRouter = (ui: React.ReactElement, route = '/') =>
+  render(
+    <I18nProvider>
+      <MemoryRouter initialEntries={[route]} future={ROUTER_FUTURE}>
+        {ui}
+        <LocationDisplay />
+      </MemoryRouter>
+    </I18nProvider>
+  );
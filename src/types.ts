@@ -0,0 +1,203 @@
+// Shared type definitions for the analyzer API and the local fallback engine
+
+export type AnalysisSource = 'models' | 'local';
+
+// 'server': plaintext lookup by /analyze, 'range': k-anonymity prefix query,
+// 'none': breach database was not consulted
+export type BreachCheckMode = 'server' | 'range' | 'none';
+
+// Signed contribution of one input feature to a model's verdict; positive
+// values push toward a stronger label
+export interface FeatureAttribution {
+  feature: string;
+  contribution: number;
+  value?: number | string;
+}
+
+export interface ModelDetail {
+  probabilities: Record<string, number>;
+  top_features: FeatureAttribution[];
+}
+
+// 'personal': matches details the user supplied about themselves (see user_inputs)
+export type PatternKind = 'common' | 'keyboard' | 'sequence' | 'repeat' | 'date' | 'leet' | 'dictionary' | 'personal';
+
+// One pattern finding located in the password as the half-open range [start, end)
+export interface PatternFinding {
+  kind: PatternKind;
+  start: number;
+  end: number;
+  description: string;
+  // Like guidance: a stable code plus its values, so the description can be worded per locale
+  code?: string;
+  params?: Record<string, string | number>;
+}
+
+// Translatable guidance: a stable code plus the values to interpolate. `message`
+// stays the English rendering for clients that do not know the code.
+export interface GuidanceMessage {
+  code: string;
+  params?: Record<string, string | number>;
+  message: string;
+}
+
+export type WarningSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export interface AnalysisWarning {
+  message: string;
+  severity: WarningSeverity;
+  code?: string;
+  params?: Record<string, string | number>;
+}
+
+export interface CrackTimeSeconds {
+  online_throttled: number;
+  online_fast: number;
+  offline_gpu: number;
+  offline_super: number;
+}
+
+export interface AnalysisResult {
+  password: string;
+  length: number;
+  predictions: Record<string, string>;
+  consensus: string;
+  agreement_percentage: number;
+  metrics: {
+    shannon_entropy: number;
+    practical_entropy: number;
+  };
+  composition: {
+    lowercase: number;
+    uppercase: number;
+    digits: number;
+    symbols: number;
+    spaces: number;
+    unique: number;
+  };
+  crack_time: {
+    online_throttled: string;
+    online_fast: string;
+    offline_gpu: string;
+    offline_super: string;
+  };
+  patterns: string[];
+  dictionary_words: string[];
+  suggestions: string[];
+  warnings: string[];
+  is_breached: boolean;
+  breach_count: number;
+  // Per-model class probabilities and attributions, when the backend reports them
+  model_details?: Record<string, ModelDetail>;
+  // Located versions of `patterns` and graded versions of `warnings`, when reported
+  pattern_matches?: PatternFinding[];
+  warning_details?: AnalysisWarning[];
+  // Numeric and coded versions of `crack_time` and `suggestions` for localized display
+  crack_time_seconds?: CrackTimeSeconds;
+  suggestion_details?: GuidanceMessage[];
+  // Set on the client: which engine produced this result and the breach verdict
+  source?: AnalysisSource;
+  breach_check?: BreachCheckMode;
+}
+
+// Request body for /analyze. `user_inputs` are the user's own name, email, dates and
+// the like, so the backend can penalize passwords built from them.
+export interface AnalyzeRequest {
+  password: string;
+  user_inputs?: string[];
+}
+
+export interface GeneratedPassword {
+  password: string;
+  metadata: {
+    length: number;
+    entropy: number;
+    crack_time_gpu: string;
+    crack_time_gpu_seconds?: number;
+  };
+}
+
+// Request bodies for /generate and /generate/passphrase
+export interface GenerateRequest {
+  length: number;
+  count: number;
+  include_uppercase: boolean;
+  include_lowercase: boolean;
+  include_digits: boolean;
+  include_symbols: boolean;
+  exclude_ambiguous: boolean;
+  // Replaces the server's default symbol set when present
+  custom_symbols?: string;
+  min_uppercase?: number;
+  min_lowercase?: number;
+  min_digits?: number;
+  min_symbols?: number;
+  // Pattern such as "Cvcc-9999-Cvcc"; overrides length and the class options
+  template?: string;
+}
+
+export type WordlistId = 'eff_large' | 'eff_short';
+export type CapitalizationStyle = 'none' | 'first_letter' | 'random_word';
+
+export interface PassphraseRequest {
+  num_words: number;
+  separator: string;
+  count: number;
+  wordlist?: WordlistId;
+  capitalization?: CapitalizationStyle;
+  // Each adds one random character at a random word boundary
+  insert_digit?: boolean;
+  insert_symbol?: boolean;
+}
+
+// Reachability of the API as shown in the header; 'offline' switches to local mode
+export type ApiStatus = 'checking' | 'healthy' | 'no-models' | 'offline';
+
+export interface HealthStatus {
+  status: string;
+  models_loaded: boolean;
+  available_models: string[];
+  breach_database_size: number;
+}
+
+// Organization password policy; limits of 0 disable the corresponding rule
+export interface PasswordPolicy {
+  name: string;
+  min_length: number;
+  require_uppercase: boolean;
+  require_lowercase: boolean;
+  require_digits: boolean;
+  require_symbols: boolean;
+  banned_substrings: string[];
+  max_repeated_chars: number;
+  min_entropy: number;
+  must_not_be_breached: boolean;
+}
+
+// Local history, encrypted at rest in IndexedDB
+export type HistoryEntryKind = 'analysis' | 'password' | 'passphrase';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryEntryKind;
+  created_at: number;
+  // Empty for entries that keep the default label, which is worded in the reader's language
+  label: string;
+  // SHA-256 of an analyzed password, so repeat analyses can be recognized without storing it
+  password_hash?: string;
+  // Always kept for generated secrets; for analyses only when the user opts in
+  password?: string;
+  consensus?: string;
+  entropy?: number;
+  crack_time_gpu?: string;
+  crack_time_gpu_seconds?: number;
+  // Analyzed password length, for the default label
+  length?: number;
+}
+
+export interface HistorySettings {
+  enabled: boolean;
+  // 0 keeps entries until they are deleted
+  expire_days: number;
+  store_analyzed_passwords: boolean;
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import StrengthWidget, { StrengthVerdict } from './StrengthWidget';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { DEFAULT_POLICY } from '../lib/policy';
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+test('renders nothing until there is a password', () => {
+  const { container } = render(<StrengthWidget password="" debounceMs={0} />);
+  expect(container).toBeEmptyDOMElement();
+});
+
+test('estimates in the browser without an API and reports the verdict', async () => {
+  const onResult = jest.fn();
+  render(<StrengthWidget password="password" maxSuggestions={2} debounceMs={0} onResult={onResult} />);
+
+  await waitFor(() => expect(onResult).toHaveBeenCalledTimes(1));
+  const verdict: StrengthVerdict = onResult.mock.calls[0][0];
+  expect(verdict.result.source).toBe('local');
+  expect(verdict.checks).toEqual([]);
+  expect(verdict.compliant).toBe(true);
+
+  const widget = screen.getByTestId('strength-widget');
+  expect(within(widget).getByTestId('strength-meter')).toHaveTextContent('Weak');
+  expect(within(widget).getAllByRole('listitem').length).toBeLessThanOrEqual(2);
+  expect(screen.getByRole('status')).toHaveTextContent(/Analysis complete: Weak/);
+});
+
+test('checks the policy and lists the rules that fail', async () => {
+  const onResult = jest.fn();
+  render(<StrengthWidget password="abc" policy={DEFAULT_POLICY} debounceMs={0} onResult={onResult} />);
+
+  expect(await screen.findByTestId('widget-policy')).toHaveTextContent('At least 12 characters');
+  expect(onResult.mock.calls[0][0].compliant).toBe(false);
+});
+
+test('asks the API when given one and falls back to the browser when it fails', async () => {
+  const fetchMock = jest.fn((_input: RequestInfo | URL, _init?: RequestInit) => {
+    const { source, breach_check, ...local } = analyzeLocally('Tr0ub4dor&3');
+    return Promise.resolve({ ok: true, json: async () => ({ ...local, predictions: { rf: 'Strong' }, consensus: 'Strong' }) } as Response);
+  });
+  global.fetch = fetchMock;
+  const onResult = jest.fn();
+
+  const { rerender } = render(
+    <StrengthWidget password="Tr0ub4dor&3" apiUrl="https://api.example.com/" debounceMs={0} onResult={onResult} />
+  );
+  await waitFor(() => expect(onResult).toHaveBeenCalledTimes(1));
+  expect(fetchMock.mock.calls[0][0]).toBe('https://api.example.com/analyze');
+  expect(onResult.mock.calls[0][0].result.source).toBe('models');
+  expect(screen.getByTestId('strength-meter')).toHaveTextContent('Strong');
+
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  fetchMock.mockImplementation(() => Promise.reject(new TypeError('Failed to fetch')));
+  rerender(<StrengthWidget password="Tr0ub4dor&3!" apiUrl="https://api.example.com/" debounceMs={0} onResult={onResult} />);
+  await waitFor(() => expect(onResult).toHaveBeenCalledTimes(2));
+  expect(onResult.mock.calls[1][0].result.source).toBe('local');
+});
+
+test('uses the given locale and theme without touching the host document', async () => {
+  render(<StrengthWidget password="password" locale="fr" theme="dark" debounceMs={0} />);
+
+  const widget = await screen.findByTestId('strength-meter');
+  await waitFor(() => expect(widget).toHaveTextContent('Faible'));
+  expect(screen.getByText('Recommandations')).toBeInTheDocument();
+  expect(screen.getByTestId('strength-widget')).toHaveClass('dark');
+  expect(screen.getByTestId('strength-widget')).toHaveAttribute('lang', 'fr');
+  expect(document.documentElement.lang).not.toBe('fr');
+});
+
+test('settles when the host callback throws', async () => {
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+  const onResult = jest.fn(() => {
+    throw new Error('host bug');
+  });
+  render(<StrengthWidget password="password" debounceMs={0} onResult={onResult} />);
+
+  await waitFor(() => expect(console.error).toHaveBeenCalledWith('Error reporting the strength verdict:', expect.any(Error)));
+  expect(screen.getByTestId('strength-widget')).toHaveAttribute('aria-busy', 'false');
+  expect(screen.getByTestId('strength-meter')).toHaveTextContent('Weak');
+});
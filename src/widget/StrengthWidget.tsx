@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { XCircle } from 'lucide-react';
+import { AnalysisResult, PasswordPolicy } from '../types';
+import { createApiClient } from '../api/client';
+import { analyzeLocally } from '../lib/localAnalyzer';
+import { checkPolicy, evidenceFromResult, isCompliant, PolicyCheck } from '../lib/policy';
+import { summarizeResult } from '../lib/findings';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { FixedLocaleProvider, useI18n } from '../i18n/I18nProvider';
+import { DEFAULT_LOCALE, Locale, localeDir } from '../i18n';
+import StrengthMeter from '../components/StrengthMeter';
+
+export type WidgetTheme = 'light' | 'dark';
+
+// What the host form gets back after each analysis
+export interface StrengthVerdict {
+  result: AnalysisResult;
+  // Empty when no policy was given
+  checks: PolicyCheck[];
+  compliant: boolean;
+}
+
+export interface StrengthWidgetProps {
+  password: string;
+  // Analysis API; without one the password is only estimated in the browser
+  apiUrl?: string;
+  policy?: PasswordPolicy;
+  locale?: Locale;
+  theme?: WidgetTheme;
+  maxSuggestions?: number;
+  debounceMs?: number;
+  onResult?: (verdict: StrengthVerdict) => void;
+}
+
+export const DEFAULT_MAX_SUGGESTIONS = 3;
+export const DEFAULT_DEBOUNCE_MS = 300;
+
+const THEMES: Record<WidgetTheme, string> = {
+  light: 'bg-white text-gray-900 border-gray-200',
+  dark: 'dark bg-gray-900 text-gray-100 border-gray-700'
+};
+
+// Network and server failures fall back to the browser estimate, as the app does offline
+const analyzeWith = async (apiUrl: string | undefined, password: string, signal: AbortSignal): Promise<AnalysisResult> => {
+  if (!apiUrl) return analyzeLocally(password);
+  const response = await createApiClient({ baseUrl: apiUrl.replace(/\/+$/, '') }).analyze(password, { signal });
+  return response.ok ? { ...response.data, source: 'models', breach_check: 'server' } : analyzeLocally(password);
+};
+
+const Verdict: React.FC<{ verdict: StrengthVerdict; maxSuggestions: number }> = ({ verdict, maxSuggestions }) => {
+  const { locale, t, guidance, policyCheck } = useI18n();
+  const { result, checks } = verdict;
+  const suggestions = (result.suggestion_details?.map(guidance) ?? result.suggestions).slice(0, maxSuggestions);
+  const failed = checks.filter(check => check.status === 'fail');
+
+  return (
+    <>
+      <StrengthMeter result={result} />
+      <span className="sr-only" role="status">{summarizeResult(result, locale)}</span>
+
+      {failed.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm" data-testid="widget-policy">
+          {failed.map(check => (
+            <li key={check.rule} className="flex items-start gap-2 text-red-700 dark:text-red-400">
+              <XCircle className="w-4 h-4 flex-shrink-0 mt-0.5" aria-hidden="true" />
+              {policyCheck(check).label}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="mt-3">
+          <p className="text-sm font-medium">{t('results.recommendations')}</p>
+          <ul className="mt-1 space-y-1 text-sm text-gray-600 dark:text-gray-300 list-disc ps-5">
+            {suggestions.map((suggestion, i) => <li key={i}>{suggestion}</li>)}
+          </ul>
+        </div>
+      )}
+    </>
+  );
+};
+
+const AnalyzingNote: React.FC = () => {
+  const { t } = useI18n();
+  return <p className="text-sm text-gray-500 dark:text-gray-400">{t('analyze.analyzing')}</p>;
+};
+
+// Strength verdict for a password typed elsewhere, e.g. in a signup form: consensus badge,
+// entropy bar and the top suggestions. Renders nothing while the password is empty.
+const StrengthWidget: React.FC<StrengthWidgetProps> = ({
+  password,
+  apiUrl,
+  policy,
+  locale = DEFAULT_LOCALE,
+  theme = 'light',
+  maxSuggestions = DEFAULT_MAX_SUGGESTIONS,
+  debounceMs = DEFAULT_DEBOUNCE_MS,
+  onResult
+}) => {
+  const debounced = useDebouncedValue(password, debounceMs);
+  const [verdict, setVerdict] = useState<StrengthVerdict | null>(null);
+  const [analyzing, setAnalyzing] = useState<boolean>(false);
+
+  // Kept in a ref so an inline callback does not restart the analysis on every render
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  // Compared by value: callers often build the policy object inline on every render
+  const policyKey = useMemo(() => JSON.stringify(policy ?? null), [policy]);
+
+  useEffect(() => {
+    if (!debounced) {
+      setVerdict(null);
+      return;
+    }
+    const rules: PasswordPolicy | null = JSON.parse(policyKey);
+    const controller = new AbortController();
+    setAnalyzing(true);
+    analyzeWith(apiUrl, debounced, controller.signal)
+      .catch(error => {
+        console.error('Error analyzing password, falling back to the browser estimate:', error);
+        return analyzeLocally(debounced);
+      })
+      .then(result => {
+        if (controller.signal.aborted) return;
+        const checks = rules ? checkPolicy(debounced, rules, evidenceFromResult(result)) : [];
+        const next = { result, checks, compliant: isCompliant(checks) };
+        setVerdict(next);
+        setAnalyzing(false);
+        onResultRef.current?.(next);
+      })
+      // Also catches a throwing onResult from the host page
+      .catch(error => {
+        console.error('Error reporting the strength verdict:', error);
+        if (!controller.signal.aborted) setAnalyzing(false);
+      });
+    return () => controller.abort();
+  }, [debounced, apiUrl, policyKey]);
+
+  if (!password) return null;
+
+  return (
+    <FixedLocaleProvider locale={locale}>
+      <div
+        dir={localeDir(locale)}
+        lang={locale}
+        className={`p-4 rounded-xl border ${THEMES[theme]}`}
+        aria-busy={analyzing}
+        data-testid="strength-widget"
+      >
+        {verdict ? <Verdict verdict={verdict} maxSuggestions={maxSuggestions} /> : <AnalyzingNote />}
+      </div>
+    </FixedLocaleProvider>
+  );
+};
+
+export default StrengthWidget;
@@ -0,0 +1,51 @@
+import { act, fireEvent, screen, waitFor } from '@testing-library/react';
+import { defineStrengthMeter, ELEMENT_NAME, getStrengthMeterElement, PasswordStrengthMeterElement, RESULT_EVENT } from './element';
+import { StrengthVerdict } from './StrengthWidget';
+
+beforeAll(() => {
+  defineStrengthMeter();
+});
+
+afterEach(() => {
+  document.body.innerHTML = '';
+});
+
+const mount = async (attributes: Record<string, string>, before: string = ''): Promise<PasswordStrengthMeterElement> => {
+  const element = document.createElement(ELEMENT_NAME) as PasswordStrengthMeterElement;
+  Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+  await act(async () => {
+    document.body.innerHTML = before;
+    document.body.append(element);
+  });
+  return element;
+};
+
+test('registers the element only once', () => {
+  expect(() => defineStrengthMeter()).not.toThrow();
+  expect(customElements.get(ELEMENT_NAME)).toBe(getStrengthMeterElement());
+});
+
+test('follows the input named by `for` and dispatches each verdict', async () => {
+  const element = await mount({ for: 'pw', locale: 'fr' }, '<input id="pw" type="password" aria-label="Password">');
+  const verdicts: StrengthVerdict[] = [];
+  element.addEventListener(RESULT_EVENT, event => verdicts.push((event as CustomEvent<StrengthVerdict>).detail));
+
+  fireEvent.input(screen.getByLabelText('Password'), { target: { value: 'password' } });
+
+  expect(await screen.findByTestId('strength-meter')).toHaveTextContent('Faible');
+  await waitFor(() => expect(verdicts).toHaveLength(1));
+  expect(verdicts[0].result.password).toBe('password');
+  expect(element.password).toBe('password');
+});
+
+test('takes the password and policy as properties or attributes', async () => {
+  const element = await mount({ theme: 'dark', policy: '{"min_length": 20}' });
+  expect(element.policy?.min_length).toBe(20);
+
+  await act(async () => {
+    element.password = 'correct horse';
+  });
+
+  expect(await screen.findByTestId('widget-policy')).toHaveTextContent('At least 20 characters');
+  expect(screen.getByTestId('strength-widget')).toHaveClass('dark');
+});
@@ -0,0 +1,146 @@
+import React from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { PasswordPolicy } from '../types';
+import { parsePolicy } from '../lib/policy';
+import { DEFAULT_LOCALE, isLocale } from '../i18n';
+import StrengthWidget, { StrengthVerdict, WidgetTheme } from './StrengthWidget';
+
+export const ELEMENT_NAME = 'password-strength-meter';
+
+// Fired on the element after each analysis, with the verdict as `detail`
+export const RESULT_EVENT = 'strength-result';
+
+// <password-strength-meter for="password" api-url="https://..." locale="fr" theme="dark">
+//
+// The password comes from the input named by `for` or from the `password` property;
+// `policy` takes the JSON exported by the policy editor. Works in any framework, or none.
+export interface PasswordStrengthMeterElement extends HTMLElement {
+  password: string;
+  // Set as a property to skip the JSON round trip; the `policy` attribute overrides it when changed
+  policy: PasswordPolicy | undefined;
+}
+
+// The class extends HTMLElement, which only exists in browsers, so it is created on first
+// use: importing the library in Node or during server rendering must not throw
+const createElementClass = (): new () => PasswordStrengthMeterElement =>
+  class extends HTMLElement implements PasswordStrengthMeterElement {
+    static observedAttributes = ['for', 'api-url', 'locale', 'theme', 'policy', 'max-suggestions'];
+
+    private root: Root | null = null;
+    private unmountTimer?: ReturnType<typeof setTimeout>;
+    private input: HTMLInputElement | null = null;
+    private value = '';
+    private policyValue: PasswordPolicy | undefined;
+
+    get password(): string {
+      return this.value;
+    }
+
+    set password(password: string) {
+      this.value = password;
+      this.render();
+    }
+
+    get policy(): PasswordPolicy | undefined {
+      return this.policyValue;
+    }
+
+    set policy(policy: PasswordPolicy | undefined) {
+      this.policyValue = policy;
+      this.render();
+    }
+
+    connectedCallback(): void {
+      // Moving the element fires disconnect then connect; the root survives the move
+      clearTimeout(this.unmountTimer);
+      this.root = this.root || createRoot(this);
+      this.bindInput();
+      this.render();
+      // An element placed above its input is connected before the input is parsed
+      if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', () => {
+          this.bindInput();
+          this.render();
+        }, { once: true });
+      }
+    }
+
+    disconnectedCallback(): void {
+      this.unbindInput();
+      // Unmounting during React's own commit is not allowed, so it waits a tick
+      this.unmountTimer = setTimeout(() => {
+        this.root?.unmount();
+        this.root = null;
+      });
+    }
+
+    attributeChangedCallback(name: string): void {
+      if (name === 'for') this.bindInput();
+      if (name === 'policy') this.policyValue = this.parsePolicyAttribute();
+      this.render();
+    }
+
+    private onInput = (event: Event): void => {
+      this.password = (event.target as HTMLInputElement).value;
+    };
+
+    private bindInput(): void {
+      this.unbindInput();
+      const id = this.getAttribute('for');
+      const target = id && this.isConnected ? document.getElementById(id) : null;
+      if (!(target instanceof HTMLInputElement)) return;
+      this.input = target;
+      target.addEventListener('input', this.onInput);
+      this.value = target.value;
+    }
+
+    private unbindInput(): void {
+      this.input?.removeEventListener('input', this.onInput);
+      this.input = null;
+    }
+
+    private parsePolicyAttribute(): PasswordPolicy | undefined {
+      const json = this.getAttribute('policy');
+      if (!json) return undefined;
+      try {
+        return parsePolicy(json);
+      } catch (error) {
+        console.error(`<${ELEMENT_NAME}> ignored an invalid policy attribute:`, error);
+        return undefined;
+      }
+    }
+
+    private onResult = (verdict: StrengthVerdict): void => {
+      this.dispatchEvent(new CustomEvent<StrengthVerdict>(RESULT_EVENT, { detail: verdict, bubbles: true }));
+    };
+
+    private render(): void {
+      if (!this.root) return;
+      const locale = this.getAttribute('locale');
+      const theme: WidgetTheme = this.getAttribute('theme') === 'dark' ? 'dark' : 'light';
+      const maxSuggestions = Number(this.getAttribute('max-suggestions'));
+      this.root.render(
+        <StrengthWidget
+          password={this.value}
+          apiUrl={this.getAttribute('api-url') || undefined}
+          policy={this.policyValue}
+          locale={isLocale(locale) ? locale : DEFAULT_LOCALE}
+          theme={theme}
+          maxSuggestions={maxSuggestions > 0 ? maxSuggestions : undefined}
+          onResult={this.onResult}
+        />
+      );
+    }
+  };
+
+let elementClass: (new () => PasswordStrengthMeterElement) | undefined;
+
+export const getStrengthMeterElement = (): new () => PasswordStrengthMeterElement => {
+  elementClass = elementClass || createElementClass();
+  return elementClass;
+};
+
+// Registers the element once; safe to call from several bundles on the same page
+export const defineStrengthMeter = (name: string = ELEMENT_NAME): void => {
+  if (!customElements.get(name)) customElements.define(name, getStrengthMeterElement());
+};
@@ -0,0 +1,11 @@
+/**
+ * @jest-environment node
+ */
+import { getStrengthMeterElement, StrengthWidget } from '.';
+
+// Server rendering and plain Node have no DOM; importing the library must still work there
+test('loads without a DOM', () => {
+  expect(typeof HTMLElement).toBe('undefined');
+  expect(StrengthWidget).toBeDefined();
+  expect(() => getStrengthMeterElement()).toThrow(ReferenceError);
+});
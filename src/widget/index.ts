@@ -0,0 +1,12 @@
+// Entry point of the embeddable strength-meter library (npm run build:lib)
+
+export { default as StrengthWidget, DEFAULT_DEBOUNCE_MS, DEFAULT_MAX_SUGGESTIONS } from './StrengthWidget';
+export type { StrengthVerdict, StrengthWidgetProps, WidgetTheme } from './StrengthWidget';
+export { defineStrengthMeter, ELEMENT_NAME, getStrengthMeterElement, RESULT_EVENT } from './element';
+export type { PasswordStrengthMeterElement } from './element';
+export { StrengthBadge, getStrengthColor, getStrengthIcon, getStrengthRank, STRENGTH_LEVELS } from '../components/strength';
+export { DEFAULT_POLICY, parsePolicy } from '../lib/policy';
+export type { PolicyCheck, PolicyStatus } from '../lib/policy';
+export { LOCALES } from '../i18n';
+export type { Locale } from '../i18n';
+export type { AnalysisResult, AnalysisWarning, GuidanceMessage, PasswordPolicy, PatternFinding, PatternKind } from '../types';
@@ -0,0 +1,3 @@
+// Kept apart from scanVault.ts: Jest cannot parse `import.meta`, so this module is
+// only loaded, lazily, where Web Workers exist.
+export const createVaultScanWorker = (): Worker => new Worker(new URL('./vaultScan.worker.ts', import.meta.url));
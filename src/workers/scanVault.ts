@@ -0,0 +1,25 @@
+import { handleScanRequest, VaultScan, VaultScanRequest, VaultScanResponse } from '../lib/vaultScan';
+import { VaultImportError } from '../lib/vaultImport';
+
+const runInWorker = async (request: VaultScanRequest): Promise<VaultScanResponse> => {
+  const { createVaultScanWorker } = await import('./createVaultScanWorker');
+  const worker = createVaultScanWorker();
+  try {
+    return await new Promise<VaultScanResponse>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<VaultScanResponse>) => resolve(event.data);
+      worker.onerror = event => reject(new Error(event.message));
+      worker.postMessage(request);
+    });
+  } finally {
+    worker.terminate();
+  }
+};
+
+// Parses a password manager export and finds reuse off the main thread. Where Web
+// Workers are unavailable (tests, very old browsers) the scan runs in place.
+export const scanVault = async (text: string): Promise<VaultScan> => {
+  const request = { text };
+  const response = typeof Worker === 'undefined' ? handleScanRequest(request) : await runInWorker(request);
+  if (!response.ok) throw new VaultImportError(response.code, response.error);
+  return response.scan;
+};
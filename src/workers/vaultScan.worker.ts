@@ -0,0 +1,7 @@
+/// <reference lib="webworker" />
+import { handleScanRequest, VaultScanRequest } from '../lib/vaultScan';
+
+// The worker's own global scope; the app's DOM typings describe a window instead
+declare const self: DedicatedWorkerGlobalScope;
+
+self.onmessage = (event: MessageEvent<VaultScanRequest>) => self.postMessage(handleScanRequest(event.data));
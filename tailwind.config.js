@@ -4,6 +4,8 @@ module.exports = {
     "./src/**/*.{js,jsx,ts,tsx}",
     "./public/index.html"
   ],
+  // Dark styles apply under a .dark ancestor, set by the embeddable widget's theme prop
+  darkMode: 'class',
   theme: {
     extend: {
       colors: {
@@ -0,0 +1,13 @@
+// Tailwind build for the embeddable widget: only the classes its components use
+/** @type {import('tailwindcss').Config} */
+module.exports = {
+  presets: [require('./tailwind.config.js')],
+  content: [
+    './src/widget/**/*.{ts,tsx}',
+    './src/components/strength.tsx',
+    './src/components/StrengthMeter.tsx'
+  ],
+  corePlugins: {
+    preflight: false
+  }
+};